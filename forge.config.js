@@ -43,10 +43,14 @@ module.exports = {
     ],
     // Unpack native modules that need to be accessible at runtime
     asarUnpack: [
-      "**/node_modules/sqlite3/**/*",
+      "**/node_modules/@journeyapps/sqlcipher/**/*",
       "**/node_modules/@google/generative-ai/**/*",
       "**/node_modules/screenshot-desktop/**/*",
       "**/node_modules/node-notifier/**/*",
+      // OCR worker thread, wasm core and bundled English model
+      "**/node_modules/tesseract.js/**/*",
+      "**/node_modules/tesseract.js-core/**/*",
+      "**/node_modules/@tesseract.js-data/**/*",
     ],
     // Only include essential production dependencies
     prune: true,
@@ -59,7 +63,11 @@ module.exports = {
     // Rebuild native modules for the target platform
     force: true,
     types: ["prod", "optional"],
-    onlyModules: ["sqlite3", "screenshot-desktop", "node-notifier"],
+    onlyModules: [
+      "@journeyapps/sqlcipher",
+      "screenshot-desktop",
+      "node-notifier",
+    ],
   },
   makers: [
     {
@@ -33,16 +33,23 @@ module.exports = {
       /^\/\.env$/,
     ],
     asarUnpack: [
-      "**/node_modules/sqlite3/**/*",
+      "**/node_modules/@journeyapps/sqlcipher/**/*",
       "**/node_modules/@google/generative-ai/**/*",
       "**/node_modules/screenshot-desktop/**/*",
       "**/node_modules/node-notifier/**/*",
+      "**/node_modules/tesseract.js/**/*",
+      "**/node_modules/tesseract.js-core/**/*",
+      "**/node_modules/@tesseract.js-data/**/*",
     ],
   },
   rebuildConfig: {
     force: true,
     types: ["prod", "optional"],
-    onlyModules: ["sqlite3", "screenshot-desktop", "node-notifier"],
+    onlyModules: [
+      "@journeyapps/sqlcipher",
+      "screenshot-desktop",
+      "node-notifier",
+    ],
   },
   makers: [
     {
@@ -11,29 +11,79 @@ import {
   Tray,
   Menu,
   desktopCapturer,
+  powerMonitor,
 } from "electron";
 import * as path from "path";
 import * as os from "os";
 import { pathToFileURL } from "url";
 import { promises as fs } from "fs";
-import { GoogleGenerativeAI } from "@google/generative-ai";
 import {
   databaseManager,
   Conversation,
   UserProfile,
   DatingInsight,
+  RetentionPolicy,
+  HistoryItem,
+  HistoryQuery,
 } from "./src/database";
+import { DatabaseKeyStore } from "./src/database/databaseKeyStore";
 import {
   ConversationAnalyzer,
   MessageAnalysis,
   ConversationMetrics,
   DatingAdvice,
 } from "./src/analysis/conversationAnalyzer";
-import { UniversalAI } from "./src/ai/universalAI";
-import { apiKeyManager } from "./src/config/apiKeyManager";
+import {
+  UniversalAI,
+  AIConfig,
+  AIRequestError,
+  BudgetExceededError,
+} from "./src/ai/universalAI";
+import { StructuredOutputError } from "./src/ai/structuredOutput";
+import {
+  SMART_REPLIES_TASK,
+  TRUST_ANALYSIS_TASK,
+} from "./src/ai/structuredTasks";
+import { apiKeyManager, ProviderName } from "./src/config/apiKeyManager";
+import { usageTracker, UsageBudgets } from "./src/ai/usageTracker";
 import { LearningEngine } from "./src/analysis/learningEngine";
 import { SafetyEngine, SafetyAlert } from "./src/safety/safetyEngine";
+import { extractClaimedFacts } from "./src/safety/claimedFacts";
+import { extractFinancialIdentifiers } from "./src/safety/financialIdentifiers";
+import {
+  DateCheckInScheduler,
+  DatePlan,
+  DateSafetySettings,
+  buildEscalationPayload,
+  sendEscalation,
+  validateEscalationChannel,
+} from "./src/safety/dateCheckIn";
 import { AiSafetyAnalyzer } from "./src/safety/aiSafetyAnalyzer";
+import {
+  PrivacySafetyEngine,
+  DraftContext,
+  RelationshipStage,
+  RELATIONSHIP_STAGES,
+} from "./src/safety/privacySafetyEngine";
+import { SafeImageProcessor } from "./src/utils/safeImageProcessor";
+import {
+  safetyRules,
+  validateRule,
+  SafetyRule,
+  SafetyRuleCategory,
+  SafetyRuleSettings,
+} from "./src/safety/rules";
+import {
+  VerificationPipeline,
+  VerificationRequest,
+  VerificationMessage,
+} from "./src/verification/verificationPipeline";
+import { ChatImporter, ChatImportOptions } from "./src/import/chatImporter";
+import {
+  BackupManager,
+  BACKUP_FILE_EXTENSION,
+} from "./src/backup/backupManager";
+import { ScreenshotOcr, OcrRegion } from "./src/ocr/screenshotOcr";
 const chokidar = require("chokidar");
 const clipboardy = require("clipboardy");
 const notifier = require("node-notifier");
@@ -41,51 +91,41 @@ const screenshot = require("screenshot-desktop");
 const prepareNext = require("electron-next");
 
 let mainWindow: BrowserWindow | null;
+let aiClient: UniversalAI | null = null;
 let conversationAnalyzer: ConversationAnalyzer | null = null;
 let learningEngine: LearningEngine | null = null;
 let safetyEngine: SafetyEngine | null = null;
 let aiSafetyAnalyzer: AiSafetyAnalyzer | null = null;
+// The photo, profile and conversation checks work without an API key;
+// initializeAI attaches the client once one is configured
+const verificationPipeline = new VerificationPipeline(new SafetyEngine());
+let screenshotOcr: ScreenshotOcr | null = null;
+let lastScreenshot: Buffer | null = null;
 let appOpacity: number = 0.85; // Default opacity is 85%
+const databaseKeyStore = new DatabaseKeyStore();
+const privacySafetyEngine = new PrivacySafetyEngine();
+let idleLockTimer: NodeJS.Timeout | null = null;
+const IDLE_CHECK_INTERVAL_MS = 30 * 1000;
+const RETENTION_INTERVAL_MS = 60 * 60 * 1000;
 
-// Rate limiting and caching for API calls - DISABLED for full functionality
-let lastApiCall = 0;
-let apiCallCount = 0;
-let dailyApiCallCount = 0;
-let lastResetDate = new Date().toDateString();
-const MIN_API_INTERVAL = 0; // No rate limiting - allow immediate API calls
-const MAX_DAILY_CALLS = 1000; // Very high limit to effectively disable daily restrictions
+// Caching for API calls; spending limits are enforced by usageTracker
 const replyCache = new Map<string, any>(); // Cache responses for repeated messages
 
 // Debounce mechanism to prevent UI spam and multiple API calls for same message - DISABLED
 const activeRequests = new Map<string, Promise<any>>();
 // Removed: processedMessages, messageProcessingTimeout, lastManualCheck (no longer needed for rate limiting)
 
-// Function to check if we can make an API call - ALWAYS RETURN TRUE
-function canMakeApiCall(): boolean {
-  const now = Date.now();
-  const today = new Date().toDateString();
-
-  // Reset daily count if it's a new day (for tracking purposes only)
-  if (today !== lastResetDate) {
-    dailyApiCallCount = 0;
-    lastResetDate = today;
-    console.log(`📅 New day: Reset API counter to 0 (rate limiting disabled)`);
-  }
-
-  console.log(
-    `✅ API call always allowed: ${dailyApiCallCount} calls made today (no limits)`
-  );
-  return true; // Always allow API calls
-}
-
-// Function to record an API call - tracking only, no restrictions
-function recordApiCall() {
-  lastApiCall = Date.now();
-  apiCallCount++;
-  dailyApiCallCount++;
-  console.log(
-    `API Call recorded. Daily: ${dailyApiCallCount} (unlimited), Total: ${apiCallCount}`
-  );
+// Today's call count and whether the user's budgets allow the selected provider
+async function getApiUsageSnapshot() {
+  const provider = await apiKeyManager.getCurrentProvider();
+  const { today, budgets } = await usageTracker.getSummary(1);
+  const budget = await usageTracker.checkBudget(provider);
+  return {
+    dailyUsed: today.calls,
+    dailyLimit: budgets.dailyCalls || 0,
+    canMakeCall: budget.allowed,
+    budgetMessage: budget.reason,
+  };
 }
 
 // Function to get cached response or generate hash for caching
@@ -156,30 +196,340 @@ async function loadOpacitySetting(): Promise<number> {
   }
 }
 
+async function saveRetentionPolicy(policy: RetentionPolicy) {
+  try {
+    const settingsPath = path.join(app.getPath("userData"), "settings.json");
+    let settings = {};
+
+    try {
+      settings = JSON.parse(await fs.readFile(settingsPath, "utf8"));
+    } catch (err) {
+      // File doesn't exist yet or is invalid, use empty settings
+    }
+
+    settings = { ...settings, retention: policy };
+    await fs.writeFile(settingsPath, JSON.stringify(settings));
+  } catch (error) {
+    console.error("Error saving retention policy:", error);
+  }
+}
+
+async function loadRetentionPolicy(): Promise<RetentionPolicy> {
+  try {
+    const settingsPath = path.join(app.getPath("userData"), "settings.json");
+    const settings = JSON.parse(await fs.readFile(settingsPath, "utf8"));
+    return settings.retention || {};
+  } catch (error) {
+    // No retention rules until the user sets some
+    return {};
+  }
+}
+
+async function saveSafetyRuleSettings(ruleSettings: SafetyRuleSettings) {
+  try {
+    const settingsPath = path.join(app.getPath("userData"), "settings.json");
+    let settings = {};
+
+    try {
+      settings = JSON.parse(await fs.readFile(settingsPath, "utf8"));
+    } catch (err) {
+      // File doesn't exist yet or is invalid, use empty settings
+    }
+
+    settings = { ...settings, safetyRules: ruleSettings };
+    await fs.writeFile(settingsPath, JSON.stringify(settings));
+    safetyRules.configure(ruleSettings);
+  } catch (error) {
+    console.error("Error saving safety rule settings:", error);
+    throw error;
+  }
+}
+
+async function loadSafetyRuleSettings(): Promise<SafetyRuleSettings> {
+  try {
+    const settingsPath = path.join(app.getPath("userData"), "settings.json");
+    const settings = JSON.parse(await fs.readFile(settingsPath, "utf8"));
+    return settings.safetyRules || {};
+  } catch (error) {
+    // Every bundled rule on and no custom rules until the user changes them
+    return {};
+  }
+}
+
+async function saveDateSafetySettings(dateSafety: DateSafetySettings) {
+  try {
+    const settingsPath = path.join(app.getPath("userData"), "settings.json");
+    let settings = {};
+
+    try {
+      settings = JSON.parse(await fs.readFile(settingsPath, "utf8"));
+    } catch (err) {
+      // File doesn't exist yet or is invalid, use empty settings
+    }
+
+    settings = { ...settings, dateSafety };
+    await fs.writeFile(settingsPath, JSON.stringify(settings));
+  } catch (error) {
+    console.error("Error saving date safety settings:", error);
+    throw error;
+  }
+}
+
+async function loadDateSafetySettings(): Promise<DateSafetySettings> {
+  try {
+    const settingsPath = path.join(app.getPath("userData"), "settings.json");
+    const settings = JSON.parse(await fs.readFile(settingsPath, "utf8"));
+    return settings.dateSafety || {};
+  } catch (error) {
+    // No escalation channel until the user sets one
+    return {};
+  }
+}
+
+// Sends a date plan to the trusted contact's channel, describing the match
+// from their conversation when the database is open. False when no channel
+// is set.
+async function escalateDatePlan(
+  plan: DatePlan,
+  kind: "missed_check_in" | "all_clear"
+): Promise<boolean> {
+  const settings = await loadDateSafetySettings();
+  if (!settings.channel) return false;
+  const conversation =
+    plan.conversation_id && databaseManager.isUnlocked()
+      ? await databaseManager.getConversation(plan.conversation_id)
+      : null;
+  const sent = await sendEscalation(
+    settings.channel,
+    buildEscalationPayload(plan, kind, conversation, settings),
+    (url) => shell.openExternal(url)
+  );
+  console.log(`Date check-in ${kind}: ${sent}`);
+  return true;
+}
+
+// Keeps running while the app is locked; saves wait for the next unlock
+const dateCheckIns = new DateCheckInScheduler({
+  onPrompt: (plan, loud) => {
+    notifier.notify({
+      title: loud ? "🚨 Missed Check-In" : "⏰ Date Check-In",
+      message: loud
+        ? `Check in on your date with ${plan.who}, or your trusted contact will be alerted`
+        : `How's it going with ${plan.who}? Open the app to check in`,
+      sound: true,
+      wait: false,
+    });
+    if (mainWindow) {
+      if (loud) {
+        mainWindow.show();
+        mainWindow.flashFrame(true);
+        app.dock?.bounce("critical");
+      }
+      mainWindow.webContents.send("date-check-in-due", {
+        planId: plan.id,
+        loud,
+      });
+    }
+  },
+  onEscalate: async (plan) => {
+    if (!(await escalateDatePlan(plan, "missed_check_in"))) return false;
+    notifier.notify({
+      title: "🚨 Trusted Contact Alerted",
+      message: `You missed a check-in on your date with ${plan.who}. Check in to send an all clear.`,
+      sound: true,
+      wait: false,
+    });
+    return true;
+  },
+  onAllClear: (plan) =>
+    escalateDatePlan(plan, "all_clear").then(
+      () => undefined,
+      (error) => console.error("Failed to send date all clear:", error)
+    ),
+  onChange: (plan) => {
+    databaseManager
+      .saveDatePlan({ ...plan })
+      .catch((error) => console.error("Failed to save date plan:", error));
+    mainWindow?.webContents.send("date-plan-updated", plan);
+  },
+});
+
+async function restoreDatePlans() {
+  try {
+    dateCheckIns.restore(await databaseManager.getActiveDatePlans());
+  } catch (error) {
+    console.error("Failed to restore date plans:", error);
+  }
+}
+
+// Runs after every unlock and hourly while unlocked; a locked database is
+// caught up on at the next unlock
+async function enforceRetentionPolicy() {
+  if (!databaseManager.isUnlocked()) return;
+  try {
+    const result = await databaseManager.applyRetentionPolicy(
+      await loadRetentionPolicy()
+    );
+    if (result.deletedConversations) await learningEngine?.reload();
+    if (result.deletedConversations || result.purgedMessages) {
+      console.log(
+        `Retention: deleted ${result.deletedConversations} conversation(s), purged text of ${result.purgedMessages} message(s)`
+      );
+    }
+  } catch (error) {
+    console.error("Failed to apply retention policy:", error);
+  }
+}
+
+// The stage saved for the contact (the furthest of their threads) unless the
+// user picked one, and how long ago the first of their messages arrived
+async function resolveDraftContext(
+  contactId?: string,
+  stage?: RelationshipStage
+): Promise<DraftContext> {
+  const threads = contactId
+    ? await databaseManager.getContactConversations(contactId)
+    : [];
+  const saved = threads.reduce<RelationshipStage>(
+    (furthest, thread) =>
+      RELATIONSHIP_STAGES.indexOf(thread.relationship_stage) >
+      RELATIONSHIP_STAGES.indexOf(furthest)
+        ? thread.relationship_stage
+        : furthest,
+    "initial"
+  );
+  const firstInteraction = Math.min(
+    ...threads.map((thread) => thread.first_interaction)
+  );
+  return {
+    stage: stage || saved,
+    daysKnown: threads.length
+      ? (Date.now() - firstInteraction) / (24 * 60 * 60 * 1000)
+      : undefined,
+  };
+}
+
+// Recomputes a person's trust score over all of their conversations, for
+// when merge or split changes which messages belong to them
+async function rescoreContact(contactId: string) {
+  if (!safetyEngine) return;
+  const timeline = await databaseManager.getContactTimeline(contactId);
+  if (!timeline) return;
+  const analysis = await safetyEngine.analyzeSafety(timeline);
+  await databaseManager.setContactTrustScore(
+    contactId,
+    analysis.overall_safety_score
+  );
+}
+
+// The primary provider's other saved keys first, so a revoked or
+// rate-limited key rotates to the next one, then the fallback providers the
+// user ordered in Settings, skipping any that lost their key since
+async function buildFallbackChain(primary: string): Promise<AIConfig[]> {
+  const configured = await apiKeyManager.getConfiguredProviders();
+  const primaryCfg = await apiKeyManager.getProviderConfig(primary as any);
+  const chain: AIConfig[] = (
+    await apiKeyManager.getAlternateApiKeys(primary as ProviderName)
+  ).map((apiKey) => ({
+    provider: primaryCfg.provider,
+    apiKey,
+    model: primaryCfg.model,
+    endpoint: primaryCfg.endpoint,
+  }));
+  for (const provider of await apiKeyManager.getFallbackProviders()) {
+    if (provider === primary || !configured.includes(provider)) continue;
+    const providerCfg = await apiKeyManager.getProviderConfig(provider);
+    chain.push({
+      provider,
+      apiKey: (await apiKeyManager.getApiKey(provider)) || "",
+      model: providerCfg.model,
+      endpoint: providerCfg.endpoint,
+    });
+  }
+  return chain;
+}
+
+// Without a passphrase the database key sits in the OS keychain, so the app
+// opens straight away; with one, the renderer's lock screen unlocks it
+async function unlockDatabaseFromKeychain() {
+  try {
+    const key = await databaseKeyStore.getKeychainKey();
+    if (!key) return;
+    await databaseManager.unlock(key);
+    await enforceRetentionPolicy();
+    await restoreDatePlans();
+  } catch (error: any) {
+    console.error("Failed to unlock database from keychain:", error);
+    // A lost or damaged key file leaves the database unreadable; say so
+    // rather than opening to an app that can't load anything
+    dialog.showErrorBox("Couldn't open your conversations", error.message);
+  }
+}
+
+async function lockApp() {
+  if ((await databaseKeyStore.getScheme()) !== "passphrase") return;
+  await databaseManager.lock();
+  mainWindow?.webContents.send("app-locked");
+}
+
+// Locks after the configured minutes of system idle time, and whenever the
+// OS screen locks, but only once a passphrase can unlock it again
+async function scheduleIdleLock() {
+  if (idleLockTimer) clearInterval(idleLockTimer);
+  idleLockTimer = null;
+
+  const status = await databaseKeyStore.getStatus(
+    !databaseManager.isUnlocked()
+  );
+  if (status.scheme !== "passphrase" || status.idleLockMinutes <= 0) return;
+
+  idleLockTimer = setInterval(() => {
+    const idleSeconds = powerMonitor.getSystemIdleTime();
+    if (
+      databaseManager.isUnlocked() &&
+      idleSeconds >= status.idleLockMinutes * 60
+    ) {
+      lockApp();
+    }
+  }, IDLE_CHECK_INTERVAL_MS);
+}
+
 // Initialize AI engines
 async function initializeAI() {
-  const apiKey = await apiKeyManager.getApiKey(); // Use user's API key instead of env variable
-  if (apiKey) {
-    conversationAnalyzer = new ConversationAnalyzer(apiKey);
-    learningEngine = new LearningEngine();
-    safetyEngine = new SafetyEngine(apiKey);
-    const providerCfg = await apiKeyManager.getProviderConfig();
-    const apiKeyForProvider = await apiKeyManager.getApiKey(
-      providerCfg.provider as any
+  const providerCfg = await apiKeyManager.getProviderConfig();
+  const apiKey = await apiKeyManager.getApiKey(providerCfg.provider as any);
+  if (apiKey || !apiKeyManager.requiresApiKey(providerCfg.provider)) {
+    // One client for every feature so the provider/model chosen in Settings
+    // is honored everywhere
+    aiClient = new UniversalAI(
+      {
+        provider: providerCfg.provider,
+        apiKey: apiKey || "",
+        model: providerCfg.model,
+        endpoint: providerCfg.endpoint,
+        fallbacks: await buildFallbackChain(providerCfg.provider),
+      },
+      usageTracker
     );
-    aiSafetyAnalyzer = new AiSafetyAnalyzer();
-    if (apiKeyForProvider) {
-      aiSafetyAnalyzer.initialize(
-        new UniversalAI({
-          provider: providerCfg.provider,
-          apiKey: apiKeyForProvider,
-          model: providerCfg.model,
-          endpoint: providerCfg.endpoint,
-        })
+    conversationAnalyzer = new ConversationAnalyzer(aiClient);
+    learningEngine = new LearningEngine();
+    // Replays stored advice feedback once the database is unlocked
+    learningEngine
+      .reload()
+      .catch((error) =>
+        console.error("Failed to rebuild learned strategies:", error)
       );
-    }
+    safetyEngine = new SafetyEngine(aiClient);
+    verificationPipeline.setAIClient(aiClient);
+    aiSafetyAnalyzer = new AiSafetyAnalyzer();
+    aiSafetyAnalyzer.initialize(aiClient);
 
-    console.log("✅ AI engines initialized successfully");
+    console.log(
+      `✅ AI engines initialized successfully (${aiClient.getProvider()} / ${aiClient.getModel()})`
+    );
+  } else {
+    aiClient = null;
+    verificationPipeline.setAIClient(undefined);
   }
 }
 
@@ -192,6 +542,15 @@ async function createWindow() {
   // Load saved opacity setting
   appOpacity = await loadOpacitySetting();
 
+  await unlockDatabaseFromKeychain();
+  await scheduleIdleLock();
+  setInterval(enforceRetentionPolicy, RETENTION_INTERVAL_MS);
+  powerMonitor.on("lock-screen", async () => {
+    if ((await databaseKeyStore.getStatus(false)).idleLockMinutes > 0) {
+      lockApp();
+    }
+  });
+
   // Initialize AI systems
   await initializeAI();
 
@@ -277,16 +636,14 @@ async function createWindow() {
         if (isValidMessage && mainWindow) {
           console.log("✅ Manual check - showing overlay immediately");
 
-          // Check API usage and inform user (for info only)
-          const apiUsage = {
-            dailyUsed: dailyApiCallCount,
-            dailyLimit: MAX_DAILY_CALLS,
-            canMakeCall: true, // Always true now
-          };
+          // Check API usage and inform user
+          const apiUsage = await getApiUsageSnapshot();
 
           notifier.notify({
             title: "💬 Manual Check",
-            message: `Getting smart replies... (${apiUsage.dailyUsed} API calls made today)`,
+            message: apiUsage.canMakeCall
+              ? `Getting smart replies... (${apiUsage.dailyUsed} API calls made today)`
+              : `${apiUsage.budgetMessage} - using offline suggestions`,
             sound: true,
             wait: false,
           });
@@ -316,6 +673,45 @@ async function createWindow() {
     }
   });
 
+  // Checks a copied draft for personal details before it's pasted into a
+  // dating app; the full check, with who it's for, opens in the window
+  globalShortcut.register("CommandOrControl+Shift+G", async () => {
+    try {
+      const draft = clipboard.readText();
+      if (!draft.trim()) {
+        notifier.notify({
+          title: "⚠️ Clipboard Empty",
+          message: "Copy your message first, then try Cmd+Shift+G",
+          sound: false,
+          wait: false,
+        });
+        return;
+      }
+
+      const check = privacySafetyEngine.checkOutgoingDraft(draft, {
+        stage: "initial",
+      });
+      notifier.notify({
+        title: check.safeToSend ? "✅ Draft Check" : "⚠️ Draft Check",
+        message: check.safeToSend
+          ? "Nothing personal found in your draft"
+          : `Your draft shares: ${check.disclosures
+              .filter((disclosure) => disclosure.severity !== "low")
+              .map((disclosure) => disclosure.title.toLowerCase())
+              .join(", ")}`,
+        sound: false,
+        wait: false,
+      });
+
+      if (mainWindow) {
+        mainWindow.show();
+        mainWindow.webContents.send("draft-check-requested", { draft });
+      }
+    } catch (error) {
+      console.error("Draft check shortcut error:", error);
+    }
+  });
+
   // Privacy & Safety Center IPC handlers
   ipcMain.handle("analyzeConversationSafety", async (_evt, messages) => {
     try {
@@ -360,14 +756,68 @@ async function createWindow() {
     }
   });
 
+  // Comprehensive verification IPC handlers
+  ipcMain.handle(
+    "verify-profile-comprehensive",
+    async (_evt, request: VerificationRequest) => {
+      try {
+        return await verificationPipeline.verifyProfileComprehensive(
+          request || {}
+        );
+      } catch (e: any) {
+        console.error("verify-profile-comprehensive failed:", e);
+        throw e;
+      }
+    }
+  );
+
+  ipcMain.handle(
+    "analyze-photos-catfish",
+    async (_evt, photoPaths: string[]) => {
+      try {
+        return await verificationPipeline.analyzePhotos(photoPaths || []);
+      } catch (e: any) {
+        console.error("analyze-photos-catfish failed:", e);
+        throw e;
+      }
+    }
+  );
+
+  ipcMain.handle(
+    "analyze-conversation-advanced",
+    async (_evt, messages: VerificationMessage[]) => {
+      try {
+        return await verificationPipeline.analyzeConversation(messages || []);
+      } catch (e: any) {
+        console.error("analyze-conversation-advanced failed:", e);
+        throw e;
+      }
+    }
+  );
+
+  ipcMain.handle("safety-check-realtime", async (_evt, profileData) => {
+    try {
+      return await verificationPipeline.safetyCheckRealtime(profileData || {});
+    } catch (e: any) {
+      console.error("safety-check-realtime failed:", e);
+      throw e;
+    }
+  });
+
   // API Key Management Handlers
   ipcMain.handle(
     "set-api-key",
     async (
       _event,
-      provider: "gemini" | "openai" | "anthropic" | "openrouter" | "custom",
+      provider:
+        | "gemini"
+        | "openai"
+        | "anthropic"
+        | "openrouter"
+        | "custom"
+        | "local",
       apiKey: string,
-      options?: { model?: string; endpoint?: string }
+      options?: { model?: string; endpoint?: string; keyName?: string }
     ) => {
       await apiKeyManager.setApiKey(provider, apiKey, options);
       // Reinitialize AI with new API key
@@ -375,16 +825,118 @@ async function createWindow() {
     }
   );
 
+  // Keys never leave the main process; the renderer only sees the last four
+  // characters
   ipcMain.handle(
     "get-api-key",
     async (
       _event,
-      provider?: "gemini" | "openai" | "anthropic" | "openrouter" | "custom"
+      provider?:
+        | "gemini"
+        | "openai"
+        | "anthropic"
+        | "openrouter"
+        | "custom"
+        | "local"
+    ) => {
+      return await apiKeyManager.getApiKeyHint(provider);
+    }
+  );
+
+  ipcMain.handle("list-api-keys", async (_event, provider?: ProviderName) => {
+    return await apiKeyManager.listApiKeys(provider);
+  });
+
+  ipcMain.handle(
+    "set-active-api-key",
+    async (_event, provider: ProviderName, id: string) => {
+      await apiKeyManager.setActiveApiKey(provider, id);
+      await initializeAI();
+    }
+  );
+
+  ipcMain.handle(
+    "remove-api-key",
+    async (_event, provider: ProviderName, id: string) => {
+      await apiKeyManager.removeApiKey(provider, id);
+      await initializeAI();
+    }
+  );
+
+  // App lock: the conversation database is encrypted at rest and, once a
+  // passphrase is set, closed while the app is locked
+  ipcMain.handle("get-app-lock-status", async () => {
+    return await databaseKeyStore.getStatus(!databaseManager.isUnlocked());
+  });
+
+  ipcMain.handle("unlock-app", async (_event, passphrase: string) => {
+    try {
+      const key = await databaseKeyStore.unlockWithPassphrase(passphrase);
+      await databaseManager.unlock(key);
+      await scheduleIdleLock();
+      await enforceRetentionPolicy();
+      await restoreDatePlans();
+      return { success: true };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  });
+
+  ipcMain.handle("lock-app", async () => {
+    await lockApp();
+  });
+
+  // Setting, changing or removing the passphrase re-encrypts the database
+  // under the new key before the key file records it
+  ipcMain.handle(
+    "set-app-passphrase",
+    async (
+      _event,
+      currentPassphrase: string | undefined,
+      nextPassphrase: string | null
     ) => {
-      return await apiKeyManager.getApiKey(provider);
+      try {
+        const change = nextPassphrase
+          ? await databaseKeyStore.preparePassphrase(
+              currentPassphrase,
+              nextPassphrase
+            )
+          : await databaseKeyStore.prepareKeychain(currentPassphrase || "");
+        await databaseManager.rekey(change.key);
+        try {
+          await change.commit();
+        } catch (error) {
+          await databaseManager.rekey(change.previousKey);
+          throw error;
+        }
+        await scheduleIdleLock();
+        return { success: true };
+      } catch (error: any) {
+        console.error("Failed to change app passphrase:", error);
+        return { success: false, error: error.message };
+      }
     }
   );
 
+  ipcMain.handle("set-idle-lock-minutes", async (_event, minutes: number) => {
+    await databaseKeyStore.setIdleLockMinutes(minutes);
+    await scheduleIdleLock();
+  });
+
+  ipcMain.handle("get-vault-status", async () => {
+    return await apiKeyManager.getVaultStatus();
+  });
+
+  ipcMain.handle("unlock-vault", async (_event, passphrase: string) => {
+    try {
+      await apiKeyManager.unlockVault(passphrase);
+      await initializeAI();
+      return { success: true };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  });
+
   ipcMain.handle("has-valid-api-key", async () => {
     return await apiKeyManager.hasValidApiKey();
   });
@@ -402,38 +954,62 @@ async function createWindow() {
     return await apiKeyManager.getProviderConfig();
   });
 
-  // Get available models for a provider
-  ipcMain.handle("get-available-models", async (_event, provider: string) => {
-    return UniversalAI.getAvailableModels(provider);
+  // Failover order for AI requests
+  ipcMain.handle("get-fallback-providers", async () => {
+    return {
+      fallbacks: await apiKeyManager.getFallbackProviders(),
+      configured: await apiKeyManager.getConfiguredProviders(),
+    };
   });
 
-  // Get API usage statistics
-  ipcMain.handle("get-api-usage", async () => {
-    const today = new Date().toDateString();
+  ipcMain.handle(
+    "set-fallback-providers",
+    async (_event, providers: ProviderName[]) => {
+      await apiKeyManager.setFallbackProviders(providers);
+      await initializeAI();
+    }
+  );
 
-    // Reset daily count if it's a new day
-    if (today !== lastResetDate) {
-      dailyApiCallCount = 0;
-      lastResetDate = today;
+  // Get available models for a provider
+  ipcMain.handle(
+    "get-available-models",
+    async (_event, provider: string, endpoint?: string) => {
+      if (provider === "local" && !endpoint) {
+        const providerConfig = await apiKeyManager.getProviderConfig();
+        if (providerConfig.provider === "local") {
+          endpoint = providerConfig.endpoint;
+        }
+      }
+      return await UniversalAI.getAvailableModels(provider, endpoint);
     }
+  );
 
-    const timeSinceLastCall = Date.now() - lastApiCall;
-    const canMakeCall = canMakeApiCall();
-    const nextCallAvailable = canMakeCall
-      ? 0
-      : Math.ceil((MIN_API_INTERVAL - timeSinceLastCall) / 1000);
+  // Get API usage statistics
+  ipcMain.handle("get-api-usage", async (_event, historyDays?: number) => {
+    const summary = await usageTracker.getSummary(historyDays || 30);
+    const snapshot = await getApiUsageSnapshot();
 
     return {
-      dailyUsed: dailyApiCallCount,
-      dailyLimit: MAX_DAILY_CALLS,
-      totalCalls: apiCallCount,
-      canMakeCall: true, // Always true now
-      nextCallAvailable: 0, // Always 0 now
+      dailyUsed: snapshot.dailyUsed,
+      dailyLimit: snapshot.dailyLimit,
+      totalCalls: summary.allTime.calls,
+      canMakeCall: snapshot.canMakeCall,
+      nextCallAvailable: 0,
       cacheSize: replyCache.size,
-      rateLimitMessage: "No rate limits - full API access enabled",
+      rateLimitMessage: snapshot.budgetMessage || "Within budget",
+      structuredOutput: aiClient?.getStructuredOutputStats(),
+      today: summary.today,
+      month: summary.month,
+      budgets: summary.budgets,
+      history: summary.history,
     };
   });
 
+  ipcMain.handle("set-usage-budgets", async (_event, budgets: UsageBudgets) => {
+    await usageTracker.setBudgets(budgets);
+    return await usageTracker.getBudgets();
+  });
+
   // Health checks
   ipcMain.handle("check-network-online", async () => {
     try {
@@ -471,7 +1047,7 @@ async function createWindow() {
     }
   });
 
-  // Smart Reply Generation for Dating Apps with retry logic and rate limiting
+  // Smart Reply Generation for Dating Apps (retries and failover happen in UniversalAI)
   ipcMain.handle(
     "generate-smart-replies",
     async (
@@ -505,30 +1081,15 @@ async function createWindow() {
           // No rate limit checking - always proceed with API calls
           console.log("✅ Proceeding with API call (rate limiting disabled)");
 
-          const maxRetries = 2; // Increased retries since we're not worried about quota
-          const retryDelay = 1000; // Reduced delay
-
-          for (let attempt = 0; attempt <= maxRetries; attempt++) {
-            try {
-              const apiKey = await apiKeyManager.getApiKey();
-              if (!apiKey) {
-                throw new Error("No API key configured");
-              }
-
-              recordApiCall(); // Record the API call
-
-              const providerConfig = await apiKeyManager.getProviderConfig();
-              const aiClient = new UniversalAI({
-                provider: providerConfig.provider,
-                apiKey: apiKey,
-                model: providerConfig.model,
-                endpoint: providerConfig.endpoint,
-              });
+          try {
+            if (!aiClient) {
+              throw new Error("No API key configured");
+            }
 
-              const platform = data.platform || "dating app";
-              const context = data.context || "early conversation";
+            const platform = data.platform || "dating app";
+            const context = data.context || "early conversation";
 
-              const prompt = `You are a dating conversation expert. Given this message from a ${platform}:
+            const prompt = `You are a dating conversation expert. Given this message from a ${platform}:
 
 "${data.message}"
 
@@ -542,134 +1103,83 @@ Generate 3 smart, authentic reply suggestions that:
 4. Show genuine interest
 5. Are appropriate for the dating context
 
-Format as JSON:
-{
-  "replies": [
-    {"text": "reply 1", "reason": "why this works"},
-    {"text": "reply 2", "reason": "why this works"}, 
-    {"text": "reply 3", "reason": "why this works"}
-  ],
-  "sentiment": "positive/neutral/negative",
-  "tips": ["conversation tip 1", "conversation tip 2"]
-}`;
-
-              const result = await aiClient.generateContent(prompt);
-              const text = result.text;
-
-              // Clean and parse JSON response
-              const cleanedText = text
-                .replace(/```json\n?/g, "")
-                .replace(/```\n?/g, "")
-                .replace(/^[^{]*/, "")
-                .replace(/[^}]*$/, "")
-                .trim();
-
-              try {
-                const analysis = JSON.parse(cleanedText);
-                const finalResponse = {
-                  success: true,
-                  replies: analysis.replies || [],
-                  sentiment: analysis.sentiment || "neutral",
-                  tips: analysis.tips || [],
-                  apiCallsRemaining: "unlimited",
-                };
-
-                // Cache the successful response
-                setCachedResponse(data.message, tone, finalResponse);
-
-                return finalResponse;
-              } catch (parseError) {
-                console.error("JSON parsing failed:", parseError);
-                // Fallback responses
-                const fallbackResponse = {
-                  success: true,
-                  replies: [
-                    {
-                      text: "That sounds interesting! Tell me more about that.",
-                      reason: "Shows interest and encourages elaboration",
-                    },
-                    {
-                      text: "I love that! What got you into that?",
-                      reason: "Enthusiastic and asks engaging follow-up",
-                    },
-                    {
-                      text: "Haha, that's awesome! I can relate to that.",
-                      reason: "Light, positive, and builds connection",
-                    },
-                  ],
-                  sentiment: "positive",
-                  tips: [
-                    "Ask open-ended questions",
-                    "Show genuine interest",
-                    "Share something about yourself too",
-                  ],
-                  apiCallsRemaining: "unlimited",
-                };
-
-                setCachedResponse(data.message, tone, fallbackResponse);
-                return fallbackResponse;
-              }
-            } catch (error) {
-              console.error(
-                `Smart reply generation attempt ${attempt + 1} failed:`,
-                error
-              );
+Give each reply a short reason explaining why it works, the sentiment of their message, and 2 conversation tips.`;
 
-              // Check if it's a quota exceeded error
-              const isQuotaExceeded =
-                error instanceof Error &&
-                (error.message.includes("quota") ||
-                  error.message.includes("rate limit") ||
-                  error.message.includes("429"));
-
-              if (isQuotaExceeded) {
-                console.log("❌ API quota exceeded, using fallback");
-                const quotaExceededResponse = {
-                  success: true,
-                  replies: [
-                    {
-                      text: "That sounds really interesting! I'd love to hear more about that.",
-                      reason: "Shows genuine curiosity",
-                    },
-                    {
-                      text: `I've always wanted to try that! What's it like?`,
-                      reason: "Engaging and personal",
-                    },
-                    {
-                      text: "That's so cool! You seem like you have great stories.",
-                      reason: "Complimentary and encouraging",
-                    },
-                  ],
-                  sentiment: "positive",
-                  tips: [
-                    "Keep the conversation flowing",
-                    "Ask follow-up questions",
-                    "Share your own experiences",
-                  ],
-                  quotaExceeded: true,
-                  note: "API quota exceeded by provider. Using smart offline suggestions.",
-                  apiCallsRemaining: "unlimited",
-                };
-
-                setCachedResponse(data.message, tone, quotaExceededResponse);
-                return quotaExceededResponse;
-              }
+            try {
+              const result = await aiClient.generateStructured<{
+                replies: Array<{ text: string; reason: string }>;
+                sentiment: string;
+                tips: string[];
+              }>(prompt, SMART_REPLIES_TASK);
+              const finalResponse = {
+                success: true,
+                replies: result.data.replies,
+                sentiment: result.data.sentiment,
+                tips: result.data.tips,
+                apiCallsRemaining: "unlimited",
+                answeredBy: { provider: result.provider, model: result.model },
+              };
 
-              // Check if it's a 503 Service Unavailable error
-              const isOverloaded =
-                error instanceof Error &&
-                (error.message.includes("503") ||
-                  error.message.includes("overloaded") ||
-                  error.message.includes("Service Unavailable"));
+              // Cache the successful response
+              setCachedResponse(data.message, tone, finalResponse);
 
-              if (isOverloaded && attempt < maxRetries) {
-                console.log(`API overloaded, retrying in ${retryDelay}ms...`);
-                await new Promise((resolve) => setTimeout(resolve, retryDelay));
-                continue;
+              return finalResponse;
+            } catch (structuredError) {
+              if (!(structuredError instanceof StructuredOutputError)) {
+                throw structuredError;
               }
-
-              // Final fallback for all error types
-              const errorFallbackResponse = {
+              console.error(
+                "Smart replies failed validation:",
+                structuredError.issues
+              );
+              // Fallback responses, not cached so the next request asks the AI again
+              const fallbackResponse = {
+                success: true,
+                replies: [
+                  {
+                    text: "That sounds interesting! Tell me more about that.",
+                    reason: "Shows interest and encourages elaboration",
+                  },
+                  {
+                    text: "I love that! What got you into that?",
+                    reason: "Enthusiastic and asks engaging follow-up",
+                  },
+                  {
+                    text: "Haha, that's awesome! I can relate to that.",
+                    reason: "Light, positive, and builds connection",
+                  },
+                ],
+                sentiment: "positive",
+                tips: [
+                  "Ask open-ended questions",
+                  "Show genuine interest",
+                  "Share something about yourself too",
+                ],
+                fallback: true,
+                note: "AI reply was malformed - using offline suggestions",
+                validationErrors: structuredError.issues,
+                apiCallsRemaining: "unlimited",
+              };
+
+              return fallbackResponse;
+            }
+          } catch (error) {
+            // UniversalAI has already retried and worked through the
+            // fallback providers by the time an error lands here
+            console.error("Smart reply generation failed:", error);
+
+            // Check if it's a quota exceeded error
+            const isQuotaExceeded =
+              error instanceof BudgetExceededError ||
+              (error instanceof AIRequestError && error.status === 429) ||
+              (error instanceof Error &&
+                (error.message.includes("quota") ||
+                error.message.includes("rate limit") ||
+                  error.message.includes("429")));
+
+            if (isQuotaExceeded) {
+              console.log("❌ API quota exceeded, using fallback");
+              const quotaExceededResponse = {
                 success: true,
                 replies: [
                   {
@@ -691,16 +1201,59 @@ Format as JSON:
                   "Ask follow-up questions",
                   "Share your own experiences",
                 ],
+                quotaExceeded: true,
                 fallback: true,
-                note: isOverloaded
-                  ? "AI service temporarily busy - using smart fallback responses"
-                  : "Using offline suggestions",
+                note:
+                  error instanceof BudgetExceededError
+                    ? `${error.message}. Using smart offline suggestions.`
+                    : "API quota exceeded by provider. Using smart offline suggestions.",
                 apiCallsRemaining: "unlimited",
               };
 
-              setCachedResponse(data.message, tone, errorFallbackResponse);
-              return errorFallbackResponse;
+              setCachedResponse(data.message, tone, quotaExceededResponse);
+              return quotaExceededResponse;
             }
+
+            // Rate limited, overloaded or timed out on every provider
+            const isOverloaded =
+              (error instanceof AIRequestError && error.retryable) ||
+              (error instanceof Error &&
+                (error.message.includes("503") ||
+                  error.message.includes("overloaded") ||
+                  error.message.includes("Service Unavailable")));
+
+            // Final fallback for all error types
+            const errorFallbackResponse = {
+              success: true,
+              replies: [
+                {
+                  text: "That sounds really interesting! I'd love to hear more about that.",
+                  reason: "Shows genuine curiosity",
+                },
+                {
+                  text: `I've always wanted to try that! What's it like?`,
+                  reason: "Engaging and personal",
+                },
+                {
+                  text: "That's so cool! You seem like you have great stories.",
+                  reason: "Complimentary and encouraging",
+                },
+              ],
+              sentiment: "positive",
+              tips: [
+                "Keep the conversation flowing",
+                "Ask follow-up questions",
+                "Share your own experiences",
+              ],
+              fallback: true,
+              note: isOverloaded
+                ? "AI service temporarily busy - using smart fallback responses"
+                : "Using offline suggestions",
+              apiCallsRemaining: "unlimited",
+            };
+
+            setCachedResponse(data.message, tone, errorFallbackResponse);
+            return errorFallbackResponse;
           }
         } finally {
           // Remove from active requests when done
@@ -780,15 +1333,24 @@ Format as JSON:
             conversationMetrics.interestLevel) /
           3;
 
-        // Safety analysis
+        // Safety analysis covers everything the person has sent, on every
+        // platform, not just this thread
+        conversation.contact_id ??= await databaseManager.resolveContactId(
+          conversation.platform,
+          conversation.contact
+        );
+        let safetyAlerts: SafetyAlert[] = [];
         if (safetyEngine) {
-          const safetyAnalysis = await safetyEngine.analyzeSafety(conversation);
+          const timeline =
+            (await databaseManager.getContactTimeline(
+              conversation.contact_id,
+              conversation
+            )) || conversation;
+          const safetyAnalysis = await safetyEngine.analyzeSafety(timeline);
           conversation.trust_score = safetyAnalysis.overall_safety_score;
 
           // Generate safety alerts
-          const safetyAlerts = await safetyEngine.generateSafetyAlerts(
-            conversation
-          );
+          safetyAlerts = await safetyEngine.generateSafetyAlerts(timeline);
           for (const alert of safetyAlerts) {
             await databaseManager.saveDatingInsight({
               id: alert.id,
@@ -870,8 +1432,20 @@ Format as JSON:
           }
         }
 
-        // Save updated conversation
+        // Save updated conversation, what they said about themselves for
+        // later messages to be checked against, and any payment details they
+        // sent, to recognize if someone else sends the same ones
         await databaseManager.saveConversation(conversation);
+        await databaseManager.saveClaimedFacts(
+          extractClaimedFacts(conversation)
+        );
+        await databaseManager.saveFinancialIdentifiers(
+          extractFinancialIdentifiers(conversation)
+        );
+        await databaseManager.setContactTrustScore(
+          conversation.contact_id,
+          conversation.trust_score
+        );
 
         // Return comprehensive analysis
         return {
@@ -889,9 +1463,7 @@ Format as JSON:
           safety: {
             trust_score: conversation.trust_score,
             conversation_health: conversation.conversation_health,
-            alerts: safetyEngine
-              ? await safetyEngine.generateSafetyAlerts(conversation)
-              : [],
+            alerts: safetyAlerts,
           },
           metrics: conversationMetrics,
         };
@@ -970,143 +1542,756 @@ Format as JSON:
           }
         }
 
-        return {
-          insights: insights.map((insight) => ({
-            type: insight.type,
-            message: insight.message,
-            confidence: insight.confidence,
-            timestamp: insight.timestamp,
-          })),
-          recommendations,
-        };
-      } catch (error) {
-        console.error("Error getting conversation insights:", error);
-        return { insights: [], recommendations: [] };
+        return {
+          insights: insights.map((insight) => ({
+            type: insight.type,
+            message: insight.message,
+            confidence: insight.confidence,
+            timestamp: insight.timestamp,
+          })),
+          recommendations,
+        };
+      } catch (error) {
+        console.error("Error getting conversation insights:", error);
+        return { insights: [], recommendations: [] };
+      }
+    }
+  );
+
+  // Learn from user feedback on advice
+  ipcMain.handle(
+    "provide-advice-feedback",
+    async (
+      _event: IpcMainInvokeEvent,
+      data: {
+        conversationId: string;
+        adviceUsed: string;
+        outcome: "positive" | "negative" | "neutral";
+        context: string;
+      }
+    ) => {
+      try {
+        if (!learningEngine) return;
+
+        const conversation = await databaseManager.getConversation(
+          data.conversationId
+        );
+        const userProfile = await databaseManager.getUserProfile();
+
+        if (conversation && userProfile) {
+          await learningEngine.learnFromOutcome(
+            conversation,
+            {
+              type: "response",
+              message: data.adviceUsed,
+              explanation: "User provided feedback",
+              confidence: 0.8,
+              timing: "immediate",
+              context: data.context,
+            },
+            data.outcome,
+            userProfile
+          );
+
+          // Update success metrics
+          if (data.outcome === "positive") {
+            await learningEngine.updateSuccessMetrics(
+              userProfile,
+              "positive_response"
+            );
+          }
+        }
+      } catch (error) {
+        console.error("Error processing advice feedback:", error);
+      }
+    }
+  );
+
+  // What the learning engine has picked up from advice feedback
+  ipcMain.handle("get-learning-state", async () => {
+    try {
+      if (!learningEngine) {
+        return { success: false, error: "AI engines not initialized" };
+      }
+      return { success: true, state: await learningEngine.getLearningState() };
+    } catch (error: any) {
+      console.error("Error getting learning state:", error);
+      return { success: false, error: error.message };
+    }
+  });
+
+  ipcMain.handle("reset-learning", async () => {
+    try {
+      if (!learningEngine) {
+        return { success: false, error: "AI engines not initialized" };
+      }
+      await learningEngine.reset();
+      return { success: true };
+    } catch (error: any) {
+      console.error("Error resetting learning:", error);
+      return { success: false, error: error.message };
+    }
+  });
+
+  // Get personalized dating dashboard
+  ipcMain.handle("get-dating-dashboard", async (_event: IpcMainInvokeEvent) => {
+    try {
+      const conversations = await databaseManager.getConversationSummaries();
+      const userProfile = await databaseManager.getUserProfile();
+
+      if (!userProfile) return { conversations: [], stats: {}, insights: [] };
+
+      // Calculate comprehensive stats
+      const stats = {
+        total_conversations: conversations.length,
+        active_conversations: conversations.filter(
+          (c) => Date.now() - c.last_interaction < 7 * 24 * 60 * 60 * 1000
+        ).length,
+        avg_trust_score:
+          conversations.length > 0
+            ? conversations.reduce((sum, c) => sum + c.trust_score, 0) /
+              conversations.length
+            : 0,
+        avg_conversation_health:
+          conversations.length > 0
+            ? conversations.reduce((sum, c) => sum + c.conversation_health, 0) /
+              conversations.length
+            : 0,
+        dates_secured: userProfile.success_metrics.dates_secured,
+        positive_responses: userProfile.success_metrics.positive_responses,
+        success_rate:
+          userProfile.success_metrics.conversations_started > 0
+            ? userProfile.success_metrics.positive_responses /
+              userProfile.success_metrics.conversations_started
+            : 0,
+      };
+
+      // Get safety metrics
+      let safetyMetrics = {};
+      if (safetyEngine) {
+        safetyMetrics = await safetyEngine.trackSafetyMetrics("default");
+      }
+
+      // Recent insights across all conversations
+      const allInsights: DatingInsight[] = [];
+      for (const conversation of conversations.slice(0, 10)) {
+        const insights = await databaseManager.getInsightsForConversation(
+          conversation.id
+        );
+        allInsights.push(...insights);
+      }
+
+      const recentInsights = allInsights
+        .sort((a, b) => b.timestamp - a.timestamp)
+        .slice(0, 10);
+
+      return {
+        conversations: conversations.map((c) => ({
+          id: c.id,
+          contact: c.contact,
+          platform: c.platform,
+          trust_score: c.trust_score,
+          conversation_health: c.conversation_health,
+          relationship_stage: c.relationship_stage,
+          last_interaction: c.last_interaction,
+          message_count: c.message_count,
+        })),
+        stats: { ...stats, ...safetyMetrics },
+        insights: recentInsights,
+      };
+    } catch (error) {
+      console.error("Error getting dating dashboard:", error);
+      return { conversations: [], stats: {}, insights: [] };
+    }
+  });
+
+  // Full-text search across every saved conversation
+  ipcMain.handle(
+    "search-messages",
+    async (
+      _event: IpcMainInvokeEvent,
+      query: string,
+      options?: { limit?: number; conversationId?: string }
+    ) => {
+      try {
+        const results = await databaseManager.searchMessages(query, options);
+        return { success: true, results };
+      } catch (error: any) {
+        console.error("Error searching messages:", error);
+        return { success: false, results: [], error: error.message };
+      }
+    }
+  );
+
+  // Smart reply, catfish and quality results, newest first
+  ipcMain.handle("save-history-item", async (_event, item: HistoryItem) => {
+    try {
+      return {
+        success: true,
+        item: await databaseManager.saveHistoryItem(item),
+      };
+    } catch (error: any) {
+      console.error("Error saving history item:", error);
+      return { success: false, error: error.message };
+    }
+  });
+
+  ipcMain.handle("list-history", async (_event, query?: HistoryQuery) => {
+    try {
+      return await databaseManager.listHistory(query);
+    } catch (error) {
+      console.error("Error listing history:", error);
+      return [];
+    }
+  });
+
+  ipcMain.handle(
+    "search-history",
+    async (_event, text: string, query?: HistoryQuery) => {
+      try {
+        const results = await databaseManager.searchHistory(text, query);
+        return { success: true, results };
+      } catch (error: any) {
+        console.error("Error searching history:", error);
+        return { success: false, results: [], error: error.message };
+      }
+    }
+  );
+
+  // One-off hand-over of the history the renderer used to keep itself
+  ipcMain.handle("import-history", async (_event, items: unknown[]) => {
+    try {
+      const imported = await databaseManager.importHistory(
+        Array.isArray(items) ? items : []
+      );
+      return { success: true, imported };
+    } catch (error: any) {
+      console.error("Error importing history:", error);
+      return { success: false, error: error.message };
+    }
+  });
+
+  ipcMain.handle("clear-history", async () => {
+    try {
+      return { success: true, cleared: await databaseManager.clearHistory() };
+    } catch (error: any) {
+      console.error("Error clearing history:", error);
+      return { success: false, error: error.message };
+    }
+  });
+
+  // Everyone the user has a saved conversation with, one entry per person
+  ipcMain.handle("list-contacts", async () => {
+    return await databaseManager.getContacts();
+  });
+
+  // A person's conversations plus every message with them, oldest first
+  ipcMain.handle("get-contact-timeline", async (_event, contactId: string) => {
+    try {
+      const conversations = await databaseManager.getContactConversations(
+        contactId
+      );
+      const messages = conversations
+        .flatMap((conversation) =>
+          conversation.messages.map((message) => ({
+            ...message,
+            conversationId: conversation.id,
+            platform: conversation.platform,
+          }))
+        )
+        .sort((a, b) => a.timestamp - b.timestamp);
+      return {
+        success: true,
+        conversations: conversations.map(
+          ({ messages: threadMessages, advice_history, ...conversation }) => ({
+            ...conversation,
+            message_count: threadMessages.length,
+          })
+        ),
+        messages,
+      };
+    } catch (error: any) {
+      console.error("Error loading contact timeline:", error);
+      return { success: false, error: error.message };
+    }
+  });
+
+  ipcMain.handle(
+    "merge-contacts",
+    async (_event, targetId: string, sourceIds: string[]) => {
+      try {
+        await databaseManager.mergeContacts(targetId, sourceIds);
+        await rescoreContact(targetId);
+        return { success: true };
+      } catch (error: any) {
+        console.error("Error merging contacts:", error);
+        return { success: false, error: error.message };
+      }
+    }
+  );
+
+  ipcMain.handle(
+    "split-contact",
+    async (
+      _event,
+      contactId: string,
+      conversationIds: string[],
+      displayName?: string
+    ) => {
+      try {
+        const newContactId = await databaseManager.splitContact(
+          contactId,
+          conversationIds,
+          displayName
+        );
+        await rescoreContact(contactId);
+        await rescoreContact(newContactId);
+        return { success: true, contactId: newContactId };
+      } catch (error: any) {
+        console.error("Error splitting contact:", error);
+        return { success: false, error: error.message };
+      }
+    }
+  );
+
+  ipcMain.handle(
+    "rename-contact",
+    async (_event, contactId: string, displayName: string) => {
+      try {
+        if (!displayName?.trim()) throw new Error("Name required");
+        await databaseManager.renameContact(contactId, displayName.trim());
+        return { success: true };
+      } catch (error: any) {
+        console.error("Error renaming contact:", error);
+        return { success: false, error: error.message };
+      }
+    }
+  );
+
+  ipcMain.handle(
+    "set-contact-stage",
+    async (_event, contactId: string, stage: RelationshipStage) => {
+      try {
+        if (!RELATIONSHIP_STAGES.includes(stage)) {
+          throw new Error(`Unknown stage ${stage}`);
+        }
+        await databaseManager.setContactStage(contactId, stage);
+        return { success: true };
+      } catch (error: any) {
+        console.error("Error saving contact stage:", error);
+        return { success: false, error: error.message };
+      }
+    }
+  );
+
+  // Checks the user's own message before they send it; the photo, if any,
+  // is only read for its EXIF metadata
+  ipcMain.handle(
+    "check-outgoing-draft",
+    async (
+      _event,
+      draft: string,
+      options: {
+        contactId?: string;
+        stage?: RelationshipStage;
+        photoPath?: string;
+      } = {}
+    ) => {
+      try {
+        const context = await resolveDraftContext(
+          options.contactId,
+          options.stage
+        );
+        const photo = options.photoPath
+          ? SafeImageProcessor.readPhotoMetadata(
+              await fs.readFile(options.photoPath)
+            )
+          : undefined;
+        return {
+          success: true,
+          context,
+          check: privacySafetyEngine.checkOutgoingDraft(
+            draft || "",
+            context,
+            photo
+          ),
+        };
+      } catch (error: any) {
+        console.error("Error checking draft:", error);
+        return { success: false, error: error.message };
+      }
+    }
+  );
+
+  ipcMain.handle("choose-draft-photo", async () => {
+    const result = await dialog.showOpenDialog(mainWindow!, {
+      title: "Choose a Photo to Check",
+      properties: ["openFile"],
+      filters: [
+        { name: "Photos", extensions: ["jpg", "jpeg"] },
+        { name: "All Files", extensions: ["*"] },
+      ],
+    });
+    if (result.canceled || result.filePaths.length === 0) return null;
+    return {
+      path: result.filePaths[0],
+      name: path.basename(result.filePaths[0]),
+    };
+  });
+
+  // Going on a date: check-in prompts during it, escalating to the trusted
+  // contact's channel when one is missed
+  ipcMain.handle("list-date-plans", async () => {
+    return dateCheckIns.list();
+  });
+
+  ipcMain.handle(
+    "start-date-plan",
+    async (
+      _event,
+      input: {
+        contactId?: string;
+        who: string;
+        location: string;
+        startsAt: number;
+        endsAt: number;
+        checkInMinutes: number;
+      }
+    ) => {
+      try {
+        if (!input.who?.trim() || !input.location?.trim()) {
+          throw new Error("Say who you're meeting and where");
+        }
+        if (!(input.endsAt > input.startsAt)) {
+          throw new Error("The date must end after it starts");
+        }
+        if (!(input.checkInMinutes >= 5)) {
+          throw new Error("Check in at least 5 minutes apart");
+        }
+
+        // Their most recent thread, for the details and latest trust score
+        const conversation = input.contactId
+          ? (await databaseManager.getContactConversations(input.contactId))
+              .sort((a, b) => b.last_interaction - a.last_interaction)[0]
+          : undefined;
+        const plan = dateCheckIns.start({
+          id: `date_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+          conversation_id: conversation?.id,
+          who: input.who.trim(),
+          location: input.location.trim(),
+          starts_at: input.startsAt,
+          ends_at: input.endsAt,
+          check_in_minutes: input.checkInMinutes,
+          state: "waiting",
+          status: "active",
+          trust_score: conversation?.trust_score,
+          created_at: Date.now(),
+        });
+        const settings = await loadDateSafetySettings();
+        return {
+          success: true,
+          plan,
+          warning: settings.channel
+            ? undefined
+            : "No trusted contact is set up, so a missed check-in will only alert this computer",
+        };
+      } catch (error: any) {
+        return { success: false, error: error.message };
+      }
+    }
+  );
+
+  ipcMain.handle("check-in-date-plan", async (_event, planId: string) => {
+    try {
+      return { success: true, plan: await dateCheckIns.checkIn(planId) };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  });
+
+  ipcMain.handle("end-date-plan", async (_event, planId: string) => {
+    try {
+      return { success: true, plan: dateCheckIns.end(planId) };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  });
+
+  ipcMain.handle("get-date-safety-settings", async () => {
+    return await loadDateSafetySettings();
+  });
+
+  ipcMain.handle(
+    "set-date-safety-settings",
+    async (_event, settings: DateSafetySettings) => {
+      try {
+        if (settings.channel) {
+          const invalid = validateEscalationChannel(settings.channel);
+          if (invalid) throw new Error(invalid);
+        }
+        await saveDateSafetySettings({
+          channel: settings.channel,
+          trustedContactName: settings.trustedContactName?.trim() || undefined,
+        });
+        return { success: true };
+      } catch (error: any) {
+        return { success: false, error: error.message };
+      }
+    }
+  );
+
+  ipcMain.handle("choose-escalation-folder", async () => {
+    const result = await dialog.showOpenDialog(mainWindow!, {
+      title: "Choose Where Check-In Alerts Go",
+      properties: ["openDirectory", "createDirectory"],
+    });
+    if (result.canceled || result.filePaths.length === 0) return null;
+    return result.filePaths[0];
+  });
+
+  // Sends a sample alert through the channel, e.g. to the local stand-in
+  // from `npm run escalation-stand-in`
+  ipcMain.handle(
+    "test-date-escalation",
+    async (_event, settings: DateSafetySettings) => {
+      try {
+        if (!settings.channel) throw new Error("Choose a channel to test");
+        const now = Date.now();
+        const sample: DatePlan = {
+          id: "date_test",
+          who: "Your match",
+          location: "A café",
+          starts_at: now,
+          ends_at: now + 2 * 60 * 60 * 1000,
+          check_in_minutes: 30,
+          state: "escalated",
+          status: "active",
+          created_at: now,
+        };
+        const sent = await sendEscalation(
+          settings.channel,
+          buildEscalationPayload(sample, "test", null, settings),
+          (url) => shell.openExternal(url)
+        );
+        return { success: true, sent };
+      } catch (error: any) {
+        return { success: false, error: error.message };
+      }
+    }
+  );
+
+  // Deletes the contact with every conversation, message, insight and
+  // history item
+  ipcMain.handle("forget-contact", async (_event, contactId: string) => {
+    try {
+      const removed = await databaseManager.forgetContact(contactId);
+      replyCache.clear();
+      await learningEngine?.reload();
+      return { success: true, removed };
+    } catch (error: any) {
+      console.error("Error forgetting contact:", error);
+      return { success: false, error: error.message };
+    }
+  });
+
+  ipcMain.handle("get-retention-policy", async () => {
+    return await loadRetentionPolicy();
+  });
+
+  // Saving applies the new rules straight away
+  ipcMain.handle(
+    "set-retention-policy",
+    async (_event, policy: RetentionPolicy) => {
+      try {
+        await saveRetentionPolicy(policy);
+        const result = await databaseManager.applyRetentionPolicy(policy);
+        if (result.deletedConversations) await learningEngine?.reload();
+        return { success: true, result };
+      } catch (error: any) {
+        console.error("Error applying retention policy:", error);
+        return { success: false, error: error.message };
+      }
+    }
+  );
+
+  ipcMain.handle("get-safety-rules", async () => {
+    return { packs: safetyRules.getPacks(), rules: safetyRules.listRules() };
+  });
+
+  // Enabled rules in the given categories, for detectors that run in the
+  // renderer
+  ipcMain.handle(
+    "select-safety-rules",
+    async (_event, categories: SafetyRuleCategory[]) => {
+      return safetyRules.select(categories);
+    }
+  );
+
+  ipcMain.handle(
+    "set-safety-rule-enabled",
+    async (_event, ruleId: string, enabled: boolean) => {
+      try {
+        const ruleSettings = await loadSafetyRuleSettings();
+        const disabled = (ruleSettings.disabledRuleIds || []).filter(
+          (id) => id !== ruleId
+        );
+        if (!enabled) disabled.push(ruleId);
+        await saveSafetyRuleSettings({
+          ...ruleSettings,
+          disabledRuleIds: disabled,
+        });
+        return { success: true };
+      } catch (error: any) {
+        console.error("Error updating safety rule:", error);
+        return { success: false, error: error.message };
       }
     }
   );
 
-  // Learn from user feedback on advice
+  // Adds a rule, or replaces the custom rule with the same id
   ipcMain.handle(
-    "provide-advice-feedback",
+    "save-custom-safety-rule",
+    async (_event, rule: Partial<SafetyRule>) => {
+      try {
+        const saved: SafetyRule = {
+          confidence: 0.7,
+          locale: "*",
+          ...rule,
+          id:
+            rule.id && rule.id.startsWith("custom.")
+              ? rule.id
+              : `custom.${Date.now().toString(36)}`,
+          keywords: (rule.keywords || [])
+            .map((keyword) => keyword.trim())
+            .filter(Boolean),
+          pattern: rule.pattern?.trim() || undefined,
+        } as SafetyRule;
+        const problem = validateRule(saved);
+        if (problem) return { success: false, error: problem };
+
+        const ruleSettings = await loadSafetyRuleSettings();
+        await saveSafetyRuleSettings({
+          ...ruleSettings,
+          customRules: [
+            ...(ruleSettings.customRules || []).filter(
+              (other) => other.id !== saved.id
+            ),
+            saved,
+          ],
+        });
+        return { success: true, rule: saved };
+      } catch (error: any) {
+        console.error("Error saving custom safety rule:", error);
+        return { success: false, error: error.message };
+      }
+    }
+  );
+
+  ipcMain.handle(
+    "delete-custom-safety-rule",
+    async (_event, ruleId: string) => {
+      try {
+        const ruleSettings = await loadSafetyRuleSettings();
+        await saveSafetyRuleSettings({
+          customRules: (ruleSettings.customRules || []).filter(
+            (rule) => rule.id !== ruleId
+          ),
+          disabledRuleIds: (ruleSettings.disabledRuleIds || []).filter(
+            (id) => id !== ruleId
+          ),
+        });
+        return { success: true };
+      } catch (error: any) {
+        console.error("Error deleting custom safety rule:", error);
+        return { success: false, error: error.message };
+      }
+    }
+  );
+
+  // Import exported chat archives (WhatsApp, Telegram, Tinder/Hinge/Bumble)
+  ipcMain.handle(
+    "import-chat-archive",
     async (
       _event: IpcMainInvokeEvent,
-      data: {
-        conversationId: string;
-        adviceUsed: string;
-        outcome: "positive" | "negative" | "neutral";
-        context: string;
-      }
+      filePath?: string,
+      options?: ChatImportOptions
     ) => {
       try {
-        if (!learningEngine) return;
+        let sourcePath = filePath;
+        if (!sourcePath) {
+          const result = await dialog.showOpenDialog(mainWindow!, {
+            title: "Import Chat Export",
+            properties: ["openFile"],
+            filters: [
+              { name: "Chat Exports", extensions: ["txt", "json"] },
+              { name: "All Files", extensions: ["*"] },
+            ],
+          });
+          if (result.canceled || result.filePaths.length === 0) {
+            return { success: false, message: "Import cancelled" };
+          }
+          sourcePath = result.filePaths[0];
+        }
 
-        const conversation = await databaseManager.getConversation(
-          data.conversationId
-        );
-        const userProfile = await databaseManager.getUserProfile();
+        const importer = new ChatImporter();
+        const result = await importer.importFile(sourcePath, options);
+        const imported = [];
 
-        if (conversation && userProfile) {
-          await learningEngine.learnFromOutcome(
-            conversation,
-            {
-              type: "response",
-              message: data.adviceUsed,
-              explanation: "User provided feedback",
-              confidence: 0.8,
-              timing: "immediate",
-              context: data.context,
-            },
-            data.outcome,
-            userProfile
+        for (const conversation of result.conversations) {
+          // Re-importing keeps what the app already learned about this chat
+          const existing = await databaseManager.getConversation(
+            conversation.id
           );
+          if (existing) {
+            conversation.profile = existing.profile;
+            conversation.relationship_stage = existing.relationship_stage;
+            conversation.trust_score = existing.trust_score;
+            conversation.advice_history = existing.advice_history;
+            conversation.contact_id = existing.contact_id;
+          }
 
-          // Update success metrics
-          if (data.outcome === "positive") {
-            await learningEngine.updateSuccessMetrics(
-              userProfile,
-              "positive_response"
+          if (conversationAnalyzer) {
+            const metrics = await conversationAnalyzer.analyzeConversation(
+              conversation
             );
+            conversation.conversation_health =
+              (metrics.emotionalDepth +
+                metrics.reciprocity +
+                metrics.interestLevel) /
+              3;
           }
+
+          await databaseManager.saveConversation(conversation);
+          await databaseManager.saveClaimedFacts(
+            extractClaimedFacts(conversation)
+          );
+          await databaseManager.saveFinancialIdentifiers(
+            extractFinancialIdentifiers(conversation)
+          );
+          imported.push({
+            id: conversation.id,
+            contact: conversation.contact,
+            platform: conversation.platform,
+            message_count: conversation.messages.length,
+          });
         }
+
+        return {
+          success: true,
+          format: result.format,
+          imported,
+          skipped_messages: result.skippedMessages,
+          message: `Imported ${imported.length} conversation${
+            imported.length === 1 ? "" : "s"
+          } from ${path.basename(sourcePath)}`,
+        };
       } catch (error) {
-        console.error("Error processing advice feedback:", error);
+        console.error("Error importing chat archive:", error);
+        return { success: false, message: error.message };
       }
     }
   );
 
-  // Get personalized dating dashboard
-  ipcMain.handle("get-dating-dashboard", async (_event: IpcMainInvokeEvent) => {
-    try {
-      const conversations = await databaseManager.getAllConversations();
-      const userProfile = await databaseManager.getUserProfile();
-
-      if (!userProfile) return { conversations: [], stats: {}, insights: [] };
-
-      // Calculate comprehensive stats
-      const stats = {
-        total_conversations: conversations.length,
-        active_conversations: conversations.filter(
-          (c) => Date.now() - c.last_interaction < 7 * 24 * 60 * 60 * 1000
-        ).length,
-        avg_trust_score:
-          conversations.length > 0
-            ? conversations.reduce((sum, c) => sum + c.trust_score, 0) /
-              conversations.length
-            : 0,
-        avg_conversation_health:
-          conversations.length > 0
-            ? conversations.reduce((sum, c) => sum + c.conversation_health, 0) /
-              conversations.length
-            : 0,
-        dates_secured: userProfile.success_metrics.dates_secured,
-        positive_responses: userProfile.success_metrics.positive_responses,
-        success_rate:
-          userProfile.success_metrics.conversations_started > 0
-            ? userProfile.success_metrics.positive_responses /
-              userProfile.success_metrics.conversations_started
-            : 0,
-      };
-
-      // Get safety metrics
-      let safetyMetrics = {};
-      if (safetyEngine) {
-        safetyMetrics = await safetyEngine.trackSafetyMetrics("default");
-      }
-
-      // Recent insights across all conversations
-      const allInsights: DatingInsight[] = [];
-      for (const conversation of conversations.slice(0, 10)) {
-        const insights = await databaseManager.getInsightsForConversation(
-          conversation.id
-        );
-        allInsights.push(...insights);
-      }
-
-      const recentInsights = allInsights
-        .sort((a, b) => b.timestamp - a.timestamp)
-        .slice(0, 10);
-
-      return {
-        conversations: conversations.map((c) => ({
-          id: c.id,
-          contact: c.contact,
-          platform: c.platform,
-          trust_score: c.trust_score,
-          conversation_health: c.conversation_health,
-          relationship_stage: c.relationship_stage,
-          last_interaction: c.last_interaction,
-          message_count: c.messages.length,
-        })),
-        stats: { ...stats, ...safetyMetrics },
-        insights: recentInsights,
-      };
-    } catch (error) {
-      console.error("Error getting dating dashboard:", error);
-      return { conversations: [], stats: {}, insights: [] };
-    }
-  });
-
   // Update user preferences for better personalization
   ipcMain.handle(
     "update-user-preferences",
@@ -1173,11 +2358,17 @@ Format as JSON:
             data.conversationId
           );
           if (conversation) {
+            const timeline =
+              (conversation.contact_id &&
+                (await databaseManager.getContactTimeline(
+                  conversation.contact_id
+                ))) ||
+              conversation;
             // Add the message temporarily for analysis
             const tempConversation = {
-              ...conversation,
+              ...timeline,
               messages: [
-                ...conversation.messages,
+                ...timeline.messages,
                 {
                   text: data.content,
                   timestamp: Date.now(),
@@ -1219,9 +2410,9 @@ Format as JSON:
     "fetch-activities",
     async (_event: IpcMainInvokeEvent, interests: string[]) => {
       try {
-        // Initialize Gemini AI
-        const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY);
-        const model = genAI.getGenerativeModel({ model: "gemini-1.5-flash" });
+        if (!aiClient) {
+          throw new Error("No API key configured");
+        }
 
         const prompt = `Based on these interests: ${interests.join(
           ", "
@@ -1234,9 +2425,8 @@ Return format:
 - Activity 4 description
 - Activity 5 description`;
 
-        const result = await model.generateContent(prompt);
-        const response = await result.response;
-        const text = response.text();
+        const result = await aiClient.generateContent(prompt);
+        const text = result.text;
 
         // Parse the activities from the response
         const activities = text
@@ -1260,7 +2450,7 @@ Return format:
               `🎵 Check out live music at a local venue`,
             ];
       } catch (error) {
-        console.error("Error fetching activities with Gemini:", error);
+        console.error("Error fetching activities with AI:", error);
         // Fallback activities based on interests
         return [
           `Visit local art gallery (${interests[0] || "art"})`,
@@ -1284,9 +2474,9 @@ Return format:
       console.log("TRUST ANALYSIS STARTED:", profileData);
 
       try {
-        // Initialize Gemini AI
-        const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY);
-        const model = genAI.getGenerativeModel({ model: "gemini-1.5-flash" });
+        if (!aiClient) {
+          throw new Error("No API key configured");
+        }
 
         let prompt = "";
         let analysisData: any = {};
@@ -1320,15 +2510,7 @@ Consider these factors:
 - Common scam patterns and red flags
 - Social media presence indicators
 
-Provide a detailed trust analysis in this exact JSON format:
-{
-  "trustScore": <number 1-100>,
-  "verificationStatus": "<verified|suspicious|unknown>",
-  "imageMatches": ["<detailed analysis of photos mentioned>"],
-  "socialProfiles": ["<specific social media findings>"],
-  "redFlags": ["<specific concerning patterns found>"],
-  "positiveSignals": ["<specific authentic indicators found>"]
-}`;
+Provide a detailed trust analysis: a trustScore from 1-100, a verificationStatus of verified, suspicious or unknown, your analysis of any photos mentioned (imageMatches), specific social media findings (socialProfiles), specific concerning patterns (redFlags) and specific authentic indicators (positiveSignals).`;
           } catch (fetchError) {
             console.log(
               "Could not fetch URL content, analyzing URL structure instead"
@@ -1342,78 +2524,37 @@ Analyze:
 - Known scam domains
 - Geographic indicators
 
-Return analysis in JSON format with trustScore, verificationStatus, imageMatches, socialProfiles, redFlags, and positiveSignals.`;
+Return the analysis with trustScore, verificationStatus, imageMatches, socialProfiles, redFlags, and positiveSignals.`;
           }
         } else if (profileData.imageFile) {
           prompt = `Analyze an uploaded profile image for authenticity indicators. Since this is image analysis, provide guidance on verification steps.
 
-Return JSON with:
-{
-  "trustScore": <75-90 for uploaded images>,
-  "verificationStatus": "pending_verification",
-  "imageMatches": ["Reverse image search recommended", "Check for metadata analysis"],
-  "socialProfiles": ["Cross-reference with social platforms"],
-  "redFlags": ["Verify image originality"],
-  "positiveSignals": ["User provided image for verification", "Engagement in verification process"]
-}`;
+Use a trustScore of 75-90 for uploaded images and a verificationStatus of pending_verification. List verification steps such as reverse image search and metadata analysis under imageMatches, cross-referencing with social platforms under socialProfiles, image originality checks under redFlags, and the user's engagement in verification under positiveSignals.`;
         }
 
-        const result = await model.generateContent(prompt);
-        const response = await result.response;
-        const text = response.text();
-
-        // Clean up JSON response
-        const cleanedText = text
-          .replace(/```json\n?/g, "")
-          .replace(/```\n?/g, "")
-          .replace(/^[^{]*/, "")
-          .replace(/[^}]*$/, "")
-          .trim();
-
-        try {
-          const analysis = JSON.parse(cleanedText);
-
-          // Validate and enhance the response
-          const validatedAnalysis = {
-            trustScore: Math.max(1, Math.min(100, analysis.trustScore || 50)),
-            verificationStatus: [
-              "verified",
-              "suspicious",
-              "unknown",
-              "pending_verification",
-            ].includes(analysis.verificationStatus)
-              ? analysis.verificationStatus
-              : "unknown",
-            imageMatches: Array.isArray(analysis.imageMatches)
-              ? analysis.imageMatches
-              : ["Analysis pending"],
-            socialProfiles: Array.isArray(analysis.socialProfiles)
-              ? analysis.socialProfiles
-              : ["Connect for verification"],
-            redFlags: Array.isArray(analysis.redFlags) ? analysis.redFlags : [],
-            positiveSignals: Array.isArray(analysis.positiveSignals)
-              ? analysis.positiveSignals
-              : ["Analysis completed"],
-          };
+        const result = await aiClient.generateStructured<{
+          trustScore: number;
+          verificationStatus: string;
+          imageMatches: string[];
+          socialProfiles: string[];
+          redFlags: string[];
+          positiveSignals: string[];
+        }>(prompt, TRUST_ANALYSIS_TASK);
+
+        const validatedAnalysis = {
+          ...result.data,
+          answeredBy: { provider: result.provider, model: result.model },
+        };
 
-          // Send desktop notification about analysis completion
-          notifier.notify({
-            title: "Trust Analysis Complete",
-            message: `Trust Score: ${validatedAnalysis.trustScore}/100 - ${validatedAnalysis.verificationStatus}`,
-            sound: true,
-            wait: false,
-          });
+        // Send desktop notification about analysis completion
+        notifier.notify({
+          title: "Trust Analysis Complete",
+          message: `Trust Score: ${validatedAnalysis.trustScore}/100 - ${validatedAnalysis.verificationStatus}`,
+          sound: true,
+          wait: false,
+        });
 
-          return validatedAnalysis;
-        } catch (parseError) {
-          console.error(
-            "JSON parsing failed:",
-            parseError,
-            "Raw text:",
-            cleanedText
-          );
-          throw new Error("Failed to parse AI response");
-        }
+        return validatedAnalysis;
       } catch (error) {
         console.error("TRUST ANALYSIS ERROR:", error);
         console.error("Error details:", error.message);
@@ -1433,6 +2574,8 @@ Return JSON with:
           socialProfiles: ["Connect accounts for verification"],
           redFlags: ["Unable to complete full analysis"],
           positiveSignals: ["Manual verification recommended"],
+          validationErrors:
+            error instanceof StructuredOutputError ? error.issues : undefined,
         };
       }
     }
@@ -1466,25 +2609,81 @@ const initializeDesktopFeatures = () => {
     return { opacity: appOpacity };
   });
 
-  // Auto-capture screenshots for profile verification
+  // Capture the screen without the overlay in it and keep it for OCR
+  const captureChatScreenshot = async () => {
+    const wasVisible = mainWindow?.isVisible() ?? false;
+    if (wasVisible) {
+      mainWindow!.hide();
+      await new Promise((resolve) => setTimeout(resolve, 250));
+    }
+    try {
+      lastScreenshot = await screenshot({ format: "png" });
+    } finally {
+      if (wasVisible) mainWindow?.show();
+    }
+    const size = nativeImage.createFromBuffer(lastScreenshot!).getSize();
+    return {
+      data: `data:image/png;base64,${lastScreenshot!.toString("base64")}`,
+      width: size.width,
+      height: size.height,
+    };
+  };
+
+  // Auto-capture screenshots for profile verification and chat OCR
   ipcMain.handle("capture-screen", async () => {
     try {
       const sources = await desktopCapturer.getSources({ types: ["screen"] });
       if (sources.length > 0) {
-        const capturedImage = await screenshot.all();
+        const capture = await captureChatScreenshot();
         notifier.notify({
           title: "Screenshot Captured",
-          message: "Screen captured for profile verification",
+          message: "Select the chat area to extract the conversation",
           sound: true,
         });
-        return { success: true, data: capturedImage };
+        return { success: true, ...capture };
       }
+      return { success: false, error: "No screen available to capture" };
     } catch (error) {
       console.error("Screenshot capture failed:", error);
       return { success: false, error: error.message };
     }
   });
 
+  // Turn the last capture (or an image file) into a speaker-attributed transcript
+  ipcMain.handle(
+    "ocr-screenshot",
+    async (
+      _event: IpcMainInvokeEvent,
+      options?: { region?: OcrRegion; imagePath?: string }
+    ) => {
+      try {
+        const image = options?.imagePath
+          ? await fs.readFile(options.imagePath)
+          : lastScreenshot;
+        if (!image) {
+          return { success: false, error: "Capture a screenshot first" };
+        }
+
+        if (!screenshotOcr) {
+          screenshotOcr = new ScreenshotOcr(
+            path.join(app.getPath("userData"), "ocr-cache")
+          );
+        }
+        const result = await screenshotOcr.recognize(image, options?.region);
+        if (!result.transcript) {
+          return {
+            success: false,
+            error: "No readable text found in the selected area",
+          };
+        }
+        return { success: true, ...result };
+      } catch (error) {
+        console.error("Screenshot OCR failed:", error);
+        return { success: false, error: error.message };
+      }
+    }
+  );
+
   // Get clipboard content
   ipcMain.handle("get-clipboard", async () => {
     try {
@@ -1506,8 +2705,9 @@ const initializeDesktopFeatures = () => {
 
       // Debug logging every 60 checks (every 5 minutes)
       if (clipboardCheckCount % 60 === 0) {
+        const { dailyUsed } = await getApiUsageSnapshot();
         console.log(
-          `Clipboard monitor active - Check #${clipboardCheckCount}, API calls today: ${dailyApiCallCount}/${MAX_DAILY_CALLS}`
+          `Clipboard monitor active - Check #${clipboardCheckCount}, API calls today: ${dailyUsed}`
         );
       }
 
@@ -1533,16 +2733,11 @@ const initializeDesktopFeatures = () => {
           ),
           hasPassword: currentClipboard.toLowerCase().includes("password"),
           isValidMessage,
-          canMakeApiCall: canMakeApiCall(),
         });
 
         if (isValidMessage && mainWindow) {
           console.log("✅ Message detected - sending to renderer");
-          const apiUsage = {
-            dailyUsed: dailyApiCallCount,
-            dailyLimit: MAX_DAILY_CALLS,
-            canMakeCall: canMakeApiCall(),
-          };
+          const apiUsage = await getApiUsageSnapshot();
           mainWindow.webContents.send("message-detected", {
             message: currentClipboard,
             timestamp: Date.now(),
@@ -1669,6 +2864,131 @@ const initializeDesktopFeatures = () => {
     }
   });
 
+  ipcMain.handle(
+    "export-verification-report",
+    async (_event, verificationData) => {
+      try {
+        const result = await dialog.showSaveDialog(mainWindow!, {
+          title: "Export Verification Report",
+          defaultPath: `verification-report-${Date.now()}.json`,
+          filters: [
+            { name: "JSON Reports", extensions: ["json"] },
+            { name: "All Files", extensions: ["*"] },
+          ],
+        });
+
+        if (result.canceled || !result.filePath) {
+          return { success: false, message: "Export cancelled" };
+        }
+
+        const report = {
+          generated_at: new Date().toISOString(),
+          app_version: app.getVersion(),
+          verification: verificationData,
+        };
+        await fs.writeFile(result.filePath, JSON.stringify(report, null, 2));
+
+        return {
+          success: true,
+          path: result.filePath,
+          message: `Report saved to ${path.basename(result.filePath)}`,
+        };
+      } catch (error) {
+        console.error("Export verification report failed:", error);
+        return { success: false, message: error.message };
+      }
+    }
+  );
+
+  // Backups bundle the database, history included, and settings
+  ipcMain.handle("create-backup", async () => {
+    try {
+      const date = new Date().toISOString().slice(0, 10);
+      const result = await dialog.showSaveDialog(mainWindow!, {
+        title: "Back Up Dating Assistant",
+        defaultPath: `dating-assistant-${date}.${BACKUP_FILE_EXTENSION}`,
+        filters: [
+          {
+            name: "Dating Assistant Backups",
+            extensions: [BACKUP_FILE_EXTENSION],
+          },
+        ],
+      });
+      if (result.canceled || !result.filePath) {
+        return { success: false, message: "Backup cancelled" };
+      }
+
+      const summary = await new BackupManager().createBackup(result.filePath);
+      return {
+        success: true,
+        path: result.filePath,
+        summary,
+        message: `Backed up ${summary.conversations} conversation${
+          summary.conversations === 1 ? "" : "s"
+        } to ${path.basename(result.filePath)}`,
+      };
+    } catch (error) {
+      console.error("Create backup failed:", error);
+      return { success: false, message: error.message };
+    }
+  });
+
+  // Picks and verifies a backup so the user can see what's in it before
+  // choosing to merge or replace
+  ipcMain.handle("inspect-backup", async () => {
+    try {
+      const result = await dialog.showOpenDialog(mainWindow!, {
+        title: "Restore Dating Assistant Backup",
+        properties: ["openFile"],
+        filters: [
+          {
+            name: "Dating Assistant Backups",
+            extensions: [BACKUP_FILE_EXTENSION],
+          },
+          { name: "All Files", extensions: ["*"] },
+        ],
+      });
+      if (result.canceled || result.filePaths.length === 0) {
+        return { success: false, message: "Restore cancelled" };
+      }
+
+      const filePath = result.filePaths[0];
+      const summary = await new BackupManager().inspectBackup(filePath);
+      return { success: true, path: filePath, summary };
+    } catch (error) {
+      console.error("Inspect backup failed:", error);
+      return { success: false, message: error.message };
+    }
+  });
+
+  ipcMain.handle(
+    "restore-backup",
+    async (_event, filePath: string, mode: "merge" | "replace") => {
+      try {
+        const restored = await new BackupManager().restoreBackup(
+          filePath,
+          mode
+        );
+
+        // Pick up the restored settings and provider configuration
+        await loadAppSettings();
+        if (mainWindow) mainWindow.setOpacity(appOpacity);
+        await initializeAI();
+
+        return {
+          success: true,
+          restored,
+          message: `Restored ${restored.conversations} conversation${
+            restored.conversations === 1 ? "" : "s"
+          }`,
+        };
+      } catch (error) {
+        console.error("Restore backup failed:", error);
+        return { success: false, message: error.message };
+      }
+    }
+  );
+
   // API Key management for settings
   ipcMain.handle(
     "write-file",
@@ -1686,10 +3006,7 @@ const initializeDesktopFeatures = () => {
 
   ipcMain.handle("get-current-api-key", async () => {
     try {
-      const envPath = path.resolve(".env");
-      const envContent = await fs.readFile(envPath, "utf-8");
-      const match = envContent.match(/GEMINI_API_KEY\s*=\s*(.+)/);
-      return match ? match[1].trim() : null;
+      return (await apiKeyManager.getApiKeyHint()) || null;
     } catch (error) {
       console.error("Get API key failed:", error);
       return null;
@@ -1743,10 +3060,15 @@ const initializeDesktopFeatures = () => {
         label: "Capture Screen",
         click: async () => {
           try {
-            await screenshot.all();
+            const capture = await captureChatScreenshot();
+            if (mainWindow) {
+              mainWindow.show();
+              mainWindow.focus();
+              mainWindow.webContents.send("screenshot-captured", capture);
+            }
             notifier.notify({
               title: "Screenshot Captured",
-              message: "Screenshot saved for verification",
+              message: "Select the chat area to extract the conversation",
               sound: true,
             });
           } catch (error) {
@@ -1788,6 +3110,7 @@ const initializeDesktopFeatures = () => {
     clearInterval(clipboardMonitor);
     imageWatcher.close();
     if (systemTray) systemTray.destroy();
+    if (screenshotOcr) screenshotOcr.terminate();
   });
 };
 
@@ -1805,10 +3128,14 @@ async function loadAppSettings() {
         appOpacity = Math.max(0.2, Math.min(1.0, settings.opacity));
         console.log("Loaded opacity setting:", appOpacity);
       }
+      safetyRules.configure(settings.safetyRules || {});
     } catch (fileError) {
       // Settings file doesn't exist yet, will use defaults
       console.log("Using default opacity setting:", appOpacity);
+      safetyRules.configure({});
     }
+    // Rules written for the app language apply alongside the English ones
+    safetyRules.setLocales([app.getLocale(), "en"]);
   } catch (error) {
     console.error("Error loading settings:", error);
   }
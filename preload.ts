@@ -1,21 +1,63 @@
-import { contextBridge, ipcRenderer } from "electron";
+import { contextBridge, ipcRenderer, webUtils } from "electron";
 
 contextBridge.exposeInMainWorld("electronAPI", {
   // API Key Management
   setApiKey: (
-    provider: "gemini" | "openai" | "anthropic" | "openrouter" | "custom",
+    provider:
+      | "gemini"
+      | "openai"
+      | "anthropic"
+      | "openrouter"
+      | "custom"
+      | "local",
     apiKey: string,
-    options?: { model?: string; endpoint?: string }
+    options?: { model?: string; endpoint?: string; keyName?: string }
   ) => ipcRenderer.invoke("set-api-key", provider, apiKey, options),
   getApiKey: (
-    provider?: "gemini" | "openai" | "anthropic" | "openrouter" | "custom"
+    provider?:
+      | "gemini"
+      | "openai"
+      | "anthropic"
+      | "openrouter"
+      | "custom"
+      | "local"
   ) => ipcRenderer.invoke("get-api-key", provider),
+  listApiKeys: (provider?: string) =>
+    ipcRenderer.invoke("list-api-keys", provider),
+  setActiveApiKey: (provider: string, id: string) =>
+    ipcRenderer.invoke("set-active-api-key", provider, id),
+  removeApiKey: (provider: string, id: string) =>
+    ipcRenderer.invoke("remove-api-key", provider, id),
+  getAppLockStatus: () => ipcRenderer.invoke("get-app-lock-status"),
+  unlockApp: (passphrase: string) =>
+    ipcRenderer.invoke("unlock-app", passphrase),
+  lockApp: () => ipcRenderer.invoke("lock-app"),
+  setAppPassphrase: (
+    currentPassphrase: string | undefined,
+    nextPassphrase: string | null
+  ) =>
+    ipcRenderer.invoke("set-app-passphrase", currentPassphrase, nextPassphrase),
+  setIdleLockMinutes: (minutes: number) =>
+    ipcRenderer.invoke("set-idle-lock-minutes", minutes),
+  onAppLocked: (callback: () => void) => {
+    const listener = () => callback();
+    ipcRenderer.on("app-locked", listener);
+    return () => {
+      ipcRenderer.removeListener("app-locked", listener);
+    };
+  },
+  getVaultStatus: () => ipcRenderer.invoke("get-vault-status"),
+  unlockVault: (passphrase: string) =>
+    ipcRenderer.invoke("unlock-vault", passphrase),
   hasValidApiKey: () => ipcRenderer.invoke("has-valid-api-key"),
   isFirstRun: () => ipcRenderer.invoke("is-first-run"),
   getCurrentProvider: () => ipcRenderer.invoke("get-current-provider"),
   getProviderConfig: () => ipcRenderer.invoke("get-provider-config"),
-  getAvailableModels: (provider: string) =>
-    ipcRenderer.invoke("get-available-models", provider),
+  getAvailableModels: (provider: string, endpoint?: string) =>
+    ipcRenderer.invoke("get-available-models", provider, endpoint),
+  getFallbackProviders: () => ipcRenderer.invoke("get-fallback-providers"),
+  setFallbackProviders: (providers: string[]) =>
+    ipcRenderer.invoke("set-fallback-providers", providers),
 
   // Smart Reply Generation
   generateSmartReplies: (data: {
@@ -64,16 +106,149 @@ contextBridge.exposeInMainWorld("electronAPI", {
     outcome: "positive" | "negative" | "neutral";
     context: string;
   }) => ipcRenderer.invoke("provide-advice-feedback", data),
+  getLearningState: () => ipcRenderer.invoke("get-learning-state"),
+  resetLearning: () => ipcRenderer.invoke("reset-learning"),
   getDatingDashboard: () => ipcRenderer.invoke("get-dating-dashboard"),
+  searchMessages: (
+    query: string,
+    options?: { limit?: number; conversationId?: string }
+  ) => ipcRenderer.invoke("search-messages", query, options),
+  saveHistoryItem: (item: {
+    id: string;
+    type: "smartReply" | "catfish" | "quality";
+    inputText: string;
+    outputSummary: string;
+    result?: unknown;
+    conversationId?: string;
+    contactId?: string;
+    timestamp: number;
+  }) => ipcRenderer.invoke("save-history-item", item),
+  listHistory: (query?: {
+    type?: "smartReply" | "catfish" | "quality";
+    conversationId?: string;
+    contactId?: string;
+    limit?: number;
+  }) => ipcRenderer.invoke("list-history", query),
+  searchHistory: (
+    text: string,
+    query?: { type?: "smartReply" | "catfish" | "quality"; limit?: number }
+  ) => ipcRenderer.invoke("search-history", text, query),
+  importHistory: (items: unknown[]) =>
+    ipcRenderer.invoke("import-history", items),
+  clearHistory: () => ipcRenderer.invoke("clear-history"),
+  listContacts: () => ipcRenderer.invoke("list-contacts"),
+  getContactTimeline: (contactId: string) =>
+    ipcRenderer.invoke("get-contact-timeline", contactId),
+  mergeContacts: (targetId: string, sourceIds: string[]) =>
+    ipcRenderer.invoke("merge-contacts", targetId, sourceIds),
+  splitContact: (
+    contactId: string,
+    conversationIds: string[],
+    displayName?: string
+  ) =>
+    ipcRenderer.invoke(
+      "split-contact",
+      contactId,
+      conversationIds,
+      displayName
+    ),
+  renameContact: (contactId: string, displayName: string) =>
+    ipcRenderer.invoke("rename-contact", contactId, displayName),
+  forgetContact: (contactId: string) =>
+    ipcRenderer.invoke("forget-contact", contactId),
+  setContactStage: (contactId: string, stage: string) =>
+    ipcRenderer.invoke("set-contact-stage", contactId, stage),
+  checkOutgoingDraft: (
+    draft: string,
+    options?: { contactId?: string; stage?: string; photoPath?: string }
+  ) => ipcRenderer.invoke("check-outgoing-draft", draft, options),
+  chooseDraftPhoto: () => ipcRenderer.invoke("choose-draft-photo"),
+  onDraftCheckRequested: (callback: (data: { draft: string }) => void) => {
+    const listener = (
+      _event: Electron.IpcRendererEvent,
+      data: { draft: string }
+    ) => callback(data);
+    ipcRenderer.on("draft-check-requested", listener);
+    return () => {
+      ipcRenderer.removeListener("draft-check-requested", listener);
+    };
+  },
+  listDatePlans: () => ipcRenderer.invoke("list-date-plans"),
+  startDatePlan: (input: {
+    contactId?: string;
+    who: string;
+    location: string;
+    startsAt: number;
+    endsAt: number;
+    checkInMinutes: number;
+  }) => ipcRenderer.invoke("start-date-plan", input),
+  checkInDatePlan: (planId: string) =>
+    ipcRenderer.invoke("check-in-date-plan", planId),
+  endDatePlan: (planId: string) => ipcRenderer.invoke("end-date-plan", planId),
+  getDateSafetySettings: () => ipcRenderer.invoke("get-date-safety-settings"),
+  setDateSafetySettings: (settings: any) =>
+    ipcRenderer.invoke("set-date-safety-settings", settings),
+  chooseEscalationFolder: () => ipcRenderer.invoke("choose-escalation-folder"),
+  testDateEscalation: (settings: any) =>
+    ipcRenderer.invoke("test-date-escalation", settings),
+  onDateCheckInDue: (
+    callback: (data: { planId: string; loud: boolean }) => void
+  ) => {
+    const listener = (
+      _event: Electron.IpcRendererEvent,
+      data: { planId: string; loud: boolean }
+    ) => callback(data);
+    ipcRenderer.on("date-check-in-due", listener);
+    return () => {
+      ipcRenderer.removeListener("date-check-in-due", listener);
+    };
+  },
+  onDatePlanUpdated: (callback: (plan: any) => void) => {
+    const listener = (_event: Electron.IpcRendererEvent, plan: any) =>
+      callback(plan);
+    ipcRenderer.on("date-plan-updated", listener);
+    return () => {
+      ipcRenderer.removeListener("date-plan-updated", listener);
+    };
+  },
+  getRetentionPolicy: () => ipcRenderer.invoke("get-retention-policy"),
+  setRetentionPolicy: (policy: {
+    deleteInactiveAfterDays?: number;
+    purgeMessageTextAfterDays?: number;
+  }) => ipcRenderer.invoke("set-retention-policy", policy),
+  getSafetyRules: () => ipcRenderer.invoke("get-safety-rules"),
+  selectSafetyRules: (categories: string[]) =>
+    ipcRenderer.invoke("select-safety-rules", categories),
+  setSafetyRuleEnabled: (ruleId: string, enabled: boolean) =>
+    ipcRenderer.invoke("set-safety-rule-enabled", ruleId, enabled),
+  saveCustomSafetyRule: (rule: any) =>
+    ipcRenderer.invoke("save-custom-safety-rule", rule),
+  deleteCustomSafetyRule: (ruleId: string) =>
+    ipcRenderer.invoke("delete-custom-safety-rule", ruleId),
+  importChatArchive: (
+    filePath?: string,
+    options?: {
+      format?: "whatsapp" | "telegram" | "tinder" | "hinge" | "bumble";
+      selfName?: string;
+    }
+  ) => ipcRenderer.invoke("import-chat-archive", filePath, options),
   updateUserPreferences: (preferences: any) =>
     ipcRenderer.invoke("update-user-preferences", preferences),
 
   // Desktop-specific features
   captureScreen: () => ipcRenderer.invoke("capture-screen"),
+  ocrScreenshot: (options?: {
+    region?: { left: number; top: number; width: number; height: number };
+    imagePath?: string;
+  }) => ipcRenderer.invoke("ocr-screenshot", options),
   toggleAutoLaunch: (enabled: boolean) =>
     ipcRenderer.invoke("toggle-auto-launch", enabled),
   saveVerificationReport: (reportData: any) =>
     ipcRenderer.invoke("save-verification-report", reportData),
+  createBackup: () => ipcRenderer.invoke("create-backup"),
+  inspectBackup: () => ipcRenderer.invoke("inspect-backup"),
+  restoreBackup: (filePath: string, mode: "merge" | "replace") =>
+    ipcRenderer.invoke("restore-backup", filePath, mode),
   setAppOpacity: (opacity: number) =>
     ipcRenderer.invoke("set-app-opacity", opacity),
   getAppOpacity: () => ipcRenderer.invoke("get-app-opacity"),
@@ -82,7 +257,13 @@ contextBridge.exposeInMainWorld("electronAPI", {
   writeFile: (filename: string, content: string) =>
     ipcRenderer.invoke("write-file", filename, content),
   getCurrentApiKey: () => ipcRenderer.invoke("get-current-api-key"),
-  getApiUsage: () => ipcRenderer.invoke("get-api-usage"),
+  getApiUsage: (historyDays?: number) =>
+    ipcRenderer.invoke("get-api-usage", historyDays),
+  setUsageBudgets: (budgets: {
+    dailyUsd?: number;
+    monthlyUsd?: number;
+    dailyCalls?: number;
+  }) => ipcRenderer.invoke("set-usage-budgets", budgets),
 
   // Health checks
   checkNetworkOnline: () => ipcRenderer.invoke("check-network-online"),
@@ -111,6 +292,16 @@ contextBridge.exposeInMainWorld("electronAPI", {
   ) => ipcRenderer.on("message-detected", (_event, data) => callback(data)),
   onShowSettings: (callback: () => void) =>
     ipcRenderer.on("show-settings", () => callback()),
+  onScreenshotCaptured: (
+    callback: (capture: { data: string; width: number; height: number }) => void
+  ) => {
+    const listener = (_event: Electron.IpcRendererEvent, capture: any) =>
+      callback(capture);
+    ipcRenderer.on("screenshot-captured", listener);
+    return () => {
+      ipcRenderer.removeListener("screenshot-captured", listener);
+    };
+  },
 
   // ADVANCED VERIFICATION SYSTEM APIs
 
@@ -144,6 +335,11 @@ contextBridge.exposeInMainWorld("electronAPI", {
   analyzePhotosCatfish: (photoPaths: string[]) =>
     ipcRenderer.invoke("analyze-photos-catfish", photoPaths),
 
+  // Where a file picked in an <input type="file"> lives on disk, for the
+  // checks that read photos in the main process. Empty for files that
+  // didn't come from disk.
+  getPathForFile: (file: File) => webUtils.getPathForFile(file),
+
   // Advanced conversation pattern analysis
   analyzeConversationAdvanced: (
     messages: Array<{
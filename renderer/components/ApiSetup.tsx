@@ -7,9 +7,12 @@ interface ApiSetupProps {
 
 export default function ApiSetup({ onSetupComplete }: ApiSetupProps) {
   const [selectedProvider, setSelectedProvider] = useState<
-    "gemini" | "openai" | "anthropic"
+    "gemini" | "openai" | "anthropic" | "local"
   >("gemini");
   const [apiKey, setApiKey] = useState("");
+  const [localEndpoint, setLocalEndpoint] = useState(
+    "http://localhost:11434/v1"
+  );
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState("");
   const [showKey, setShowKey] = useState(false);
@@ -18,6 +21,11 @@ export default function ApiSetup({ onSetupComplete }: ApiSetupProps) {
     console.log("handleSave called");
     console.log("electronAPI available:", !!window.electronAPI);
 
+    if (selectedProvider === "local") {
+      await handleSaveLocal();
+      return;
+    }
+
     if (!apiKey.trim()) {
       setError("Please enter an API key");
       return;
@@ -48,6 +56,40 @@ export default function ApiSetup({ onSetupComplete }: ApiSetupProps) {
     }
   };
 
+  // Local servers need no key; pick the first model the server reports
+  const handleSaveLocal = async () => {
+    if (!localEndpoint.trim()) {
+      setError("Please enter the server address");
+      return;
+    }
+
+    setSaving(true);
+    setError("");
+
+    try {
+      const models = await window.electronAPI.getAvailableModels(
+        "local",
+        localEndpoint.trim()
+      );
+      if (models.length === 0) {
+        setError(
+          "No models found at that address. Start Ollama or llama.cpp and load a model first."
+        );
+        return;
+      }
+      await window.electronAPI.setApiKey("local", "", {
+        endpoint: localEndpoint.trim(),
+        model: models[0],
+      });
+      onSetupComplete();
+    } catch (err) {
+      console.error("Error saving local server:", err);
+      setError(`Failed to connect to local server: ${err?.message || err}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
   const getInstructions = () => {
     switch (selectedProvider) {
       case "gemini":
@@ -89,10 +131,24 @@ export default function ApiSetup({ onSetupComplete }: ApiSetupProps) {
           placeholder: "sk-ant-...",
           note: "Pay-per-use: ~$0.003 per request",
         };
+      case "local":
+        return {
+          title: "Local model server",
+          steps: [
+            "1. Install Ollama (https://ollama.com) or build llama.cpp's server",
+            "2. Pull a model, e.g. `ollama pull llama3.1`",
+            "3. Make sure the server is running",
+            "4. Enter its address below (Ollama's default is filled in)",
+          ],
+          placeholder: "http://localhost:11434/v1",
+          note: "Free and private: conversations never leave this machine",
+        };
     }
   };
 
   const instructions = getInstructions();
+  const canSave =
+    selectedProvider === "local" ? !!localEndpoint.trim() : !!apiKey.trim();
 
   return (
     <div
@@ -193,45 +249,49 @@ export default function ApiSetup({ onSetupComplete }: ApiSetupProps) {
             </div>
           </div>
           <div style={{ display: "flex", gap: 10, flexWrap: "wrap" }}>
-            {(["gemini", "openai", "anthropic"] as const).map((provider) => (
-              <button
-                key={provider}
-                onClick={() => setSelectedProvider(provider)}
-                style={{
-                  background:
-                    selectedProvider === provider
-                      ? "rgba(59,130,246,0.2)"
-                      : "rgba(255,255,255,0.06)",
-                  border: `1px solid ${
-                    selectedProvider === provider
-                      ? "#3b82f6"
-                      : "rgba(255,255,255,0.1)"
-                  }`,
-                  color: "#ffffff",
-                  padding: "10px 14px",
-                  borderRadius: 10,
-                  cursor: "pointer",
-                  fontSize: 13,
-                  textTransform: "capitalize",
-                  fontWeight: selectedProvider === provider ? 600 : 500,
-                  boxShadow:
-                    selectedProvider === provider
-                      ? "0 0 0 4px rgba(59,130,246,0.12)"
-                      : "none",
-                }}
-              >
-                {provider === "gemini"
-                  ? "Gemini"
-                  : provider === "openai"
-                  ? "OpenAI"
-                  : "Claude"}
-                {selectedProvider === provider && (
-                  <span style={{ marginLeft: 8, opacity: 0.8 }}>
-                    (Selected)
-                  </span>
-                )}
-              </button>
-            ))}
+            {(["gemini", "openai", "anthropic", "local"] as const).map(
+              (provider) => (
+                <button
+                  key={provider}
+                  onClick={() => setSelectedProvider(provider)}
+                  style={{
+                    background:
+                      selectedProvider === provider
+                        ? "rgba(59,130,246,0.2)"
+                        : "rgba(255,255,255,0.06)",
+                    border: `1px solid ${
+                      selectedProvider === provider
+                        ? "#3b82f6"
+                        : "rgba(255,255,255,0.1)"
+                    }`,
+                    color: "#ffffff",
+                    padding: "10px 14px",
+                    borderRadius: 10,
+                    cursor: "pointer",
+                    fontSize: 13,
+                    textTransform: "capitalize",
+                    fontWeight: selectedProvider === provider ? 600 : 500,
+                    boxShadow:
+                      selectedProvider === provider
+                        ? "0 0 0 4px rgba(59,130,246,0.12)"
+                        : "none",
+                  }}
+                >
+                  {provider === "gemini"
+                    ? "Gemini"
+                    : provider === "openai"
+                    ? "OpenAI"
+                    : provider === "anthropic"
+                    ? "Claude"
+                    : "Local"}
+                  {selectedProvider === provider && (
+                    <span style={{ marginLeft: 8, opacity: 0.8 }}>
+                      (Selected)
+                    </span>
+                  )}
+                </button>
+              )
+            )}
           </div>
         </div>
 
@@ -291,19 +351,21 @@ export default function ApiSetup({ onSetupComplete }: ApiSetupProps) {
               marginBottom: 8,
             }}
           >
-            Enter your {instructions.title} key
+            {selectedProvider === "local"
+              ? "Server address"
+              : `Enter your ${instructions.title} key`}
           </label>
-          <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
+          {selectedProvider === "local" ? (
             <input
-              type={showKey ? "text" : "password"}
-              value={apiKey}
-              onChange={(e) => setApiKey(e.target.value)}
+              type="text"
+              value={localEndpoint}
+              onChange={(e) => setLocalEndpoint(e.target.value)}
               onKeyDown={(e) => {
                 if (e.key === "Enter") handleSave();
               }}
               placeholder={instructions.placeholder}
               style={{
-                flex: 1,
+                width: "100%",
                 padding: "12px 14px",
                 borderRadius: 10,
                 border: "1px solid rgba(255,255,255,0.12)",
@@ -313,21 +375,43 @@ export default function ApiSetup({ onSetupComplete }: ApiSetupProps) {
                 fontFamily: "monospace",
               }}
             />
-            <button
-              onClick={() => setShowKey((s) => !s)}
-              aria-label="Toggle key visibility"
-              style={{
-                background: "rgba(255,255,255,0.08)",
-                border: "1px solid rgba(255,255,255,0.12)",
-                color: "#ffffff",
-                padding: "10px 12px",
-                borderRadius: 10,
-                cursor: "pointer",
-              }}
-            >
-              {showKey ? <EyeOff size={16} /> : <Eye size={16} />}
-            </button>
-          </div>
+          ) : (
+            <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
+              <input
+                type={showKey ? "text" : "password"}
+                value={apiKey}
+                onChange={(e) => setApiKey(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") handleSave();
+                }}
+                placeholder={instructions.placeholder}
+                style={{
+                  flex: 1,
+                  padding: "12px 14px",
+                  borderRadius: 10,
+                  border: "1px solid rgba(255,255,255,0.12)",
+                  background: "rgba(255,255,255,0.08)",
+                  color: "#ffffff",
+                  fontSize: 14,
+                  fontFamily: "monospace",
+                }}
+              />
+              <button
+                onClick={() => setShowKey((s) => !s)}
+                aria-label="Toggle key visibility"
+                style={{
+                  background: "rgba(255,255,255,0.08)",
+                  border: "1px solid rgba(255,255,255,0.12)",
+                  color: "#ffffff",
+                  padding: "10px 12px",
+                  borderRadius: 10,
+                  cursor: "pointer",
+                }}
+              >
+                {showKey ? <EyeOff size={16} /> : <Eye size={16} />}
+              </button>
+            </div>
+          )}
         </div>
 
         {error && (
@@ -349,7 +433,7 @@ export default function ApiSetup({ onSetupComplete }: ApiSetupProps) {
         <div style={{ display: "flex", gap: 10 }}>
           <button
             onClick={handleSave}
-            disabled={saving || !apiKey.trim()}
+            disabled={saving || !canSave}
             style={{
               flex: 1,
               background: saving ? "rgba(107,114,128,0.5)" : "#2563eb",
@@ -360,7 +444,7 @@ export default function ApiSetup({ onSetupComplete }: ApiSetupProps) {
               fontSize: 14,
               fontWeight: 600,
               cursor: saving ? "not-allowed" : "pointer",
-              opacity: saving || !apiKey.trim() ? 0.7 : 1,
+              opacity: saving || !canSave ? 0.7 : 1,
               boxShadow: "0 10px 30px rgba(37,99,235,0.25)",
             }}
           >
@@ -383,8 +467,10 @@ export default function ApiSetup({ onSetupComplete }: ApiSetupProps) {
             color: "#d1fae5",
           }}
         >
-          <Lock size={14} /> Your key stays on this device. Requests go directly
-          to your provider.
+          <Lock size={14} />{" "}
+          {selectedProvider === "local"
+            ? "Everything stays on this device. Requests go to your local server."
+            : "Your key stays on this device. Requests go directly to your provider."}
         </div>
       </div>
     </div>
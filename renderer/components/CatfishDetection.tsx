@@ -1,7 +1,12 @@
 import React, { useState, useEffect } from "react";
 import { ArrowLeft, History } from "lucide-react";
-import { saveHistoryItem, listHistory } from "../lib/history";
-import { CatfishDetector, CatfishAnalysisResult } from "../lib/catfishDetector";
+import { saveHistoryItem, listHistory, HistoryItem } from "../lib/history";
+import {
+  CATFISH_RULE_CATEGORIES,
+  CatfishDetector,
+  CatfishAnalysisResult,
+} from "../lib/catfishDetector";
+import ScreenshotTranscriber from "./ScreenshotTranscriber";
 
 interface CatfishDetectionProps {
   onClose?: () => void;
@@ -15,12 +20,22 @@ export default function CatfishDetection({
   const [conversationText, setConversationText] = useState("");
   const [analysis, setAnalysis] = useState<CatfishAnalysisResult | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
-  const [detector] = useState(() => new CatfishDetector());
-  const [recent, setRecent] = useState(() =>
-    listHistory("catfish").slice(0, 3)
-  );
+  const [detector, setDetector] = useState(() => new CatfishDetector());
+  const [recent, setRecent] = useState<HistoryItem[]>([]);
   const [clipboardText, setClipboardText] = useState("");
 
+  useEffect(() => {
+    listHistory("catfish", 3).then(setRecent);
+  }, []);
+
+  // Use the rules as configured in Settings rather than the bundled defaults
+  useEffect(() => {
+    window.electronAPI
+      ?.selectSafetyRules(CATFISH_RULE_CATEGORIES)
+      .then((rules) => setDetector(new CatfishDetector(rules)))
+      .catch((error) => console.error("Failed to load safety rules:", error));
+  }, []);
+
   // Auto-detect clipboard content
   useEffect(() => {
     const checkClipboard = async () => {
@@ -59,12 +74,13 @@ export default function CatfishDetection({
       await new Promise((resolve) => setTimeout(resolve, 800));
       const result = detector.analyzeConversation(conversationText);
       setAnalysis(result);
-      saveHistoryItem({
+      await saveHistoryItem({
         type: "catfish",
         inputText: conversationText,
         outputSummary: `${result.realnessScore}/100 ${result.riskLevel}`,
+        result,
       });
-      setRecent(listHistory("catfish").slice(0, 3));
+      setRecent(await listHistory("catfish", 3));
     } catch (error) {
       console.error("Error analyzing conversation:", error);
     } finally {
@@ -281,23 +297,33 @@ export default function CatfishDetection({
                   fontFamily: "inherit",
                 }}
               />
-              <button
-                onClick={handlePasteFromClipboard}
+              <div
                 style={{
                   position: "absolute",
                   top: "8px",
                   right: "8px",
-                  backgroundColor: "rgba(255, 255, 255, 0.1)",
-                  border: "1px solid rgba(255, 255, 255, 0.2)",
-                  color: "#ffffff",
-                  padding: "4px 8px",
-                  borderRadius: "4px",
-                  fontSize: "11px",
-                  cursor: "pointer",
+                  display: "flex",
+                  gap: "6px",
                 }}
               >
-                Paste
-              </button>
+                <ScreenshotTranscriber
+                  onTranscript={(transcript) => setConversationText(transcript)}
+                />
+                <button
+                  onClick={handlePasteFromClipboard}
+                  style={{
+                    backgroundColor: "rgba(255, 255, 255, 0.1)",
+                    border: "1px solid rgba(255, 255, 255, 0.2)",
+                    color: "#ffffff",
+                    padding: "4px 8px",
+                    borderRadius: "4px",
+                    fontSize: "11px",
+                    cursor: "pointer",
+                  }}
+                >
+                  Paste
+                </button>
+              </div>
             </div>
             {recent.length > 0 && (
               <div style={{ marginTop: 8 }}>
@@ -316,7 +342,12 @@ export default function CatfishDetection({
                   {recent.map((h) => (
                     <button
                       key={h.id}
-                      onClick={() => setConversationText(h.inputText)}
+                      onClick={() => {
+                        setConversationText(h.inputText);
+                        if (h.result) {
+                          setAnalysis(h.result as CatfishAnalysisResult);
+                        }
+                      }}
                       style={{
                         background: "rgba(255,255,255,0.08)",
                         color: "white",
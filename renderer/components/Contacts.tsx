@@ -0,0 +1,407 @@
+import React, { useEffect, useState } from "react";
+import { ArrowLeft, GitMerge, Scissors, Users } from "lucide-react";
+import { HISTORY_TYPE_LABELS } from "./MessageSearch";
+import type {
+  ContactConversation,
+  ContactSummary,
+  ContactTimelineMessage,
+  HistoryItem,
+} from "../types";
+
+// Each platform once, in alias order
+export const contactPlatforms = (contact: ContactSummary) =>
+  contact.aliases
+    .map((alias) => alias.platform)
+    .filter((platform, index, all) => all.indexOf(platform) === index);
+
+const trustColor = (score: number) =>
+  score >= 0.7 ? "#86efac" : score >= 0.4 ? "#fcd34d" : "#fca5a5";
+
+const cardStyle: React.CSSProperties = {
+  padding: "10px 12px",
+  background: "rgba(255, 255, 255, 0.05)",
+  border: "1px solid rgba(255, 255, 255, 0.1)",
+  borderRadius: "8px",
+};
+
+const buttonStyle: React.CSSProperties = {
+  display: "flex",
+  alignItems: "center",
+  gap: "6px",
+  background: "rgba(255, 255, 255, 0.1)",
+  border: "1px solid rgba(255, 255, 255, 0.3)",
+  borderRadius: "6px",
+  padding: "6px 10px",
+  color: "white",
+  fontSize: "12px",
+  cursor: "pointer",
+};
+
+const inputStyle: React.CSSProperties = {
+  flex: 1,
+  padding: "6px 10px",
+  background: "rgba(255, 255, 255, 0.1)",
+  border: "1px solid rgba(255, 255, 255, 0.3)",
+  borderRadius: "6px",
+  color: "white",
+  fontSize: "12px",
+  outline: "none",
+};
+
+export default function Contacts() {
+  const [contacts, setContacts] = useState<ContactSummary[]>([]);
+  const [mergeIds, setMergeIds] = useState<string[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [conversations, setConversations] = useState<ContactConversation[]>(
+    []
+  );
+  const [messages, setMessages] = useState<ContactTimelineMessage[]>([]);
+  const [history, setHistory] = useState<HistoryItem[]>([]);
+  const [splitIds, setSplitIds] = useState<string[]>([]);
+  const [nameInput, setNameInput] = useState("");
+  const [splitName, setSplitName] = useState("");
+  const [message, setMessage] = useState("");
+
+  const selected = contacts.find((contact) => contact.id === selectedId);
+
+  const loadContacts = async () => {
+    try {
+      setContacts(await window.electronAPI.listContacts());
+    } catch (error) {
+      console.error("Failed to load contacts:", error);
+      setMessage("❌ Could not load contacts");
+    }
+  };
+
+  const openContact = async (contact: ContactSummary) => {
+    setSelectedId(contact.id);
+    setNameInput(contact.display_name);
+    setSplitIds([]);
+    setSplitName("");
+    setMessage("");
+    try {
+      const response = await window.electronAPI.getContactTimeline(contact.id);
+      if (!response.success) {
+        setMessage(`❌ ${response.error || "Could not load the timeline"}`);
+        return;
+      }
+      setConversations(response.conversations || []);
+      setMessages(response.messages || []);
+      setHistory(
+        await window.electronAPI.listHistory({ contactId: contact.id })
+      );
+    } catch (error) {
+      console.error("Failed to load contact timeline:", error);
+      setMessage("❌ Could not load the timeline");
+    }
+  };
+
+  useEffect(() => {
+    loadContacts();
+  }, []);
+
+  const toggle = (ids: string[], id: string) =>
+    ids.includes(id) ? ids.filter((other) => other !== id) : [...ids, id];
+
+  // The most recently active of the chosen contacts keeps its name
+  const handleMerge = async () => {
+    const chosen = contacts.filter((contact) => mergeIds.includes(contact.id));
+    if (chosen.length < 2) return;
+    const [target, ...sources] = chosen;
+    if (
+      !confirm(
+        `Merge ${sources
+          .map((contact) => contact.display_name)
+          .join(", ")} into ${
+          target.display_name
+        }? Their conversations will be treated as one person.`
+      )
+    ) {
+      return;
+    }
+    const response = await window.electronAPI.mergeContacts(
+      target.id,
+      sources.map((contact) => contact.id)
+    );
+    if (!response.success) {
+      setMessage(`❌ ${response.error || "Could not merge contacts"}`);
+      return;
+    }
+    setMergeIds([]);
+    setMessage(`✅ Merged into ${target.display_name}`);
+    await loadContacts();
+  };
+
+  const handleRename = async () => {
+    if (!selected || !nameInput.trim()) return;
+    const response = await window.electronAPI.renameContact(
+      selected.id,
+      nameInput
+    );
+    if (!response.success) {
+      setMessage(`❌ ${response.error || "Could not rename contact"}`);
+      return;
+    }
+    setMessage("✅ Renamed");
+    await loadContacts();
+  };
+
+  const handleSplit = async () => {
+    if (!selected || splitIds.length === 0) return;
+    const response = await window.electronAPI.splitContact(
+      selected.id,
+      splitIds,
+      splitName.trim() || undefined
+    );
+    if (!response.success) {
+      setMessage(`❌ ${response.error || "Could not split contact"}`);
+      return;
+    }
+    await loadContacts();
+    await openContact(selected);
+    setMessage("✅ Split into a new contact");
+  };
+
+  return (
+    <div
+      style={{
+        padding: "24px",
+        color: "#ffffff",
+        fontFamily: "system-ui, -apple-system, sans-serif",
+        fontSize: "12px",
+      }}
+    >
+      {message && (
+        <div style={{ marginBottom: "12px", opacity: 0.9 }}>{message}</div>
+      )}
+
+      {!selected ? (
+        <>
+          <div
+            style={{
+              display: "flex",
+              alignItems: "center",
+              justifyContent: "space-between",
+              marginBottom: "12px",
+            }}
+          >
+            <span style={{ opacity: 0.7 }}>
+              Tick the same person on different apps to merge them
+            </span>
+            <button
+              onClick={handleMerge}
+              disabled={mergeIds.length < 2}
+              style={{
+                ...buttonStyle,
+                opacity: mergeIds.length < 2 ? 0.5 : 1,
+                cursor: mergeIds.length < 2 ? "default" : "pointer",
+              }}
+            >
+              <GitMerge size={12} />
+              Merge selected
+            </button>
+          </div>
+
+          {contacts.length === 0 && (
+            <div style={{ opacity: 0.6, textAlign: "center" }}>
+              <Users size={20} style={{ marginBottom: "6px" }} />
+              <div>No contacts yet</div>
+            </div>
+          )}
+
+          <div style={{ display: "grid", gap: "8px" }}>
+            {contacts.map((contact) => (
+              <div
+                key={contact.id}
+                style={{
+                  ...cardStyle,
+                  display: "flex",
+                  alignItems: "center",
+                  gap: "10px",
+                }}
+              >
+                <input
+                  type="checkbox"
+                  checked={mergeIds.includes(contact.id)}
+                  onChange={() => setMergeIds(toggle(mergeIds, contact.id))}
+                />
+                <div
+                  onClick={() => openContact(contact)}
+                  style={{ flex: 1, cursor: "pointer" }}
+                >
+                  <strong>{contact.display_name}</strong>
+                  <div style={{ opacity: 0.6, fontSize: "11px" }}>
+                    {`${contactPlatforms(contact).join(", ")} · ${
+                      contact.conversation_count
+                    } conversation(s) · ${contact.message_count} messages`}
+                  </div>
+                </div>
+                <span
+                  title="Trust score across all of their conversations"
+                  style={{ color: trustColor(contact.trust_score) }}
+                >
+                  {Math.round(contact.trust_score * 100)}%
+                </span>
+              </div>
+            ))}
+          </div>
+        </>
+      ) : (
+        <>
+          <button
+            onClick={() => {
+              setSelectedId(null);
+              setMessage("");
+            }}
+            style={{ ...buttonStyle, marginBottom: "12px" }}
+          >
+            <ArrowLeft size={12} />
+            All contacts
+          </button>
+
+          <div style={{ ...cardStyle, marginBottom: "12px" }}>
+            <div style={{ display: "flex", gap: "8px", marginBottom: "8px" }}>
+              <input
+                value={nameInput}
+                onChange={(e) => setNameInput(e.target.value)}
+                style={inputStyle}
+              />
+              <button onClick={handleRename} style={buttonStyle}>
+                Rename
+              </button>
+            </div>
+            <div style={{ lineHeight: 1.6 }}>
+              Trust score:{" "}
+              <span style={{ color: trustColor(selected.trust_score) }}>
+                {Math.round(selected.trust_score * 100)}%
+              </span>
+              <div style={{ opacity: 0.7 }}>
+                Known as{" "}
+                {selected.aliases
+                  .map((alias) => `${alias.alias} (${alias.platform})`)
+                  .join(", ")}
+              </div>
+            </div>
+          </div>
+
+          <h4 style={{ margin: "0 0 8px", fontSize: "13px" }}>Conversations</h4>
+          <div style={{ display: "grid", gap: "6px", marginBottom: "8px" }}>
+            {conversations.map((conversation) => (
+              <label
+                key={conversation.id}
+                style={{
+                  ...cardStyle,
+                  display: "flex",
+                  alignItems: "center",
+                  gap: "10px",
+                  cursor: "pointer",
+                }}
+              >
+                <input
+                  type="checkbox"
+                  checked={splitIds.includes(conversation.id)}
+                  onChange={() =>
+                    setSplitIds(toggle(splitIds, conversation.id))
+                  }
+                />
+                <span style={{ flex: 1 }}>
+                  <strong>{conversation.contact}</strong> ·{" "}
+                  {conversation.platform}
+                  <span style={{ opacity: 0.6 }}>
+                    {` · ${conversation.message_count} messages · last ${new Date(
+                      conversation.last_interaction
+                    ).toLocaleDateString()}`}
+                  </span>
+                </span>
+              </label>
+            ))}
+          </div>
+          {conversations.length > 1 && (
+            <div style={{ display: "flex", gap: "8px", marginBottom: "16px" }}>
+              <input
+                value={splitName}
+                onChange={(e) => setSplitName(e.target.value)}
+                placeholder="Name for the new contact (optional)"
+                style={inputStyle}
+              />
+              <button
+                onClick={handleSplit}
+                disabled={
+                  splitIds.length === 0 ||
+                  splitIds.length === conversations.length
+                }
+                style={{
+                  ...buttonStyle,
+                  opacity:
+                    splitIds.length === 0 ||
+                    splitIds.length === conversations.length
+                      ? 0.5
+                      : 1,
+                }}
+              >
+                <Scissors size={12} />
+                Split into new contact
+              </button>
+            </div>
+          )}
+
+          {history.length > 0 && (
+            <>
+              <h4 style={{ margin: "0 0 8px", fontSize: "13px" }}>
+                Past analyses
+              </h4>
+              <div style={{ display: "grid", gap: "6px", marginBottom: "16px" }}>
+                {history.map((item) => (
+                  <div key={item.id} style={cardStyle}>
+                    <strong>{HISTORY_TYPE_LABELS[item.type]}</strong>
+                    <span style={{ opacity: 0.6 }}>
+                      {` · ${new Date(item.timestamp).toLocaleDateString()}`}
+                    </span>
+                    {item.outputSummary && <div>{item.outputSummary}</div>}
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+
+          <h4 style={{ margin: "0 0 8px", fontSize: "13px" }}>Timeline</h4>
+          {messages.length === 0 ? (
+            <div style={{ opacity: 0.6 }}>No messages saved</div>
+          ) : (
+            <div style={{ display: "grid", gap: "6px" }}>
+              {messages.map((entry, index) => (
+                <div
+                  key={`${entry.conversationId}-${index}`}
+                  style={{
+                    ...cardStyle,
+                    marginLeft: entry.sender === "user" ? "24px" : 0,
+                    marginRight: entry.sender === "user" ? 0 : "24px",
+                  }}
+                >
+                  <div
+                    style={{
+                      display: "flex",
+                      justifyContent: "space-between",
+                      fontSize: "11px",
+                      opacity: 0.6,
+                      marginBottom: "2px",
+                    }}
+                  >
+                    <span>
+                      {entry.sender === "user" ? "You" : selected.display_name}{" "}
+                      · {entry.platform}
+                    </span>
+                    <span>{new Date(entry.timestamp).toLocaleString()}</span>
+                  </div>
+                  <div style={{ fontSize: "13px", lineHeight: 1.5 }}>
+                    {entry.text}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
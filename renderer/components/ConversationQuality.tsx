@@ -1,10 +1,11 @@
 import React, { useState, useEffect } from "react";
 import { ArrowLeft, History } from "lucide-react";
-import { saveHistoryItem, listHistory } from "../lib/history";
+import { saveHistoryItem, listHistory, HistoryItem } from "../lib/history";
 import {
   ConversationQualityChecker,
   ConversationQualityResult,
 } from "../lib/conversationQualityChecker";
+import ScreenshotTranscriber from "./ScreenshotTranscriber";
 
 interface ConversationQualityProps {
   onClose?: () => void;
@@ -22,9 +23,11 @@ export default function ConversationQuality({
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [checker] = useState(() => new ConversationQualityChecker());
   const [clipboardText, setClipboardText] = useState("");
-  const [recent, setRecent] = useState(() =>
-    listHistory("quality").slice(0, 3)
-  );
+  const [recent, setRecent] = useState<HistoryItem[]>([]);
+
+  useEffect(() => {
+    listHistory("quality", 3).then(setRecent);
+  }, []);
 
   // Auto-detect clipboard content
   useEffect(() => {
@@ -64,12 +67,13 @@ export default function ConversationQuality({
       await new Promise((resolve) => setTimeout(resolve, 600));
       const result = checker.analyzeConversation(conversationText);
       setAnalysis(result);
-      saveHistoryItem({
+      await saveHistoryItem({
         type: "quality",
         inputText: conversationText,
         outputSummary: `${result.engagementLevel} ${result.overallScore}/100`,
+        result,
       });
-      setRecent(listHistory("quality").slice(0, 3));
+      setRecent(await listHistory("quality", 3));
     } catch (error) {
       console.error("Error analyzing conversation:", error);
     } finally {
@@ -213,7 +217,12 @@ export default function ConversationQuality({
                   {recent.map((h) => (
                     <button
                       key={h.id}
-                      onClick={() => setConversationText(h.inputText)}
+                      onClick={() => {
+                        setConversationText(h.inputText);
+                        if (h.result) {
+                          setAnalysis(h.result as ConversationQualityResult);
+                        }
+                      }}
                       style={{
                         background: "rgba(255,255,255,0.08)",
                         color: "white",
@@ -323,23 +332,33 @@ export default function ConversationQuality({
                   fontFamily: "inherit",
                 }}
               />
-              <button
-                onClick={handlePasteFromClipboard}
+              <div
                 style={{
                   position: "absolute",
                   top: "8px",
                   right: "8px",
-                  backgroundColor: "rgba(255, 255, 255, 0.1)",
-                  border: "1px solid rgba(255, 255, 255, 0.2)",
-                  color: "#ffffff",
-                  padding: "4px 8px",
-                  borderRadius: "4px",
-                  fontSize: "11px",
-                  cursor: "pointer",
+                  display: "flex",
+                  gap: "6px",
                 }}
               >
-                Paste
-              </button>
+                <ScreenshotTranscriber
+                  onTranscript={(transcript) => setConversationText(transcript)}
+                />
+                <button
+                  onClick={handlePasteFromClipboard}
+                  style={{
+                    backgroundColor: "rgba(255, 255, 255, 0.1)",
+                    border: "1px solid rgba(255, 255, 255, 0.2)",
+                    color: "#ffffff",
+                    padding: "4px 8px",
+                    borderRadius: "4px",
+                    fontSize: "11px",
+                    cursor: "pointer",
+                  }}
+                >
+                  Paste
+                </button>
+              </div>
             </div>
           </div>
 
@@ -0,0 +1,314 @@
+import React, { useEffect, useState } from "react";
+import { CalendarClock, CheckCircle, X } from "lucide-react";
+import type {
+  CheckInState,
+  ContactSummary,
+  DatePlan,
+  DateSafetySettings,
+} from "../types";
+
+const STATE_LABELS: Record<CheckInState, string> = {
+  waiting: "All good",
+  due: "Check-in due",
+  overdue: "Check-in overdue",
+  escalated: "Trusted contact alerted",
+};
+
+const stateColor = (state: CheckInState) =>
+  state === "waiting" ? "#86efac" : state === "due" ? "#fcd34d" : "#fca5a5";
+
+const cardStyle: React.CSSProperties = {
+  padding: "10px 12px",
+  background: "rgba(255, 255, 255, 0.05)",
+  border: "1px solid rgba(255, 255, 255, 0.1)",
+  borderRadius: "8px",
+};
+
+const buttonStyle: React.CSSProperties = {
+  display: "flex",
+  alignItems: "center",
+  gap: "6px",
+  background: "rgba(255, 255, 255, 0.1)",
+  border: "1px solid rgba(255, 255, 255, 0.3)",
+  borderRadius: "6px",
+  padding: "6px 10px",
+  color: "white",
+  fontSize: "12px",
+  cursor: "pointer",
+};
+
+const inputStyle: React.CSSProperties = {
+  flex: 1,
+  padding: "6px 10px",
+  background: "rgba(255, 255, 255, 0.1)",
+  border: "1px solid rgba(255, 255, 255, 0.3)",
+  borderRadius: "6px",
+  color: "white",
+  fontSize: "12px",
+  outline: "none",
+  boxSizing: "border-box",
+};
+
+const optionStyle: React.CSSProperties = {
+  background: "#1f2937",
+  color: "#fff",
+};
+
+const MINUTE_MS = 60 * 1000;
+
+// Matches the schedule in src/safety/dateCheckIn.ts
+const nextCheckInDue = (plan: DatePlan) =>
+  Math.min(
+    (plan.last_check_in_at || plan.starts_at) +
+      plan.check_in_minutes * MINUTE_MS,
+    plan.ends_at
+  );
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], {
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+// The value a datetime-local input expects, in local time
+const toLocalInput = (timestamp: number) => {
+  const date = new Date(timestamp);
+  const pad = (value: number) => ("0" + value).slice(-2);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(
+    date.getDate()
+  )}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+interface DateCheckInProps {
+  // The plan whose check-in just came due; a new object each prompt
+  due?: { planId: string; loud: boolean } | null;
+}
+
+export default function DateCheckIn({ due }: DateCheckInProps) {
+  const [plans, setPlans] = useState<DatePlan[]>([]);
+  const [contacts, setContacts] = useState<ContactSummary[]>([]);
+  const [settings, setSettings] = useState<DateSafetySettings>({});
+  const [contactId, setContactId] = useState("");
+  const [who, setWho] = useState("");
+  const [location, setLocation] = useState("");
+  const [startsAt, setStartsAt] = useState(toLocalInput(Date.now()));
+  const [hours, setHours] = useState(2);
+  const [checkInMinutes, setCheckInMinutes] = useState(30);
+  const [message, setMessage] = useState("");
+
+  useEffect(() => {
+    window.electronAPI.listDatePlans().then(setPlans);
+    window.electronAPI.getDateSafetySettings().then(setSettings);
+    window.electronAPI
+      .listContacts()
+      .then(setContacts)
+      .catch((error) => console.error("Failed to load contacts:", error));
+
+    return window.electronAPI.onDatePlanUpdated((plan) =>
+      setPlans((current) => [
+        ...current.filter((other) => other.id !== plan.id),
+        ...(plan.status === "active" ? [plan] : []),
+      ])
+    );
+  }, []);
+
+  const handleContactChange = (nextId: string) => {
+    setContactId(nextId);
+    const contact = contacts.find((candidate) => candidate.id === nextId);
+    if (contact) setWho(contact.display_name);
+  };
+
+  const handleStart = async () => {
+    setMessage("");
+    const start = new Date(startsAt).getTime();
+    const response = await window.electronAPI.startDatePlan({
+      contactId: contactId || undefined,
+      who,
+      location,
+      startsAt: start,
+      endsAt: start + hours * 60 * MINUTE_MS,
+      checkInMinutes,
+    });
+    if (!response.success) {
+      setMessage(`❌ ${response.error || "Could not start the date"}`);
+      return;
+    }
+    setMessage(
+      response.warning
+        ? `⚠️ ${response.warning}`
+        : `✅ First check-in at ${formatTime(nextCheckInDue(response.plan!))}`
+    );
+    setContactId("");
+    setWho("");
+    setLocation("");
+  };
+
+  const handleCheckIn = async (plan: DatePlan) => {
+    const response = await window.electronAPI.checkInDatePlan(plan.id);
+    if (!response.success) {
+      setMessage(`❌ ${response.error || "Could not check in"}`);
+      return;
+    }
+    setMessage(
+      response.plan?.status === "ended"
+        ? "✅ Checked in. Glad you're safe; the date is over"
+        : plan.state === "escalated"
+        ? "✅ Checked in. Your trusted contact was sent an all clear"
+        : "✅ Checked in"
+    );
+  };
+
+  const handleEnd = async (plan: DatePlan) => {
+    if (!confirm(`End check-ins for your date with ${plan.who}?`)) return;
+    const response = await window.electronAPI.endDatePlan(plan.id);
+    if (!response.success) {
+      setMessage(`❌ ${response.error || "Could not end the date"}`);
+    }
+  };
+
+  return (
+    <div
+      style={{
+        padding: "24px",
+        color: "#ffffff",
+        fontFamily: "system-ui, -apple-system, sans-serif",
+        fontSize: "12px",
+      }}
+    >
+      <div style={{ opacity: 0.7, marginBottom: "12px", lineHeight: 1.5 }}>
+        Going on a date? The app asks you to check in while you're out. Miss a
+        check-in and the reminders get louder, then your trusted contact gets
+        the date's details.
+        {!settings.channel && (
+          <div style={{ color: "#fcd34d", marginTop: "6px" }}>
+            Set up a trusted contact under Settings → Date Safety first.
+          </div>
+        )}
+      </div>
+
+      {plans.length > 0 && (
+        <div style={{ display: "grid", gap: "8px", marginBottom: "20px" }}>
+          {plans.map((plan) => (
+            <div
+              key={plan.id}
+              style={{
+                ...cardStyle,
+                borderColor:
+                  due?.planId === plan.id && plan.state !== "waiting"
+                    ? "#fca5a5"
+                    : "rgba(255, 255, 255, 0.1)",
+              }}
+            >
+              <div style={{ display: "flex", justifyContent: "space-between" }}>
+                <strong>
+                  {plan.who} · {plan.location}
+                </strong>
+                <span style={{ color: stateColor(plan.state) }}>
+                  {STATE_LABELS[plan.state]}
+                </span>
+              </div>
+              <div style={{ opacity: 0.6, margin: "4px 0 8px" }}>
+                {formatTime(plan.starts_at)} to {formatTime(plan.ends_at)} ·
+                next check-in {formatTime(nextCheckInDue(plan))}
+                {plan.trust_score !== undefined &&
+                  ` · trust ${Math.round(plan.trust_score * 100)}%`}
+              </div>
+              <div style={{ display: "flex", gap: "8px" }}>
+                <button
+                  onClick={() => handleCheckIn(plan)}
+                  style={{ ...buttonStyle, borderColor: "#86efac" }}
+                >
+                  <CheckCircle size={12} />
+                  I'm OK
+                </button>
+                <button
+                  onClick={() => handleEnd(plan)}
+                  style={{ ...buttonStyle, marginLeft: "auto" }}
+                >
+                  <X size={12} />
+                  End date
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div style={{ display: "grid", gap: "8px" }}>
+        <select
+          value={contactId}
+          onChange={(e) => handleContactChange(e.target.value)}
+          style={inputStyle}
+        >
+          <option value="" style={optionStyle}>
+            Link a contact (optional)
+          </option>
+          {contacts.map((contact) => (
+            <option key={contact.id} value={contact.id} style={optionStyle}>
+              {contact.display_name}
+            </option>
+          ))}
+        </select>
+        <input
+          value={who}
+          onChange={(e) => setWho(e.target.value)}
+          placeholder="Who are you meeting?"
+          style={inputStyle}
+        />
+        <input
+          value={location}
+          onChange={(e) => setLocation(e.target.value)}
+          placeholder="Where? e.g. Blue Door Café, 12 High St"
+          style={inputStyle}
+        />
+        <div style={{ display: "flex", gap: "8px" }}>
+          <input
+            type="datetime-local"
+            value={startsAt}
+            onChange={(e) => setStartsAt(e.target.value)}
+            style={inputStyle}
+          />
+          <select
+            value={hours}
+            onChange={(e) => setHours(Number(e.target.value))}
+            style={inputStyle}
+          >
+            {[1, 2, 3, 4, 6].map((value) => (
+              <option key={value} value={value} style={optionStyle}>
+                {value} hour{value === 1 ? "" : "s"}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div style={{ display: "flex", gap: "8px" }}>
+          <select
+            value={checkInMinutes}
+            onChange={(e) => setCheckInMinutes(Number(e.target.value))}
+            style={inputStyle}
+          >
+            {[15, 30, 45, 60].map((value) => (
+              <option key={value} value={value} style={optionStyle}>
+                Check in every {value} minutes
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={handleStart}
+            disabled={!who.trim() || !location.trim()}
+            style={{
+              ...buttonStyle,
+              opacity: who.trim() && location.trim() ? 1 : 0.5,
+            }}
+          >
+            <CalendarClock size={12} />
+            Start
+          </button>
+        </div>
+      </div>
+
+      {message && (
+        <div style={{ marginTop: "12px", opacity: 0.9 }}>{message}</div>
+      )}
+    </div>
+  );
+}
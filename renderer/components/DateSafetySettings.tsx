@@ -0,0 +1,212 @@
+import React, { useEffect, useState } from "react";
+import { BellRing } from "lucide-react";
+import type {
+  DateSafetySettings as Settings,
+  EscalationChannel,
+} from "../types";
+
+type ChannelType = EscalationChannel["type"] | "";
+
+const CHANNEL_LABELS: Record<EscalationChannel["type"], string> = {
+  webhook: "Webhook (POST as JSON)",
+  mailto: "Email draft",
+  file: "Save to a folder",
+};
+
+const fieldStyle: React.CSSProperties = {
+  width: "100%",
+  background: "rgba(255, 255, 255, 0.1)",
+  border: "1px solid rgba(255, 255, 255, 0.2)",
+  borderRadius: "4px",
+  padding: "6px",
+  fontSize: "11px",
+  color: "#fff",
+  outline: "none",
+  boxSizing: "border-box",
+};
+
+const optionStyle: React.CSSProperties = {
+  background: "#1f2937",
+  color: "#fff",
+};
+
+const buttonStyle: React.CSSProperties = {
+  background: "rgba(255, 255, 255, 0.1)",
+  border: "1px solid rgba(255, 255, 255, 0.3)",
+  borderRadius: "6px",
+  padding: "6px 10px",
+  color: "white",
+  fontSize: "12px",
+  cursor: "pointer",
+};
+
+const channelTarget = (channel?: EscalationChannel) =>
+  !channel
+    ? ""
+    : channel.type === "webhook"
+    ? channel.url
+    : channel.type === "mailto"
+    ? channel.to
+    : channel.directory;
+
+// The Settings section for who hears about a missed date check-in
+export default function DateSafetySettings() {
+  const [name, setName] = useState("");
+  const [type, setType] = useState<ChannelType>("");
+  const [target, setTarget] = useState("");
+  const [message, setMessage] = useState("");
+
+  useEffect(() => {
+    window.electronAPI.getDateSafetySettings().then((settings) => {
+      setName(settings.trustedContactName || "");
+      setType(settings.channel?.type || "");
+      setTarget(channelTarget(settings.channel));
+    });
+  }, []);
+
+  const buildSettings = (): Settings => {
+    const value = target.trim();
+    const channel: EscalationChannel | undefined =
+      type === "webhook"
+        ? { type, url: value }
+        : type === "mailto"
+        ? { type, to: value }
+        : type === "file"
+        ? { type, directory: value }
+        : undefined;
+    return { channel, trustedContactName: name.trim() || undefined };
+  };
+
+  const handleSave = async () => {
+    const response = await window.electronAPI.setDateSafetySettings(
+      buildSettings()
+    );
+    setMessage(
+      response.success
+        ? "✅ Saved"
+        : `❌ ${response.error || "Could not save date safety settings"}`
+    );
+  };
+
+  const handleTest = async () => {
+    setMessage("");
+    const response = await window.electronAPI.testDateEscalation(
+      buildSettings()
+    );
+    setMessage(
+      response.success
+        ? `✅ ${response.sent}`
+        : `❌ ${response.error || "The test alert didn't go through"}`
+    );
+  };
+
+  const handleChooseFolder = async () => {
+    const directory = await window.electronAPI.chooseEscalationFolder();
+    if (directory) setTarget(directory);
+  };
+
+  return (
+    <div style={{ marginBottom: "32px" }}>
+      <h3
+        style={{
+          fontSize: "14px",
+          fontWeight: "500",
+          marginBottom: "12px",
+          opacity: 0.9,
+          display: "flex",
+          alignItems: "center",
+          gap: "8px",
+        }}
+      >
+        <BellRing size={14} />
+        Date Safety
+      </h3>
+
+      <div
+        style={{
+          background: "rgba(255, 255, 255, 0.05)",
+          borderRadius: "8px",
+          padding: "16px",
+          fontSize: "12px",
+          lineHeight: "1.6",
+        }}
+      >
+        <div style={{ opacity: 0.8, marginBottom: "12px" }}>
+          If you miss a check-in during a date, this is where the alert goes,
+          with who you're meeting, where, and what the app knows about them.
+        </div>
+
+        <div style={{ display: "grid", gap: "6px" }}>
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Trusted contact's name, e.g. Sam"
+            style={fieldStyle}
+          />
+          <select
+            value={type}
+            onChange={(e) => {
+              setType(e.target.value as ChannelType);
+              setTarget("");
+            }}
+            style={fieldStyle}
+          >
+            <option value="" style={optionStyle}>
+              Don't alert anyone
+            </option>
+            {(Object.keys(CHANNEL_LABELS) as EscalationChannel["type"][]).map(
+              (value) => (
+                <option key={value} value={value} style={optionStyle}>
+                  {CHANNEL_LABELS[value]}
+                </option>
+              )
+            )}
+          </select>
+          {type && (
+            <div style={{ display: "flex", gap: "6px" }}>
+              <input
+                value={target}
+                onChange={(e) => setTarget(e.target.value)}
+                placeholder={
+                  type === "webhook"
+                    ? "http://127.0.0.1:8787/"
+                    : type === "mailto"
+                    ? "sam@example.com"
+                    : "Folder"
+                }
+                style={fieldStyle}
+              />
+              {type === "file" && (
+                <button onClick={handleChooseFolder} style={buttonStyle}>
+                  Choose
+                </button>
+              )}
+            </div>
+          )}
+          <div style={{ display: "flex", gap: "6px" }}>
+            <button onClick={handleSave} style={buttonStyle}>
+              Save
+            </button>
+            {type && (
+              <button onClick={handleTest} style={buttonStyle}>
+                Send test
+              </button>
+            )}
+          </div>
+        </div>
+
+        {message && (
+          <div
+            style={{
+              fontSize: "12px",
+              marginTop: "8px",
+              color: message.includes("❌") ? "#fca5a5" : "#6ee7b7",
+            }}
+          >
+            {message}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -43,6 +43,9 @@ const DatingDashboard: React.FC = () => {
   const [selectedConversation, setSelectedConversation] = useState<string>('');
   const [analysisResult, setAnalysisResult] = useState<any>(null);
   const [loading, setLoading] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [importMessage, setImportMessage] = useState('');
+  const [selfName, setSelfName] = useState('');
 
   useEffect(() => {
     loadDashboard();
@@ -110,6 +113,24 @@ const DatingDashboard: React.FC = () => {
     setLoading(false);
   };
 
+  const importChatExport = async () => {
+    setImporting(true);
+    try {
+      const result = await window.electronAPI.importChatArchive(
+        undefined,
+        selfName.trim() ? { selfName: selfName.trim() } : undefined
+      );
+      setImportMessage(result.message);
+      if (result.success) {
+        await loadDashboard();
+      }
+    } catch (error) {
+      console.error('Error importing chat export:', error);
+      setImportMessage('Import failed');
+    }
+    setImporting(false);
+  };
+
   const provideFeedback = async (advice: string, outcome: 'positive' | 'negative' | 'neutral') => {
     try {
       await window.electronAPI.provideAdviceFeedback({
@@ -185,6 +206,29 @@ const DatingDashboard: React.FC = () => {
           <p className="text-sm text-gray-400 mt-2">Click to analyze a sample conversation with our advanced AI systems</p>
         </div>
 
+        {/* Chat Export Import */}
+        <div className="mb-8">
+          <div className="flex gap-3 items-center">
+            <input
+              type="text"
+              value={selfName}
+              onChange={(e) => setSelfName(e.target.value)}
+              placeholder="Your name in the export (optional)"
+              className="bg-gray-900/60 border border-gray-700 rounded-lg px-3 py-3 text-sm"
+            />
+            <button
+              onClick={importChatExport}
+              disabled={importing}
+              className="bg-gray-800 hover:bg-gray-700 border border-gray-600 px-6 py-3 rounded-lg font-semibold transition-all duration-200 disabled:opacity-50"
+            >
+              {importing ? 'Importing...' : 'Import Chat Export'}
+            </button>
+          </div>
+          <p className="text-sm text-gray-400 mt-2">
+            {importMessage || 'WhatsApp .txt, Telegram result.json, or your Tinder/Hinge/Bumble data download'}
+          </p>
+        </div>
+
         {/* Stats Cards */}
         <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
           <div className="bg-gray-900/60 backdrop-blur-md border border-gray-700 rounded-xl p-6">
@@ -0,0 +1,285 @@
+import React, { useEffect, useState } from "react";
+import { Image as ImageIcon, ShieldCheck, X } from "lucide-react";
+import type {
+  ContactSummary,
+  DraftCheck,
+  RelationshipStage,
+  SafetyRuleSeverity,
+} from "../types";
+
+const STAGE_LABELS: Record<RelationshipStage, string> = {
+  initial: "Just matched",
+  getting_to_know: "Chatting for a while",
+  interested: "Planning to meet",
+  dating: "Met in person",
+  serious: "In a relationship",
+};
+
+const severityColor = (severity: SafetyRuleSeverity) =>
+  severity === "critical" || severity === "high"
+    ? "#fca5a5"
+    : severity === "medium"
+    ? "#fcd34d"
+    : "#93c5fd";
+
+const cardStyle: React.CSSProperties = {
+  padding: "10px 12px",
+  background: "rgba(255, 255, 255, 0.05)",
+  border: "1px solid rgba(255, 255, 255, 0.1)",
+  borderRadius: "8px",
+};
+
+const buttonStyle: React.CSSProperties = {
+  display: "flex",
+  alignItems: "center",
+  gap: "6px",
+  background: "rgba(255, 255, 255, 0.1)",
+  border: "1px solid rgba(255, 255, 255, 0.3)",
+  borderRadius: "6px",
+  padding: "6px 10px",
+  color: "white",
+  fontSize: "12px",
+  cursor: "pointer",
+};
+
+const selectStyle: React.CSSProperties = {
+  flex: 1,
+  background: "rgba(255, 255, 255, 0.1)",
+  border: "1px solid rgba(255, 255, 255, 0.3)",
+  borderRadius: "6px",
+  padding: "6px",
+  fontSize: "12px",
+  color: "#fff",
+};
+
+const optionStyle: React.CSSProperties = {
+  background: "#1f2937",
+  color: "#fff",
+};
+
+interface DraftGuardProps {
+  // Text copied before pressing Cmd/Ctrl+Shift+G; a new object each press
+  request?: { draft: string } | null;
+}
+
+export default function DraftGuard({ request }: DraftGuardProps) {
+  const [draft, setDraft] = useState(request?.draft || "");
+  const [contacts, setContacts] = useState<ContactSummary[]>([]);
+  const [contactId, setContactId] = useState("");
+  // Empty until picked, so the stage saved for the contact applies
+  const [stage, setStage] = useState<RelationshipStage | "">("");
+  const [savedStage, setSavedStage] = useState<RelationshipStage>("initial");
+  const [photo, setPhoto] = useState<{ path: string; name: string } | null>(
+    null
+  );
+  const [check, setCheck] = useState<DraftCheck | null>(null);
+  const [message, setMessage] = useState("");
+
+  useEffect(() => {
+    window.electronAPI
+      .listContacts()
+      .then(setContacts)
+      .catch((error) => console.error("Failed to load contacts:", error));
+  }, []);
+
+  const runCheck = async (
+    text: string,
+    options: {
+      contactId: string;
+      stage: RelationshipStage | "";
+      photoPath?: string;
+    }
+  ) => {
+    // Still asked with nothing to check, for the contact's saved stage
+    const hasContent = Boolean(text.trim() || options.photoPath);
+    setMessage("");
+    try {
+      const response = await window.electronAPI.checkOutgoingDraft(text, {
+        contactId: options.contactId || undefined,
+        stage: options.stage || undefined,
+        photoPath: options.photoPath,
+      });
+      if (!response.success || !response.check) {
+        setMessage(`❌ ${response.error || "Could not check the draft"}`);
+        return;
+      }
+      setCheck(hasContent ? response.check : null);
+      if (response.context) setSavedStage(response.context.stage);
+    } catch (error) {
+      console.error("Failed to check draft:", error);
+      setMessage("❌ Could not check the draft");
+    }
+  };
+
+  // A new draft from the shortcut replaces whatever was here
+  useEffect(() => {
+    if (!request) return;
+    setDraft(request.draft);
+    runCheck(request.draft, { contactId, stage, photoPath: photo?.path });
+  }, [request]);
+
+  const handleContactChange = (nextId: string) => {
+    setContactId(nextId);
+    setStage("");
+    runCheck(draft, { contactId: nextId, stage: "", photoPath: photo?.path });
+  };
+
+  // Remembered for the contact, so their other drafts use it too
+  const handleStageChange = async (nextStage: RelationshipStage) => {
+    setStage(nextStage);
+    if (contactId) {
+      const response = await window.electronAPI.setContactStage(
+        contactId,
+        nextStage
+      );
+      if (!response.success) {
+        setMessage(`❌ ${response.error || "Could not save the stage"}`);
+      }
+    }
+    runCheck(draft, { contactId, stage: nextStage, photoPath: photo?.path });
+  };
+
+  const handleChoosePhoto = async () => {
+    const chosen = await window.electronAPI.chooseDraftPhoto();
+    if (!chosen) return;
+    setPhoto(chosen);
+    runCheck(draft, { contactId, stage, photoPath: chosen.path });
+  };
+
+  const handleRemovePhoto = () => {
+    setPhoto(null);
+    runCheck(draft, { contactId, stage });
+  };
+
+  return (
+    <div
+      style={{
+        padding: "24px",
+        color: "#ffffff",
+        fontFamily: "system-ui, -apple-system, sans-serif",
+        fontSize: "12px",
+      }}
+    >
+      <div style={{ opacity: 0.7, marginBottom: "12px", lineHeight: 1.5 }}>
+        Check a message before you send it for details that could identify or
+        locate you. Copy a draft and press Cmd/Ctrl+Shift+G to check it from
+        any app.
+      </div>
+
+      <textarea
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        placeholder="Type or paste what you're about to send..."
+        rows={5}
+        style={{
+          width: "100%",
+          padding: "10px",
+          background: "rgba(255, 255, 255, 0.1)",
+          border: "1px solid rgba(255, 255, 255, 0.3)",
+          borderRadius: "8px",
+          color: "white",
+          fontSize: "13px",
+          lineHeight: 1.5,
+          resize: "vertical",
+          outline: "none",
+          boxSizing: "border-box",
+          marginBottom: "8px",
+        }}
+      />
+
+      <div style={{ display: "flex", gap: "8px", marginBottom: "8px" }}>
+        <select
+          value={contactId}
+          onChange={(e) => handleContactChange(e.target.value)}
+          style={selectStyle}
+        >
+          <option value="" style={optionStyle}>
+            Who is it for? (optional)
+          </option>
+          {contacts.map((contact) => (
+            <option key={contact.id} value={contact.id} style={optionStyle}>
+              {contact.display_name}
+            </option>
+          ))}
+        </select>
+        <select
+          value={stage || savedStage}
+          onChange={(e) =>
+            handleStageChange(e.target.value as RelationshipStage)
+          }
+          style={selectStyle}
+        >
+          {(Object.keys(STAGE_LABELS) as RelationshipStage[]).map((value) => (
+            <option key={value} value={value} style={optionStyle}>
+              {STAGE_LABELS[value]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div style={{ display: "flex", gap: "8px", marginBottom: "16px" }}>
+        {photo ? (
+          <button onClick={handleRemovePhoto} style={buttonStyle}>
+            <X size={12} />
+            {photo.name}
+          </button>
+        ) : (
+          <button onClick={handleChoosePhoto} style={buttonStyle}>
+            <ImageIcon size={12} />
+            Check a photo too
+          </button>
+        )}
+        <button
+          onClick={() =>
+            runCheck(draft, { contactId, stage, photoPath: photo?.path })
+          }
+          disabled={!draft.trim() && !photo}
+          style={{
+            ...buttonStyle,
+            marginLeft: "auto",
+            opacity: !draft.trim() && !photo ? 0.5 : 1,
+          }}
+        >
+          <ShieldCheck size={12} />
+          Check
+        </button>
+      </div>
+
+      {message && (
+        <div style={{ marginBottom: "12px", opacity: 0.9 }}>{message}</div>
+      )}
+
+      {check && (
+        <>
+          <div
+            style={{
+              ...cardStyle,
+              marginBottom: "8px",
+              color: check.safeToSend ? "#86efac" : "#fca5a5",
+            }}
+          >
+            {check.safeToSend
+              ? "✅ Nothing here you'd regret sharing at this stage"
+              : "⚠️ Think twice before sending this"}
+          </div>
+          <div style={{ display: "grid", gap: "6px" }}>
+            {check.disclosures.map((disclosure) => (
+              <div key={disclosure.id} style={cardStyle}>
+                <strong>{disclosure.title}</strong>{" "}
+                <span style={{ color: severityColor(disclosure.severity) }}>
+                  {disclosure.severity}
+                </span>
+                <div style={{ opacity: 0.6, fontSize: "11px" }}>
+                  “{disclosure.excerpt}”
+                </div>
+                <div style={{ marginTop: "4px", lineHeight: 1.5 }}>
+                  {disclosure.guidance}
+                </div>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
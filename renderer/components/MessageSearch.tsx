@@ -0,0 +1,211 @@
+import React, { useEffect, useState } from "react";
+import { Search } from "lucide-react";
+import type {
+  HistorySearchResult,
+  HistoryType,
+  MessageSearchResult,
+} from "../types";
+
+const SEARCH_DELAY_MS = 250;
+
+export const HISTORY_TYPE_LABELS: Record<HistoryType, string> = {
+  smartReply: "Smart Reply",
+  catfish: "Catfish Detection",
+  quality: "Conversation Quality",
+};
+
+// The database wraps matched terms in these control characters
+const highlight = (snippet: string) =>
+  snippet.split("\u0002").map((part, index) => {
+    if (index === 0) return <span key={index}>{part}</span>;
+    const [match, rest] = part.split("\u0003");
+    return (
+      <span key={index}>
+        <mark
+          style={{
+            background: "rgba(59, 130, 246, 0.35)",
+            color: "#ffffff",
+            borderRadius: "2px",
+            padding: "0 1px",
+          }}
+        >
+          {match}
+        </mark>
+        {rest}
+      </span>
+    );
+  });
+
+export default function MessageSearch() {
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<MessageSearchResult[]>([]);
+  const [historyResults, setHistoryResults] = useState<HistorySearchResult[]>(
+    []
+  );
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState("");
+
+  // Search as the user types, once they pause
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults([]);
+      setHistoryResults([]);
+      setError("");
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setIsSearching(true);
+      try {
+        const [response, historyResponse] = await Promise.all([
+          window.electronAPI.searchMessages(query),
+          window.electronAPI.searchHistory(query),
+        ]);
+        if (cancelled) return;
+        setResults(response.results);
+        setHistoryResults(historyResponse.results);
+        setError(response.success ? "" : response.error || "Search failed");
+      } catch (err) {
+        console.error("Error searching messages:", err);
+        if (!cancelled) setError("Search failed");
+      } finally {
+        if (!cancelled) setIsSearching(false);
+      }
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query]);
+
+  return (
+    <div
+      style={{
+        padding: "24px",
+        color: "#ffffff",
+        fontFamily: "system-ui, -apple-system, sans-serif",
+      }}
+    >
+      <div
+        style={{
+          display: "flex",
+          alignItems: "center",
+          gap: "8px",
+          padding: "8px 12px",
+          background: "rgba(255, 255, 255, 0.1)",
+          border: "1px solid rgba(255, 255, 255, 0.3)",
+          borderRadius: "6px",
+          marginBottom: "16px",
+        }}
+      >
+        <Search size={14} style={{ opacity: 0.7 }} />
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder='Search all conversations, e.g. "bouldering gym"'
+          autoFocus
+          style={{
+            flex: 1,
+            background: "transparent",
+            border: "none",
+            color: "white",
+            fontSize: "13px",
+            outline: "none",
+          }}
+        />
+      </div>
+
+      {error && (
+        <div style={{ fontSize: "12px", color: "#fca5a5", marginBottom: 12 }}>
+          {error}
+        </div>
+      )}
+
+      {query.trim() &&
+        !isSearching &&
+        !error &&
+        results.length === 0 &&
+        historyResults.length === 0 && (
+        <div style={{ fontSize: "12px", opacity: 0.6, textAlign: "center" }}>
+          No messages match "{query.trim()}"
+        </div>
+      )}
+
+      <div style={{ display: "grid", gap: "8px" }}>
+        {results.map((result) => (
+          <div
+            key={result.messageId}
+            style={{
+              padding: "10px 12px",
+              background: "rgba(255, 255, 255, 0.05)",
+              border: "1px solid rgba(255, 255, 255, 0.1)",
+              borderRadius: "8px",
+            }}
+          >
+            <div
+              style={{
+                display: "flex",
+                justifyContent: "space-between",
+                fontSize: "11px",
+                opacity: 0.7,
+                marginBottom: "4px",
+              }}
+            >
+              <span>
+                {result.sender === "user" ? "You → " : ""}
+                <strong>{result.contact}</strong> · {result.platform}
+              </span>
+              <span>{new Date(result.timestamp).toLocaleDateString()}</span>
+            </div>
+            <div style={{ fontSize: "13px", lineHeight: 1.5 }}>
+              {highlight(result.snippet)}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {historyResults.length > 0 && (
+        <>
+          <div style={{ fontSize: "12px", opacity: 0.7, margin: "16px 0 8px" }}>
+            Past analyses
+          </div>
+          <div style={{ display: "grid", gap: "8px" }}>
+            {historyResults.map((result) => (
+              <div
+                key={result.id}
+                style={{
+                  padding: "10px 12px",
+                  background: "rgba(255, 255, 255, 0.05)",
+                  border: "1px solid rgba(255, 255, 255, 0.1)",
+                  borderRadius: "8px",
+                }}
+              >
+                <div
+                  style={{
+                    display: "flex",
+                    justifyContent: "space-between",
+                    fontSize: "11px",
+                    opacity: 0.7,
+                    marginBottom: "4px",
+                  }}
+                >
+                  <span>
+                    <strong>{HISTORY_TYPE_LABELS[result.type]}</strong>
+                    {result.outputSummary ? ` · ${result.outputSummary}` : ""}
+                  </span>
+                  <span>{new Date(result.timestamp).toLocaleDateString()}</span>
+                </div>
+                <div style={{ fontSize: "13px", lineHeight: 1.5 }}>
+                  {highlight(result.snippet)}
+                </div>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
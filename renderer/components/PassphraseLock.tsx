@@ -0,0 +1,193 @@
+import React, { useState } from "react";
+import { Lock, Eye, EyeOff } from "lucide-react";
+
+interface PassphraseLockProps {
+  // False the first time, when the user is choosing the passphrase
+  initialized: boolean;
+  title: string;
+  description: string;
+  unlock: (passphrase: string) => Promise<{ success: boolean; error?: string }>;
+  onUnlocked: () => void;
+}
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+// Full-screen passphrase prompt for the app lock and the API key vault
+export default function PassphraseLock({
+  initialized,
+  title,
+  description,
+  unlock,
+  onUnlocked,
+}: PassphraseLockProps) {
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [showPassphrase, setShowPassphrase] = useState(false);
+  const [unlocking, setUnlocking] = useState(false);
+  const [error, setError] = useState("");
+
+  const handleUnlock = async () => {
+    if (!initialized) {
+      if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        setError(
+          `Use at least ${MIN_PASSPHRASE_LENGTH} characters for the passphrase`
+        );
+        return;
+      }
+      if (passphrase !== confirmation) {
+        setError("Passphrases don't match");
+        return;
+      }
+    } else if (!passphrase) {
+      setError("Please enter your passphrase");
+      return;
+    }
+
+    setUnlocking(true);
+    setError("");
+    try {
+      const result = await unlock(passphrase);
+      if (result.success) {
+        onUnlocked();
+      } else {
+        setError(result.error || "Could not unlock");
+      }
+    } catch (err) {
+      console.error("Error unlocking:", err);
+      setError("Could not unlock");
+    } finally {
+      setUnlocking(false);
+    }
+  };
+
+  const inputStyle: React.CSSProperties = {
+    flex: 1,
+    width: "100%",
+    padding: "12px 14px",
+    borderRadius: 10,
+    border: "1px solid rgba(255,255,255,0.12)",
+    background: "rgba(255,255,255,0.08)",
+    color: "#ffffff",
+    fontSize: 14,
+  };
+
+  return (
+    <div
+      style={{
+        minHeight: "100vh",
+        width: "100%",
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "center",
+        padding: "32px 20px",
+        background: "#0a0f1f",
+        color: "#ffffff",
+        fontFamily:
+          '"DM Sans", -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, "Helvetica Neue", Arial, sans-serif',
+      }}
+    >
+      <div
+        style={{
+          width: "100%",
+          maxWidth: 420,
+          background: "rgba(10, 15, 31, 0.85)",
+          border: "1px solid rgba(255,255,255,0.08)",
+          borderRadius: 16,
+          boxShadow: "0 20px 60px rgba(0,0,0,0.6)",
+          padding: 28,
+        }}
+      >
+        <div style={{ textAlign: "center", marginBottom: 20 }}>
+          <Lock size={28} style={{ color: "#93c5fd" }} />
+          <h1 style={{ fontSize: 22, fontWeight: 700, margin: "10px 0 0" }}>
+            {title}
+          </h1>
+          <p style={{ fontSize: 14, opacity: 0.8, lineHeight: 1.6 }}>
+            {description}
+          </p>
+        </div>
+
+        <div style={{ display: "grid", gap: 10, marginBottom: 16 }}>
+          <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
+            <input
+              type={showPassphrase ? "text" : "password"}
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") handleUnlock();
+              }}
+              placeholder="Passphrase"
+              autoFocus
+              style={inputStyle}
+            />
+            <button
+              onClick={() => setShowPassphrase((s) => !s)}
+              aria-label="Toggle passphrase visibility"
+              style={{
+                background: "rgba(255,255,255,0.08)",
+                border: "1px solid rgba(255,255,255,0.12)",
+                color: "#ffffff",
+                padding: "10px 12px",
+                borderRadius: 10,
+                cursor: "pointer",
+              }}
+            >
+              {showPassphrase ? <EyeOff size={16} /> : <Eye size={16} />}
+            </button>
+          </div>
+          {!initialized && (
+            <input
+              type={showPassphrase ? "text" : "password"}
+              value={confirmation}
+              onChange={(e) => setConfirmation(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") handleUnlock();
+              }}
+              placeholder="Confirm passphrase"
+              style={inputStyle}
+            />
+          )}
+        </div>
+
+        {error && (
+          <div
+            style={{
+              background: "rgba(239,68,68,0.12)",
+              border: "1px solid rgba(239,68,68,0.5)",
+              borderRadius: 10,
+              padding: 12,
+              marginBottom: 14,
+              fontSize: 13,
+              color: "#fecaca",
+            }}
+          >
+            {error}
+          </div>
+        )}
+
+        <button
+          onClick={handleUnlock}
+          disabled={unlocking}
+          style={{
+            width: "100%",
+            background: unlocking ? "rgba(107,114,128,0.5)" : "#2563eb",
+            border: "1px solid rgba(37,99,235,0.9)",
+            color: "#ffffff",
+            padding: "14px 16px",
+            borderRadius: 12,
+            fontSize: 14,
+            fontWeight: 600,
+            cursor: unlocking ? "not-allowed" : "pointer",
+            opacity: unlocking ? 0.7 : 1,
+          }}
+        >
+          {unlocking
+            ? "Unlocking..."
+            : initialized
+            ? "Unlock"
+            : "Set passphrase"}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,344 @@
+import React, { useEffect, useState } from "react";
+import { ShieldAlert, Trash2 } from "lucide-react";
+import type {
+  ListedSafetyRule,
+  SafetyRuleCategory,
+  SafetyRulePackInfo,
+  SafetyRuleSeverity,
+} from "../types";
+
+export const SAFETY_RULE_CATEGORY_LABELS: Record<SafetyRuleCategory, string> = {
+  financial_request: "Money requests",
+  romance_scam: "Romance scam stories",
+  investment_scam: "Investment scams",
+  sextortion: "Sextortion",
+  sexual_content: "Sexual requests",
+  unsafe_meeting: "Unsafe meetings",
+  personal_info: "Personal information",
+  contact_sharing: "Contact details",
+  platform_switch: "Leaving the app",
+  suspicious_link: "Links",
+  photo_request: "Photo requests",
+  love_bombing: "Love bombing",
+  pressure: "Pressure and guilt",
+  escalation: "Early escalation",
+  catfish_evasion: "Catfish evasion",
+  self_disclosure: "Your own drafts",
+};
+
+const SEVERITIES: SafetyRuleSeverity[] = ["low", "medium", "high", "critical"];
+
+const severityColor = (severity: SafetyRuleSeverity) =>
+  severity === "critical" || severity === "high"
+    ? "#fca5a5"
+    : severity === "medium"
+    ? "#fcd34d"
+    : "#93c5fd";
+
+const fieldStyle: React.CSSProperties = {
+  width: "100%",
+  background: "rgba(255, 255, 255, 0.1)",
+  border: "1px solid rgba(255, 255, 255, 0.2)",
+  borderRadius: "4px",
+  padding: "6px",
+  fontSize: "11px",
+  color: "#fff",
+  outline: "none",
+  boxSizing: "border-box",
+};
+
+const optionStyle: React.CSSProperties = {
+  background: "#1f2937",
+  color: "#fff",
+};
+
+const EMPTY_DRAFT = {
+  title: "",
+  keywords: "",
+  pattern: "",
+  category: "financial_request" as SafetyRuleCategory,
+  severity: "medium" as SafetyRuleSeverity,
+  recommendation: "",
+};
+
+// The Settings section for switching safety rules on and off and adding
+// your own
+export default function SafetyRuleSettings() {
+  const [packs, setPacks] = useState<SafetyRulePackInfo[]>([]);
+  const [rules, setRules] = useState<ListedSafetyRule[]>([]);
+  const [openCategory, setOpenCategory] = useState<SafetyRuleCategory | null>(
+    null
+  );
+  const [draft, setDraft] = useState(EMPTY_DRAFT);
+  const [message, setMessage] = useState("");
+
+  const loadRules = async () => {
+    try {
+      const response = await window.electronAPI.getSafetyRules();
+      setPacks(response.packs);
+      setRules(response.rules);
+    } catch (error) {
+      console.error("Failed to load safety rules:", error);
+      setMessage("❌ Could not load safety rules");
+    }
+  };
+
+  useEffect(() => {
+    loadRules();
+  }, []);
+
+  const handleToggle = async (rule: ListedSafetyRule) => {
+    const response = await window.electronAPI.setSafetyRuleEnabled(
+      rule.id,
+      !rule.enabled
+    );
+    if (!response.success) {
+      setMessage(`❌ ${response.error || "Could not update the rule"}`);
+      return;
+    }
+    await loadRules();
+  };
+
+  const handleSave = async () => {
+    setMessage("");
+    const response = await window.electronAPI.saveCustomSafetyRule({
+      title: draft.title.trim(),
+      category: draft.category,
+      severity: draft.severity,
+      recommendation:
+        draft.recommendation.trim() || "Take care with this conversation",
+      keywords: draft.keywords.split(","),
+      pattern: draft.pattern,
+    });
+    if (!response.success) {
+      setMessage(`❌ ${response.error || "Could not save the rule"}`);
+      return;
+    }
+    setDraft(EMPTY_DRAFT);
+    setOpenCategory(draft.category);
+    setMessage("✅ Rule added");
+    await loadRules();
+  };
+
+  const handleDelete = async (rule: ListedSafetyRule) => {
+    if (!confirm(`Delete the rule "${rule.title}"?`)) return;
+    const response = await window.electronAPI.deleteCustomSafetyRule(rule.id);
+    if (!response.success) {
+      setMessage(`❌ ${response.error || "Could not delete the rule"}`);
+      return;
+    }
+    await loadRules();
+  };
+
+  const categories = (
+    Object.keys(SAFETY_RULE_CATEGORY_LABELS) as SafetyRuleCategory[]
+  ).filter((category) => rules.some((rule) => rule.category === category));
+
+  return (
+    <div style={{ marginBottom: "32px" }}>
+      <h3
+        style={{
+          fontSize: "14px",
+          fontWeight: "500",
+          marginBottom: "12px",
+          opacity: 0.9,
+          display: "flex",
+          alignItems: "center",
+          gap: "8px",
+        }}
+      >
+        <ShieldAlert size={14} />
+        Safety Rules
+      </h3>
+
+      <div
+        style={{
+          background: "rgba(255, 255, 255, 0.05)",
+          borderRadius: "8px",
+          padding: "16px",
+          fontSize: "12px",
+          lineHeight: "1.6",
+        }}
+      >
+        <div style={{ opacity: 0.6, fontSize: "11px", marginBottom: "12px" }}>
+          {packs
+            .map((pack) => `${pack.name} v${pack.version} (${pack.ruleCount})`)
+            .join(" · ")}
+        </div>
+
+        <div style={{ display: "grid", gap: "6px", marginBottom: "16px" }}>
+          {categories.map((category) => {
+            const inCategory = rules.filter(
+              (rule) => rule.category === category
+            );
+            const enabled = inCategory.filter((rule) => rule.enabled).length;
+            return (
+              <div key={category}>
+                <div
+                  onClick={() =>
+                    setOpenCategory(openCategory === category ? null : category)
+                  }
+                  style={{
+                    display: "flex",
+                    justifyContent: "space-between",
+                    cursor: "pointer",
+                  }}
+                >
+                  <span style={{ opacity: 0.8 }}>
+                    {openCategory === category ? "▾" : "▸"}{" "}
+                    {SAFETY_RULE_CATEGORY_LABELS[category]}
+                  </span>
+                  <span style={{ opacity: 0.6 }}>
+                    {enabled}/{inCategory.length} on
+                  </span>
+                </div>
+                {openCategory === category &&
+                  inCategory.map((rule) => (
+                    <div
+                      key={rule.id}
+                      style={{
+                        display: "flex",
+                        alignItems: "flex-start",
+                        gap: "8px",
+                        margin: "6px 0 0 14px",
+                      }}
+                    >
+                      <input
+                        type="checkbox"
+                        checked={rule.enabled}
+                        onChange={() => handleToggle(rule)}
+                        style={{ marginTop: "3px" }}
+                      />
+                      <span style={{ flex: 1 }}>
+                        <strong>{rule.title}</strong>{" "}
+                        <span style={{ color: severityColor(rule.severity) }}>
+                          {rule.severity}
+                        </span>
+                        {rule.source === "custom" && (
+                          <span style={{ opacity: 0.6 }}> · custom</span>
+                        )}
+                        {rule.description && (
+                          <div style={{ opacity: 0.6, fontSize: "11px" }}>
+                            {rule.description}
+                          </div>
+                        )}
+                      </span>
+                      {rule.source === "custom" && (
+                        <button
+                          onClick={() => handleDelete(rule)}
+                          title="Delete rule"
+                          style={{
+                            background: "transparent",
+                            border: "none",
+                            color: "#fca5a5",
+                            cursor: "pointer",
+                            padding: 0,
+                          }}
+                        >
+                          <Trash2 size={12} />
+                        </button>
+                      )}
+                    </div>
+                  ))}
+              </div>
+            );
+          })}
+        </div>
+
+        <div style={{ opacity: 0.8, marginBottom: "6px" }}>Add your own rule</div>
+        <div style={{ display: "grid", gap: "6px" }}>
+          <input
+            value={draft.title}
+            onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+            placeholder="Title, e.g. Asks about my kids"
+            style={fieldStyle}
+          />
+          <input
+            value={draft.keywords}
+            onChange={(e) => setDraft({ ...draft, keywords: e.target.value })}
+            placeholder="Phrases to look for, separated by commas"
+            style={fieldStyle}
+          />
+          <input
+            value={draft.pattern}
+            onChange={(e) => setDraft({ ...draft, pattern: e.target.value })}
+            placeholder="Or a regular expression (optional)"
+            style={fieldStyle}
+          />
+          <div style={{ display: "flex", gap: "6px" }}>
+            <select
+              value={draft.category}
+              onChange={(e) =>
+                setDraft({
+                  ...draft,
+                  category: e.target.value as SafetyRuleCategory,
+                })
+              }
+              style={fieldStyle}
+            >
+              {(
+                Object.keys(SAFETY_RULE_CATEGORY_LABELS) as SafetyRuleCategory[]
+              ).map((category) => (
+                <option key={category} value={category} style={optionStyle}>
+                  {SAFETY_RULE_CATEGORY_LABELS[category]}
+                </option>
+              ))}
+            </select>
+            <select
+              value={draft.severity}
+              onChange={(e) =>
+                setDraft({
+                  ...draft,
+                  severity: e.target.value as SafetyRuleSeverity,
+                })
+              }
+              style={fieldStyle}
+            >
+              {SEVERITIES.map((severity) => (
+                <option key={severity} value={severity} style={optionStyle}>
+                  {severity}
+                </option>
+              ))}
+            </select>
+          </div>
+          <input
+            value={draft.recommendation}
+            onChange={(e) =>
+              setDraft({ ...draft, recommendation: e.target.value })
+            }
+            placeholder="Advice to show when it matches (optional)"
+            style={fieldStyle}
+          />
+          <button
+            onClick={handleSave}
+            disabled={!draft.title.trim()}
+            style={{
+              background: "rgba(255, 255, 255, 0.1)",
+              border: "1px solid rgba(255, 255, 255, 0.3)",
+              borderRadius: "6px",
+              padding: "6px 10px",
+              color: "white",
+              fontSize: "12px",
+              cursor: draft.title.trim() ? "pointer" : "default",
+              opacity: draft.title.trim() ? 1 : 0.5,
+            }}
+          >
+            Add rule
+          </button>
+        </div>
+
+        {message && (
+          <div
+            style={{
+              fontSize: "12px",
+              marginTop: "8px",
+              color: message.includes("❌") ? "#fca5a5" : "#6ee7b7",
+            }}
+          >
+            {message}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,266 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Camera, ScanText, X } from "lucide-react";
+
+interface Capture {
+  data: string;
+  width: number;
+  height: number;
+}
+
+interface Selection {
+  startX: number;
+  startY: number;
+  endX: number;
+  endY: number;
+}
+
+interface ScreenshotTranscriberProps {
+  onTranscript: (
+    transcript: string,
+    turns: Array<{ speaker: "user" | "other"; message: string }>
+  ) => void;
+  buttonStyle?: React.CSSProperties;
+}
+
+export default function ScreenshotTranscriber({
+  onTranscript,
+  buttonStyle,
+}: ScreenshotTranscriberProps) {
+  const [capture, setCapture] = useState<Capture | null>(null);
+  const [selection, setSelection] = useState<Selection | null>(null);
+  const [dragging, setDragging] = useState(false);
+  const [status, setStatus] = useState("");
+  const [isReading, setIsReading] = useState(false);
+  const imageRef = useRef<HTMLImageElement>(null);
+
+  // Captures started from the tray menu open the selector here too
+  useEffect(() => {
+    if (!window.electronAPI?.onScreenshotCaptured) return;
+    const unsubscribe = window.electronAPI.onScreenshotCaptured((next) => {
+      setCapture(next);
+      setSelection(null);
+      setStatus("");
+    });
+    return unsubscribe;
+  }, []);
+
+  const handleCapture = async () => {
+    setStatus("");
+    try {
+      const result = await window.electronAPI.captureScreen();
+      if (result.success && result.data) {
+        setCapture({
+          data: result.data,
+          width: result.width || 0,
+          height: result.height || 0,
+        });
+        setSelection(null);
+      } else {
+        setStatus(result.error || "Could not capture the screen");
+      }
+    } catch (error) {
+      console.error("Error capturing screen:", error);
+      setStatus("Could not capture the screen");
+    }
+  };
+
+  const pointFromEvent = (e: React.MouseEvent) => {
+    const rect = imageRef.current!.getBoundingClientRect();
+    return {
+      x: Math.min(Math.max(e.clientX - rect.left, 0), rect.width),
+      y: Math.min(Math.max(e.clientY - rect.top, 0), rect.height),
+    };
+  };
+
+  const handleMouseDown = (e: React.MouseEvent) => {
+    e.preventDefault();
+    const { x, y } = pointFromEvent(e);
+    setSelection({ startX: x, startY: y, endX: x, endY: y });
+    setDragging(true);
+  };
+
+  const handleMouseMove = (e: React.MouseEvent) => {
+    if (!dragging || !selection) return;
+    const { x, y } = pointFromEvent(e);
+    setSelection({ ...selection, endX: x, endY: y });
+  };
+
+  // Selection is drawn on the scaled preview; OCR needs screenshot pixels
+  const regionInImagePixels = () => {
+    const image = imageRef.current;
+    if (!image || !selection) return undefined;
+    const width = Math.abs(selection.endX - selection.startX);
+    const height = Math.abs(selection.endY - selection.startY);
+    if (width < 10 || height < 10) return undefined;
+
+    const scale = image.naturalWidth / image.clientWidth;
+    return {
+      left: Math.min(selection.startX, selection.endX) * scale,
+      top: Math.min(selection.startY, selection.endY) * scale,
+      width: width * scale,
+      height: height * scale,
+    };
+  };
+
+  const handleExtract = async () => {
+    setIsReading(true);
+    setStatus("Reading text from screenshot...");
+    try {
+      const result = await window.electronAPI.ocrScreenshot({
+        region: regionInImagePixels(),
+      });
+      if (result.success && result.transcript) {
+        onTranscript(result.transcript, result.turns || []);
+        setCapture(null);
+        setSelection(null);
+        setStatus("");
+      } else {
+        setStatus(result.error || "No text found");
+      }
+    } catch (error) {
+      console.error("Error reading screenshot:", error);
+      setStatus("Could not read the screenshot");
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const selectionBox = selection && {
+    left: Math.min(selection.startX, selection.endX),
+    top: Math.min(selection.startY, selection.endY),
+    width: Math.abs(selection.endX - selection.startX),
+    height: Math.abs(selection.endY - selection.startY),
+  };
+
+  return (
+    <>
+      <button
+        onClick={handleCapture}
+        title="Capture a chat screenshot and extract the conversation"
+        style={{
+          backgroundColor: "rgba(255, 255, 255, 0.1)",
+          border: "1px solid rgba(255, 255, 255, 0.2)",
+          color: "#ffffff",
+          padding: "4px 8px",
+          borderRadius: "4px",
+          fontSize: "11px",
+          cursor: "pointer",
+          display: "inline-flex",
+          alignItems: "center",
+          gap: 4,
+          ...buttonStyle,
+        }}
+      >
+        <Camera size={12} /> Screenshot
+      </button>
+      {status && !capture && (
+        <div style={{ fontSize: "11px", color: "#9ca3af", marginTop: 4 }}>
+          {status}
+        </div>
+      )}
+
+      {capture && (
+        <div
+          style={{
+            position: "fixed",
+            inset: 0,
+            backgroundColor: "rgba(0, 0, 0, 0.85)",
+            zIndex: 2000,
+            display: "flex",
+            flexDirection: "column",
+            alignItems: "center",
+            justifyContent: "center",
+            padding: "16px",
+            gap: "12px",
+          }}
+          onMouseUp={() => setDragging(false)}
+        >
+          <div style={{ color: "#d1d5db", fontSize: "13px" }}>
+            Drag over the chat messages, or extract the whole screen
+          </div>
+          <div
+            style={{ position: "relative", cursor: "crosshair" }}
+            onMouseDown={handleMouseDown}
+            onMouseMove={handleMouseMove}
+          >
+            <img
+              ref={imageRef}
+              src={capture.data}
+              alt="Screen capture"
+              draggable={false}
+              style={{
+                display: "block",
+                maxWidth: "90vw",
+                maxHeight: "70vh",
+                border: "1px solid rgba(255, 255, 255, 0.2)",
+                userSelect: "none",
+              }}
+            />
+            {selectionBox && selectionBox.width > 0 && (
+              <div
+                style={{
+                  position: "absolute",
+                  ...selectionBox,
+                  border: "2px solid rgba(59, 130, 246, 0.9)",
+                  backgroundColor: "rgba(59, 130, 246, 0.15)",
+                  pointerEvents: "none",
+                }}
+              />
+            )}
+          </div>
+          <div style={{ display: "flex", gap: "8px", alignItems: "center" }}>
+            <button
+              onClick={handleExtract}
+              disabled={isReading}
+              style={{
+                backgroundColor: "rgba(59, 130, 246, 0.8)",
+                border: "1px solid rgba(255, 255, 255, 0.3)",
+                color: "white",
+                borderRadius: "6px",
+                padding: "8px 14px",
+                fontSize: "13px",
+                cursor: isReading ? "not-allowed" : "pointer",
+                display: "inline-flex",
+                alignItems: "center",
+                gap: 6,
+                opacity: isReading ? 0.6 : 1,
+              }}
+            >
+              <ScanText size={14} />
+              {isReading
+                ? "Reading..."
+                : selection
+                ? "Extract selection"
+                : "Extract whole screen"}
+            </button>
+            <button
+              onClick={() => {
+                setCapture(null);
+                setSelection(null);
+                setStatus("");
+              }}
+              disabled={isReading}
+              style={{
+                backgroundColor: "rgba(255, 255, 255, 0.1)",
+                border: "1px solid rgba(255, 255, 255, 0.2)",
+                color: "white",
+                borderRadius: "6px",
+                padding: "8px 14px",
+                fontSize: "13px",
+                cursor: "pointer",
+                display: "inline-flex",
+                alignItems: "center",
+                gap: 6,
+              }}
+            >
+              <X size={14} /> Cancel
+            </button>
+          </div>
+          {status && (
+            <div style={{ color: "#9ca3af", fontSize: "12px" }}>{status}</div>
+          )}
+        </div>
+      )}
+    </>
+  );
+}
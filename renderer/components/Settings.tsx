@@ -1,4 +1,8 @@
 import React, { useState, useEffect } from "react";
+import UsageChart, { formatUsd } from "./UsageChart";
+import { contactPlatforms } from "./Contacts";
+import SafetyRuleSettings from "./SafetyRuleSettings";
+import DateSafetySettings from "./DateSafetySettings";
 import {
   Key,
   TestTube,
@@ -10,7 +14,25 @@ import {
   XCircle,
   AlertTriangle,
   Lightbulb,
+  ArrowUp,
+  Lock,
+  Archive,
+  Trash2,
+  Brain,
 } from "lucide-react";
+import type {
+  ApiKeySummary,
+  AppLockStatus,
+  BackupSummary,
+  ContactSummary,
+  LearningState,
+  RetentionPolicy,
+} from "../types";
+
+const LOCAL_DEFAULT_ENDPOINT = "http://localhost:11434/v1";
+const IDLE_LOCK_OPTIONS = [0, 1, 5, 15, 30, 60];
+const DELETE_INACTIVE_OPTIONS = [0, 30, 90, 180, 365];
+const PURGE_TEXT_OPTIONS = [0, 7, 30, 90];
 
 export default function Settings() {
   const [opacity, setOpacity] = useState(0.85);
@@ -21,8 +43,30 @@ export default function Settings() {
   const [isUpdatingKey, setIsUpdatingKey] = useState(false);
   const [apiKeyMessage, setApiKeyMessage] = useState("");
   const [showKey, setShowKey] = useState(false);
+  const [keyName, setKeyName] = useState("");
+  const [savedKeys, setSavedKeys] = useState<ApiKeySummary[]>([]);
   const [debugMode, setDebugMode] = useState(false);
-  const [apiUsage, setApiUsage] = useState({
+  const [appLock, setAppLock] = useState<AppLockStatus | null>(null);
+  const [passphraseDraft, setPassphraseDraft] = useState({
+    current: "",
+    next: "",
+    confirm: "",
+  });
+  const [isChangingPassphrase, setIsChangingPassphrase] = useState(false);
+  const [appLockMessage, setAppLockMessage] = useState("");
+  const [pendingRestore, setPendingRestore] = useState<{
+    path: string;
+    summary: BackupSummary;
+  } | null>(null);
+  const [isBackingUp, setIsBackingUp] = useState(false);
+  const [backupMessage, setBackupMessage] = useState("");
+  const [retention, setRetention] = useState<RetentionPolicy>({});
+  const [contacts, setContacts] = useState<ContactSummary[]>([]);
+  const [dataMessage, setDataMessage] = useState("");
+  const [learning, setLearning] = useState<LearningState | null>(null);
+  const [apiUsage, setApiUsage] = useState<
+    Awaited<ReturnType<typeof window.electronAPI.getApiUsage>>
+  >({
     dailyUsed: 0,
     dailyLimit: 40,
     totalCalls: 0,
@@ -31,9 +75,19 @@ export default function Settings() {
     cacheSize: 0,
     rateLimitMessage: "Ready for API calls",
   });
+  const [budgetDraft, setBudgetDraft] = useState({
+    dailyUsd: "",
+    monthlyUsd: "",
+    dailyCalls: "",
+  });
   const [selectedModel, setSelectedModel] = useState("");
   const [customEndpoint, setCustomEndpoint] = useState("");
   const [availableModels, setAvailableModels] = useState<string[]>([]);
+  const [isLoadingModels, setIsLoadingModels] = useState(false);
+  const [fallbackProviders, setFallbackProviders] = useState<string[]>([]);
+  const [configuredProviders, setConfiguredProviders] = useState<string[]>(
+    []
+  );
   const [providerConfig, setProviderConfig] = useState({
     provider: "gemini",
     model: "",
@@ -52,9 +106,31 @@ export default function Settings() {
         const validKey = await window.electronAPI.hasValidApiKey();
         setHasApiKey(validKey);
 
-        // Load current API key (masked)
+        // Only the last four characters of the active key are available here
         if (validKey) {
-          setApiKey("••••••••••••••••"); // Show masked for existing key
+          const hint = await window.electronAPI.getApiKey(provider as any);
+          setApiKey(hint || "••••••••••••••••");
+        }
+        await loadSavedKeys(provider);
+
+        try {
+          setAppLock(await window.electronAPI.getAppLockStatus());
+        } catch (error) {
+          console.error("Failed to load app lock status:", error);
+        }
+
+        try {
+          setRetention(await window.electronAPI.getRetentionPolicy());
+          setContacts(await window.electronAPI.listContacts());
+        } catch (error) {
+          console.error("Failed to load data retention settings:", error);
+        }
+
+        try {
+          const learningResult = await window.electronAPI.getLearningState();
+          setLearning(learningResult.state || null);
+        } catch (error) {
+          console.error("Failed to load learning state:", error);
         }
 
         // Load provider configuration
@@ -77,10 +153,24 @@ export default function Settings() {
           console.error("Failed to load provider config:", error);
         }
 
+        // Load failover order
+        try {
+          const chain = await window.electronAPI.getFallbackProviders();
+          setFallbackProviders(chain.fallbacks);
+          setConfiguredProviders(chain.configured);
+        } catch (error) {
+          console.error("Failed to load fallback providers:", error);
+        }
+
         // Load API usage statistics
         try {
           const usage = await window.electronAPI.getApiUsage();
           setApiUsage(usage);
+          setBudgetDraft({
+            dailyUsd: usage.budgets?.dailyUsd?.toString() || "",
+            monthlyUsd: usage.budgets?.monthlyUsd?.toString() || "",
+            dailyCalls: usage.budgets?.dailyCalls?.toString() || "",
+          });
         } catch (error) {
           console.error("Failed to load API usage:", error);
         }
@@ -104,6 +194,213 @@ export default function Settings() {
     return () => clearInterval(interval);
   }, []);
 
+  const handleSaveBudgets = async () => {
+    const parse = (value: string) =>
+      value.trim() ? parseFloat(value) : undefined;
+    try {
+      await window.electronAPI.setUsageBudgets({
+        dailyUsd: parse(budgetDraft.dailyUsd),
+        monthlyUsd: parse(budgetDraft.monthlyUsd),
+        dailyCalls: parse(budgetDraft.dailyCalls),
+      });
+      setApiUsage(await window.electronAPI.getApiUsage());
+    } catch (error) {
+      console.error("Failed to save budgets:", error);
+    }
+  };
+
+  // Share of the closest-to-exhausted budget, or null without limits
+  const dailyBudgetUsed = (() => {
+    const ratios: number[] = [];
+    if (apiUsage.budgets?.dailyUsd && apiUsage.today) {
+      ratios.push(apiUsage.today.costUsd / apiUsage.budgets.dailyUsd);
+    }
+    if (apiUsage.budgets?.dailyCalls) {
+      ratios.push(apiUsage.dailyUsed / apiUsage.budgets.dailyCalls);
+    }
+    if (apiUsage.budgets?.monthlyUsd && apiUsage.month) {
+      ratios.push(apiUsage.month.costUsd / apiUsage.budgets.monthlyUsd);
+    }
+    return ratios.length > 0 ? Math.max(...ratios) : null;
+  })();
+
+  // A null next passphrase hands the database key back to the OS keychain
+  const handleChangePassphrase = async (nextPassphrase: string | null) => {
+    if (nextPassphrase !== null) {
+      if (nextPassphrase.length < 8) {
+        setAppLockMessage("Use a passphrase of at least 8 characters");
+        return;
+      }
+      if (nextPassphrase !== passphraseDraft.confirm) {
+        setAppLockMessage("Passphrases don't match");
+        return;
+      }
+    }
+
+    setIsChangingPassphrase(true);
+    setAppLockMessage("");
+    try {
+      const result = await window.electronAPI.setAppPassphrase(
+        appLock?.scheme === "passphrase" ? passphraseDraft.current : undefined,
+        nextPassphrase
+      );
+      if (result.success) {
+        setPassphraseDraft({ current: "", next: "", confirm: "" });
+        setAppLockMessage(
+          nextPassphrase === null
+            ? "✅ Passphrase removed"
+            : "✅ Passphrase saved and database re-encrypted"
+        );
+        setAppLock(await window.electronAPI.getAppLockStatus());
+      } else {
+        setAppLockMessage(
+          `❌ ${result.error || "Could not change passphrase"}`
+        );
+      }
+    } catch (error) {
+      console.error("Failed to change app passphrase:", error);
+      setAppLockMessage("❌ Could not change passphrase");
+    } finally {
+      setIsChangingPassphrase(false);
+    }
+  };
+
+  const handleIdleLockChange = async (minutes: number) => {
+    try {
+      await window.electronAPI.setIdleLockMinutes(minutes);
+      setAppLock(await window.electronAPI.getAppLockStatus());
+    } catch (error) {
+      console.error("Failed to update idle lock:", error);
+    }
+  };
+
+  const handleCreateBackup = async () => {
+    setIsBackingUp(true);
+    setBackupMessage("");
+    try {
+      const result = await window.electronAPI.createBackup();
+      setBackupMessage(
+        result.success ? `✅ ${result.message}` : result.message
+      );
+    } catch (error) {
+      console.error("Failed to create backup:", error);
+      setBackupMessage("❌ Could not create the backup");
+    } finally {
+      setIsBackingUp(false);
+    }
+  };
+
+  const handleChooseBackup = async () => {
+    setBackupMessage("");
+    try {
+      const result = await window.electronAPI.inspectBackup();
+      if (result.success && result.path && result.summary) {
+        setPendingRestore({ path: result.path, summary: result.summary });
+      } else if (result.message) {
+        setBackupMessage(result.message);
+      }
+    } catch (error) {
+      console.error("Failed to read backup:", error);
+      setBackupMessage("❌ Could not read the backup");
+    }
+  };
+
+  const handleRestoreBackup = async (mode: "merge" | "replace") => {
+    if (!pendingRestore) return;
+    if (
+      mode === "replace" &&
+      !confirm(
+        "Replace all conversations, insights and settings on this device with the backup?"
+      )
+    ) {
+      return;
+    }
+
+    setIsBackingUp(true);
+    try {
+      const result = await window.electronAPI.restoreBackup(
+        pendingRestore.path,
+        mode
+      );
+      if (result.success && result.restored) {
+        setPendingRestore(null);
+        setBackupMessage(`✅ ${result.message}`);
+      } else {
+        setBackupMessage(`❌ ${result.message}`);
+      }
+    } catch (error) {
+      console.error("Failed to restore backup:", error);
+      setBackupMessage("❌ Could not restore the backup");
+    } finally {
+      setIsBackingUp(false);
+    }
+  };
+
+  const handleRetentionChange = async (policy: RetentionPolicy) => {
+    setRetention(policy);
+    setDataMessage("");
+    try {
+      const response = await window.electronAPI.setRetentionPolicy(policy);
+      if (!response.success || !response.result) {
+        setDataMessage(`❌ ${response.error || "Could not apply the rules"}`);
+        return;
+      }
+      const { deletedConversations, purgedMessages, deletedHistory } =
+        response.result;
+      if (deletedConversations || purgedMessages || deletedHistory) {
+        setDataMessage(
+          `✅ Deleted ${deletedConversations} conversation(s) and ${deletedHistory} history item(s), and cleared the text of ${purgedMessages} message(s)`
+        );
+      }
+      setContacts(await window.electronAPI.listContacts());
+    } catch (error) {
+      console.error("Failed to update retention policy:", error);
+      setDataMessage("❌ Could not apply the rules");
+    }
+  };
+
+  const handleForgetContact = async (contact: ContactSummary) => {
+    if (
+      !confirm(
+        `Permanently delete every conversation, message and insight for ${contact.display_name}?`
+      )
+    ) {
+      return;
+    }
+    setDataMessage("");
+    try {
+      const response = await window.electronAPI.forgetContact(contact.id);
+      if (!response.success) {
+        setDataMessage(`❌ ${response.error || "Could not forget contact"}`);
+        return;
+      }
+      setContacts(await window.electronAPI.listContacts());
+      setDataMessage(`✅ Forgot ${contact.display_name}`);
+    } catch (error) {
+      console.error("Failed to forget contact:", error);
+      setDataMessage("❌ Could not forget contact");
+    }
+  };
+
+  const handleResetLearning = async () => {
+    if (
+      !confirm(
+        "Forget everything the assistant has learned from your feedback? This can't be undone."
+      )
+    ) {
+      return;
+    }
+    try {
+      const result = await window.electronAPI.resetLearning();
+      if (result.success) {
+        const learningResult = await window.electronAPI.getLearningState();
+        setLearning(learningResult.state || null);
+      }
+    } catch (error) {
+      console.error("Failed to reset learning:", error);
+    }
+  };
+
   const handleOpacityChange = async (newOpacity: number) => {
     setOpacity(newOpacity);
     try {
@@ -113,8 +410,53 @@ export default function Settings() {
     }
   };
 
+  const isLocal = currentProvider === "local";
+
+  const loadSavedKeys = async (provider: string) => {
+    try {
+      setSavedKeys(await window.electronAPI.listApiKeys(provider));
+    } catch (error) {
+      console.error("Failed to load saved API keys:", error);
+      setSavedKeys([]);
+    }
+  };
+
+  // Re-reads key state after the active key for the provider changed
+  const refreshActiveKey = async () => {
+    const validKey = await window.electronAPI.hasValidApiKey();
+    setHasApiKey(validKey);
+    const hint = await window.electronAPI.getApiKey(currentProvider as any);
+    setApiKey(hint || "");
+    await loadSavedKeys(currentProvider);
+    const chain = await window.electronAPI.getFallbackProviders();
+    setConfiguredProviders(chain.configured);
+  };
+
+  const handleUseKey = async (id: string) => {
+    try {
+      await window.electronAPI.setActiveApiKey(currentProvider, id);
+      await refreshActiveKey();
+    } catch (error) {
+      console.error("Failed to switch API key:", error);
+      setApiKeyMessage("❌ Failed to switch API key");
+    }
+  };
+
+  const handleRemoveKey = async (key: ApiKeySummary) => {
+    if (!confirm(`Remove the saved key "${key.name}" (${key.hint})?`)) return;
+    try {
+      await window.electronAPI.removeApiKey(currentProvider, key.id);
+      await refreshActiveKey();
+    } catch (error) {
+      console.error("Failed to remove API key:", error);
+      setApiKeyMessage("❌ Failed to remove API key");
+    }
+  };
+
   const handleUpdateApiKey = async () => {
-    if (!apiKey.trim() || apiKey.includes("•")) {
+    // Local model servers usually run without a key
+    const keyEntered = apiKey.trim() && !apiKey.includes("•");
+    if (!keyEntered && !isLocal) {
       setApiKeyMessage("Please enter a valid API key");
       return;
     }
@@ -124,13 +466,16 @@ export default function Settings() {
 
     try {
       const options: any = {};
-      if (currentProvider === "openrouter" && selectedModel) {
+      if (currentProvider !== "custom" && selectedModel) {
         options.model = selectedModel;
       }
-      if (currentProvider === "custom") {
+      if (currentProvider === "custom" || isLocal) {
         options.model = selectedModel;
         options.endpoint = customEndpoint;
       }
+      if (keyName.trim()) {
+        options.keyName = keyName.trim();
+      }
 
       await window.electronAPI.setApiKey(
         currentProvider as
@@ -138,14 +483,22 @@ export default function Settings() {
           | "openai"
           | "anthropic"
           | "openrouter"
-          | "custom",
-        apiKey,
+          | "custom"
+          | "local",
+        keyEntered ? apiKey : "",
         options
       );
 
       setHasApiKey(true);
       setShowApiKeyInput(false);
-      setApiKeyMessage("✅ API key updated successfully!");
+      setShowKey(false);
+      setKeyName("");
+      await refreshActiveKey();
+      setApiKeyMessage(
+        isLocal
+          ? "✅ Local model server saved!"
+          : "✅ API key updated successfully!"
+      );
 
       // Reload provider config
       const config = await window.electronAPI.getProviderConfig();
@@ -166,10 +519,14 @@ export default function Settings() {
 
   const handleProviderChange = async (provider: string) => {
     setCurrentProvider(provider);
+    const endpoint = provider === "local" ? LOCAL_DEFAULT_ENDPOINT : "";
 
     // Load available models for the new provider
     try {
-      const models = await window.electronAPI.getAvailableModels(provider);
+      const models = await window.electronAPI.getAvailableModels(
+        provider,
+        endpoint || undefined
+      );
       setAvailableModels(models);
       setSelectedModel(models[0] || "");
     } catch (error) {
@@ -180,10 +537,62 @@ export default function Settings() {
     // Reset form
     setApiKey("");
     setHasApiKey(false);
-    setCustomEndpoint("");
+    await loadSavedKeys(provider);
+    setCustomEndpoint(endpoint);
     setShowApiKeyInput(true);
   };
 
+  // Asks the local server which models it has pulled/loaded
+  const refreshLocalModels = async () => {
+    setIsLoadingModels(true);
+    try {
+      const models = await window.electronAPI.getAvailableModels(
+        "local",
+        customEndpoint || undefined
+      );
+      setAvailableModels(models);
+      if (!models.includes(selectedModel)) {
+        setSelectedModel(models[0] || "");
+      }
+      setApiKeyMessage(
+        models.length > 0
+          ? ""
+          : "No models found - is the local server running?"
+      );
+    } catch (error) {
+      console.error("Failed to discover local models:", error);
+      setAvailableModels([]);
+    } finally {
+      setIsLoadingModels(false);
+    }
+  };
+
+  const saveFallbackProviders = async (providers: string[]) => {
+    setFallbackProviders(providers);
+    try {
+      await window.electronAPI.setFallbackProviders(providers);
+    } catch (error) {
+      console.error("Failed to save fallback providers:", error);
+    }
+  };
+
+  const toggleFallbackProvider = (provider: string) => {
+    saveFallbackProviders(
+      fallbackProviders.includes(provider)
+        ? fallbackProviders.filter((p) => p !== provider)
+        : [...fallbackProviders, provider]
+    );
+  };
+
+  const moveFallbackProviderUp = (provider: string) => {
+    const index = fallbackProviders.indexOf(provider);
+    if (index <= 0) return;
+    const reordered = [...fallbackProviders];
+    reordered[index] = reordered[index - 1];
+    reordered[index - 1] = provider;
+    saveFallbackProviders(reordered);
+  };
+
   const toggleShowKey = () => {
     if (showKey) {
       // Hide the key - show masked version
@@ -294,7 +703,7 @@ export default function Settings() {
               opacity: 0.9,
             }}
           >
-            Daily API Usage
+            API Usage & Budget
           </div>
 
           <div
@@ -305,7 +714,11 @@ export default function Settings() {
             }}
           >
             <span style={{ fontSize: "12px", opacity: 0.7 }}>
-              Calls Today: {apiUsage.dailyUsed}/{apiUsage.dailyLimit}
+              Today: {apiUsage.dailyUsed} calls
+              {apiUsage.today &&
+                ` • ${formatUsd(apiUsage.today.costUsd)}`}
+              {apiUsage.month &&
+                ` • Month: ${formatUsd(apiUsage.month.costUsd)}`}
             </span>
             <span
               style={{
@@ -313,45 +726,108 @@ export default function Settings() {
                 color: apiUsage.canMakeCall ? "#4ade80" : "#f87171",
               }}
             >
-              {apiUsage.canMakeCall ? "Ready" : "Rate Limited"}
+              {apiUsage.canMakeCall ? "Ready" : "Budget Reached"}
             </span>
           </div>
 
-          <div
-            style={{
-              width: "100%",
-              height: "4px",
-              background: "rgba(255, 255, 255, 0.1)",
-              borderRadius: "2px",
-              overflow: "hidden",
-            }}
-          >
+          {dailyBudgetUsed !== null && (
             <div
               style={{
-                width: `${Math.min(
-                  100,
-                  (apiUsage.dailyUsed / apiUsage.dailyLimit) * 100
-                )}%`,
-                height: "100%",
-                background: apiUsage.canMakeCall ? "#4ade80" : "#f87171",
-                transition: "width 0.3s ease",
+                width: "100%",
+                height: "4px",
+                background: "rgba(255, 255, 255, 0.1)",
+                borderRadius: "2px",
+                overflow: "hidden",
               }}
-            />
-          </div>
+            >
+              <div
+                style={{
+                  width: `${Math.min(100, dailyBudgetUsed * 100)}%`,
+                  height: "100%",
+                  background: apiUsage.canMakeCall ? "#4ade80" : "#f87171",
+                  transition: "width 0.3s ease",
+                }}
+              />
+            </div>
+          )}
 
-          {!apiUsage.canMakeCall && apiUsage.nextCallAvailable > 0 && (
+          {!apiUsage.canMakeCall && (
             <div
               style={{
                 fontSize: "11px",
-                opacity: 0.6,
+                opacity: 0.7,
                 marginTop: "6px",
                 textAlign: "center",
+                color: "#fca5a5",
               }}
             >
-              Next call available in {apiUsage.nextCallAvailable}s
+              {apiUsage.rateLimitMessage} - paid providers are paused, local
+              models still work
+            </div>
+          )}
+
+          {apiUsage.history && (
+            <div style={{ marginTop: "12px" }}>
+              <UsageChart history={apiUsage.history} />
             </div>
           )}
 
+          <div
+            style={{
+              display: "grid",
+              gridTemplateColumns: "repeat(3, 1fr) auto",
+              gap: "6px",
+              alignItems: "end",
+              marginTop: "12px",
+            }}
+          >
+            {(
+              [
+                ["dailyUsd", "Daily $"],
+                ["monthlyUsd", "Monthly $"],
+                ["dailyCalls", "Calls/day"],
+              ] as const
+            ).map(([key, label]) => (
+              <label key={key} style={{ fontSize: "10px", opacity: 0.7 }}>
+                {label}
+                <input
+                  type="number"
+                  min="0"
+                  step={key === "dailyCalls" ? "1" : "0.01"}
+                  value={budgetDraft[key]}
+                  onChange={(e) =>
+                    setBudgetDraft({ ...budgetDraft, [key]: e.target.value })
+                  }
+                  placeholder="No limit"
+                  style={{
+                    width: "100%",
+                    background: "rgba(255, 255, 255, 0.1)",
+                    border: "1px solid rgba(255, 255, 255, 0.2)",
+                    borderRadius: "4px",
+                    padding: "4px 6px",
+                    fontSize: "11px",
+                    color: "#fff",
+                    marginTop: "2px",
+                  }}
+                />
+              </label>
+            ))}
+            <button
+              onClick={handleSaveBudgets}
+              style={{
+                background: "rgba(255, 255, 255, 0.2)",
+                border: "none",
+                borderRadius: "4px",
+                padding: "6px 10px",
+                color: "white",
+                fontSize: "11px",
+                cursor: "pointer",
+              }}
+            >
+              Save
+            </button>
+          </div>
+
           <div
             style={{
               fontSize: "11px",
@@ -363,6 +839,28 @@ export default function Settings() {
             Cache: {apiUsage.cacheSize} responses • Total: {apiUsage.totalCalls}{" "}
             calls
           </div>
+
+          {/* Replies that didn't match the expected JSON shape */}
+          {apiUsage.structuredOutput &&
+            apiUsage.structuredOutput.repaired +
+              apiUsage.structuredOutput.failed >
+              0 && (
+              <div
+                title={apiUsage.structuredOutput.recentFailures
+                  .map((f) => `${f.task}: ${f.issues.join("; ")}`)
+                  .join("\n")}
+                style={{
+                  fontSize: "11px",
+                  opacity: 0.6,
+                  marginTop: "4px",
+                  textAlign: "center",
+                  color: apiUsage.structuredOutput.failed > 0 ? "#fbbf24" : "",
+                }}
+              >
+                Malformed AI replies: {apiUsage.structuredOutput.repaired}{" "}
+                repaired • {apiUsage.structuredOutput.failed} fell back
+              </div>
+            )}
         </div>
 
         {/* Provider Selection */}
@@ -394,7 +892,14 @@ export default function Settings() {
               marginBottom: "12px",
             }}
           >
-            {["gemini", "openrouter", "openai", "anthropic", "custom"].map(
+            {[
+              "gemini",
+              "openrouter",
+              "openai",
+              "anthropic",
+              "custom",
+              "local",
+            ].map(
               (provider) => (
                 <button
                   key={provider}
@@ -423,16 +928,39 @@ export default function Settings() {
             )}
           </div>
 
-          {/* Model Selection for OpenRouter and Custom */}
-          {(currentProvider === "openrouter" ||
-            currentProvider === "custom") && (
+          {/* Model Selection - every provider honors the chosen model */}
+          {(availableModels.length > 0 ||
+            currentProvider === "custom" ||
+            isLocal) && (
             <div style={{ marginBottom: "12px" }}>
               <div
-                style={{ fontSize: "11px", opacity: 0.7, marginBottom: "4px" }}
+                style={{
+                  display: "flex",
+                  justifyContent: "space-between",
+                  fontSize: "11px",
+                  opacity: 0.7,
+                  marginBottom: "4px",
+                }}
               >
-                Model:
+                <span>Model:</span>
+                {isLocal && (
+                  <button
+                    onClick={refreshLocalModels}
+                    disabled={isLoadingModels}
+                    style={{
+                      background: "none",
+                      border: "none",
+                      color: "#93c5fd",
+                      fontSize: "11px",
+                      cursor: isLoadingModels ? "not-allowed" : "pointer",
+                      padding: 0,
+                    }}
+                  >
+                    {isLoadingModels ? "Detecting..." : "Detect models"}
+                  </button>
+                )}
               </div>
-              {currentProvider === "openrouter" ? (
+              {currentProvider !== "custom" && availableModels.length > 0 ? (
                 <select
                   value={selectedModel}
                   onChange={(e) => setSelectedModel(e.target.value)}
@@ -461,7 +989,11 @@ export default function Settings() {
                   type="text"
                   value={selectedModel}
                   onChange={(e) => setSelectedModel(e.target.value)}
-                  placeholder="e.g., gpt-4o, claude-3.5-sonnet"
+                  placeholder={
+                    isLocal
+                      ? "e.g., llama3.1:8b"
+                      : "e.g., gpt-4o, claude-3.5-sonnet"
+                  }
                   style={{
                     width: "100%",
                     background: "rgba(255, 255, 255, 0.1)",
@@ -476,8 +1008,8 @@ export default function Settings() {
             </div>
           )}
 
-          {/* Custom Endpoint for Custom Provider */}
-          {currentProvider === "custom" && (
+          {/* Endpoint for Custom and Local Providers */}
+          {(currentProvider === "custom" || isLocal) && (
             <div style={{ marginBottom: "12px" }}>
               <div
                 style={{ fontSize: "11px", opacity: 0.7, marginBottom: "4px" }}
@@ -488,7 +1020,9 @@ export default function Settings() {
                 type="text"
                 value={customEndpoint}
                 onChange={(e) => setCustomEndpoint(e.target.value)}
-                placeholder="https://api.example.com/v1"
+                placeholder={
+                  isLocal ? LOCAL_DEFAULT_ENDPOINT : "https://api.example.com/v1"
+                }
                 style={{
                   width: "100%",
                   background: "rgba(255, 255, 255, 0.1)",
@@ -509,7 +1043,71 @@ export default function Settings() {
             {currentProvider === "openai" && "Pay-per-use pricing"}
             {currentProvider === "anthropic" && "Pay-per-use pricing"}
             {currentProvider === "custom" && "Configure your own endpoint"}
+            {isLocal &&
+              "Ollama or llama.cpp server - conversations never leave this machine"}
           </div>
+
+          {/* Fallback chain - used when the current provider is rate limited or down */}
+          {configuredProviders.some((p) => p !== currentProvider) && (
+            <div style={{ marginTop: "12px" }}>
+              <div
+                style={{ fontSize: "11px", opacity: 0.7, marginBottom: "6px" }}
+              >
+                If {currentProvider} is busy or down, try in order:
+              </div>
+              {[
+                ...fallbackProviders.filter((p) =>
+                  configuredProviders.includes(p)
+                ),
+                ...configuredProviders.filter(
+                  (p) => !fallbackProviders.includes(p)
+                ),
+              ]
+                .filter((p) => p !== currentProvider)
+                .map((provider) => {
+                  const enabled = fallbackProviders.includes(provider);
+                  return (
+                    <div
+                      key={provider}
+                      style={{
+                        display: "flex",
+                        alignItems: "center",
+                        gap: "8px",
+                        fontSize: "11px",
+                        padding: "4px 0",
+                        opacity: enabled ? 1 : 0.6,
+                      }}
+                    >
+                      <input
+                        type="checkbox"
+                        checked={enabled}
+                        onChange={() => toggleFallbackProvider(provider)}
+                      />
+                      <span
+                        style={{ flex: 1, textTransform: "capitalize" }}
+                      >
+                        {provider === "openrouter" ? "OpenRouter" : provider}
+                      </span>
+                      {enabled && fallbackProviders.indexOf(provider) > 0 && (
+                        <button
+                          onClick={() => moveFallbackProviderUp(provider)}
+                          title="Try earlier"
+                          style={{
+                            background: "none",
+                            border: "none",
+                            color: "#fff",
+                            cursor: "pointer",
+                            padding: 0,
+                          }}
+                        >
+                          <ArrowUp size={12} />
+                        </button>
+                      )}
+                    </div>
+                  );
+                })}
+            </div>
+          )}
         </div>
 
         <div
@@ -539,7 +1137,14 @@ export default function Settings() {
             }}
           >
             {hasApiKey ? <CheckCircle size={16} /> : <XCircle size={16} />}
-            Status: {hasApiKey ? "API Key Configured" : "No API Key Set"}
+            Status:{" "}
+            {isLocal
+              ? hasApiKey
+                ? "Local Server Configured"
+                : "Local Server Not Set"
+              : hasApiKey
+              ? "API Key Configured"
+              : "No API Key Set"}
           </div>
 
           {hasApiKey && (
@@ -570,7 +1175,14 @@ export default function Settings() {
                   {apiKey || "••••••••••••••••"}
                 </span>
                 <button
-                  onClick={() => setShowApiKeyInput(!showApiKeyInput)}
+                  onClick={async () => {
+                    setShowApiKeyInput(!showApiKeyInput);
+                    if (showApiKeyInput) {
+                      await refreshActiveKey();
+                    } else {
+                      setApiKey("");
+                    }
+                  }}
                   style={{
                     background: "rgba(255, 255, 255, 0.2)",
                     border: "none",
@@ -581,21 +1193,111 @@ export default function Settings() {
                     cursor: "pointer",
                   }}
                 >
-                  {showApiKeyInput ? "Cancel" : "Update"}
+                  {showApiKeyInput ? "Cancel" : "Add key"}
                 </button>
               </div>
             </div>
           )}
 
+          {savedKeys.length > 0 && (
+            <div style={{ marginBottom: "12px" }}>
+              <div
+                style={{ fontSize: "12px", opacity: 0.8, marginBottom: "4px" }}
+              >
+                Saved keys (others are tried if the active one fails):
+              </div>
+              {savedKeys.map((key) => (
+                <div
+                  key={key.id}
+                  style={{
+                    display: "flex",
+                    alignItems: "center",
+                    gap: "8px",
+                    padding: "4px 0",
+                    fontSize: "12px",
+                  }}
+                >
+                  <span style={{ flex: 1 }}>{key.name}</span>
+                  <span style={{ fontFamily: "monospace", opacity: 0.7 }}>
+                    {key.hint}
+                  </span>
+                  {key.active ? (
+                    <span
+                      style={{
+                        fontSize: "10px",
+                        color: "#6ee7b7",
+                        background: "rgba(16, 185, 129, 0.2)",
+                        padding: "2px 6px",
+                        borderRadius: "4px",
+                      }}
+                    >
+                      Active
+                    </span>
+                  ) : (
+                    <button
+                      onClick={() => handleUseKey(key.id)}
+                      style={{
+                        background: "rgba(255, 255, 255, 0.2)",
+                        border: "none",
+                        borderRadius: "4px",
+                        padding: "2px 6px",
+                        color: "white",
+                        fontSize: "11px",
+                        cursor: "pointer",
+                      }}
+                    >
+                      Use
+                    </button>
+                  )}
+                  <button
+                    onClick={() => handleRemoveKey(key)}
+                    style={{
+                      background: "rgba(239, 68, 68, 0.2)",
+                      border: "none",
+                      borderRadius: "4px",
+                      padding: "2px 6px",
+                      color: "#fca5a5",
+                      fontSize: "11px",
+                      cursor: "pointer",
+                    }}
+                  >
+                    Remove
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
           {(showApiKeyInput || !hasApiKey) && (
             <div style={{ marginBottom: "12px" }}>
               <div
                 style={{ fontSize: "12px", opacity: 0.8, marginBottom: "4px" }}
               >
-                {hasApiKey
+                {isLocal
+                  ? "API key (optional for local servers):"
+                  : hasApiKey
                   ? "Enter new API key:"
                   : "Enter your Gemini API key:"}
               </div>
+              {!isLocal && (
+                <input
+                  type="text"
+                  value={keyName}
+                  onChange={(e) => setKeyName(e.target.value)}
+                  placeholder="Key name (optional), e.g. Personal"
+                  style={{
+                    width: "100%",
+                    marginBottom: "6px",
+                    padding: "8px 12px",
+                    background: "rgba(255, 255, 255, 0.1)",
+                    border: "1px solid rgba(255, 255, 255, 0.3)",
+                    borderRadius: "6px",
+                    color: "white",
+                    fontSize: "12px",
+                    outline: "none",
+                  }}
+                />
+              )}
               <div
                 style={{ display: "flex", gap: "8px", alignItems: "center" }}
               >
@@ -739,24 +1441,647 @@ export default function Settings() {
         </div>
       </div>
 
-      {/* Keyboard Shortcuts */}
-      <div style={{ marginBottom: "32px" }}>
-        <h3
-          style={{
-            fontSize: "14px",
-            fontWeight: "500",
-            marginBottom: "12px",
-            opacity: 0.9,
-            display: "flex",
-            alignItems: "center",
-            gap: "8px",
-          }}
-        >
-          <Keyboard size={14} />
-          Keyboard Shortcuts
-        </h3>
+      {/* App Lock */}
+      {appLock && (
+        <div style={{ marginBottom: "32px" }}>
+          <h3
+            style={{
+              fontSize: "14px",
+              fontWeight: "500",
+              marginBottom: "12px",
+              opacity: 0.9,
+              display: "flex",
+              alignItems: "center",
+              gap: "8px",
+            }}
+          >
+            <Lock size={14} />
+            App Lock
+          </h3>
 
-        <div
+          <div
+            style={{
+              background: "rgba(255, 255, 255, 0.05)",
+              borderRadius: "8px",
+              padding: "16px",
+              fontSize: "12px",
+              lineHeight: "1.6",
+            }}
+          >
+            <div style={{ marginBottom: "12px", opacity: 0.8 }}>
+              {appLock.scheme === "passphrase"
+                ? "Your conversation history is encrypted with your passphrase and locks when you're away."
+                : "Your conversation history is encrypted with a key held by your system keychain. Set a passphrase to lock the app."}
+            </div>
+
+            {appLock.scheme === "passphrase" && (
+              <input
+                type="password"
+                value={passphraseDraft.current}
+                onChange={(e) =>
+                  setPassphraseDraft({
+                    ...passphraseDraft,
+                    current: e.target.value,
+                  })
+                }
+                placeholder="Current passphrase"
+                style={{
+                  width: "100%",
+                  padding: "8px 12px",
+                  background: "rgba(255, 255, 255, 0.1)",
+                  border: "1px solid rgba(255, 255, 255, 0.3)",
+                  borderRadius: "6px",
+                  color: "white",
+                  fontSize: "12px",
+                  marginBottom: "8px",
+                  boxSizing: "border-box",
+                }}
+              />
+            )}
+            <input
+              type="password"
+              value={passphraseDraft.next}
+              onChange={(e) =>
+                setPassphraseDraft({ ...passphraseDraft, next: e.target.value })
+              }
+              placeholder="New passphrase"
+              style={{
+                width: "100%",
+                padding: "8px 12px",
+                background: "rgba(255, 255, 255, 0.1)",
+                border: "1px solid rgba(255, 255, 255, 0.3)",
+                borderRadius: "6px",
+                color: "white",
+                fontSize: "12px",
+                marginBottom: "8px",
+                boxSizing: "border-box",
+              }}
+            />
+            <input
+              type="password"
+              value={passphraseDraft.confirm}
+              onChange={(e) =>
+                setPassphraseDraft({
+                  ...passphraseDraft,
+                  confirm: e.target.value,
+                })
+              }
+              placeholder="Confirm new passphrase"
+              style={{
+                width: "100%",
+                padding: "8px 12px",
+                background: "rgba(255, 255, 255, 0.1)",
+                border: "1px solid rgba(255, 255, 255, 0.3)",
+                borderRadius: "6px",
+                color: "white",
+                fontSize: "12px",
+                marginBottom: "8px",
+                boxSizing: "border-box",
+              }}
+            />
+
+            <div style={{ display: "flex", flexWrap: "wrap", gap: "8px" }}>
+              <button
+                onClick={() => handleChangePassphrase(passphraseDraft.next)}
+                disabled={isChangingPassphrase || !passphraseDraft.next}
+                style={{
+                  background: "rgba(255, 255, 255, 0.1)",
+                  border: "1px solid rgba(255, 255, 255, 0.3)",
+                  borderRadius: "6px",
+                  padding: "8px 12px",
+                  color: "white",
+                  fontSize: "12px",
+                  cursor: isChangingPassphrase ? "not-allowed" : "pointer",
+                }}
+              >
+                {isChangingPassphrase
+                  ? "Re-encrypting..."
+                  : appLock.scheme === "passphrase"
+                    ? "Change passphrase"
+                    : "Set passphrase"}
+              </button>
+
+              {appLock.scheme === "passphrase" && appLock.keychainAvailable && (
+                <button
+                  onClick={() => handleChangePassphrase(null)}
+                  disabled={isChangingPassphrase || !passphraseDraft.current}
+                  style={{
+                    background: "transparent",
+                    border: "1px solid rgba(255, 255, 255, 0.3)",
+                    borderRadius: "6px",
+                    padding: "8px 12px",
+                    color: "white",
+                    fontSize: "12px",
+                    cursor: isChangingPassphrase ? "not-allowed" : "pointer",
+                  }}
+                >
+                  Remove passphrase
+                </button>
+              )}
+
+              {appLock.scheme === "passphrase" && (
+                <button
+                  onClick={() => window.electronAPI.lockApp()}
+                  style={{
+                    background: "transparent",
+                    border: "1px solid rgba(255, 255, 255, 0.3)",
+                    borderRadius: "6px",
+                    padding: "8px 12px",
+                    color: "white",
+                    fontSize: "12px",
+                    cursor: "pointer",
+                  }}
+                >
+                  Lock now
+                </button>
+              )}
+            </div>
+
+            {appLockMessage && (
+              <div
+                style={{
+                  fontSize: "12px",
+                  marginTop: "8px",
+                  color: appLockMessage.includes("✅") ? "#6ee7b7" : "#fca5a5",
+                }}
+              >
+                {appLockMessage}
+              </div>
+            )}
+
+            {appLock.scheme === "passphrase" && (
+              <div
+                style={{
+                  display: "flex",
+                  alignItems: "center",
+                  justifyContent: "space-between",
+                  marginTop: "12px",
+                }}
+              >
+                <span style={{ opacity: 0.8 }}>Lock after inactivity</span>
+                <select
+                  value={appLock.idleLockMinutes}
+                  onChange={(e) =>
+                    handleIdleLockChange(parseInt(e.target.value, 10))
+                  }
+                  style={{
+                    background: "rgba(255, 255, 255, 0.1)",
+                    border: "1px solid rgba(255, 255, 255, 0.2)",
+                    borderRadius: "4px",
+                    padding: "6px",
+                    fontSize: "11px",
+                    color: "#fff",
+                  }}
+                >
+                  {IDLE_LOCK_OPTIONS.map((minutes) => (
+                    <option
+                      key={minutes}
+                      value={minutes}
+                      style={{ background: "#1f2937", color: "#fff" }}
+                    >
+                      {minutes === 0 ? "Never" : `${minutes} min`}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Backup & Restore */}
+      <div style={{ marginBottom: "32px" }}>
+        <h3
+          style={{
+            fontSize: "14px",
+            fontWeight: "500",
+            marginBottom: "12px",
+            opacity: 0.9,
+            display: "flex",
+            alignItems: "center",
+            gap: "8px",
+          }}
+        >
+          <Archive size={14} />
+          Backup & Restore
+        </h3>
+
+        <div
+          style={{
+            background: "rgba(255, 255, 255, 0.05)",
+            borderRadius: "8px",
+            padding: "16px",
+            fontSize: "12px",
+            lineHeight: "1.6",
+          }}
+        >
+          <div style={{ marginBottom: "12px", opacity: 0.8 }}>
+            Save conversations, what the assistant has learned, settings and
+            history to one file to move them to another computer. API keys are
+            not included, and the file is not encrypted, so keep it somewhere
+            safe.
+          </div>
+
+          {pendingRestore ? (
+            <div>
+              <div style={{ marginBottom: "8px" }}>
+                Backup from{" "}
+                {new Date(pendingRestore.summary.createdAt).toLocaleString()}{" "}
+                (v{pendingRestore.summary.appVersion}):{" "}
+                {pendingRestore.summary.conversations} conversations,{" "}
+                {pendingRestore.summary.messages} messages,{" "}
+                {pendingRestore.summary.insights} insights,{" "}
+                {pendingRestore.summary.historyItems} history items
+              </div>
+              {pendingRestore.summary.warnings.map((warning) => (
+                <div
+                  key={warning}
+                  style={{ color: "#fbbf24", marginBottom: "8px" }}
+                >
+                  {warning}
+                </div>
+              ))}
+              <div style={{ display: "flex", flexWrap: "wrap", gap: "8px" }}>
+                <button
+                  onClick={() => handleRestoreBackup("merge")}
+                  disabled={isBackingUp}
+                  title="Keep what's on this device and add what's new in the backup"
+                  style={{
+                    background: "rgba(255, 255, 255, 0.1)",
+                    border: "1px solid rgba(255, 255, 255, 0.3)",
+                    borderRadius: "6px",
+                    padding: "8px 12px",
+                    color: "white",
+                    fontSize: "12px",
+                    cursor: isBackingUp ? "not-allowed" : "pointer",
+                  }}
+                >
+                  Merge
+                </button>
+                <button
+                  onClick={() => handleRestoreBackup("replace")}
+                  disabled={isBackingUp}
+                  title="Discard what's on this device and use the backup"
+                  style={{
+                    background: "rgba(255, 255, 255, 0.1)",
+                    border: "1px solid rgba(255, 255, 255, 0.3)",
+                    borderRadius: "6px",
+                    padding: "8px 12px",
+                    color: "white",
+                    fontSize: "12px",
+                    cursor: isBackingUp ? "not-allowed" : "pointer",
+                  }}
+                >
+                  Replace
+                </button>
+                <button
+                  onClick={() => setPendingRestore(null)}
+                  disabled={isBackingUp}
+                  style={{
+                    background: "transparent",
+                    border: "1px solid rgba(255, 255, 255, 0.3)",
+                    borderRadius: "6px",
+                    padding: "8px 12px",
+                    color: "white",
+                    fontSize: "12px",
+                    cursor: "pointer",
+                  }}
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div style={{ display: "flex", flexWrap: "wrap", gap: "8px" }}>
+              <button
+                onClick={handleCreateBackup}
+                disabled={isBackingUp}
+                style={{
+                  background: "rgba(255, 255, 255, 0.1)",
+                  border: "1px solid rgba(255, 255, 255, 0.3)",
+                  borderRadius: "6px",
+                  padding: "8px 12px",
+                  color: "white",
+                  fontSize: "12px",
+                  cursor: isBackingUp ? "not-allowed" : "pointer",
+                }}
+              >
+                {isBackingUp ? "Backing up..." : "Create backup"}
+              </button>
+              <button
+                onClick={handleChooseBackup}
+                disabled={isBackingUp}
+                style={{
+                  background: "rgba(255, 255, 255, 0.1)",
+                  border: "1px solid rgba(255, 255, 255, 0.3)",
+                  borderRadius: "6px",
+                  padding: "8px 12px",
+                  color: "white",
+                  fontSize: "12px",
+                  cursor: isBackingUp ? "not-allowed" : "pointer",
+                }}
+              >
+                Restore from backup
+              </button>
+            </div>
+          )}
+
+          {backupMessage && (
+            <div
+              style={{
+                fontSize: "12px",
+                marginTop: "8px",
+                color: backupMessage.includes("❌") ? "#fca5a5" : "#6ee7b7",
+              }}
+            >
+              {backupMessage}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Learning */}
+      {learning && (
+        <div style={{ marginBottom: "32px" }}>
+          <h3
+            style={{
+              fontSize: "14px",
+              fontWeight: "500",
+              marginBottom: "12px",
+              opacity: 0.9,
+              display: "flex",
+              alignItems: "center",
+              gap: "8px",
+            }}
+          >
+            <Brain size={14} />
+            What the Assistant Has Learned
+          </h3>
+
+          <div
+            style={{
+              background: "rgba(255, 255, 255, 0.05)",
+              borderRadius: "8px",
+              padding: "16px",
+              fontSize: "12px",
+              lineHeight: "1.6",
+            }}
+          >
+            {learning.outcomeCount === 0 ? (
+              <div style={{ opacity: 0.7, marginBottom: "12px" }}>
+                Nothing yet. Rate the advice you use and the assistant adapts
+                to what works for you.
+              </div>
+            ) : (
+              <div style={{ marginBottom: "12px" }}>
+                <div>
+                  {learning.outcomeCount} pieces of feedback,{" "}
+                  {learning.positiveOutcomes} positive
+                </div>
+                <div style={{ opacity: 0.8 }}>
+                  Best days: {learning.strategy.optimal_timing.days.join(", ")}
+                </div>
+                <div style={{ opacity: 0.8 }}>
+                  Best hours:{" "}
+                  {learning.strategy.optimal_timing.hours
+                    .slice()
+                    .sort((a, b) => a - b)
+                    .map((hour) => `${hour}:00`)
+                    .join(", ")}
+                </div>
+                <div style={{ opacity: 0.8 }}>
+                  Openers that worked:{" "}
+                  {learning.strategy.effective_openers.length}
+                </div>
+
+                <div style={{ marginTop: "8px", display: "grid", gap: "4px" }}>
+                  {learning.recentOutcomes.slice(0, 5).map((outcome) => (
+                    <div
+                      key={outcome.advice_id}
+                      style={{ fontSize: "11px", opacity: 0.7 }}
+                    >
+                      {new Date(outcome.timestamp).toLocaleDateString()} ·{" "}
+                      {outcome.effectiveness > 0.7
+                        ? "👍"
+                        : outcome.effectiveness < 0.3
+                          ? "👎"
+                          : "😐"}{" "}
+                      {outcome.advice_message.length > 60
+                        ? `${outcome.advice_message.slice(0, 60)}…`
+                        : outcome.advice_message}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <button
+              onClick={handleResetLearning}
+              disabled={learning.outcomeCount === 0}
+              style={{
+                background: "transparent",
+                border: "1px solid rgba(239, 68, 68, 0.5)",
+                borderRadius: "6px",
+                padding: "8px 12px",
+                color: "#fca5a5",
+                fontSize: "12px",
+                cursor: learning.outcomeCount === 0 ? "not-allowed" : "pointer",
+                opacity: learning.outcomeCount === 0 ? 0.5 : 1,
+              }}
+            >
+              Reset learning
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Data Retention */}
+      <div style={{ marginBottom: "32px" }}>
+        <h3
+          style={{
+            fontSize: "14px",
+            fontWeight: "500",
+            marginBottom: "12px",
+            opacity: 0.9,
+            display: "flex",
+            alignItems: "center",
+            gap: "8px",
+          }}
+        >
+          <Trash2 size={14} />
+          Data Retention
+        </h3>
+
+        <div
+          style={{
+            background: "rgba(255, 255, 255, 0.05)",
+            borderRadius: "8px",
+            padding: "16px",
+            fontSize: "12px",
+            lineHeight: "1.6",
+          }}
+        >
+          <div
+            style={{
+              display: "flex",
+              alignItems: "center",
+              justifyContent: "space-between",
+              marginBottom: "8px",
+            }}
+          >
+            <span style={{ opacity: 0.8 }}>Delete conversations idle for</span>
+            <select
+              value={retention.deleteInactiveAfterDays || 0}
+              onChange={(e) =>
+                handleRetentionChange({
+                  ...retention,
+                  deleteInactiveAfterDays: parseInt(e.target.value, 10),
+                })
+              }
+              style={{
+                background: "rgba(255, 255, 255, 0.1)",
+                border: "1px solid rgba(255, 255, 255, 0.2)",
+                borderRadius: "4px",
+                padding: "6px",
+                fontSize: "11px",
+                color: "#fff",
+              }}
+            >
+              {DELETE_INACTIVE_OPTIONS.map((days) => (
+                <option
+                  key={days}
+                  value={days}
+                  style={{ background: "#1f2937", color: "#fff" }}
+                >
+                  {days === 0 ? "Never" : `${days} days`}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div
+            style={{
+              display: "flex",
+              alignItems: "center",
+              justifyContent: "space-between",
+              marginBottom: "4px",
+            }}
+          >
+            <span style={{ opacity: 0.8 }}>Clear message text older than</span>
+            <select
+              value={retention.purgeMessageTextAfterDays || 0}
+              onChange={(e) =>
+                handleRetentionChange({
+                  ...retention,
+                  purgeMessageTextAfterDays: parseInt(e.target.value, 10),
+                })
+              }
+              style={{
+                background: "rgba(255, 255, 255, 0.1)",
+                border: "1px solid rgba(255, 255, 255, 0.2)",
+                borderRadius: "4px",
+                padding: "6px",
+                fontSize: "11px",
+                color: "#fff",
+              }}
+            >
+              {PURGE_TEXT_OPTIONS.map((days) => (
+                <option
+                  key={days}
+                  value={days}
+                  style={{ background: "#1f2937", color: "#fff" }}
+                >
+                  {days === 0 ? "Never" : `${days} days`}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div style={{ opacity: 0.6, fontSize: "11px", marginBottom: "12px" }}>
+            Cleared messages still count toward scores and stats.
+          </div>
+
+          <div style={{ opacity: 0.8, marginBottom: "6px" }}>
+            Forget a contact
+          </div>
+          {contacts.length === 0 ? (
+            <div style={{ opacity: 0.6, fontSize: "11px" }}>
+              No saved conversations
+            </div>
+          ) : (
+            <div style={{ display: "grid", gap: "6px" }}>
+              {contacts.map((contact) => (
+                <div
+                  key={contact.id}
+                  style={{
+                    display: "flex",
+                    alignItems: "center",
+                    justifyContent: "space-between",
+                    gap: "8px",
+                  }}
+                >
+                  <span>
+                    <strong>{contact.display_name}</strong>
+                    <span style={{ opacity: 0.6 }}>
+                      {` · ${contactPlatforms(contact).join(", ")} · ${
+                        contact.message_count
+                      } messages`}
+                    </span>
+                  </span>
+                  <button
+                    onClick={() => handleForgetContact(contact)}
+                    style={{
+                      background: "transparent",
+                      border: "1px solid rgba(239, 68, 68, 0.5)",
+                      borderRadius: "4px",
+                      padding: "2px 8px",
+                      color: "#fca5a5",
+                      fontSize: "11px",
+                      cursor: "pointer",
+                    }}
+                  >
+                    Forget
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {dataMessage && (
+            <div
+              style={{
+                fontSize: "12px",
+                marginTop: "8px",
+                color: dataMessage.includes("❌") ? "#fca5a5" : "#6ee7b7",
+              }}
+            >
+              {dataMessage}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <SafetyRuleSettings />
+
+      <DateSafetySettings />
+
+      {/* Keyboard Shortcuts */}
+      <div style={{ marginBottom: "32px" }}>
+        <h3
+          style={{
+            fontSize: "14px",
+            fontWeight: "500",
+            marginBottom: "12px",
+            opacity: 0.9,
+            display: "flex",
+            alignItems: "center",
+            gap: "8px",
+          }}
+        >
+          <Keyboard size={14} />
+          Keyboard Shortcuts
+        </h3>
+
+        <div
           style={{
             background: "rgba(255, 255, 255, 0.05)",
             borderRadius: "8px",
@@ -772,6 +2097,10 @@ export default function Settings() {
             <strong>Cmd/Ctrl + Shift + C</strong> - Force check clipboard & get
             replies
           </div>
+          <div style={{ marginBottom: "8px" }}>
+            <strong>Cmd/Ctrl + Shift + G</strong> - Check a copied draft for
+            personal details before sending
+          </div>
           <div style={{ opacity: 0.8 }}>
             Auto-detection: Copy any message to clipboard for smart replies
           </div>
@@ -8,7 +8,8 @@ import {
   Lightbulb,
   History,
 } from "lucide-react";
-import { saveHistoryItem, listHistory } from "../lib/history";
+import { saveHistoryItem, listHistory, HistoryItem } from "../lib/history";
+import ScreenshotTranscriber from "./ScreenshotTranscriber";
 
 interface SmartReply {
   text: string;
@@ -21,6 +22,7 @@ interface SmartReplyData {
   tips: string[];
   fallback?: boolean;
   note?: string;
+  answeredBy?: { provider?: string; model?: string };
 }
 
 interface DetectedMessage {
@@ -38,12 +40,14 @@ export default function SmartReply() {
   >("casual");
   const [manualInput, setManualInput] = useState("");
   const [inputMethod, setInputMethod] = useState<"auto" | "manual">("auto");
-  const [recent, setRecent] = useState(() =>
-    listHistory("smartReply").slice(0, 3)
-  );
+  const [recent, setRecent] = useState<HistoryItem[]>([]);
   const [toast, setToast] = useState<string>("");
   const [copiedPulseIndex, setCopiedPulseIndex] = useState<number | null>(null);
 
+  useEffect(() => {
+    listHistory("smartReply", 3).then(setRecent);
+  }, []);
+
   useEffect(() => {
     // Listen for detected messages from clipboard
     if (
@@ -76,12 +80,13 @@ export default function SmartReply() {
 
       if (result.success) {
         setSmartReplies(result);
-        saveHistoryItem({
+        await saveHistoryItem({
           type: "smartReply",
           inputText: message,
           outputSummary: result.replies?.[0]?.text || "",
+          result,
         });
-        setRecent(listHistory("smartReply").slice(0, 3));
+        setRecent(await listHistory("smartReply", 3));
       } else {
         console.error("Failed to generate replies:", result.error);
       }
@@ -91,6 +96,16 @@ export default function SmartReply() {
     setLoading(false);
   };
 
+  // Shows a past result again, or refills the input for ones saved without it
+  const reopenHistoryItem = (item: HistoryItem) => {
+    if (!item.result) {
+      setManualInput(item.inputText);
+      return;
+    }
+    setDetectedMessage({ message: item.inputText, timestamp: item.timestamp });
+    setSmartReplies(item.result as SmartReplyData);
+  };
+
   const handleManualSubmit = async () => {
     const trimmedInput = manualInput.trim();
     if (!trimmedInput || trimmedInput.length < 3) return;
@@ -109,6 +124,21 @@ export default function SmartReply() {
     setManualInput(""); // Clear input after submission
   };
 
+  // Reply to the match's latest message from a chat screenshot
+  const handleScreenshotTranscript = (
+    transcript: string,
+    turns: Array<{ speaker: "user" | "other"; message: string }>
+  ) => {
+    const lastFromMatch = [...turns]
+      .reverse()
+      .find((turn) => turn.speaker === "other");
+    const message = (lastFromMatch?.message || transcript).slice(0, 500);
+    setInputMethod("manual");
+    setDetectedMessage(null);
+    setSmartReplies(null);
+    setManualInput(message);
+  };
+
   const handleInputMethodChange = (method: "auto" | "manual") => {
     setInputMethod(method);
     if (method === "auto") {
@@ -248,7 +278,7 @@ export default function SmartReply() {
                   {recent.map((h) => (
                     <button
                       key={h.id}
-                      onClick={() => setManualInput(h.inputText)}
+                      onClick={() => reopenHistoryItem(h)}
                       style={{
                         background: "rgba(255,255,255,0.08)",
                         color: "white",
@@ -443,6 +473,9 @@ export default function SmartReply() {
                 }}
               >
                 <span>{manualInput.length}/500 characters</span>
+                <ScreenshotTranscriber
+                  onTranscript={handleScreenshotTranscript}
+                />
                 <span>Press ⌘+Enter to analyze</span>
               </div>
             </div>
@@ -694,6 +727,13 @@ export default function SmartReply() {
             }}
           >
             SUGGESTED REPLIES:
+            {smartReplies.answeredBy?.provider && (
+              <span style={{ marginLeft: 6, opacity: 0.6, fontWeight: 400 }}>
+                via {smartReplies.answeredBy.provider}
+                {smartReplies.answeredBy.model &&
+                  ` / ${smartReplies.answeredBy.model}`}
+              </span>
+            )}
           </div>
 
           {/* Show fallback notice if using offline responses */}
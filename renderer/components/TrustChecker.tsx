@@ -1,5 +1,6 @@
 /// <reference path="../types/index.d.ts" />
 import React, { useState } from 'react';
+import { parseTranscript } from '../../src/analysis/transcriptParser';
 
 interface TrustData {
   imageMatches: string[];
@@ -50,6 +51,10 @@ const TrustChecker: React.FC<TrustCheckerProps> = ({ showAdvanced = false }) =>
   const [loading, setLoading] = useState(false);
   const [analysisMode, setAnalysisMode] = useState<'quick' | 'comprehensive'>(showAdvanced ? 'comprehensive' : 'quick');
 
+  // The photo's path on disk, which is where the main process reads it from
+  const selectedImagePath = () =>
+    selectedImage && window.electronAPI ? window.electronAPI.getPathForFile(selectedImage) : '';
+
   const performComprehensiveVerification = async () => {
     if (!profileUrl && !selectedImage && !socialLinks && !conversationText) {
       alert('Please provide at least one form of data to analyze');
@@ -58,13 +63,14 @@ const TrustChecker: React.FC<TrustCheckerProps> = ({ showAdvanced = false }) =>
 
     setLoading(true);
     try {
+      const photoPath = selectedImagePath();
       const verificationData = {
-        photos: selectedImage ? [selectedImage.name] : [],
+        photos: photoPath ? [photoPath] : [],
         profile_urls: socialLinks.split('\n').filter(url => url.trim()),
-        conversation_messages: conversationText.split('\n').filter(msg => msg.trim()).map((content, index) => ({
-          sender: index % 2 === 0 ? 'match' as const : 'user' as const,
-          content: content,
-          timestamp: new Date()
+        conversation_messages: parseTranscript(conversationText).map(turn => ({
+          sender: turn.speaker === 'user' ? 'user' as const : 'match' as const,
+          content: turn.message,
+          timestamp: turn.timestamp || new Date()
         })),
         profile_data: {
           name: 'Sample Profile',
@@ -166,7 +172,7 @@ const TrustChecker: React.FC<TrustCheckerProps> = ({ showAdvanced = false }) =>
         // Use Electron API with Gemini for real analysis
         const profileData = {
           url: profileUrl.trim() || undefined,
-          imageFile: selectedImage?.name
+          imageFile: selectedImagePath() || undefined
         };
         
         const result = await window.electronAPI.analyzeTrust(profileData);
@@ -0,0 +1,99 @@
+import React from "react";
+
+interface UsageDay {
+  date: string;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  byProvider: Record<string, { calls: number; costUsd: number }>;
+}
+
+interface UsageChartProps {
+  history: UsageDay[];
+  height?: number;
+}
+
+export const formatUsd = (value: number) =>
+  value > 0 && value < 0.01 ? "<$0.01" : `$${value.toFixed(2)}`;
+
+// Daily bars of estimated cost, or call counts while everything is free (local models)
+export default function UsageChart({ history, height = 60 }: UsageChartProps) {
+  const showCost = history.some((day) => day.costUsd > 0);
+  const valueOf = (day: UsageDay) => (showCost ? day.costUsd : day.calls);
+  const max = Math.max(...history.map(valueOf), 0);
+
+  if (max === 0) {
+    return (
+      <div
+        style={{
+          fontSize: "11px",
+          opacity: 0.5,
+          textAlign: "center",
+          padding: "8px 0",
+        }}
+      >
+        No AI usage in the last {history.length} days
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div
+        style={{
+          display: "flex",
+          alignItems: "flex-end",
+          gap: "2px",
+          height,
+        }}
+      >
+        {history.map((day) => {
+          const providers = Object.entries(day.byProvider)
+            .map(
+              ([provider, totals]) =>
+                `${provider}: ${totals.calls} calls, ${formatUsd(
+                  totals.costUsd
+                )}`
+            )
+            .join("\n");
+          return (
+            <div
+              key={day.date}
+              title={`${day.date}\n${day.calls} calls • ${(
+                day.inputTokens + day.outputTokens
+              ).toLocaleString()} tokens • ${formatUsd(day.costUsd)}${
+                providers ? `\n${providers}` : ""
+              }`}
+              style={{
+                flex: 1,
+                height: `${Math.max((valueOf(day) / max) * 100, 2)}%`,
+                background:
+                  valueOf(day) > 0
+                    ? "rgba(59, 130, 246, 0.7)"
+                    : "rgba(255, 255, 255, 0.08)",
+                borderRadius: "2px 2px 0 0",
+              }}
+            />
+          );
+        })}
+      </div>
+      <div
+        style={{
+          display: "flex",
+          justifyContent: "space-between",
+          fontSize: "10px",
+          opacity: 0.5,
+          marginTop: "4px",
+        }}
+      >
+        <span>{history[0]?.date.slice(5)}</span>
+        <span>
+          {showCost ? "Estimated cost per day" : "Calls per day"} (max{" "}
+          {showCost ? formatUsd(max) : max})
+        </span>
+        <span>{history[history.length - 1]?.date.slice(5)}</span>
+      </div>
+    </div>
+  );
+}
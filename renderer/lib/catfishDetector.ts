@@ -1,3 +1,15 @@
+import { ConversationTurn, parseTranscript } from '../../src/analysis/transcriptParser';
+import { matchRule, safetyRules, SafetyRule, SafetyRuleCategory } from '../../src/safety/rules';
+
+// Early-escalation signals: pet names, declarations, off-app moves and money
+export const CATFISH_RULE_CATEGORIES: SafetyRuleCategory[] = [
+  'escalation',
+  'love_bombing',
+  'financial_request',
+  'platform_switch',
+  'investment_scam'
+];
+
 export interface CatfishAnalysisResult {
   realnessScore: number; // 0-100, higher = more real
   riskLevel: 'Very Low' | 'Low' | 'Medium' | 'High' | 'Very High';
@@ -14,14 +26,6 @@ export interface CatfishAnalysisResult {
 }
 
 export class CatfishDetector {
-  private readonly RED_FLAG_KEYWORDS = [
-    'honey', 'babe', 'darling', 'sweetie', 'beautiful', 'gorgeous', 'perfect',
-    'love you', 'soulmate', 'destiny', 'meant to be', 'never felt this way',
-    'delete this app', 'here\'s my number', 'text me', 'whatsapp', 'telegram',
-    'emergency', 'help me', 'money', 'financial', 'send', 'western union',
-    'gift card', 'bitcoin', 'crypto', 'investment', 'business opportunity'
-  ];
-
   private readonly GENERIC_COMPLIMENTS = [
     'you\'re beautiful', 'you\'re cute', 'you\'re gorgeous', 'you\'re perfect',
     'you\'re amazing', 'you\'re wonderful', 'you look great', 'nice pics',
@@ -34,6 +38,9 @@ export class CatfishDetector {
     'enough about me', 'what about you', 'tell me about yourself'
   ];
 
+  // Pass the rules the main process has enabled; defaults to the bundled pack
+  constructor(private readonly redFlagRules: SafetyRule[] = safetyRules.select(CATFISH_RULE_CATEGORIES)) {}
+
   analyzeConversation(conversationText: string): CatfishAnalysisResult {
     const messages = this.parseConversation(conversationText);
     const otherPersonMessages = this.extractOtherPersonMessages(messages);
@@ -68,25 +75,16 @@ export class CatfishDetector {
     };
   }
 
-  private parseConversation(text: string): string[] {
-    // Split by common message separators
-    return text.split(/\n+/)
-      .filter(line => line.trim().length > 0)
-      .map(line => line.trim());
+  private hasRedFlag(text: string): boolean {
+    return this.redFlagRules.some(rule => matchRule(rule, text) !== null);
   }
 
-  private extractOtherPersonMessages(messages: string[]): string[] {
-    // Simple heuristic: assume messages without "me:", "you:", etc. are from other person
-    // Or alternate messages, or use other indicators
-    return messages.filter((msg, index) => {
-      // Skip messages that look like they're from the user
-      const lowerMsg = msg.toLowerCase();
-      if (lowerMsg.startsWith('me:') || lowerMsg.startsWith('you:')) {
-        return !lowerMsg.startsWith('me:');
-      }
-      // If no clear indicators, assume alternating messages starting with other person
-      return index % 2 === 0;
-    });
+  private parseConversation(text: string): ConversationTurn[] {
+    return parseTranscript(text);
+  }
+
+  private extractOtherPersonMessages(turns: ConversationTurn[]): string[] {
+    return turns.filter(turn => turn.speaker === 'other').map(turn => turn.message);
   }
 
   private analyzeResponsePatterns(messages: string[]): { score: number; details: string } {
@@ -182,7 +180,7 @@ export class CatfishDetector {
       messageCount++;
 
       // Early romantic language
-      if (this.RED_FLAG_KEYWORDS.some(keyword => lowerMsg.includes(keyword))) {
+      if (this.hasRedFlag(lowerMsg)) {
         // Weight by how early it appears
         const earlinessMultiplier = 1 - (index / messages.length);
         escalationFlags += earlinessMultiplier;
@@ -323,7 +321,7 @@ export class CatfishDetector {
     const allText = messages.join(' ').toLowerCase();
 
     // Early romantic language
-    if (this.RED_FLAG_KEYWORDS.some(keyword => allText.includes(keyword))) {
+    if (this.hasRedFlag(allText)) {
       flags.push('Uses overly romantic language too early');
     }
 
@@ -1,3 +1,5 @@
+import { ConversationTurn, parseTranscript } from '../../src/analysis/transcriptParser';
+
 export interface ConversationQualityResult {
   overallScore: number; // 0-100, higher = better engagement
   engagementLevel: 'Excellent' | 'Good' | 'Average' | 'Poor' | 'Very Poor';
@@ -70,22 +72,12 @@ export class ConversationQualityChecker {
     };
   }
 
-  private parseConversation(text: string): string[] {
-    return text.split(/\n+/)
-      .filter(line => line.trim().length > 0)
-      .map(line => line.trim());
+  private parseConversation(text: string): ConversationTurn[] {
+    return parseTranscript(text);
   }
 
-  private extractUserMessages(messages: string[]): string[] {
-    // Assume user messages are those that start with "me:" or odd-indexed messages
-    return messages.filter((msg, index) => {
-      const lowerMsg = msg.toLowerCase();
-      if (lowerMsg.startsWith('me:') || lowerMsg.startsWith('you:')) {
-        return lowerMsg.startsWith('me:');
-      }
-      // If no clear indicators, assume alternating messages starting with user (odd indices)
-      return index % 2 === 1;
-    }).map(msg => msg.replace(/^me:\s*/i, '').trim());
+  private extractUserMessages(turns: ConversationTurn[]): string[] {
+    return turns.filter(turn => turn.speaker === 'user').map(turn => turn.message);
   }
 
   private analyzeQuestionAsking(userMessages: string[]): { score: number; count: number; details: string } {
@@ -187,7 +179,7 @@ export class ConversationQualityChecker {
     };
   }
 
-  private analyzeConversationFlow(userMessages: string[], allMessages: string[]): { score: number; details: string } {
+  private analyzeConversationFlow(userMessages: string[], allMessages: ConversationTurn[]): { score: number; details: string } {
     let flowScore = 100;
     let issues: string[] = [];
 
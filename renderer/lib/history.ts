@@ -1,74 +1,78 @@
-export type HistoryType = "smartReply" | "catfish" | "quality";
+import type {
+  HistoryItem,
+  HistorySearchResult,
+  HistoryType,
+} from "../types";
 
-export interface HistoryItem {
-  id: string;
-  type: HistoryType;
-  inputText: string;
-  outputSummary: string;
-  timestamp: number;
-}
-
-const STORAGE_KEY = "sda.history.v1";
-
-function read(): HistoryItem[] {
-  if (typeof window === "undefined") return [];
-  try {
-    const raw = localStorage.getItem(STORAGE_KEY);
-    if (!raw) return [];
-    const parsed = JSON.parse(raw) as HistoryItem[];
-    return Array.isArray(parsed) ? parsed : [];
-  } catch {
-    return [];
-  }
-}
+export type { HistoryItem, HistoryType };
 
-function write(items: HistoryItem[]): void {
-  try {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(items.slice(0, 200)));
-  } catch {
-    // ignore quota errors silently
-  }
-}
+// Where history lived before it moved into the database
+const LEGACY_STORAGE_KEY = "sda.history.v1";
 
-export function saveHistoryItem(
+export async function saveHistoryItem(
   item: Omit<HistoryItem, "id" | "timestamp"> & {
     id?: string;
     timestamp?: number;
   }
-): HistoryItem {
-  const items = read();
+): Promise<HistoryItem | null> {
   const full: HistoryItem = {
+    ...item,
     id: item.id || `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
     timestamp: item.timestamp || Date.now(),
-    type: item.type,
-    inputText: item.inputText,
-    outputSummary: item.outputSummary,
   };
-  items.unshift(full);
-  write(items);
-  return full;
+  try {
+    const response = await window.electronAPI.saveHistoryItem(full);
+    return response.success ? response.item || full : null;
+  } catch (error) {
+    console.error("Failed to save history item:", error);
+    return null;
+  }
 }
 
-export function searchHistory(
+export async function searchHistory(
   query: string,
   type?: HistoryType
-): HistoryItem[] {
-  const items = read();
-  const q = query.trim().toLowerCase();
-  return items.filter(
-    (it) =>
-      (type ? it.type === type : true) &&
-      (q.length === 0 ||
-        it.inputText.toLowerCase().includes(q) ||
-        it.outputSummary.toLowerCase().includes(q))
-  );
+): Promise<HistorySearchResult[]> {
+  if (!query.trim()) return [];
+  try {
+    return (await window.electronAPI.searchHistory(query, { type })).results;
+  } catch (error) {
+    console.error("Failed to search history:", error);
+    return [];
+  }
 }
 
-export function listHistory(type?: HistoryType): HistoryItem[] {
-  const items = read();
-  return type ? items.filter((i) => i.type === type) : items;
+export async function listHistory(
+  type?: HistoryType,
+  limit?: number
+): Promise<HistoryItem[]> {
+  try {
+    return await window.electronAPI.listHistory({ type, limit });
+  } catch (error) {
+    console.error("Failed to load history:", error);
+    return [];
+  }
 }
 
-export function clearHistory(): void {
-  write([]);
+export async function clearHistory(): Promise<void> {
+  await window.electronAPI.clearHistory();
+}
+
+// Hands history saved by older versions to the database once, and only
+// drops the local copy after it has been stored
+export async function migrateLocalHistory(): Promise<void> {
+  if (typeof window === "undefined") return;
+  let items: unknown;
+  try {
+    const raw = localStorage.getItem(LEGACY_STORAGE_KEY);
+    if (!raw) return;
+    items = JSON.parse(raw);
+  } catch {
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+    return;
+  }
+  const response = await window.electronAPI.importHistory(
+    Array.isArray(items) ? items : []
+  );
+  if (response.success) localStorage.removeItem(LEGACY_STORAGE_KEY);
 }
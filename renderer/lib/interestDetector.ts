@@ -1,11 +1,8 @@
+import { ConversationTurn, parseTranscript } from '../../src/analysis/transcriptParser';
 // @ts-ignore
 const Sentiment = require('sentiment');
 
-export interface ConversationTurn {
-  speaker: 'user' | 'other';
-  message: string;
-  timestamp?: Date;
-}
+export type { ConversationTurn };
 
 export interface InterestAnalysisResult {
   overallScore: number; // 0-100
@@ -118,56 +115,45 @@ export class InterestDetector {
   }
 
   private parseConversation(conversation: string): ConversationTurn[] {
-    const lines = conversation.split('\n').filter(line => line.trim());
-    const turns: ConversationTurn[] = [];
-    let currentSpeaker: 'user' | 'other' | null = null;
-    let currentMessage = '';
-
-    for (const line of lines) {
-      const trimmedLine = line.trim();
-      
-      // Check for speaker indicators
-      if (trimmedLine.toLowerCase().startsWith('me:') || 
-          trimmedLine.toLowerCase().startsWith('you:') ||
-          trimmedLine.toLowerCase().startsWith('user:')) {
-        if (currentSpeaker && currentMessage) {
-          turns.push({ speaker: currentSpeaker, message: currentMessage.trim() });
-        }
-        currentSpeaker = 'user';
-        currentMessage = trimmedLine.substring(trimmedLine.indexOf(':') + 1).trim();
-      } else if (trimmedLine.toLowerCase().startsWith('them:') || 
-                 trimmedLine.toLowerCase().startsWith('other:') ||
-                 trimmedLine.toLowerCase().includes(':')) {
-        if (currentSpeaker && currentMessage) {
-          turns.push({ speaker: currentSpeaker, message: currentMessage.trim() });
-        }
-        currentSpeaker = 'other';
-        currentMessage = trimmedLine.substring(trimmedLine.indexOf(':') + 1).trim();
-      } else if (currentSpeaker) {
-        // Continue current message
-        currentMessage += ' ' + trimmedLine;
-      } else {
-        // No speaker identified, try to guess based on alternating pattern
-        const speakerGuess = turns.length % 2 === 0 ? 'user' : 'other';
-        turns.push({ speaker: speakerGuess, message: trimmedLine });
+    return parseTranscript(conversation);
+  }
+
+  private analyzeResponseTime(turns: ConversationTurn[]): { score: number; averageMinutes: number; details: string } {
+    // Measure how long they take to answer the user when both messages carry timestamps
+    const gaps: number[] = [];
+    for (let i = 1; i < turns.length; i++) {
+      const previous = turns[i - 1];
+      const current = turns[i];
+      if (previous.speaker === 'user' && current.speaker === 'other' && previous.timestamp && current.timestamp) {
+        const minutes = (current.timestamp.getTime() - previous.timestamp.getTime()) / 60000;
+        if (minutes >= 0) gaps.push(minutes);
       }
     }
 
-    // Add the last message if there is one
-    if (currentSpeaker && currentMessage) {
-      turns.push({ speaker: currentSpeaker, message: currentMessage.trim() });
+    if (gaps.length === 0) {
+      const score = 60; // neutral score
+      const averageMinutes = 30; // placeholder
+      const details = "Response time analysis requires timestamps. Consider this a neutral indicator.";
+      return { score, averageMinutes, details };
     }
 
-    return turns;
-  }
+    const averageMinutes = Math.round(gaps.reduce((sum, gap) => sum + gap, 0) / gaps.length);
+    let score: number;
+    let details: string;
+    if (averageMinutes <= 15) {
+      score = 90;
+      details = `Replies quickly (about ${averageMinutes} min on average)`;
+    } else if (averageMinutes <= 60) {
+      score = 75;
+      details = `Replies within the hour (about ${averageMinutes} min on average)`;
+    } else if (averageMinutes <= 240) {
+      score = 55;
+      details = `Replies after a few hours (about ${averageMinutes} min on average)`;
+    } else {
+      score = 30;
+      details = `Slow replies (about ${Math.round(averageMinutes / 60)} hours on average)`;
+    }
 
-  private analyzeResponseTime(turns: ConversationTurn[]): { score: number; averageMinutes: number; details: string } {
-    // For now, we can't analyze actual response times without timestamps
-    // This is a placeholder that could be enhanced with timestamp parsing
-    const score = 60; // neutral score
-    const averageMinutes = 30; // placeholder
-    const details = "Response time analysis requires timestamps. Consider this a neutral indicator.";
-    
     return { score, averageMinutes, details };
   }
 
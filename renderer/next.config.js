@@ -6,6 +6,8 @@ const nextConfig = {
   assetPrefix: isProd ? "./" : undefined,
   trailingSlash: true,
   images: { unoptimized: true },
+  // Analyzers share modules with the main process under ../src
+  experimental: { externalDir: true },
 };
 
 module.exports = nextConfig;
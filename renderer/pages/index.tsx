@@ -6,32 +6,69 @@ import {
   Heart,
   Shield,
   Brain,
+  Search,
+  Users,
+  ShieldCheck,
+  CalendarClock,
   X,
 } from "lucide-react";
 import SmartReply from "../components/SmartReply";
 import Settings from "../components/Settings";
 import ApiSetup from "../components/ApiSetup";
+import PassphraseLock from "../components/PassphraseLock";
 import InterestAnalyzer from "../components/InterestAnalyzer";
 import CatfishDetection from "../components/CatfishDetection";
 import ConversationQuality from "../components/ConversationQuality";
+import MessageSearch from "../components/MessageSearch";
+import Contacts from "../components/Contacts";
+import DraftGuard from "../components/DraftGuard";
+import DateCheckIn from "../components/DateCheckIn";
+import { migrateLocalHistory } from "../lib/history";
+import type { AppLockStatus, VaultStatus } from "../types";
 
 export default function Home() {
   const [currentView, setCurrentView] = useState<
-    "smartReply" | "settings" | "setup" | "interest" | "catfish" | "quality"
+    | "smartReply"
+    | "settings"
+    | "setup"
+    | "interest"
+    | "catfish"
+    | "quality"
+    | "search"
+    | "contacts"
+    | "draftGuard"
+    | "dateCheckIn"
   >("setup");
   const [isFirstRun, setIsFirstRun] = useState(true);
   const [hasValidApiKey, setHasValidApiKey] = useState(false);
+  const [vaultStatus, setVaultStatus] = useState<VaultStatus | null>(null);
+  const [appLockStatus, setAppLockStatus] = useState<AppLockStatus | null>(
+    null
+  );
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   const [statusHover, setStatusHover] = useState(false);
   const [statusText, setStatusText] = useState("Status");
   const [statusColor, setStatusColor] = useState("rgba(255,255,255,0.6)");
+  const [draftRequest, setDraftRequest] = useState<{ draft: string } | null>(
+    null
+  );
+  const [checkInDue, setCheckInDue] = useState<{
+    planId: string;
+    loud: boolean;
+  } | null>(null);
 
   useEffect(() => {
     const checkSetupStatus = async () => {
       try {
+        setAppLockStatus(await window.electronAPI.getAppLockStatus());
+        // Not awaited: it waits for the database, which may still be locked
+        migrateLocalHistory().catch((error) =>
+          console.error("Failed to move history into the database:", error)
+        );
         const firstRun = await window.electronAPI.isFirstRun();
         const validKey = await window.electronAPI.hasValidApiKey();
 
+        setVaultStatus(await window.electronAPI.getVaultStatus());
         setIsFirstRun(firstRun);
         setHasValidApiKey(validKey);
 
@@ -47,8 +84,46 @@ export default function Home() {
     };
 
     checkSetupStatus();
+
+    // Idle timeout, screen lock or "Lock now" in Settings
+    return window.electronAPI.onAppLocked(async () => {
+      setIsMenuOpen(false);
+      setAppLockStatus(await window.electronAPI.getAppLockStatus());
+    });
+  }, []);
+
+  // Cmd/Ctrl+Shift+G on a copied draft
+  useEffect(() => {
+    return window.electronAPI.onDraftCheckRequested((request) => {
+      setDraftRequest(request);
+      setCurrentView("draftGuard");
+      setIsMenuOpen(false);
+    });
+  }, []);
+
+  // A date check-in came due; overdue ones take over the window
+  useEffect(() => {
+    return window.electronAPI.onDateCheckInDue((due) => {
+      setCheckInDue(due);
+      if (due.loud) {
+        setCurrentView("dateCheckIn");
+        setIsMenuOpen(false);
+      }
+    });
   }, []);
 
+  const handleAppUnlocked = async () => {
+    setAppLockStatus(await window.electronAPI.getAppLockStatus());
+  };
+
+  // Keys are readable again once unlocked, so re-check them
+  const handleVaultUnlocked = async () => {
+    const validKey = await window.electronAPI.hasValidApiKey();
+    setVaultStatus(await window.electronAPI.getVaultStatus());
+    setHasValidApiKey(validKey);
+    setCurrentView(!isFirstRun && validKey ? "smartReply" : "setup");
+  };
+
   const handleSetupComplete = () => {
     console.log("handleSetupComplete called");
     setIsFirstRun(false);
@@ -58,7 +133,16 @@ export default function Home() {
   };
 
   const handleViewChange = (
-    view: "smartReply" | "settings" | "interest" | "catfish" | "quality"
+    view:
+      | "smartReply"
+      | "settings"
+      | "interest"
+      | "catfish"
+      | "quality"
+      | "search"
+      | "contacts"
+      | "draftGuard"
+      | "dateCheckIn"
   ) => {
     setCurrentView(view);
     setIsMenuOpen(false);
@@ -74,6 +158,14 @@ export default function Home() {
         return "Catfish Detection";
       case "quality":
         return "Conversation Quality";
+      case "search":
+        return "Search Messages";
+      case "contacts":
+        return "Contacts";
+      case "draftGuard":
+        return "Draft Check";
+      case "dateCheckIn":
+        return "Date Check-In";
       case "settings":
         return "Settings";
       default:
@@ -91,6 +183,14 @@ export default function Home() {
         return <Shield size={16} />;
       case "quality":
         return <Brain size={16} />;
+      case "search":
+        return <Search size={16} />;
+      case "contacts":
+        return <Users size={16} />;
+      case "draftGuard":
+        return <ShieldCheck size={16} />;
+      case "dateCheckIn":
+        return <CalendarClock size={16} />;
       case "settings":
         return <SettingsIcon size={16} />;
       default:
@@ -98,6 +198,52 @@ export default function Home() {
     }
   };
 
+  // Nothing else can be shown until the conversation database is decrypted
+  if (appLockStatus?.locked) {
+    return (
+      <PassphraseLock
+        initialized={appLockStatus.initialized}
+        title={
+          appLockStatus.initialized
+            ? "Dating Assistant is locked"
+            : "Protect your conversations"
+        }
+        description={
+          appLockStatus.initialized
+            ? "Enter your passphrase to decrypt your conversation history."
+            : "This system has no secure keychain, so your conversation history is encrypted with a passphrase. It can't be recovered if you forget it."
+        }
+        unlock={window.electronAPI.unlockApp}
+        onUnlocked={handleAppUnlocked}
+      />
+    );
+  }
+
+  // A passphrase vault must be unlocked (or given its passphrase) before keys
+  // can be read or saved; local-model users without keys can skip it
+  if (
+    vaultStatus?.locked &&
+    (vaultStatus.initialized || isFirstRun || !hasValidApiKey)
+  ) {
+    return (
+      <PassphraseLock
+        initialized={vaultStatus.initialized}
+        title={
+          vaultStatus.initialized
+            ? "Unlock your API keys"
+            : "Protect your API keys"
+        }
+        description={
+          vaultStatus.initialized
+            ? "Enter the passphrase you chose to decrypt your saved keys."
+            : "This system has no secure keychain, so your API keys are encrypted with a passphrase. It can't be recovered if you forget it."
+        }
+        unlock={window.electronAPI.unlockVault}
+        onUnlocked={handleVaultUnlocked}
+      />
+    );
+  }
+
   if (isFirstRun || !hasValidApiKey) {
     return <ApiSetup onSetupComplete={handleSetupComplete} />;
   }
@@ -455,6 +601,150 @@ export default function Home() {
                 <span>Conversation Quality</span>
               </button>
 
+              <button
+                onClick={() => handleViewChange("search")}
+                style={{
+                  width: "100%",
+                  padding: "12px 16px",
+                  background:
+                    currentView === "search"
+                      ? "rgba(255, 255, 255, 0.1)"
+                      : "transparent",
+                  border: "none",
+                  color: "white",
+                  cursor: "pointer",
+                  display: "flex",
+                  alignItems: "center",
+                  gap: "12px",
+                  fontSize: "14px",
+                  fontFamily: "inherit",
+                  transition: "background 0.2s ease",
+                  borderBottom: "1px solid rgba(255, 255, 255, 0.05)",
+                }}
+                onMouseEnter={(e) => {
+                  if (currentView !== "search") {
+                    e.currentTarget.style.background =
+                      "rgba(255, 255, 255, 0.05)";
+                  }
+                }}
+                onMouseLeave={(e) => {
+                  if (currentView !== "search") {
+                    e.currentTarget.style.background = "transparent";
+                  }
+                }}
+              >
+                <Search size={16} />
+                <span>Search Messages</span>
+              </button>
+
+              <button
+                onClick={() => handleViewChange("contacts")}
+                style={{
+                  width: "100%",
+                  padding: "12px 16px",
+                  background:
+                    currentView === "contacts"
+                      ? "rgba(255, 255, 255, 0.1)"
+                      : "transparent",
+                  border: "none",
+                  color: "white",
+                  cursor: "pointer",
+                  display: "flex",
+                  alignItems: "center",
+                  gap: "12px",
+                  fontSize: "14px",
+                  fontFamily: "inherit",
+                  transition: "background 0.2s ease",
+                  borderBottom: "1px solid rgba(255, 255, 255, 0.05)",
+                }}
+                onMouseEnter={(e) => {
+                  if (currentView !== "contacts") {
+                    e.currentTarget.style.background =
+                      "rgba(255, 255, 255, 0.05)";
+                  }
+                }}
+                onMouseLeave={(e) => {
+                  if (currentView !== "contacts") {
+                    e.currentTarget.style.background = "transparent";
+                  }
+                }}
+              >
+                <Users size={16} />
+                <span>Contacts</span>
+              </button>
+
+              <button
+                onClick={() => handleViewChange("draftGuard")}
+                style={{
+                  width: "100%",
+                  padding: "12px 16px",
+                  background:
+                    currentView === "draftGuard"
+                      ? "rgba(255, 255, 255, 0.1)"
+                      : "transparent",
+                  border: "none",
+                  color: "white",
+                  cursor: "pointer",
+                  display: "flex",
+                  alignItems: "center",
+                  gap: "12px",
+                  fontSize: "14px",
+                  fontFamily: "inherit",
+                  transition: "background 0.2s ease",
+                  borderBottom: "1px solid rgba(255, 255, 255, 0.05)",
+                }}
+                onMouseEnter={(e) => {
+                  if (currentView !== "draftGuard") {
+                    e.currentTarget.style.background =
+                      "rgba(255, 255, 255, 0.05)";
+                  }
+                }}
+                onMouseLeave={(e) => {
+                  if (currentView !== "draftGuard") {
+                    e.currentTarget.style.background = "transparent";
+                  }
+                }}
+              >
+                <ShieldCheck size={16} />
+                <span>Draft Check</span>
+              </button>
+
+              <button
+                onClick={() => handleViewChange("dateCheckIn")}
+                style={{
+                  width: "100%",
+                  padding: "12px 16px",
+                  background:
+                    currentView === "dateCheckIn"
+                      ? "rgba(255, 255, 255, 0.1)"
+                      : "transparent",
+                  border: "none",
+                  color: "white",
+                  cursor: "pointer",
+                  display: "flex",
+                  alignItems: "center",
+                  gap: "12px",
+                  fontSize: "14px",
+                  fontFamily: "inherit",
+                  transition: "background 0.2s ease",
+                  borderBottom: "1px solid rgba(255, 255, 255, 0.05)",
+                }}
+                onMouseEnter={(e) => {
+                  if (currentView !== "dateCheckIn") {
+                    e.currentTarget.style.background =
+                      "rgba(255, 255, 255, 0.05)";
+                  }
+                }}
+                onMouseLeave={(e) => {
+                  if (currentView !== "dateCheckIn") {
+                    e.currentTarget.style.background = "transparent";
+                  }
+                }}
+              >
+                <CalendarClock size={16} />
+                <span>Date Check-In</span>
+              </button>
+
               <button
                 onClick={() => handleViewChange("settings")}
                 style={{
@@ -520,6 +810,16 @@ export default function Home() {
             />
           )}
 
+          {currentView === "search" && <MessageSearch />}
+
+          {currentView === "contacts" && <Contacts />}
+
+          {currentView === "draftGuard" && (
+            <DraftGuard request={draftRequest} />
+          )}
+
+          {currentView === "dateCheckIn" && <DateCheckIn due={checkInDue} />}
+
           {currentView === "settings" && <Settings />}
 
           {/* Floating Quick Actions removed for minimal aesthetic */}
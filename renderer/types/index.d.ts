@@ -1,6 +1,251 @@
 /// <reference types="react" />
 /// <reference types="react-dom" />
 
+interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+interface UsageBudgets {
+  dailyUsd?: number;
+  monthlyUsd?: number;
+  dailyCalls?: number;
+}
+
+export interface ApiKeySummary {
+  id: string;
+  provider: string;
+  name: string;
+  // Masked, e.g. "••••a1b2"; full keys never reach the renderer
+  hint: string;
+  active: boolean;
+  createdAt: number;
+}
+
+export interface MessageSearchResult {
+  messageId: number;
+  conversationId: string;
+  contact: string;
+  platform: string;
+  sender: "user" | "contact";
+  timestamp: number;
+  text: string;
+  // Matched terms are wrapped in \u0002 ... \u0003
+  snippet: string;
+}
+
+export type HistoryType = "smartReply" | "catfish" | "quality";
+
+// A past smart reply, catfish or quality check
+export interface HistoryItem {
+  id: string;
+  type: HistoryType;
+  inputText: string;
+  outputSummary: string;
+  // The full result, for reopening it
+  result?: unknown;
+  conversationId?: string;
+  contactId?: string;
+  timestamp: number;
+}
+
+export interface HistorySearchResult extends HistoryItem {
+  // Matched terms are wrapped in \u0002 ... \u0003
+  snippet: string;
+}
+
+export interface HistoryQuery {
+  type?: HistoryType;
+  conversationId?: string;
+  contactId?: string;
+  limit?: number;
+}
+
+export interface AppLockStatus {
+  scheme: "keychain" | "passphrase";
+  initialized: boolean;
+  locked: boolean;
+  idleLockMinutes: number;
+  keychainAvailable: boolean;
+}
+
+// Built up from advice feedback and kept across restarts
+export interface LearningState {
+  strategy: {
+    optimal_timing: { days: string[]; hours: number[] };
+    effective_openers: Array<{
+      message: string;
+      success_rate: number;
+      context: string;
+    }>;
+  };
+  outcomeCount: number;
+  positiveOutcomes: number;
+  recentOutcomes: Array<{
+    advice_id: string;
+    advice_type: string;
+    advice_message: string;
+    effectiveness: number;
+    timestamp: number;
+  }>;
+}
+
+// One person, however many platforms and conversations they span
+export interface ContactSummary {
+  id: string;
+  display_name: string;
+  trust_score: number;
+  aliases: Array<{ platform: string; alias: string }>;
+  conversation_count: number;
+  message_count: number;
+  last_interaction: number;
+  created_at: number;
+  updated_at: number;
+}
+
+export interface ContactConversation {
+  id: string;
+  platform: string;
+  contact: string;
+  relationship_stage: string;
+  first_interaction: number;
+  last_interaction: number;
+  message_count: number;
+}
+
+export interface ContactTimelineMessage {
+  text: string;
+  timestamp: number;
+  sender: "user" | "contact";
+  conversationId: string;
+  platform: string;
+}
+
+// Unset or 0 leaves that rule off
+export interface RetentionPolicy {
+  deleteInactiveAfterDays?: number;
+  purgeMessageTextAfterDays?: number;
+}
+
+export type SafetyRuleCategory =
+  | "financial_request"
+  | "romance_scam"
+  | "investment_scam"
+  | "sextortion"
+  | "sexual_content"
+  | "unsafe_meeting"
+  | "personal_info"
+  | "contact_sharing"
+  | "platform_switch"
+  | "suspicious_link"
+  | "photo_request"
+  | "love_bombing"
+  | "pressure"
+  | "escalation"
+  | "catfish_evasion"
+  | "self_disclosure";
+
+export type SafetyRuleSeverity = "low" | "medium" | "high" | "critical";
+
+// Matches on `pattern` (a case-insensitive regex) or any of `keywords`
+export interface SafetyRule {
+  id: string;
+  title: string;
+  description?: string;
+  category: SafetyRuleCategory;
+  severity: SafetyRuleSeverity;
+  confidence: number;
+  recommendation: string;
+  locale: string;
+  pattern?: string;
+  keywords?: string[];
+}
+
+export interface ListedSafetyRule extends SafetyRule {
+  source: "pack" | "custom";
+  enabled: boolean;
+}
+
+export interface SafetyRulePackInfo {
+  id: string;
+  name: string;
+  version: string;
+  locale: string;
+  ruleCount: number;
+}
+
+export type RelationshipStage =
+  | "initial"
+  | "getting_to_know"
+  | "interested"
+  | "dating"
+  | "serious";
+
+// Something in the user's own draft that identifies or locates them
+export interface DraftDisclosure {
+  id: string;
+  title: string;
+  severity: SafetyRuleSeverity;
+  excerpt: string;
+  guidance: string;
+}
+
+export interface DraftCheck {
+  safeToSend: boolean;
+  stage: RelationshipStage;
+  disclosures: DraftDisclosure[];
+}
+
+// Where a missed date check-in is reported
+export type EscalationChannel =
+  | { type: "webhook"; url: string }
+  | { type: "mailto"; to: string }
+  | { type: "file"; directory: string };
+
+export interface DateSafetySettings {
+  channel?: EscalationChannel;
+  trustedContactName?: string;
+}
+
+export type CheckInState = "waiting" | "due" | "overdue" | "escalated";
+
+export interface DatePlan {
+  id: string;
+  conversation_id?: string;
+  who: string;
+  location: string;
+  starts_at: number;
+  ends_at: number;
+  check_in_minutes: number;
+  last_check_in_at?: number;
+  state: CheckInState;
+  status: "active" | "ended";
+  trust_score?: number;
+  created_at: number;
+}
+
+// What a backup file holds, shown before choosing merge or replace
+export interface BackupSummary {
+  createdAt: number;
+  appVersion: string;
+  schemaVersion: number;
+  conversations: number;
+  messages: number;
+  userProfiles: number;
+  insights: number;
+  learningOutcomes: number;
+  historyItems: number;
+  warnings: string[];
+}
+
+export interface VaultStatus {
+  scheme: "safeStorage" | "passphrase";
+  initialized: boolean;
+  locked: boolean;
+}
+
 interface ElectronAPI {
   // AP  // Safety Analysis
   safetyCheck: (data: {
@@ -20,13 +265,44 @@ interface ElectronAPI {
 
   // Trust Analysis
   setApiKey: (
-    provider: "gemini" | "openai" | "anthropic" | "openrouter" | "custom",
+    provider:
+      | "gemini"
+      | "openai"
+      | "anthropic"
+      | "openrouter"
+      | "custom"
+      | "local",
     apiKey: string,
-    options?: { model?: string; endpoint?: string }
+    options?: { model?: string; endpoint?: string; keyName?: string }
   ) => Promise<void>;
   getApiKey: (
-    provider?: "gemini" | "openai" | "anthropic" | "openrouter" | "custom"
+    provider?:
+      | "gemini"
+      | "openai"
+      | "anthropic"
+      | "openrouter"
+      | "custom"
+      | "local"
   ) => Promise<string | undefined>;
+  listApiKeys: (provider?: string) => Promise<ApiKeySummary[]>;
+  setActiveApiKey: (provider: string, id: string) => Promise<void>;
+  removeApiKey: (provider: string, id: string) => Promise<void>;
+  getAppLockStatus: () => Promise<AppLockStatus>;
+  unlockApp: (
+    passphrase: string
+  ) => Promise<{ success: boolean; error?: string }>;
+  lockApp: () => Promise<void>;
+  // A null next passphrase goes back to the OS keychain
+  setAppPassphrase: (
+    currentPassphrase: string | undefined,
+    nextPassphrase: string | null
+  ) => Promise<{ success: boolean; error?: string }>;
+  setIdleLockMinutes: (minutes: number) => Promise<void>;
+  onAppLocked: (callback: () => void) => () => void;
+  getVaultStatus: () => Promise<VaultStatus>;
+  unlockVault: (
+    passphrase: string
+  ) => Promise<{ success: boolean; error?: string }>;
   hasValidApiKey: () => Promise<boolean>;
   isFirstRun: () => Promise<boolean>;
   getCurrentProvider: () => Promise<string>;
@@ -35,7 +311,12 @@ interface ElectronAPI {
     model?: string;
     endpoint?: string;
   }>;
-  getAvailableModels: (provider: string) => Promise<string[]>;
+  getAvailableModels: (provider: string, endpoint?: string) => Promise<string[]>;
+  getFallbackProviders: () => Promise<{
+    fallbacks: string[];
+    configured: string[];
+  }>;
+  setFallbackProviders: (providers: string[]) => Promise<void>;
 
   // Smart Reply Generation
   generateSmartReplies: (data: {
@@ -54,6 +335,8 @@ interface ElectronAPI {
     error?: string;
     fallback?: boolean;
     note?: string;
+    answeredBy?: { provider?: string; model?: string };
+    validationErrors?: string[];
   }>;
 
   // Enhanced conversation analysis
@@ -126,6 +409,8 @@ interface ElectronAPI {
     socialProfiles: string[];
     redFlags: string[];
     positiveSignals: string[];
+    answeredBy?: { provider?: string; model?: string };
+    validationErrors?: string[];
   }>;
 
   safetyCheck: (data: {
@@ -160,6 +445,12 @@ interface ElectronAPI {
     outcome: "positive" | "negative" | "neutral";
     context: string;
   }) => Promise<void>;
+  getLearningState: () => Promise<{
+    success: boolean;
+    state?: LearningState;
+    error?: string;
+  }>;
+  resetLearning: () => Promise<{ success: boolean; error?: string }>;
 
   getDatingDashboard: () => Promise<{
     conversations: Array<{
@@ -189,6 +480,171 @@ interface ElectronAPI {
     }>;
   }>;
 
+  searchMessages: (
+    query: string,
+    options?: { limit?: number; conversationId?: string }
+  ) => Promise<{
+    success: boolean;
+    results: MessageSearchResult[];
+    error?: string;
+  }>;
+  saveHistoryItem: (item: HistoryItem) => Promise<{
+    success: boolean;
+    item?: HistoryItem;
+    error?: string;
+  }>;
+  listHistory: (query?: HistoryQuery) => Promise<HistoryItem[]>;
+  searchHistory: (
+    text: string,
+    query?: HistoryQuery
+  ) => Promise<{
+    success: boolean;
+    results: HistorySearchResult[];
+    error?: string;
+  }>;
+  importHistory: (items: unknown[]) => Promise<{
+    success: boolean;
+    imported?: number;
+    error?: string;
+  }>;
+  clearHistory: () => Promise<{
+    success: boolean;
+    cleared?: number;
+    error?: string;
+  }>;
+  listContacts: () => Promise<ContactSummary[]>;
+  getContactTimeline: (contactId: string) => Promise<{
+    success: boolean;
+    conversations?: ContactConversation[];
+    messages?: ContactTimelineMessage[];
+    error?: string;
+  }>;
+  mergeContacts: (
+    targetId: string,
+    sourceIds: string[]
+  ) => Promise<{ success: boolean; error?: string }>;
+  splitContact: (
+    contactId: string,
+    conversationIds: string[],
+    displayName?: string
+  ) => Promise<{ success: boolean; contactId?: string; error?: string }>;
+  renameContact: (
+    contactId: string,
+    displayName: string
+  ) => Promise<{ success: boolean; error?: string }>;
+  forgetContact: (contactId: string) => Promise<{
+    success: boolean;
+    removed?: {
+      conversations: number;
+      messages: number;
+      insights: number;
+      learningOutcomes: number;
+      historyItems: number;
+    };
+    error?: string;
+  }>;
+  setContactStage: (
+    contactId: string,
+    stage: RelationshipStage
+  ) => Promise<{ success: boolean; error?: string }>;
+  checkOutgoingDraft: (
+    draft: string,
+    options?: {
+      contactId?: string;
+      stage?: RelationshipStage;
+      photoPath?: string;
+    }
+  ) => Promise<{
+    success: boolean;
+    context?: { stage: RelationshipStage; daysKnown?: number };
+    check?: DraftCheck;
+    error?: string;
+  }>;
+  chooseDraftPhoto: () => Promise<{ path: string; name: string } | null>;
+  onDraftCheckRequested: (
+    callback: (data: { draft: string }) => void
+  ) => () => void;
+  listDatePlans: () => Promise<DatePlan[]>;
+  startDatePlan: (input: {
+    contactId?: string;
+    who: string;
+    location: string;
+    startsAt: number;
+    endsAt: number;
+    checkInMinutes: number;
+  }) => Promise<{
+    success: boolean;
+    plan?: DatePlan;
+    warning?: string;
+    error?: string;
+  }>;
+  checkInDatePlan: (
+    planId: string
+  ) => Promise<{ success: boolean; plan?: DatePlan; error?: string }>;
+  endDatePlan: (
+    planId: string
+  ) => Promise<{ success: boolean; plan?: DatePlan; error?: string }>;
+  getDateSafetySettings: () => Promise<DateSafetySettings>;
+  setDateSafetySettings: (
+    settings: DateSafetySettings
+  ) => Promise<{ success: boolean; error?: string }>;
+  chooseEscalationFolder: () => Promise<string | null>;
+  testDateEscalation: (
+    settings: DateSafetySettings
+  ) => Promise<{ success: boolean; sent?: string; error?: string }>;
+  onDateCheckInDue: (
+    callback: (data: { planId: string; loud: boolean }) => void
+  ) => () => void;
+  onDatePlanUpdated: (callback: (plan: DatePlan) => void) => () => void;
+  getRetentionPolicy: () => Promise<RetentionPolicy>;
+  setRetentionPolicy: (policy: RetentionPolicy) => Promise<{
+    success: boolean;
+    result?: {
+      deletedConversations: number;
+      purgedMessages: number;
+      deletedHistory: number;
+    };
+    error?: string;
+  }>;
+  getSafetyRules: () => Promise<{
+    packs: SafetyRulePackInfo[];
+    rules: ListedSafetyRule[];
+  }>;
+  selectSafetyRules: (
+    categories: SafetyRuleCategory[]
+  ) => Promise<SafetyRule[]>;
+  setSafetyRuleEnabled: (
+    ruleId: string,
+    enabled: boolean
+  ) => Promise<{ success: boolean; error?: string }>;
+  saveCustomSafetyRule: (rule: Partial<SafetyRule>) => Promise<{
+    success: boolean;
+    rule?: SafetyRule;
+    error?: string;
+  }>;
+  deleteCustomSafetyRule: (
+    ruleId: string
+  ) => Promise<{ success: boolean; error?: string }>;
+
+  importChatArchive: (
+    filePath?: string,
+    options?: {
+      format?: "whatsapp" | "telegram" | "tinder" | "hinge" | "bumble";
+      selfName?: string;
+    }
+  ) => Promise<{
+    success: boolean;
+    format?: "whatsapp" | "telegram" | "tinder" | "hinge" | "bumble";
+    imported?: Array<{
+      id: string;
+      contact: string;
+      platform: string;
+      message_count: number;
+    }>;
+    skipped_messages?: number;
+    message: string;
+  }>;
+
   updateUserPreferences: (
     preferences: any
   ) => Promise<{ success: boolean; error?: string }>;
@@ -197,6 +653,24 @@ interface ElectronAPI {
   captureScreen: () => Promise<{
     success: boolean;
     data?: any;
+    width?: number;
+    height?: number;
+    error?: string;
+  }>;
+  ocrScreenshot: (options?: {
+    region?: { left: number; top: number; width: number; height: number };
+    imagePath?: string;
+  }) => Promise<{
+    success: boolean;
+    rawText?: string;
+    transcript?: string;
+    turns?: Array<{
+      speaker: "user" | "other";
+      message: string;
+      timestamp?: Date;
+      speakerName?: string;
+    }>;
+    confidence?: number;
     error?: string;
   }>;
   toggleAutoLaunch: (
@@ -208,6 +682,32 @@ interface ElectronAPI {
     cancelled?: boolean;
     error?: string;
   }>;
+  createBackup: () => Promise<{
+    success: boolean;
+    path?: string;
+    summary?: BackupSummary;
+    message: string;
+  }>;
+  inspectBackup: () => Promise<{
+    success: boolean;
+    path?: string;
+    summary?: BackupSummary;
+    message?: string;
+  }>;
+  restoreBackup: (
+    filePath: string,
+    mode: "merge" | "replace"
+  ) => Promise<{
+    success: boolean;
+    restored?: {
+      conversations: number;
+      userProfiles: number;
+      insights: number;
+      learningOutcomes: number;
+      historyItems: number;
+    };
+    message: string;
+  }>;
   setAppOpacity: (opacity: number) => Promise<{ success: boolean }>;
   getAppOpacity: () => Promise<{ opacity: number }>;
 
@@ -217,7 +717,7 @@ interface ElectronAPI {
     content: string
   ) => Promise<{ success: boolean; error?: string }>;
   getCurrentApiKey: () => Promise<string | null>;
-  getApiUsage: () => Promise<{
+  getApiUsage: (historyDays?: number) => Promise<{
     dailyUsed: number;
     dailyLimit: number;
     totalCalls: number;
@@ -225,7 +725,24 @@ interface ElectronAPI {
     nextCallAvailable: number;
     cacheSize: number;
     rateLimitMessage: string;
+    structuredOutput?: {
+      validated: number;
+      repaired: number;
+      failed: number;
+      recentFailures: Array<{
+        task: string;
+        issues: string[];
+        timestamp: number;
+      }>;
+    };
+    today?: UsageTotals;
+    month?: UsageTotals;
+    budgets?: UsageBudgets;
+    history?: Array<
+      UsageTotals & { date: string; byProvider: Record<string, UsageTotals> }
+    >;
   }>;
+  setUsageBudgets: (budgets: UsageBudgets) => Promise<UsageBudgets>;
   checkNetworkOnline: () => Promise<{ online: boolean }>;
   checkProviderHealth: () => Promise<{
     ok: boolean;
@@ -293,6 +810,9 @@ interface ElectronAPI {
     callback: (data: { message: string; timestamp: number }) => void
   ) => void;
   onShowSettings: (callback: () => void) => void;
+  onScreenshotCaptured: (
+    callback: (capture: { data: string; width: number; height: number }) => void
+  ) => () => void;
 
   // ADVANCED VERIFICATION SYSTEM APIs
 
@@ -356,6 +876,7 @@ interface ElectronAPI {
   }>;
 
   // Quick catfish detection from photos
+  getPathForFile: (file: File) => string;
   analyzePhotosCatfish: (photoPaths: string[]) => Promise<{
     catfish_risk: number;
     face_consistency: number;
@@ -0,0 +1,132 @@
+/**
+ * The JSON Schema subset every provider's native structured-output mode
+ * understands (OpenAI response_format, Gemini responseSchema, Anthropic tool
+ * input_schema). Bounds like minimum/maximum are checked locally only.
+ */
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: string[];
+  minimum?: number;
+  maximum?: number;
+  minItems?: number;
+  maxItems?: number;
+}
+
+export interface StructuredTask {
+  // Short identifier, used as the tool/schema name by providers
+  name: string;
+  description?: string;
+  schema: JsonSchema;
+}
+
+export interface StructuredResponse<T> {
+  data: T;
+  provider?: string;
+  model?: string;
+  // Set when the first answer failed validation and the repair round-trip fixed it
+  repaired: boolean;
+  issues: string[];
+}
+
+export class StructuredOutputError extends Error {
+  readonly task: string;
+  readonly issues: string[];
+  readonly rawText: string;
+
+  constructor(task: string, issues: string[], rawText: string) {
+    super(`Structured output for ${task} failed validation: ${issues.slice(0, 3).join('; ')}`);
+    this.name = 'StructuredOutputError';
+    this.task = task;
+    this.issues = issues;
+    this.rawText = rawText;
+  }
+}
+
+/**
+ * Returns one message per violation, each prefixed with the JSON path
+ * ("$.replies[0].text: expected string").
+ */
+export function validateAgainstSchema(value: unknown, schema: JsonSchema, path: string = '$'): string[] {
+  const issues: string[] = [];
+
+  switch (schema.type) {
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return [`${path}: expected object`];
+      }
+      const record = value as Record<string, unknown>;
+      for (const key of schema.required || []) {
+        if (record[key] === undefined) issues.push(`${path}.${key}: is required`);
+      }
+      for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+        if (record[key] !== undefined) {
+          issues.push(...validateAgainstSchema(record[key], propertySchema, `${path}.${key}`));
+        }
+      }
+      break;
+    }
+    case 'array': {
+      if (!Array.isArray(value)) return [`${path}: expected array`];
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        issues.push(`${path}: expected at least ${schema.minItems} items`);
+      }
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+        issues.push(`${path}: expected at most ${schema.maxItems} items`);
+      }
+      if (schema.items) {
+        value.forEach((item, index) => {
+          issues.push(...validateAgainstSchema(item, schema.items!, `${path}[${index}]`));
+        });
+      }
+      break;
+    }
+    case 'string':
+      if (typeof value !== 'string') return [`${path}: expected string`];
+      if (schema.enum && !schema.enum.includes(value)) {
+        issues.push(`${path}: expected one of ${schema.enum.join(', ')}`);
+      }
+      break;
+    case 'number':
+    case 'integer':
+      if (typeof value !== 'number' || isNaN(value)) return [`${path}: expected ${schema.type}`];
+      if (schema.type === 'integer' && !Number.isInteger(value)) issues.push(`${path}: expected integer`);
+      if (schema.minimum !== undefined && value < schema.minimum) issues.push(`${path}: must be >= ${schema.minimum}`);
+      if (schema.maximum !== undefined && value > schema.maximum) issues.push(`${path}: must be <= ${schema.maximum}`);
+      break;
+    case 'boolean':
+      if (typeof value !== 'boolean') return [`${path}: expected boolean`];
+      break;
+  }
+
+  return issues;
+}
+
+/**
+ * Pulls the JSON document out of a model reply. Native JSON modes return it
+ * bare; prompt-only providers may wrap it in prose or code fences.
+ */
+export function extractJson(text: string): unknown {
+  const trimmed = text.trim();
+  try {
+    return JSON.parse(trimmed);
+  } catch (error) {
+    // Fall through to locating the outermost object/array
+  }
+
+  const fenced = trimmed.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const body = fenced ? fenced[1] : trimmed;
+  const start = body.search(/[[{]/);
+  const end = Math.max(body.lastIndexOf('}'), body.lastIndexOf(']'));
+  if (start === -1 || end <= start) {
+    throw new SyntaxError('No JSON found in response');
+  }
+  return JSON.parse(body.slice(start, end + 1));
+}
+
+export function describeSchema(task: StructuredTask): string {
+  return `Respond with only a JSON value (no prose, no code fences) matching this JSON Schema:\n${JSON.stringify(task.schema, null, 2)}`;
+}
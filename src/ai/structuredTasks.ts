@@ -0,0 +1,90 @@
+import { StructuredTask } from './structuredOutput';
+
+// Schemas for every AI feature that expects JSON back
+
+export const SMART_REPLIES_TASK: StructuredTask = {
+  name: 'smart_replies',
+  description: 'Reply suggestions for a dating app message',
+  schema: {
+    type: 'object',
+    properties: {
+      replies: {
+        type: 'array',
+        minItems: 1,
+        items: {
+          type: 'object',
+          properties: {
+            text: { type: 'string' },
+            reason: { type: 'string' }
+          },
+          required: ['text', 'reason']
+        }
+      },
+      sentiment: { type: 'string', enum: ['positive', 'neutral', 'negative'] },
+      tips: { type: 'array', items: { type: 'string' } }
+    },
+    required: ['replies', 'sentiment', 'tips']
+  }
+};
+
+export const TRUST_ANALYSIS_TASK: StructuredTask = {
+  name: 'trust_analysis',
+  description: 'Authenticity assessment of a dating profile',
+  schema: {
+    type: 'object',
+    properties: {
+      trustScore: { type: 'number', minimum: 1, maximum: 100 },
+      verificationStatus: { type: 'string', enum: ['verified', 'suspicious', 'unknown', 'pending_verification'] },
+      imageMatches: { type: 'array', items: { type: 'string' } },
+      socialProfiles: { type: 'array', items: { type: 'string' } },
+      redFlags: { type: 'array', items: { type: 'string' } },
+      positiveSignals: { type: 'array', items: { type: 'string' } }
+    },
+    required: ['trustScore', 'verificationStatus', 'imageMatches', 'socialProfiles', 'redFlags', 'positiveSignals']
+  }
+};
+
+export const SAFETY_ANALYSIS_TASK: StructuredTask = {
+  name: 'safety_analysis',
+  description: 'Privacy and safety risks in a dating conversation',
+  schema: {
+    type: 'object',
+    properties: {
+      overallRisk: { type: 'number', minimum: 0, maximum: 1 },
+      concerns: { type: 'array', items: { type: 'string' } },
+      recommendations: { type: 'array', items: { type: 'string' } },
+      redFlags: { type: 'array', items: { type: 'string' } },
+      positiveSignals: { type: 'array', items: { type: 'string' } },
+      trustScore: { type: 'number', minimum: 0, maximum: 100 }
+    },
+    required: ['overallRisk', 'concerns', 'recommendations', 'redFlags', 'positiveSignals', 'trustScore']
+  }
+};
+
+export const DATING_ADVICE_TASK: StructuredTask = {
+  name: 'dating_advice',
+  description: 'Actionable advice for the next step in a conversation',
+  schema: {
+    type: 'object',
+    properties: {
+      advice: {
+        type: 'array',
+        minItems: 1,
+        maxItems: 5,
+        items: {
+          type: 'object',
+          properties: {
+            type: { type: 'string', enum: ['response', 'opener', 'topic_change', 'escalation', 'safety'] },
+            message: { type: 'string' },
+            explanation: { type: 'string' },
+            confidence: { type: 'number', minimum: 0, maximum: 1 },
+            timing: { type: 'string', enum: ['immediate', 'wait_1h', 'wait_3h', 'wait_1d', 'weekend'] },
+            context: { type: 'string' }
+          },
+          required: ['type', 'message', 'explanation', 'confidence', 'timing', 'context']
+        }
+      }
+    },
+    required: ['advice']
+  }
+};
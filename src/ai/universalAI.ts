@@ -1,49 +1,325 @@
 import { GoogleGenerativeAI } from "@google/generative-ai";
+import {
+  JsonSchema,
+  StructuredTask,
+  StructuredResponse,
+  StructuredOutputError,
+  validateAgainstSchema,
+  extractJson,
+  describeSchema
+} from './structuredOutput';
 
-interface AIResponse {
+export interface AIResponse {
   text: string;
   usage?: {
     input_tokens?: number;
     output_tokens?: number;
   };
+  // Which entry of the failover chain produced this answer
+  provider?: string;
+  model?: string;
+  failedOver?: boolean;
+}
+
+export interface GenerateOptions {
+  // Ask the provider for JSON matching this schema, using its native mode where it has one
+  structured?: StructuredTask;
+}
+
+export interface StructuredOutputStats {
+  validated: number;
+  repaired: number;
+  failed: number;
+  recentFailures: Array<{ task: string; issues: string[]; timestamp: number }>;
+}
+
+export interface AIRetryOptions {
+  maxRetries?: number;
+  timeoutMs?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
 }
 
-interface AIConfig {
+export interface AIConfig {
   provider: string;
   apiKey: string;
   model?: string;
   endpoint?: string;
+  // Tried in order when this provider keeps failing
+  fallbacks?: AIConfig[];
+  retry?: AIRetryOptions;
+}
+
+/**
+ * A failed provider call. `retryable` marks rate limits, server errors,
+ * timeouts and network failures - the cases worth waiting out or failing
+ * over from.
+ */
+export class AIRequestError extends Error {
+  readonly provider: string;
+  readonly status?: number;
+  readonly retryAfterMs?: number;
+  readonly retryable: boolean;
+
+  constructor(message: string, provider: string, options: { status?: number; retryAfterMs?: number; retryable?: boolean } = {}) {
+    super(message);
+    this.name = 'AIRequestError';
+    this.provider = provider;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+    this.retryable = options.retryable ?? (options.status === 429 || (options.status !== undefined && options.status >= 500));
+  }
+}
+
+// Raised instead of calling a paid provider once the user's spending limit is hit
+export class BudgetExceededError extends AIRequestError {
+  constructor(message: string, provider: string) {
+    super(message, provider, { retryable: false });
+    this.name = 'BudgetExceededError';
+  }
+}
+
+/**
+ * Budget checks and usage accounting, supplied by the app so the client
+ * stays storage-agnostic.
+ */
+export interface AIUsageHooks {
+  checkBudget(provider: string): Promise<{ allowed: boolean; reason?: string }>;
+  record(
+    provider: string,
+    model: string | undefined,
+    usage: AIResponse['usage'],
+    promptText: string,
+    responseText: string
+  ): Promise<void>;
 }
 
+const DEFAULT_RETRY: Required<AIRetryOptions> = {
+  maxRetries: 2,
+  timeoutMs: 30000,
+  baseDelayMs: 1000,
+  maxDelayMs: 10000
+};
+
+// Local models run on the user's CPU/GPU and can take a while per reply
+const LOCAL_TIMEOUT_MS = 120000;
+
 export class UniversalAI {
   private config: AIConfig;
+  private usage?: AIUsageHooks;
+  private structuredStats: StructuredOutputStats = { validated: 0, repaired: 0, failed: 0, recentFailures: [] };
 
-  constructor(config: AIConfig) {
+  constructor(config: AIConfig, usage?: AIUsageHooks) {
     this.config = config;
+    this.usage = usage;
+  }
+
+  getProvider(): string {
+    return this.config.provider;
+  }
+
+  getModel(): string | undefined {
+    return this.config.model;
   }
 
-  async generateContent(prompt: string): Promise<AIResponse> {
-    switch (this.config.provider) {
+  /**
+   * Sends the prompt to the primary provider, then down the fallback chain.
+   * Retryable failures are retried with exponential backoff (or the server's
+   * Retry-After) before moving on; other failures move on immediately.
+   */
+  async generateContent(prompt: string, options: GenerateOptions = {}): Promise<AIResponse> {
+    const chain = [this.config, ...(this.config.fallbacks || [])];
+    const retry = { ...DEFAULT_RETRY, ...this.config.retry };
+    let lastError: unknown;
+
+    for (let index = 0; index < chain.length; index++) {
+      const target = chain[index];
+
+      // Over budget: skip paid providers but let a free (local) fallback answer
+      const budget = this.usage ? await this.usage.checkBudget(target.provider) : { allowed: true };
+      if (!budget.allowed) {
+        lastError = new BudgetExceededError(budget.reason || 'AI budget reached', target.provider);
+        continue;
+      }
+
+      for (let attempt = 0; attempt <= retry.maxRetries; attempt++) {
+        try {
+          const response = await this.generateWith(target, prompt, retry.timeoutMs, options.structured);
+          await this.usage?.record(target.provider, target.model, response.usage, prompt, response.text)
+            .catch(error => console.error('Failed to record AI usage:', error));
+          return {
+            ...response,
+            provider: target.provider,
+            model: target.model,
+            failedOver: index > 0
+          };
+        } catch (error) {
+          lastError = error;
+          const retryable = !(error instanceof AIRequestError) || error.retryable;
+          const delay = UniversalAI.backoffDelay(error, attempt, retry);
+
+          // A Retry-After longer than we are willing to wait means try the next provider
+          if (!retryable || attempt === retry.maxRetries || delay === null) break;
+
+          console.warn(`${target.provider} request failed (${(error as Error).message}), retrying in ${delay}ms`);
+          await new Promise(resolve => setTimeout(resolve, delay));
+        }
+      }
+
+      if (index < chain.length - 1) {
+        console.warn(`${target.provider} unavailable, failing over to ${chain[index + 1].provider}`);
+      }
+    }
+
+    throw lastError;
+  }
+
+  private static backoffDelay(error: unknown, attempt: number, retry: Required<AIRetryOptions>): number | null {
+    if (error instanceof AIRequestError && error.retryAfterMs !== undefined) {
+      return error.retryAfterMs <= retry.maxDelayMs ? error.retryAfterMs : null;
+    }
+    const exponential = retry.baseDelayMs * 2 ** attempt;
+    return Math.min(Math.round(exponential + Math.random() * retry.baseDelayMs), retry.maxDelayMs);
+  }
+
+  /**
+   * Generates JSON for a task and validates it against the task's schema. A
+   * reply that fails validation gets one repair round-trip quoting the
+   * problems; if that also fails a StructuredOutputError is thrown so the
+   * caller can fall back.
+   */
+  async generateStructured<T>(prompt: string, task: StructuredTask): Promise<StructuredResponse<T>> {
+    const schemaPrompt = `${prompt}\n\n${describeSchema(task)}`;
+    const first = await this.generateContent(schemaPrompt, { structured: task });
+    const firstCheck = UniversalAI.checkStructured(first.text, task.schema);
+    if (firstCheck.issues.length === 0) {
+      this.structuredStats.validated++;
+      return { data: firstCheck.data as T, provider: first.provider, model: first.model, repaired: false, issues: [] };
+    }
+
+    console.warn(`Structured output for ${task.name} failed validation, requesting a repair:`, firstCheck.issues);
+    const repairPrompt = `${schemaPrompt}
+
+Your previous reply was:
+${first.text}
+
+It did not match the schema:
+${firstCheck.issues.map(issue => `- ${issue}`).join('\n')}
+
+Reply again with the corrected JSON only.`;
+
+    const second = await this.generateContent(repairPrompt, { structured: task });
+    const secondCheck = UniversalAI.checkStructured(second.text, task.schema);
+    if (secondCheck.issues.length === 0) {
+      this.structuredStats.repaired++;
+      return { data: secondCheck.data as T, provider: second.provider, model: second.model, repaired: true, issues: firstCheck.issues };
+    }
+
+    this.structuredStats.failed++;
+    this.structuredStats.recentFailures = [
+      { task: task.name, issues: secondCheck.issues, timestamp: Date.now() },
+      ...this.structuredStats.recentFailures
+    ].slice(0, 10);
+    throw new StructuredOutputError(task.name, secondCheck.issues, second.text);
+  }
+
+  getStructuredOutputStats(): StructuredOutputStats {
+    return { ...this.structuredStats, recentFailures: [...this.structuredStats.recentFailures] };
+  }
+
+  private static checkStructured(text: string, schema: JsonSchema): { data?: unknown; issues: string[] } {
+    let data: unknown;
+    try {
+      data = extractJson(text || '');
+    } catch (error) {
+      return { issues: [`$: not valid JSON (${(error as Error).message})`] };
+    }
+    return { data, issues: validateAgainstSchema(data, schema) };
+  }
+
+  private generateWith(config: AIConfig, prompt: string, timeoutMs: number, structured?: StructuredTask): Promise<AIResponse> {
+    const timeout = config.retry?.timeoutMs ?? (config.provider === 'local' ? LOCAL_TIMEOUT_MS : timeoutMs);
+
+    switch (config.provider) {
       case 'gemini':
-        return this.generateWithGemini(prompt);
+        return this.generateWithGemini(config, prompt, timeout, structured);
       case 'openrouter':
-        return this.generateWithOpenRouter(prompt);
+        return this.generateWithOpenRouter(config, prompt, timeout, structured);
       case 'openai':
-        return this.generateWithOpenAI(prompt);
+        return this.generateWithOpenAI(config, prompt, timeout, structured);
       case 'anthropic':
-        return this.generateWithAnthropic(prompt);
+        return this.generateWithAnthropic(config, prompt, timeout, structured);
       case 'custom':
-        return this.generateWithCustom(prompt);
+        return this.generateWithCustom(config, prompt, timeout, structured);
+      case 'local':
+        return this.generateWithLocal(config, prompt, timeout, structured);
       default:
-        throw new Error(`Unsupported provider: ${this.config.provider}`);
+        return Promise.reject(new AIRequestError(`Unsupported provider: ${config.provider}`, config.provider, { retryable: false }));
     }
   }
 
-  private async generateWithGemini(prompt: string): Promise<AIResponse> {
-    const genAI = new GoogleGenerativeAI(this.config.apiKey);
-    const model = genAI.getGenerativeModel({ model: "gemini-1.5-flash" });
-    
-    const result = await model.generateContent(prompt);
+  /**
+   * POSTs JSON with a timeout and turns HTTP failures into AIRequestErrors
+   * carrying the status and any Retry-After hint.
+   */
+  private async postJson(provider: string, label: string, url: string, headers: Record<string, string>, body: unknown, timeoutMs: number): Promise<any> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          method: 'POST',
+          headers,
+          body: JSON.stringify(body),
+          signal: controller.signal
+        });
+      } catch (error) {
+        if (controller.signal.aborted) {
+          throw new AIRequestError(`${label} timed out after ${timeoutMs}ms`, provider, { retryable: true });
+        }
+        throw new AIRequestError(`${label} not reachable: ${(error as Error).message}`, provider, { retryable: true });
+      }
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new AIRequestError(`${label} error: ${response.status} - ${errorText}`, provider, {
+          status: response.status,
+          retryAfterMs: UniversalAI.parseRetryAfter(response.headers.get('retry-after'))
+        });
+      }
+
+      return await response.json();
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  // Retry-After is either a number of seconds or an HTTP date
+  private static parseRetryAfter(value: string | null): number | undefined {
+    if (!value) return undefined;
+    const seconds = Number(value);
+    if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(value);
+    return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+  }
+
+  private async generateWithGemini(config: AIConfig, prompt: string, timeoutMs: number, structured?: StructuredTask): Promise<AIResponse> {
+    const genAI = new GoogleGenerativeAI(config.apiKey);
+    const model = genAI.getGenerativeModel({
+      model: config.model || "gemini-1.5-flash",
+      generationConfig: structured
+        ? { responseMimeType: 'application/json', responseSchema: UniversalAI.toGeminiSchema(structured.schema) }
+        : undefined
+    }, { timeout: timeoutMs });
+
+    let result;
+    try {
+      result = await model.generateContent(prompt);
+    } catch (error) {
+      throw UniversalAI.fromGeminiError(error);
+    }
     const response = await result.response;
     
     return {
@@ -55,150 +331,242 @@ export class UniversalAI {
     };
   }
 
-  private async generateWithOpenRouter(prompt: string): Promise<AIResponse> {
-    const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${this.config.apiKey}`,
-        'Content-Type': 'application/json',
-        'HTTP-Referer': 'https://trustdating.app',
-        'X-Title': 'Trust Dating Assistant'
-      },
-      body: JSON.stringify({
-        model: this.config.model || 'openrouter/horizon-alpha',
-        messages: [
-          {
-            role: 'user',
-            content: prompt
-          }
-        ],
-        temperature: 0.7,
-        max_tokens: 1000
-      })
-    });
+  // Gemini takes an OpenAPI-style schema without numeric bounds
+  private static toGeminiSchema(schema: JsonSchema): any {
+    const converted: any = { type: schema.type };
+    if (schema.description) converted.description = schema.description;
+    if (schema.enum) {
+      converted.enum = schema.enum;
+      converted.format = 'enum';
+    }
+    if (schema.items) converted.items = UniversalAI.toGeminiSchema(schema.items);
+    if (schema.properties) {
+      converted.properties = Object.fromEntries(
+        Object.entries(schema.properties).map(([key, value]) => [key, UniversalAI.toGeminiSchema(value)])
+      );
+    }
+    if (schema.required) converted.required = schema.required;
+    return converted;
+  }
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`OpenRouter API error: ${response.status} - ${errorText}`);
+  // Chat-completions servers accept a JSON schema; older OpenAI models only know json_object
+  private static responseFormat(structured: StructuredTask | undefined, model: string): any {
+    if (!structured) return undefined;
+    if (/^gpt-(3\.5|4-turbo|4$|4-0)/.test(model)) {
+      return { type: 'json_object' };
     }
+    return {
+      type: 'json_schema',
+      json_schema: { name: structured.name, schema: structured.schema, strict: false }
+    };
+  }
+
+  // The SDK reports HTTP status and a RetryInfo detail ("30s") instead of headers
+  private static fromGeminiError(error: any): AIRequestError {
+    const status: number | undefined = typeof error?.status === 'number' ? error.status : undefined;
+    const retryInfo = (error?.errorDetails || []).find((detail: any) => detail?.retryDelay);
+    const retryAfterMs = retryInfo ? parseFloat(retryInfo.retryDelay) * 1000 : undefined;
+    const timedOut = error?.name === 'AbortError' || /abort|timed? ?out/i.test(error?.message || '');
+
+    return new AIRequestError(`Gemini API error: ${error?.message || error}`, 'gemini', {
+      status,
+      retryAfterMs: retryAfterMs !== undefined && !isNaN(retryAfterMs) ? retryAfterMs : undefined,
+      retryable: timedOut || (status === undefined ? /fetch/i.test(error?.message || '') : status === 429 || status >= 500)
+    });
+  }
 
-    const data = await response.json();
+  private async generateWithOpenRouter(config: AIConfig, prompt: string, timeoutMs: number, structured?: StructuredTask): Promise<AIResponse> {
+    const data = await this.postJson('openrouter', 'OpenRouter API', 'https://openrouter.ai/api/v1/chat/completions', {
+      'Authorization': `Bearer ${config.apiKey}`,
+      'Content-Type': 'application/json',
+      'HTTP-Referer': 'https://trustdating.app',
+      'X-Title': 'Trust Dating Assistant'
+    }, {
+      model: config.model || 'openrouter/horizon-alpha',
+      messages: [
+        {
+          role: 'user',
+          content: prompt
+        }
+      ],
+      temperature: 0.7,
+      max_tokens: 1000,
+      response_format: UniversalAI.responseFormat(structured, config.model || 'openrouter/horizon-alpha')
+    }, timeoutMs);
     
     if (!data.choices || !data.choices[0]) {
-      throw new Error('Invalid response from OpenRouter API');
+      throw new AIRequestError('Invalid response from OpenRouter API', 'openrouter', { retryable: true });
     }
 
     return {
       text: data.choices[0].message.content,
-      usage: data.usage
+      usage: {
+        input_tokens: data.usage?.prompt_tokens,
+        output_tokens: data.usage?.completion_tokens
+      }
     };
   }
 
-  private async generateWithOpenAI(prompt: string): Promise<AIResponse> {
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${this.config.apiKey}`,
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        model: this.config.model || 'gpt-4o-mini',
-        messages: [
-          {
-            role: 'user',
-            content: prompt
-          }
-        ],
-        temperature: 0.7,
-        max_tokens: 1000
-      })
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`OpenAI API error: ${response.status} - ${errorText}`);
-    }
-
-    const data = await response.json();
+  private async generateWithOpenAI(config: AIConfig, prompt: string, timeoutMs: number, structured?: StructuredTask): Promise<AIResponse> {
+    const data = await this.postJson('openai', 'OpenAI API', 'https://api.openai.com/v1/chat/completions', {
+      'Authorization': `Bearer ${config.apiKey}`,
+      'Content-Type': 'application/json'
+    }, {
+      model: config.model || 'gpt-4o-mini',
+      messages: [
+        {
+          role: 'user',
+          content: prompt
+        }
+      ],
+      temperature: 0.7,
+      max_tokens: 1000,
+      response_format: UniversalAI.responseFormat(structured, config.model || 'gpt-4o-mini')
+    }, timeoutMs);
     
     return {
       text: data.choices[0].message.content,
-      usage: data.usage
+      usage: {
+        input_tokens: data.usage?.prompt_tokens,
+        output_tokens: data.usage?.completion_tokens
+      }
     };
   }
 
-  private async generateWithAnthropic(prompt: string): Promise<AIResponse> {
-    const response = await fetch('https://api.anthropic.com/v1/messages', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${this.config.apiKey}`,
-        'Content-Type': 'application/json',
-        'anthropic-version': '2023-06-01'
-      },
-      body: JSON.stringify({
-        model: this.config.model || 'claude-3-haiku-20240307',
-        max_tokens: 1000,
-        messages: [
-          {
-            role: 'user',
-            content: prompt
-          }
-        ]
+  private async generateWithAnthropic(config: AIConfig, prompt: string, timeoutMs: number, structured?: StructuredTask): Promise<AIResponse> {
+    const data = await this.postJson('anthropic', 'Anthropic API', 'https://api.anthropic.com/v1/messages', {
+      'Authorization': `Bearer ${config.apiKey}`,
+      'Content-Type': 'application/json',
+      'anthropic-version': '2023-06-01'
+    }, {
+      model: config.model || 'claude-3-haiku-20240307',
+      max_tokens: 1000,
+      messages: [
+        {
+          role: 'user',
+          content: prompt
+        }
+      ],
+      // Forcing a single tool call is Anthropic's structured-output mode
+      ...(structured && {
+        tools: [{ name: structured.name, description: structured.description || structured.name, input_schema: structured.schema }],
+        tool_choice: { type: 'tool', name: structured.name }
       })
-    });
+    }, timeoutMs);
+
+    const toolUse = structured && (data.content || []).find((block: any) => block.type === 'tool_use');
+    
+    return {
+      text: toolUse ? JSON.stringify(toolUse.input) : data.content[0].text,
+      usage: data.usage
+    };
+  }
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Anthropic API error: ${response.status} - ${errorText}`);
+  // Unknown servers may reject response_format, so custom endpoints only get the schema in the prompt
+  private async generateWithCustom(config: AIConfig, prompt: string, timeoutMs: number, _structured?: StructuredTask): Promise<AIResponse> {
+    if (!config.endpoint) {
+      throw new AIRequestError('Custom endpoint not configured', 'custom', { retryable: false });
     }
 
-    const data = await response.json();
+    const data = await this.postJson('custom', 'Custom API', `${config.endpoint}/chat/completions`, {
+      'Authorization': `Bearer ${config.apiKey}`,
+      'Content-Type': 'application/json'
+    }, {
+      model: config.model || 'gpt-3.5-turbo',
+      messages: [
+        {
+          role: 'user',
+          content: prompt
+        }
+      ],
+      temperature: 0.7,
+      max_tokens: 1000
+    }, timeoutMs);
     
     return {
-      text: data.content[0].text,
-      usage: data.usage
+      text: data.choices[0].message.content,
+      usage: {
+        input_tokens: data.usage?.prompt_tokens,
+        output_tokens: data.usage?.completion_tokens
+      }
     };
   }
 
-  private async generateWithCustom(prompt: string): Promise<AIResponse> {
-    if (!this.config.endpoint) {
-      throw new Error('Custom endpoint not configured');
-    }
-
-    const response = await fetch(`${this.config.endpoint}/chat/completions`, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${this.config.apiKey}`,
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        model: this.config.model || 'gpt-3.5-turbo',
-        messages: [
-          {
-            role: 'user',
-            content: prompt
-          }
-        ],
-        temperature: 0.7,
-        max_tokens: 1000
-      })
-    });
+  // Ollama and llama.cpp's server both speak the OpenAI chat completions API under /v1
+  private async generateWithLocal(config: AIConfig, prompt: string, timeoutMs: number, structured?: StructuredTask): Promise<AIResponse> {
+    const endpoint = UniversalAI.normalizeLocalEndpoint(config.endpoint);
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (config.apiKey) {
+      headers['Authorization'] = `Bearer ${config.apiKey}`;
+    }
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Custom API error: ${response.status} - ${errorText}`);
+    const data = await this.postJson('local', `Local model server at ${endpoint}`, `${endpoint}/chat/completions`, headers, {
+      model: config.model || (await UniversalAI.discoverLocalModels(endpoint))[0],
+      messages: [
+        {
+          role: 'user',
+          content: prompt
+        }
+      ],
+      temperature: 0.7,
+      max_tokens: 1000,
+      stream: false,
+      response_format: UniversalAI.responseFormat(structured, config.model || '')
+    }, timeoutMs);
+
+    if (!data.choices || !data.choices[0]) {
+      throw new AIRequestError('Invalid response from local model server', 'local', { retryable: true });
     }
 
-    const data = await response.json();
-    
     return {
       text: data.choices[0].message.content,
-      usage: data.usage
+      usage: {
+        input_tokens: data.usage?.prompt_tokens,
+        output_tokens: data.usage?.completion_tokens
+      }
     };
   }
 
-  static getAvailableModels(provider: string): string[] {
+  static readonly DEFAULT_LOCAL_ENDPOINT = 'http://localhost:11434/v1';
+
+  static normalizeLocalEndpoint(endpoint?: string): string {
+    const base = (endpoint || UniversalAI.DEFAULT_LOCAL_ENDPOINT).trim().replace(/\/+$/, '');
+    return /\/v1$/.test(base) ? base : `${base}/v1`;
+  }
+
+  /**
+   * Lists models installed on a local server. Tries the OpenAI-style
+   * /v1/models first (llama.cpp, LM Studio, recent Ollama) and falls back to
+   * Ollama's native /api/tags.
+   */
+  static async discoverLocalModels(endpoint?: string): Promise<string[]> {
+    const base = UniversalAI.normalizeLocalEndpoint(endpoint);
+    const attempts: Array<{ url: string; read: (data: any) => string[] }> = [
+      { url: `${base}/models`, read: data => (data.data || []).map((model: any) => model.id) },
+      { url: `${base.replace(/\/v1$/, '')}/api/tags`, read: data => (data.models || []).map((model: any) => model.name) }
+    ];
+
+    for (const attempt of attempts) {
+      const controller = new AbortController();
+      const timeout = setTimeout(() => controller.abort(), 3000);
+      try {
+        const response = await fetch(attempt.url, { signal: controller.signal });
+        if (!response.ok) continue;
+        const models = attempt.read(await response.json()).filter(Boolean);
+        if (models.length > 0) return models;
+      } catch (error) {
+        // Server down or endpoint not supported; try the next one
+      } finally {
+        clearTimeout(timeout);
+      }
+    }
+    return [];
+  }
+
+  static async getAvailableModels(provider: string, endpoint?: string): Promise<string[]> {
     switch (provider) {
+      case 'local':
+        return UniversalAI.discoverLocalModels(endpoint);
       case 'openrouter':
         return [
           'openrouter/horizon-alpha',
@@ -0,0 +1,244 @@
+import { app } from 'electron';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+export interface UsageBudgets {
+  dailyUsd?: number;
+  monthlyUsd?: number;
+  dailyCalls?: number;
+}
+
+export interface UsageDay extends UsageTotals {
+  date: string;
+  byProvider: Record<string, UsageTotals>;
+}
+
+export interface BudgetStatus {
+  allowed: boolean;
+  reason?: string;
+}
+
+interface UsageFile {
+  budgets: UsageBudgets;
+  // Keyed by local date (YYYY-MM-DD), then provider
+  days: Record<string, Record<string, UsageTotals>>;
+}
+
+// USD per million tokens [input, output]. Matched against the model name, longest key first.
+const MODEL_PRICING: Record<string, [number, number]> = {
+  'gemini-1.5-flash': [0.075, 0.3],
+  'gemini-1.5-pro': [1.25, 5],
+  'gemini-1.0-pro': [0.5, 1.5],
+  'gemini-flash-1.5': [0.075, 0.3],
+  'gpt-4o-mini': [0.15, 0.6],
+  'gpt-4o': [2.5, 10],
+  'gpt-4-turbo': [10, 30],
+  'gpt-3.5-turbo': [0.5, 1.5],
+  'claude-3-5-sonnet': [3, 15],
+  'claude-3.5-sonnet': [3, 15],
+  'claude-3-haiku': [0.25, 1.25],
+  'claude-3-opus': [15, 75],
+  'llama-3.1-405b': [3, 3],
+  'mixtral-8x7b': [0.24, 0.24],
+  'horizon-alpha': [0, 0]
+};
+
+// Used for models missing from the table so unknown cloud models still count against budgets
+const DEFAULT_PRICING: [number, number] = [1, 3];
+const FREE_PROVIDERS = ['local'];
+const HISTORY_DAYS = 400;
+
+/**
+ * Per-provider token and cost accounting, persisted next to config.json so
+ * budgets hold across restarts. Costs are estimates from list prices; token
+ * counts come from the provider when it reports them and from text length
+ * otherwise.
+ */
+class UsageTracker {
+  private usagePath: string;
+  private data: UsageFile = { budgets: {}, days: {} };
+  private initialized: Promise<void> | null = null;
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor() {
+    this.usagePath = path.join(app.getPath('userData'), 'usage.json');
+  }
+
+  private ensureInitialized(): Promise<void> {
+    if (!this.initialized) {
+      this.initialized = this.load();
+    }
+    return this.initialized;
+  }
+
+  private async load(): Promise<void> {
+    try {
+      const raw = JSON.parse(await fs.readFile(this.usagePath, 'utf8'));
+      this.data = { budgets: raw.budgets || {}, days: raw.days || {} };
+    } catch (error) {
+      // No usage recorded yet
+      this.data = { budgets: {}, days: {} };
+    }
+  }
+
+  private save(): Promise<void> {
+    // Serialize writes so overlapping records never interleave on disk
+    this.saving = this.saving
+      .then(() => fs.writeFile(this.usagePath, JSON.stringify(this.data)))
+      .catch(error => console.error('Failed to save API usage:', error));
+    return this.saving;
+  }
+
+  isFree(provider: string): boolean {
+    return FREE_PROVIDERS.includes(provider);
+  }
+
+  estimateCost(provider: string, model: string | undefined, inputTokens: number, outputTokens: number): number {
+    if (this.isFree(provider)) return 0;
+    const name = (model || '').toLowerCase();
+    const key = Object.keys(MODEL_PRICING)
+      .sort((a, b) => b.length - a.length)
+      .find(candidate => name.includes(candidate));
+    const [inputPrice, outputPrice] = key ? MODEL_PRICING[key] : DEFAULT_PRICING;
+    return (inputTokens * inputPrice + outputTokens * outputPrice) / 1_000_000;
+  }
+
+  async record(
+    provider: string,
+    model: string | undefined,
+    usage: { input_tokens?: number; output_tokens?: number } | undefined,
+    promptText: string,
+    responseText: string
+  ): Promise<void> {
+    await this.ensureInitialized();
+    // Roughly four characters per token when the provider doesn't say
+    const inputTokens = usage?.input_tokens ?? Math.ceil(promptText.length / 4);
+    const outputTokens = usage?.output_tokens ?? Math.ceil((responseText || '').length / 4);
+
+    const day = (this.data.days[this.dateKey(new Date())] ||= {});
+    const totals = (day[provider] ||= this.emptyTotals());
+    totals.calls++;
+    totals.inputTokens += inputTokens;
+    totals.outputTokens += outputTokens;
+    totals.costUsd += this.estimateCost(provider, model, inputTokens, outputTokens);
+
+    this.pruneHistory();
+    await this.save();
+  }
+
+  /**
+   * Whether a paid provider may be called right now. Free (local) providers
+   * are never blocked.
+   */
+  async checkBudget(provider?: string): Promise<BudgetStatus> {
+    await this.ensureInitialized();
+    if (provider && this.isFree(provider)) return { allowed: true };
+
+    const { dailyUsd, monthlyUsd, dailyCalls } = this.data.budgets;
+    const today = this.totalsFor(this.dateKey(new Date()));
+    const month = this.monthTotals();
+
+    if (dailyUsd !== undefined && today.costUsd >= dailyUsd) {
+      return { allowed: false, reason: `Daily AI budget of $${dailyUsd.toFixed(2)} reached` };
+    }
+    if (monthlyUsd !== undefined && month.costUsd >= monthlyUsd) {
+      return { allowed: false, reason: `Monthly AI budget of $${monthlyUsd.toFixed(2)} reached` };
+    }
+    if (dailyCalls !== undefined && today.calls >= dailyCalls) {
+      return { allowed: false, reason: `Daily limit of ${dailyCalls} AI calls reached` };
+    }
+    return { allowed: true };
+  }
+
+  async getBudgets(): Promise<UsageBudgets> {
+    await this.ensureInitialized();
+    return { ...this.data.budgets };
+  }
+
+  // Omitted or non-positive values remove that limit
+  async setBudgets(budgets: UsageBudgets): Promise<void> {
+    await this.ensureInitialized();
+    const clean = (value?: number) => (value !== undefined && value !== null && value > 0 ? value : undefined);
+    this.data.budgets = {
+      dailyUsd: clean(budgets.dailyUsd),
+      monthlyUsd: clean(budgets.monthlyUsd),
+      dailyCalls: clean(budgets.dailyCalls)
+    };
+    await this.save();
+  }
+
+  async getSummary(historyDays: number = 30): Promise<{
+    today: UsageTotals;
+    month: UsageTotals;
+    allTime: UsageTotals;
+    budgets: UsageBudgets;
+    history: UsageDay[];
+  }> {
+    await this.ensureInitialized();
+    const history: UsageDay[] = [];
+    const cursor = new Date();
+    cursor.setDate(cursor.getDate() - (historyDays - 1));
+    for (let i = 0; i < historyDays; i++) {
+      const date = this.dateKey(cursor);
+      history.push({ date, ...this.totalsFor(date), byProvider: { ...(this.data.days[date] || {}) } });
+      cursor.setDate(cursor.getDate() + 1);
+    }
+
+    return {
+      today: this.totalsFor(this.dateKey(new Date())),
+      month: this.monthTotals(),
+      allTime: this.sum(Object.keys(this.data.days)),
+      budgets: { ...this.data.budgets },
+      history
+    };
+  }
+
+  private totalsFor(date: string): UsageTotals {
+    return this.sum([date]);
+  }
+
+  private monthTotals(): UsageTotals {
+    const prefix = this.dateKey(new Date()).slice(0, 7);
+    return this.sum(Object.keys(this.data.days).filter(date => date.startsWith(prefix)));
+  }
+
+  private sum(dates: string[]): UsageTotals {
+    const total = this.emptyTotals();
+    for (const date of dates) {
+      for (const totals of Object.values(this.data.days[date] || {})) {
+        total.calls += totals.calls;
+        total.inputTokens += totals.inputTokens;
+        total.outputTokens += totals.outputTokens;
+        total.costUsd += totals.costUsd;
+      }
+    }
+    return total;
+  }
+
+  private pruneHistory(): void {
+    const dates = Object.keys(this.data.days).sort();
+    for (const date of dates.slice(0, Math.max(0, dates.length - HISTORY_DAYS))) {
+      delete this.data.days[date];
+    }
+  }
+
+  private emptyTotals(): UsageTotals {
+    return { calls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 };
+  }
+
+  private dateKey(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+  }
+}
+
+export const usageTracker = new UsageTracker();
+export type { UsageTracker };
@@ -1,7 +1,8 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import natural from 'natural';
 import Sentiment from 'sentiment';
 import { Conversation, DatingInsight, UserProfile } from '../database';
+import { UniversalAI } from '../ai/universalAI';
+import { DATING_ADVICE_TASK } from '../ai/structuredTasks';
 
 export interface MessageAnalysis {
   sentiment: number;
@@ -35,12 +36,12 @@ export interface DatingAdvice {
 }
 
 class ConversationAnalyzer {
-  private genAI: GoogleGenerativeAI;
+  private aiClient: UniversalAI;
   private sentiment: Sentiment;
   private stemmer: any;
 
-  constructor(apiKey: string) {
-    this.genAI = new GoogleGenerativeAI(apiKey);
+  constructor(aiClient: UniversalAI) {
+    this.aiClient = aiClient;
     this.sentiment = new Sentiment();
     this.stemmer = natural.PorterStemmer;
   }
@@ -55,7 +56,7 @@ class ConversationAnalyzer {
     const tokens = tokenizer.tokenize(message.toLowerCase());
     const keywords = this.extractKeywords(tokens || []);
 
-    // Tone analysis using Gemini
+    // Tone analysis using the configured AI provider
     const tonePrompt = `Analyze the tone of this dating app message and classify it into one category:
     Message: "${message}"
     
@@ -63,9 +64,8 @@ class ConversationAnalyzer {
     
     Respond with just the category name.`;
 
-    const toneModel = this.genAI.getGenerativeModel({ model: "gemini-1.5-flash" });
-    const toneResponse = await toneModel.generateContent(tonePrompt);
-    const tone = toneResponse.response.text().trim().toLowerCase();
+    const toneResponse = await this.aiClient.generateContent(tonePrompt);
+    const tone = toneResponse.text.trim().toLowerCase();
 
     // Engagement score calculation
     const engagement = this.calculateEngagement(message, keywords);
@@ -169,27 +169,14 @@ class ConversationAnalyzer {
     - Communication Style: ${userProfile.conversation_patterns.message_length_preference}
     - Interests: ${userProfile.preferences.interests.join(', ')}
 
-    Please provide 3-5 specific pieces of advice in this exact JSON format:
-    {
-      "advice": [
-        {
-          "type": "response|opener|topic_change|escalation|safety",
-          "message": "exact message to send",
-          "explanation": "why this works",
-          "confidence": 0.8,
-          "timing": "immediate|wait_1h|wait_3h|wait_1d|weekend",
-          "context": "brief context"
-        }
-      ]
-    }
+    Please provide 3-5 specific pieces of advice. For each, "message" is the exact message to send,
+    "explanation" says why it works, "confidence" is 0-1 and "context" is a brief note.
 
     Focus on actionable, specific advice that moves the conversation forward naturally.`;
 
     try {
-      const model = this.genAI.getGenerativeModel({ model: "gemini-1.5-flash" });
-      const response = await model.generateContent(advicePrompt);
-      const result = JSON.parse(response.response.text());
-      return result.advice || [];
+      const response = await this.aiClient.generateStructured<{ advice: DatingAdvice[] }>(advicePrompt, DATING_ADVICE_TASK);
+      return response.data.advice;
     } catch (error) {
       console.error('Error generating dating advice:', error);
       return this.getFallbackAdvice(conversation, analysisResult);
@@ -1,10 +1,7 @@
+import { ConversationTurn, parseTranscript } from './transcriptParser';
 const Sentiment = require('sentiment');
 
-export interface ConversationTurn {
-  speaker: 'user' | 'other';
-  message: string;
-  timestamp?: Date;
-}
+export type { ConversationTurn };
 
 export interface InterestMetrics {
   replyLength: number;
@@ -41,26 +38,7 @@ export class InterestDetector {
    * Parse conversation text into turns
    */
   parseConversation(conversationText: string): ConversationTurn[] {
-    const lines = conversationText.split('\n').filter(line => line.trim());
-    const turns: ConversationTurn[] = [];
-    let currentSpeaker: 'user' | 'other' = 'user';
-
-    for (const line of lines) {
-      const trimmed = line.trim();
-      if (!trimmed) continue;
-
-      // Simple heuristic: assume alternating speakers
-      // Could be enhanced with name detection or timestamps
-      turns.push({
-        speaker: currentSpeaker,
-        message: trimmed,
-      });
-
-      // Alternate speaker for next message
-      currentSpeaker = currentSpeaker === 'user' ? 'other' : 'user';
-    }
-
-    return turns;
+    return parseTranscript(conversationText);
   }
 
   /**
@@ -3,6 +3,11 @@ import { ConversationMetrics, DatingAdvice } from './conversationAnalyzer';
 
 export interface LearningOutcome {
   advice_id: string;
+  user_id: string;
+  conversation_id: string;
+  // The advice the feedback was about, kept so strategies can be rebuilt
+  advice_type: DatingAdvice['type'];
+  advice_message: string;
   effectiveness: number;
   context: string;
   timestamp: number;
@@ -38,8 +43,73 @@ export interface PersonalizedStrategy {
   };
 }
 
+// What the engine has learned for a user, for inspection in Settings
+export interface LearningState {
+  strategy: PersonalizedStrategy;
+  outcomeCount: number;
+  positiveOutcomes: number;
+  recentOutcomes: LearningOutcome[];
+}
+
+const RECENT_OUTCOME_LIMIT = 20;
+
 class LearningEngine {
   private strategies: Map<string, PersonalizedStrategy> = new Map();
+  private loaded: Promise<void> | null = null;
+
+  /**
+   * Rebuilds every strategy by replaying the stored outcomes in order, so
+   * what was learned survives restarts and follows changes to the rules
+   * below. Call again after outcomes are deleted or restored.
+   */
+  reload(): Promise<void> {
+    this.loaded = this.rebuildStrategies().catch(error => {
+      this.loaded = null;
+      throw error;
+    });
+    return this.loaded;
+  }
+
+  async getLearningState(userId: string = 'default'): Promise<LearningState> {
+    await this.ensureLoaded();
+    const outcomes = await databaseManager.getLearningOutcomes(userId);
+    return {
+      strategy: this.strategies.get(userId) || this.createDefaultStrategy(userId),
+      outcomeCount: outcomes.length,
+      positiveOutcomes: outcomes.filter(outcome => outcome.effectiveness > 0.7).length,
+      recentOutcomes: outcomes.slice(-RECENT_OUTCOME_LIMIT).reverse()
+    };
+  }
+
+  // Forgets the stored outcomes, the strategy and the learned profile data
+  async reset(userId: string = 'default'): Promise<void> {
+    await databaseManager.clearLearning(userId);
+    const userProfile = await databaseManager.getUserProfile(userId);
+    if (userProfile) {
+      userProfile.learning_data = {
+        successful_openers: [],
+        effective_responses: [],
+        topics_that_work: [],
+        timing_patterns: []
+      };
+      await databaseManager.saveUserProfile(userProfile);
+    }
+    this.strategies.delete(userId);
+  }
+
+  private ensureLoaded(): Promise<void> {
+    return this.loaded || this.reload();
+  }
+
+  private async rebuildStrategies(): Promise<void> {
+    const strategies = new Map<string, PersonalizedStrategy>();
+    for (const outcome of await databaseManager.getLearningOutcomes()) {
+      const strategy = strategies.get(outcome.user_id) || this.createDefaultStrategy(outcome.user_id);
+      this.applyOutcome(strategy, outcome);
+      strategies.set(outcome.user_id, strategy);
+    }
+    this.strategies = strategies;
+  }
 
   async learnFromOutcome(
     conversation: Conversation,
@@ -51,6 +121,10 @@ class LearningEngine {
     
     const learningOutcome: LearningOutcome = {
       advice_id: `${conversation.id}_${Date.now()}`,
+      user_id: userProfile.id,
+      conversation_id: conversation.id,
+      advice_type: advice.type,
+      advice_message: advice.message,
       effectiveness,
       context: advice.context,
       timestamp: Date.now(),
@@ -65,11 +139,13 @@ class LearningEngine {
     // Update user's learning data
     await this.updateUserLearningData(userProfile, advice, learningOutcome);
     
+    // Load strategies before storing the outcome, or a rebuild here would
+    // replay it and the update below would apply it twice
+    await this.ensureLoaded();
+    await databaseManager.saveLearningOutcome(learningOutcome);
+
     // Update personalized strategy
-    await this.updatePersonalizedStrategy(userProfile.id, learningOutcome, advice);
-    
-    // Store the learning outcome for future analysis
-    await this.storeLearningOutcome(learningOutcome);
+    await this.updatePersonalizedStrategy(learningOutcome);
   }
 
   async generatePersonalizedAdvice(
@@ -272,18 +348,20 @@ class LearningEngine {
     await databaseManager.saveUserProfile(updatedProfile);
   }
 
-  private async updatePersonalizedStrategy(
-    userId: string,
-    outcome: LearningOutcome,
-    advice: DatingAdvice
-  ): Promise<void> {
-    let strategy = this.strategies.get(userId) || this.createDefaultStrategy(userId);
-    
+  private async updatePersonalizedStrategy(outcome: LearningOutcome): Promise<void> {
+    await this.ensureLoaded();
+    const strategy = this.strategies.get(outcome.user_id) || this.createDefaultStrategy(outcome.user_id);
+    this.applyOutcome(strategy, outcome);
+    this.strategies.set(outcome.user_id, strategy);
+  }
+
+  // Uses only what the outcome recorded, so replaying it later gives the same result
+  private applyOutcome(strategy: PersonalizedStrategy, outcome: LearningOutcome): void {
     // Update timing preferences
     if (outcome.effectiveness > 0.7) {
-      const now = new Date();
-      const day = now.toLocaleDateString('en-US', { weekday: 'long' });
-      const hour = now.getHours();
+      const when = new Date(outcome.timestamp);
+      const day = when.toLocaleDateString('en-US', { weekday: 'long' });
+      const hour = when.getHours();
       
       if (!strategy.optimal_timing.days.includes(day)) {
         strategy.optimal_timing.days.push(day);
@@ -294,30 +372,18 @@ class LearningEngine {
     }
     
     // Update effective openers
-    if (advice.type === 'opener' && outcome.effectiveness > 0.7) {
+    if (outcome.advice_type === 'opener' && outcome.effectiveness > 0.7) {
       strategy.effective_openers.push({
-        message: advice.message,
+        message: outcome.advice_message,
         success_rate: outcome.effectiveness,
-        context: advice.context
+        context: outcome.context
       });
     }
-    
-    this.strategies.set(userId, strategy);
-  }
-
-  private async storeLearningOutcome(outcome: LearningOutcome): Promise<void> {
-    // Store in database for future analysis
-    // This could be implemented as a separate table in the database
-    console.log('Learning outcome stored:', outcome);
   }
 
   private async getPersonalizedStrategy(userId: string): Promise<PersonalizedStrategy | null> {
-    if (this.strategies.has(userId)) {
-      return this.strategies.get(userId)!;
-    }
-    
-    // Load from database or create default
-    return this.createDefaultStrategy(userId);
+    await this.ensureLoaded();
+    return this.strategies.get(userId) || this.createDefaultStrategy(userId);
   }
 
   private createDefaultStrategy(userId: string): PersonalizedStrategy {
@@ -0,0 +1,66 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { parseChatTimestamp, parseTranscript } from './transcriptParser';
+
+const reference = new Date(2024, 2, 12, 18, 0);
+
+test('keeps one-word messages that start like a day name', () => {
+  const turns = parseTranscript('hey how are you\nfriends\nmoney\nsunny here\nwedding?\nsaturn\nthursdayish');
+  assert.deepEqual(
+    turns.map(turn => turn.message),
+    ['hey how are you', 'friends', 'money', 'sunny here', 'wedding?', 'saturn', 'thursdayish']
+  );
+  assert.deepEqual(
+    turns.map(turn => turn.speaker),
+    ['other', 'user', 'other', 'user', 'other', 'user', 'other']
+  );
+});
+
+test('drops whole day names and stamps between messages', () => {
+  const turns = parseTranscript('Wednesday\nhi there\nTues 3:45 PM\nhey\nToday at 9:12\nhow was work?', {
+    referenceDate: reference
+  });
+  assert.deepEqual(turns.map(turn => turn.message), ['hi there', 'hey', 'how was work?']);
+  assert.equal(turns[1].timestamp?.getHours(), 15);
+  assert.equal(turns[1].timestamp?.getMinutes(), 45);
+});
+
+test('receipts mark the user in an unlabeled transcript', () => {
+  const turns = parseTranscript('are you free friday?\nsure\nSent Saturday\nmonday works too');
+  assert.deepEqual(
+    turns.map(turn => [turn.speaker, turn.message]),
+    [
+      ['user', 'are you free friday?'],
+      ['user', 'sure'],
+      ['other', 'monday works too']
+    ]
+  );
+});
+
+test('reads labels, continuation lines and bracketed stamps', () => {
+  const turns = parseTranscript('[3:45 PM] Alex: hi\nhow are you?\n[3:46 PM] Me: good, you?', {
+    referenceDate: reference
+  });
+  assert.deepEqual(
+    turns.map(turn => [turn.speaker, turn.speakerName, turn.message]),
+    [
+      ['other', 'Alex', 'hi\nhow are you?'],
+      ['user', 'Me', 'good, you?']
+    ]
+  );
+  assert.equal(turns[0].timestamp?.getMinutes(), 45);
+});
+
+test('a word on its own is not a speaker label', () => {
+  const turns = parseTranscript('Check this: a link\nfriends\nmoney');
+  assert.equal(turns.length, 3);
+  assert.equal(turns[1].message, 'friends');
+});
+
+test('parses chat timestamps', () => {
+  assert.equal(parseChatTimestamp('12/03/2024, 15:45', reference)?.getMonth(), 11);
+  assert.equal(parseChatTimestamp('12/03/2024, 15:45', reference, true)?.getMonth(), 2);
+  assert.equal(parseChatTimestamp('yesterday at 9:12 am', reference)?.getDate(), 11);
+  assert.equal(parseChatTimestamp('13/13/2024', reference), undefined);
+  assert.equal(parseChatTimestamp('friends', reference), undefined);
+});
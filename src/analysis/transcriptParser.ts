@@ -0,0 +1,374 @@
+export type TranscriptSpeaker = 'user' | 'other';
+
+export interface ConversationTurn {
+  speaker: TranscriptSpeaker;
+  message: string;
+  timestamp?: Date;
+  speakerName?: string;
+}
+
+export interface TranscriptParseOptions {
+  // Extra names (besides "Me"/"You") that refer to the person using the app
+  userAliases?: string[];
+  // Speaker assumed for the first message when nothing in the text says who wrote it
+  defaultFirstSpeaker?: TranscriptSpeaker;
+  // Day used for time-only stamps such as "Sent 3:45 PM"
+  referenceDate?: Date;
+}
+
+interface TimestampMatch {
+  date?: Date;
+  // Delivery receipts ("Sent", "Delivered", "Read", "Seen") only appear under the user's own messages
+  receipt: boolean;
+}
+
+interface PendingTurn {
+  speaker?: TranscriptSpeaker;
+  speakerName?: string;
+  lines: string[];
+  timestamp?: Date;
+}
+
+const USER_LABELS = ['me', 'you', 'i', 'user', 'myself'];
+const OTHER_LABELS = ['them', 'match', 'other', 'her', 'him', 'they'];
+
+const TIME_PATTERN = '\\d{1,2}[:.]\\d{2}(?:[:.]\\d{2})?\\s*(?:[ap]\\.?m\\.?)?';
+const DATE_PATTERN = '\\d{1,4}[\\/.-]\\d{1,2}[\\/.-]\\d{1,4}';
+// Whole day names only, so one-word messages like "friends" or "money" stay messages
+const DAY_PATTERN = '(?:today|yesterday|(?:mon|tue(?:s)?|wed(?:nes)?|thu(?:rs)?|fri|sat(?:ur)?|sun)(?:day)?)\\b';
+const STAMP_PATTERN =
+  `(?:(?:${DATE_PATTERN}|${DAY_PATTERN}),?\\s*(?:at\\s+)?)?${TIME_PATTERN}|${DATE_PATTERN}|${DAY_PATTERN}`;
+
+// "Sent 3:45 PM", "Read yesterday at 9:12", "Delivered", "Today 3:45 PM", "12/03/2024"
+const STANDALONE_STAMP = new RegExp(
+  `^(?:(sent|delivered|read|seen)(?:\\s+(?:at\\s+)?(${STAMP_PATTERN}))?|(${STAMP_PATTERN}))$`,
+  'i'
+);
+// "[3:45 PM] Alex: hi", "[12/03/2024, 15:45] Alex: hi"
+const BRACKETED_PREFIX = new RegExp(`^\\[(${STAMP_PATTERN})\\]\\s*(.*)$`, 'i');
+// WhatsApp: "12/03/24, 3:45 PM - Alex: hi"
+const DASHED_PREFIX = new RegExp(`^(${DATE_PATTERN},?\\s*${TIME_PATTERN})\\s+[-–]\\s+(.*)$`, 'i');
+// "Alex: hi", "Alex (3:45 PM): hi"
+const SPEAKER_PREFIX = new RegExp(
+  `^([\\p{L}][\\p{L}\\p{N} .'_-]{0,30}?)\\s*(?:\\((${STAMP_PATTERN})\\))?\\s*:\\s*(.*)$`,
+  'iu'
+);
+
+/**
+ * Turns a pasted chat transcript into speaker-resolved turns. This is the
+ * single parser behind every conversation analyzer, so "Name: text" labels,
+ * "You:"/"Me:" markers, timestamps and multi-line messages are read the same
+ * way everywhere.
+ */
+export class TranscriptParser {
+  private userAliases: Set<string>;
+  private defaultFirstSpeaker: TranscriptSpeaker;
+  private referenceDate: Date;
+
+  constructor(options: TranscriptParseOptions = {}) {
+    this.userAliases = new Set(
+      [...USER_LABELS, ...(options.userAliases || [])].map(alias => alias.trim().toLowerCase())
+    );
+    this.defaultFirstSpeaker = options.defaultFirstSpeaker || 'other';
+    this.referenceDate = options.referenceDate || new Date();
+  }
+
+  parse(text: string): ConversationTurn[] {
+    const lines = (text || '').replace(/\r\n?/g, '\n').split('\n').map(line => line.trim());
+    const speakerLabels = this.findSpeakerLabels(lines);
+
+    return speakerLabels.size > 0
+      ? this.parseLabeled(lines, speakerLabels)
+      : this.parseUnlabeled(lines);
+  }
+
+  /**
+   * Labels count as speakers when they are well-known markers ("Me", "Them"),
+   * repeat at least twice, or look like a capitalized name in a transcript
+   * with only one or two labels. This keeps one-off prose like
+   * "Check this: ..." from becoming a person.
+   */
+  private findSpeakerLabels(lines: string[]): Set<string> {
+    const counts = new Map<string, { count: number; name: string }>();
+
+    for (const line of lines) {
+      if (!line || this.matchStandaloneStamp(line)) continue;
+      const split = this.splitSpeaker(this.stripLeadingStamp(line).rest);
+      if (split) {
+        const entry = counts.get(split.label) || { count: 0, name: split.name };
+        entry.count++;
+        counts.set(split.label, entry);
+      }
+    }
+
+    const labels = new Set<string>();
+    counts.forEach(({ count, name }, label) => {
+      const looksLikeName = name.split(/\s+/).every(word => word[0] !== word[0].toLowerCase());
+      if (
+        this.userAliases.has(label) ||
+        OTHER_LABELS.includes(label) ||
+        count >= 2 ||
+        (counts.size <= 2 && looksLikeName)
+      ) {
+        labels.add(label);
+      }
+    });
+    return labels;
+  }
+
+  private parseLabeled(lines: string[], speakerLabels: Set<string>): ConversationTurn[] {
+    const pending: PendingTurn[] = [];
+    let current: PendingTurn | null = null;
+    const receiptNames = new Set<string>();
+    let nextTimestamp: Date | undefined;
+
+    for (const line of lines) {
+      if (!line) continue;
+
+      const stamp = this.matchStandaloneStamp(line);
+      if (stamp) {
+        if (stamp.receipt && current) {
+          current.timestamp = current.timestamp || stamp.date;
+          if (!current.speaker && current.speakerName) {
+            receiptNames.add(current.speakerName.toLowerCase());
+          }
+        } else {
+          nextTimestamp = stamp.date;
+        }
+        continue;
+      }
+
+      const { rest, date } = this.stripLeadingStamp(line);
+      const split = this.splitSpeaker(rest);
+
+      if (split && speakerLabels.has(split.label)) {
+        current = {
+          speakerName: split.name,
+          speaker: this.resolveLabel(split.label),
+          lines: split.message ? [split.message] : [],
+          timestamp: split.date || date || nextTimestamp,
+        };
+        pending.push(current);
+        nextTimestamp = undefined;
+      } else if (current) {
+        // Unlabeled line after a labeled one continues that message
+        current.lines.push(rest);
+      } else {
+        current = { lines: [rest], timestamp: date || nextTimestamp };
+        pending.push(current);
+        nextTimestamp = undefined;
+      }
+    }
+
+    this.resolveNamedSpeakers(pending, receiptNames);
+    return this.toTurns(pending);
+  }
+
+  /**
+   * Without labels every line is its own message. Receipts mark the user's
+   * messages; if there are none we fall back to alternating speakers.
+   */
+  private parseUnlabeled(lines: string[]): ConversationTurn[] {
+    const pending: PendingTurn[] = [];
+    let block: PendingTurn[] = [];
+    let nextTimestamp: Date | undefined;
+    let hasReceipts = false;
+
+    for (const line of lines) {
+      if (!line) {
+        block = [];
+        continue;
+      }
+
+      const stamp = this.matchStandaloneStamp(line);
+      if (stamp) {
+        if (stamp.receipt && block.length > 0) {
+          hasReceipts = true;
+          block.forEach(turn => {
+            turn.speaker = 'user';
+            turn.timestamp = turn.timestamp || stamp.date;
+          });
+        } else if (!stamp.receipt) {
+          nextTimestamp = stamp.date;
+        }
+        block = [];
+        continue;
+      }
+
+      const { rest, date } = this.stripLeadingStamp(line);
+      const turn: PendingTurn = { lines: [rest], timestamp: date || nextTimestamp };
+      nextTimestamp = undefined;
+      pending.push(turn);
+      block.push(turn);
+    }
+
+    pending.forEach((turn, index) => {
+      if (turn.speaker) return;
+      turn.speaker = hasReceipts ? 'other' : this.alternatingSpeaker(index);
+    });
+
+    return this.toTurns(pending);
+  }
+
+  /**
+   * Named speakers ("Alex: ...") are the match unless they were configured as
+   * the user or their messages carry delivery receipts. When nothing
+   * identifies the user, the speaker who talks second is taken as the user
+   * (per defaultFirstSpeaker) so an "Alex:"/"Sam:" transcript still splits
+   * into both sides.
+   */
+  private resolveNamedSpeakers(pending: PendingTurn[], receiptNames: Set<string>): void {
+    const hasUser = pending.some(turn => turn.speaker === 'user');
+    const names: string[] = [];
+
+    pending.forEach(turn => {
+      const key = turn.speakerName?.toLowerCase();
+      if (key && !turn.speaker && !names.includes(key)) names.push(key);
+    });
+
+    let userName: string | undefined;
+    if (receiptNames.size === 1) {
+      receiptNames.forEach(name => (userName = name));
+    } else if (!hasUser && names.length >= 2) {
+      userName = this.defaultFirstSpeaker === 'user' ? names[0] : names[1];
+    }
+
+    let lastSpeaker: TranscriptSpeaker | undefined;
+    pending.forEach((turn, index) => {
+      const key = turn.speakerName?.toLowerCase();
+      if (!turn.speaker) {
+        if (key) {
+          turn.speaker = key === userName ? 'user' : 'other';
+        } else {
+          // Leading unlabeled lines before the first label
+          turn.speaker = lastSpeaker
+            ? (lastSpeaker === 'user' ? 'other' : 'user')
+            : this.alternatingSpeaker(index);
+        }
+      }
+      lastSpeaker = turn.speaker;
+    });
+  }
+
+  private toTurns(pending: PendingTurn[]): ConversationTurn[] {
+    const turns: ConversationTurn[] = [];
+
+    for (const item of pending) {
+      const message = item.lines.join('\n').trim();
+      if (!message) continue;
+
+      const turn: ConversationTurn = { speaker: item.speaker || this.defaultFirstSpeaker, message };
+      if (item.timestamp) turn.timestamp = item.timestamp;
+      if (item.speakerName) turn.speakerName = item.speakerName;
+      turns.push(turn);
+    }
+
+    return turns;
+  }
+
+  private alternatingSpeaker(index: number): TranscriptSpeaker {
+    if (index % 2 === 0) return this.defaultFirstSpeaker;
+    return this.defaultFirstSpeaker === 'user' ? 'other' : 'user';
+  }
+
+  private resolveLabel(label: string): TranscriptSpeaker | undefined {
+    if (this.userAliases.has(label)) return 'user';
+    if (OTHER_LABELS.includes(label)) return 'other';
+    return undefined;
+  }
+
+  private splitSpeaker(line: string): { label: string; name: string; message: string; date?: Date } | null {
+    const match = line.match(SPEAKER_PREFIX);
+    if (!match) return null;
+
+    const name = match[1].trim();
+    // URLs ("https://...") and times ("3:45") are not speakers
+    if (!name || /^(https?|www|ftp)$/i.test(name) || /\/\//.test(match[3].slice(0, 2))) return null;
+    if (name.split(/\s+/).length > 3 || /\d$/.test(name)) return null;
+
+    return {
+      label: name.toLowerCase(),
+      name,
+      message: match[3].trim(),
+      date: match[2] ? this.parseStamp(match[2]) : undefined,
+    };
+  }
+
+  private stripLeadingStamp(line: string): { rest: string; date?: Date } {
+    const match = line.match(BRACKETED_PREFIX) || line.match(DASHED_PREFIX);
+    if (!match) return { rest: line };
+    return { rest: match[2].trim(), date: this.parseStamp(match[1]) };
+  }
+
+  private matchStandaloneStamp(line: string): TimestampMatch | null {
+    const match = line.match(STANDALONE_STAMP);
+    if (!match) return null;
+
+    const stampText = match[2] || match[3];
+    return {
+      receipt: Boolean(match[1]),
+      date: stampText ? this.parseStamp(stampText) : undefined,
+    };
+  }
+
+  private parseStamp(text: string): Date | undefined {
+    return parseChatTimestamp(text, this.referenceDate);
+  }
+}
+
+/**
+ * Best-effort conversion of chat-app stamps to a Date. Ambiguous numeric
+ * dates are read month-first (or day-first when asked) unless the first part
+ * cannot be a month. Time-only stamps land on the reference day.
+ */
+export function parseChatTimestamp(
+  text: string,
+  referenceDate: Date = new Date(),
+  dayFirst: boolean = false
+): Date | undefined {
+  const lower = text.toLowerCase();
+  const date = new Date(referenceDate.getTime());
+  date.setSeconds(0, 0);
+
+  if (lower.startsWith('yesterday')) {
+    date.setDate(date.getDate() - 1);
+  }
+
+  const dateMatch = lower.match(/(\d{1,4})[\/.-](\d{1,2})[\/.-](\d{1,4})/);
+  if (dateMatch) {
+    let [a, b, c] = dateMatch.slice(1).map(part => parseInt(part, 10));
+    let year: number, month: number, day: number;
+    if (dateMatch[1].length === 4) {
+      [year, month, day] = [a, b, c];
+    } else {
+      if (dayFirst ? b <= 12 : a > 12) [a, b] = [b, a];
+      [month, day, year] = [a, b, c < 100 ? 2000 + c : c];
+    }
+    if (month < 1 || month > 12 || day < 1 || day > 31) return undefined;
+    date.setFullYear(year, month - 1, day);
+  }
+
+  const timeText = dateMatch ? lower.replace(dateMatch[0], ' ') : lower;
+  const timeMatch = timeText.match(/(\d{1,2})[:.](\d{2})(?:[:.]\d{2})?\s*([ap])?\.?m?\.?/);
+  if (timeMatch) {
+    let hours = parseInt(timeMatch[1], 10);
+    const minutes = parseInt(timeMatch[2], 10);
+    if (timeMatch[3] === 'p' && hours < 12) hours += 12;
+    if (timeMatch[3] === 'a' && hours === 12) hours = 0;
+    if (hours > 23 || minutes > 59) return undefined;
+    date.setHours(hours, minutes);
+  } else if (!dateMatch) {
+    return undefined;
+  } else {
+    date.setHours(0, 0);
+  }
+
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Convenience wrapper used by the analyzers.
+ */
+export function parseTranscript(text: string, options?: TranscriptParseOptions): ConversationTurn[] {
+  return new TranscriptParser(options).parse(text);
+}
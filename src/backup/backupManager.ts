@@ -0,0 +1,212 @@
+import { app } from 'electron';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import * as zlib from 'zlib';
+import { promisify } from 'util';
+import { databaseManager, DatabaseSnapshot, SnapshotImportMode, SnapshotImportResult } from '../database';
+import { apiKeyManager, AppConfig } from '../config/apiKeyManager';
+
+const gzip = promisify(zlib.gzip);
+const gunzip = promisify(zlib.gunzip);
+
+const BACKUP_FORMAT = 'trustdating-backup';
+// Bump when BackupPayload changes shape, and teach upgradePayload the old one
+const BACKUP_FORMAT_VERSION = 2;
+
+export const BACKUP_FILE_EXTENSION = 'sdabackup';
+
+// What a backup carries. API keys and the database key never leave the device.
+export interface BackupPayload {
+  database: DatabaseSnapshot;
+  settings: Record<string, unknown>;
+  config: Partial<AppConfig>;
+}
+
+interface BackupArchive {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: number;
+  appVersion: string;
+  // SHA-256 of `payload`, checked before anything is restored
+  checksum: string;
+  payload: string;
+}
+
+// Shown to the user before they choose merge or replace
+export interface BackupSummary {
+  createdAt: number;
+  appVersion: string;
+  schemaVersion: number;
+  conversations: number;
+  messages: number;
+  userProfiles: number;
+  insights: number;
+  learningOutcomes: number;
+  historyItems: number;
+  warnings: string[];
+}
+
+/**
+ * Writes and restores single-file backups of everything the assistant keeps:
+ * the conversation database (history included), settings.json and the
+ * portable part of config.json. Archives are gzipped JSON with a checksum.
+ */
+export class BackupManager {
+  private settingsPath: string;
+
+  constructor(settingsPath: string = path.join(app.getPath('userData'), 'settings.json')) {
+    this.settingsPath = settingsPath;
+  }
+
+  async createBackup(filePath: string): Promise<BackupSummary> {
+    const payload: BackupPayload = {
+      database: await databaseManager.exportSnapshot(),
+      settings: await this.readSettings(),
+      config: await apiKeyManager.getPortableConfig()
+    };
+    const payloadJson = JSON.stringify(payload);
+    const archive: BackupArchive = {
+      format: BACKUP_FORMAT,
+      version: BACKUP_FORMAT_VERSION,
+      createdAt: Date.now(),
+      appVersion: app.getVersion(),
+      checksum: BackupManager.checksum(payloadJson),
+      payload: payloadJson
+    };
+
+    // Write beside the target first so a failed write never leaves half a backup
+    const tempPath = `${filePath}.partial`;
+    await fs.writeFile(tempPath, await gzip(JSON.stringify(archive)), { mode: 0o600 });
+    await fs.rename(tempPath, filePath);
+    return this.summarize(archive, payload, []);
+  }
+
+  // Reads and verifies a backup without changing anything
+  async inspectBackup(filePath: string): Promise<BackupSummary> {
+    const { archive, payload, warnings } = await this.readBackup(filePath);
+    return this.summarize(archive, payload, warnings);
+  }
+
+  async restoreBackup(filePath: string, mode: SnapshotImportMode): Promise<SnapshotImportResult> {
+    const { payload } = await this.readBackup(filePath);
+
+    const result = await databaseManager.importSnapshot(payload.database, mode);
+    await this.restoreSettings(payload.settings, mode);
+    await apiKeyManager.restorePortableConfig(payload.config, mode);
+    return result;
+  }
+
+  private async readBackup(filePath: string): Promise<{
+    archive: BackupArchive;
+    payload: BackupPayload;
+    warnings: string[];
+  }> {
+    let archive: BackupArchive;
+    try {
+      archive = JSON.parse((await gunzip(await fs.readFile(filePath))).toString('utf8'));
+    } catch (error) {
+      throw new Error('This file is not a Dating Assistant backup');
+    }
+    if (archive?.format !== BACKUP_FORMAT || typeof archive.payload !== 'string') {
+      throw new Error('This file is not a Dating Assistant backup');
+    }
+    if (archive.version > BACKUP_FORMAT_VERSION) {
+      throw new Error(`This backup was made by a newer version (${archive.appVersion}); update the app to restore it`);
+    }
+    if (BackupManager.checksum(archive.payload) !== archive.checksum) {
+      throw new Error('The backup is damaged: its contents do not match the checksum');
+    }
+
+    const payload = this.upgradePayload(JSON.parse(archive.payload), archive.version);
+    const warnings: string[] = [];
+    const schemaVersion = await databaseManager.getSchemaVersion();
+    if (payload.database.schemaVersion > schemaVersion) {
+      warnings.push(
+        'This backup comes from a newer version of the app. Anything this version does not know about will be left out.'
+      );
+    }
+    return { archive, payload, warnings };
+  }
+
+  // Fills in what older backup formats lack so restore only deals with the current shape
+  private upgradePayload(payload: any, version: number): BackupPayload {
+    if (version < 1 || !payload?.database) {
+      throw new Error('The backup is missing its database contents');
+    }
+    const database = payload.database;
+    return {
+      database: {
+        schemaVersion: database.schemaVersion || 0,
+        // Older backups have none; conversations are linked by alias on restore
+        contacts: (database.contacts || []).map((contact: any) => ({
+          ...contact,
+          aliases: contact.aliases || []
+        })),
+        conversations: (database.conversations || []).map((conversation: any) => ({
+          ...conversation,
+          messages: conversation.messages || [],
+          advice_history: conversation.advice_history || [],
+          trust_score: conversation.trust_score ?? 0.5,
+          conversation_health: conversation.conversation_health ?? 0.5,
+          relationship_stage: conversation.relationship_stage || 'initial',
+          updated_at: conversation.updated_at || conversation.last_interaction || 0
+        })),
+        userProfiles: (database.userProfiles || []).map((profile: any) => ({
+          ...profile,
+          updated_at: profile.updated_at || 0
+        })),
+        insights: database.insights || [],
+        learningOutcomes: database.learningOutcomes || [],
+        // Version 1 carried the renderer's history beside the database
+        history: ((version < 2 ? payload.history : database.history) || [])
+          .filter((item: any) => typeof item?.id === 'string' && typeof item.inputText === 'string')
+          .map((item: any) => ({
+            ...item,
+            type: item.type || 'smartReply',
+            outputSummary: item.outputSummary || '',
+            timestamp: item.timestamp || 0
+          })),
+        // Backups from before claimed facts were kept have none
+        claimedFacts: database.claimedFacts || [],
+        financialIdentifiers: database.financialIdentifiers || []
+      },
+      settings: payload.settings || {},
+      config: payload.config || {}
+    };
+  }
+
+  private summarize(archive: BackupArchive, payload: BackupPayload, warnings: string[]): BackupSummary {
+    const { database } = payload;
+    return {
+      createdAt: archive.createdAt,
+      appVersion: archive.appVersion,
+      schemaVersion: database.schemaVersion,
+      conversations: database.conversations.length,
+      messages: database.conversations.reduce((total, conversation) => total + conversation.messages.length, 0),
+      userProfiles: database.userProfiles.length,
+      insights: database.insights.length,
+      learningOutcomes: database.learningOutcomes.length,
+      historyItems: database.history.length,
+      warnings
+    };
+  }
+
+  private async readSettings(): Promise<Record<string, unknown>> {
+    try {
+      return JSON.parse(await fs.readFile(this.settingsPath, 'utf8'));
+    } catch (error) {
+      return {};
+    }
+  }
+
+  // Merge keeps local values and only fills in what is missing here
+  private async restoreSettings(settings: Record<string, unknown>, mode: SnapshotImportMode): Promise<void> {
+    const merged = mode === 'replace' ? settings : { ...settings, ...(await this.readSettings()) };
+    await fs.writeFile(this.settingsPath, JSON.stringify(merged));
+  }
+
+  private static checksum(payload: string): string {
+    return crypto.createHash('sha256').update(payload, 'utf8').digest('hex');
+  }
+}
@@ -1,30 +1,73 @@
 import { app } from 'electron';
 import { promises as fs } from 'fs';
 import * as path from 'path';
+import { CredentialVault, KeySummary, VaultStatus } from './credentialVault';
+
+type ProviderName = 'gemini' | 'openai' | 'anthropic' | 'openrouter' | 'custom' | 'local';
 
 interface AppConfig {
+  // Legacy plaintext keys; moved into the credential vault on first access
   geminiApiKey?: string;
   openaiApiKey?: string;
   anthropicApiKey?: string;
   openrouterApiKey?: string;
   customApiKey?: string;
-  selectedProvider?: 'gemini' | 'openai' | 'anthropic' | 'openrouter' | 'custom';
+  localApiKey?: string;
+  selectedProvider?: ProviderName;
+  geminiModel?: string;
+  openaiModel?: string;
+  anthropicModel?: string;
   openrouterModel?: string;
   customEndpoint?: string;
   customModel?: string;
+  // Self-hosted model server (Ollama, llama.cpp); the key is optional
+  localEndpoint?: string;
+  localModel?: string;
+  // Providers tried in order when the selected one is rate limited or down
+  fallbackProviders?: ProviderName[];
   firstRun?: boolean;
 }
 
+const LEGACY_KEY_FIELDS: Record<ProviderName, keyof AppConfig> = {
+  gemini: 'geminiApiKey',
+  openai: 'openaiApiKey',
+  anthropic: 'anthropicApiKey',
+  openrouter: 'openrouterApiKey',
+  custom: 'customApiKey',
+  local: 'localApiKey'
+};
+
 class ApiKeyManager {
   private configPath: string;
   private config: AppConfig = {};
   private initialized: boolean = false;
+  private vault: CredentialVault;
 
   constructor() {
     this.configPath = path.join(app.getPath('userData'), 'config.json');
+    this.vault = new CredentialVault();
     this.initialize();
   }
 
+  /**
+   * Moves plaintext keys left in config.json by older versions into the
+   * vault. A locked passphrase vault defers this until it is unlocked.
+   */
+  private async migrateLegacyKeys(): Promise<void> {
+    await this.ensureInitialized();
+    const legacy = (Object.keys(LEGACY_KEY_FIELDS) as ProviderName[])
+      .filter(provider => this.config[LEGACY_KEY_FIELDS[provider]]);
+    if (legacy.length === 0 || (await this.vault.isLocked())) return;
+
+    for (const provider of legacy) {
+      const field = LEGACY_KEY_FIELDS[provider];
+      await this.vault.addKey(provider, this.config[field] as string, 'Imported key');
+      delete this.config[field];
+    }
+    await this.saveConfig();
+    console.log(`Moved ${legacy.length} API key(s) from config.json into the credential vault`);
+  }
+
   private async initialize(): Promise<void> {
     await this.loadConfig();
     this.initialized = true;
@@ -58,64 +101,99 @@ class ApiKeyManager {
     }
   }
 
-  async setApiKey(provider: 'gemini' | 'openai' | 'anthropic' | 'openrouter' | 'custom', apiKey: string, options?: {
+  // Stores the key as a new named entry and makes it the active one
+  async setApiKey(provider: ProviderName, apiKey: string, options?: {
     model?: string;
     endpoint?: string;
+    keyName?: string;
   }): Promise<void> {
-    await this.ensureInitialized();
+    await this.migrateLegacyKeys();
+    if (apiKey) {
+      await this.vault.addKey(provider, apiKey, options?.keyName);
+    }
     switch (provider) {
       case 'gemini':
-        this.config.geminiApiKey = apiKey;
+        if (options?.model) this.config.geminiModel = options.model;
         break;
       case 'openai':
-        this.config.openaiApiKey = apiKey;
+        if (options?.model) this.config.openaiModel = options.model;
         break;
       case 'anthropic':
-        this.config.anthropicApiKey = apiKey;
+        if (options?.model) this.config.anthropicModel = options.model;
         break;
       case 'openrouter':
-        this.config.openrouterApiKey = apiKey;
         this.config.openrouterModel = options?.model || 'openrouter/horizon-alpha';
         break;
       case 'custom':
-        this.config.customApiKey = apiKey;
         this.config.customEndpoint = options?.endpoint;
         this.config.customModel = options?.model;
         break;
+      case 'local':
+        this.config.localEndpoint = options?.endpoint || 'http://localhost:11434/v1';
+        this.config.localModel = options?.model;
+        break;
     }
     this.config.selectedProvider = provider;
     this.config.firstRun = false;
     await this.saveConfig();
   }
 
-  async getApiKey(provider?: 'gemini' | 'openai' | 'anthropic' | 'openrouter' | 'custom'): Promise<string | undefined> {
-    await this.ensureInitialized();
-    const selectedProvider = provider || this.config.selectedProvider || 'gemini';
-    switch (selectedProvider) {
-      case 'gemini':
-        return this.config.geminiApiKey;
-      case 'openai':
-        return this.config.openaiApiKey;
-      case 'anthropic':
-        return this.config.anthropicApiKey;
-      case 'openrouter':
-        return this.config.openrouterApiKey;
-      case 'custom':
-        return this.config.customApiKey;
-      default:
-        return undefined;
-    }
+  // Full key for the main process only; never send this to the renderer
+  async getApiKey(provider?: ProviderName): Promise<string | undefined> {
+    await this.migrateLegacyKeys();
+    return this.vault.getActiveSecret(provider || this.config.selectedProvider || 'gemini');
+  }
+
+  // Inactive keys for the provider, in the order to rotate through them
+  async getAlternateApiKeys(provider: ProviderName): Promise<string[]> {
+    await this.migrateLegacyKeys();
+    return (await this.vault.getSecrets(provider)).slice(1);
+  }
+
+  async listApiKeys(provider?: ProviderName): Promise<KeySummary[]> {
+    await this.migrateLegacyKeys();
+    return this.vault.listKeys(provider);
+  }
+
+  // Masked form of the active key, safe to display
+  async getApiKeyHint(provider?: ProviderName): Promise<string | undefined> {
+    const selectedProvider = provider || (await this.getCurrentProvider());
+    const keys = await this.listApiKeys(selectedProvider as ProviderName);
+    return keys.find(key => key.active)?.hint;
+  }
+
+  async setActiveApiKey(provider: ProviderName, id: string): Promise<void> {
+    await this.vault.setActiveKey(provider, id);
+  }
+
+  async removeApiKey(provider: ProviderName, id: string): Promise<void> {
+    await this.vault.removeKey(provider, id);
+  }
+
+  async getVaultStatus(): Promise<VaultStatus> {
+    return this.vault.getStatus();
+  }
+
+  async unlockVault(passphrase: string): Promise<void> {
+    await this.vault.unlock(passphrase);
+    await this.migrateLegacyKeys();
   }
 
-  async getProviderConfig(): Promise<{
+  async getProviderConfig(requestedProvider?: ProviderName): Promise<{
     provider: string;
     model?: string;
     endpoint?: string;
   }> {
     await this.ensureInitialized();
-    const provider = this.config.selectedProvider || 'gemini';
+    const provider = requestedProvider || this.config.selectedProvider || 'gemini';
     
     switch (provider) {
+      case 'gemini':
+        return { provider, model: this.config.geminiModel || 'gemini-1.5-flash' };
+      case 'openai':
+        return { provider, model: this.config.openaiModel || 'gpt-4o-mini' };
+      case 'anthropic':
+        return { provider, model: this.config.anthropicModel || 'claude-3-haiku-20240307' };
       case 'openrouter':
         return {
           provider,
@@ -128,6 +206,12 @@ class ApiKeyManager {
           model: this.config.customModel,
           endpoint: this.config.customEndpoint
         };
+      case 'local':
+        return {
+          provider,
+          model: this.config.localModel,
+          endpoint: this.config.localEndpoint || 'http://localhost:11434/v1'
+        };
       default:
         return { provider };
     }
@@ -143,30 +227,98 @@ class ApiKeyManager {
     return this.config.firstRun !== false;
   }
 
+  // Local model servers run without credentials
+  requiresApiKey(provider: string): boolean {
+    return provider !== 'local';
+  }
+
   async hasValidApiKey(): Promise<boolean> {
     await this.ensureInitialized();
+    if (!this.requiresApiKey(this.config.selectedProvider || 'gemini')) {
+      return !!this.config.localEndpoint;
+    }
     const apiKey = await this.getApiKey();
     return !!(apiKey && apiKey.length > 10);
   }
 
+  // Providers that have everything they need to serve a request
+  async getConfiguredProviders(): Promise<ProviderName[]> {
+    await this.ensureInitialized();
+    const providers: ProviderName[] = ['gemini', 'openai', 'anthropic', 'openrouter', 'custom', 'local'];
+    const configured: ProviderName[] = [];
+    for (const provider of providers) {
+      if (provider === 'local' ? !!this.config.localEndpoint : !!(await this.getApiKey(provider))) {
+        configured.push(provider);
+      }
+    }
+    return configured;
+  }
+
+  async getFallbackProviders(): Promise<ProviderName[]> {
+    await this.ensureInitialized();
+    return [...(this.config.fallbackProviders || [])];
+  }
+
+  async setFallbackProviders(providers: ProviderName[]): Promise<void> {
+    await this.ensureInitialized();
+    this.config.fallbackProviders = providers.filter((provider, index) => providers.indexOf(provider) === index);
+    await this.saveConfig();
+  }
+
   async getConfig(): Promise<AppConfig> {
     await this.ensureInitialized();
     return { ...this.config };
   }
 
+  // Settings that can move to another machine: no keys and no per-install state
+  async getPortableConfig(): Promise<Partial<AppConfig>> {
+    await this.ensureInitialized();
+    return ApiKeyManager.portable(this.config);
+  }
+
+  // Merge keeps local values and only fills in what is missing here
+  async restorePortableConfig(config: Partial<AppConfig>, mode: 'merge' | 'replace'): Promise<void> {
+    await this.ensureInitialized();
+    const incoming = ApiKeyManager.portable(config);
+    if (mode === 'replace') {
+      const local = { ...this.config };
+      for (const field of Object.keys(ApiKeyManager.portable(local)) as Array<keyof AppConfig>) {
+        delete local[field];
+      }
+      this.config = { ...local, ...incoming };
+    } else {
+      this.config = { ...incoming, ...this.config };
+    }
+    await this.saveConfig();
+  }
+
+  private static portable(config: Partial<AppConfig>): Partial<AppConfig> {
+    const portable = { ...config };
+    for (const field of Object.values(LEGACY_KEY_FIELDS)) {
+      delete portable[field];
+    }
+    delete portable.firstRun;
+    return portable;
+  }
+
   async clearApiKeys(): Promise<void> {
     await this.ensureInitialized();
-    this.config.geminiApiKey = undefined;
-    this.config.openaiApiKey = undefined;
-    this.config.anthropicApiKey = undefined;
-    this.config.openrouterApiKey = undefined;
-    this.config.customApiKey = undefined;
+    await this.vault.clear();
+    for (const field of Object.values(LEGACY_KEY_FIELDS)) {
+      delete this.config[field];
+    }
+    this.config.geminiModel = undefined;
+    this.config.openaiModel = undefined;
+    this.config.anthropicModel = undefined;
     this.config.openrouterModel = undefined;
     this.config.customEndpoint = undefined;
     this.config.customModel = undefined;
+    this.config.localEndpoint = undefined;
+    this.config.localModel = undefined;
+    this.config.fallbackProviders = undefined;
     await this.saveConfig();
   }
 }
 
 export const apiKeyManager = new ApiKeyManager();
-export type { AppConfig };
+export type { AppConfig, ProviderName };
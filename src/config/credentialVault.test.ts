@@ -0,0 +1,73 @@
+// First, so the vault loads against the Electron stand-in
+import { fakeElectron } from '../testing/fakeElectron';
+import { test, beforeEach, afterEach } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CredentialVault } from './credentialVault';
+
+let dir: string;
+let vaultPath: string;
+
+beforeEach(async () => {
+  fakeElectron.keychainAvailable = true;
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'credential-vault-'));
+  vaultPath = path.join(dir, 'credentials.json');
+});
+
+afterEach(() => fs.rm(dir, { recursive: true, force: true }));
+
+test('keeps keys sealed by the keychain across restarts', async () => {
+  await new CredentialVault(vaultPath).addKey('openai', 'sk-first-1234');
+  const vault = new CredentialVault(vaultPath);
+  assert.equal(await vault.getActiveSecret('openai'), 'sk-first-1234');
+  assert.deepEqual(
+    (await vault.listKeys()).map(key => [key.provider, key.hint, key.active]),
+    [['openai', '••••1234', true]]
+  );
+  assert.doesNotMatch(await fs.readFile(vaultPath, 'utf8'), /sk-first/);
+});
+
+test('rotates keys, active first, and promotes the newest on removal', async () => {
+  const vault = new CredentialVault(vaultPath);
+  const first = await vault.addKey('openai', 'sk-first');
+  await vault.addKey('openai', 'sk-second');
+  await vault.addKey('openai', 'sk-third');
+  await vault.setActiveKey('openai', first.id);
+  assert.deepEqual(await vault.getSecrets('openai'), ['sk-first', 'sk-second', 'sk-third']);
+
+  await vault.removeKey('openai', first.id);
+  assert.equal(await vault.getActiveSecret('openai'), 'sk-third');
+  await assert.rejects(vault.setActiveKey('openai', first.id), /No openai key/);
+});
+
+test('a passphrase vault stays locked until the right passphrase', async () => {
+  fakeElectron.keychainAvailable = false;
+  const vault = new CredentialVault(vaultPath);
+  assert.deepEqual(await vault.getStatus(), { scheme: 'passphrase', initialized: false, locked: true });
+  await vault.unlock('correct horse');
+  await vault.addKey('anthropic', 'sk-ant-secret');
+
+  const reopened = new CredentialVault(vaultPath);
+  assert.equal(await reopened.getActiveSecret('anthropic'), undefined);
+  await assert.rejects(reopened.unlock('wrong'), /Incorrect passphrase/);
+  await reopened.unlock('correct horse');
+  assert.equal(await reopened.getActiveSecret('anthropic'), 'sk-ant-secret');
+});
+
+test('moves an unreadable vault aside instead of saving over it', async () => {
+  await fs.writeFile(vaultPath, '{"version":1,"scheme":"safeSto');
+  const vault = new CredentialVault(vaultPath);
+  assert.deepEqual(await vault.listKeys(), []);
+  await vault.addKey('openai', 'sk-new');
+
+  const aside = (await fs.readdir(dir)).find(file => file.startsWith('credentials.json.corrupt-'));
+  assert.ok(aside);
+  assert.equal(await fs.readFile(path.join(dir, aside), 'utf8'), '{"version":1,"scheme":"safeSto');
+});
+
+test('rethrows read errors other than a missing file', async () => {
+  await fs.mkdir(vaultPath);
+  await assert.rejects(new CredentialVault(vaultPath).listKeys(), { code: 'EISDIR' });
+});
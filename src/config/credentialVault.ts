@@ -0,0 +1,253 @@
+import { app, safeStorage } from 'electron';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+
+export type VaultScheme = 'safeStorage' | 'passphrase';
+
+export interface VaultStatus {
+  scheme: VaultScheme;
+  // False until a passphrase vault has had its passphrase chosen
+  initialized: boolean;
+  locked: boolean;
+}
+
+// What the renderer is allowed to see about a stored key
+export interface KeySummary {
+  id: string;
+  provider: string;
+  name: string;
+  hint: string;
+  active: boolean;
+  createdAt: number;
+}
+
+interface StoredKey {
+  id: string;
+  name: string;
+  createdAt: number;
+  last4: string;
+  secret: string;
+}
+
+interface VaultFile {
+  version: 1;
+  scheme: VaultScheme;
+  // Passphrase scheme only: scrypt salt and an encrypted marker to check the passphrase
+  salt?: string;
+  verifier?: string;
+  providers: Record<string, { activeId?: string; keys: StoredKey[] }>;
+}
+
+const VERIFIER_TEXT = 'trustdating-vault';
+
+/**
+ * Encrypted store for provider API keys. Uses the OS keychain through
+ * Electron safeStorage; where that is missing (or on Linux falls back to a
+ * hard-coded password) keys are sealed with AES-256-GCM under a key derived
+ * from a user passphrase, and stay locked until the user enters it.
+ */
+export class CredentialVault {
+  private vaultPath: string;
+  private vault: VaultFile | null = null;
+  private passphraseKey: Buffer | null = null;
+
+  constructor(vaultPath: string = path.join(app.getPath('userData'), 'credentials.json')) {
+    this.vaultPath = vaultPath;
+  }
+
+  async getStatus(): Promise<VaultStatus> {
+    const vault = await this.load();
+    if (vault.scheme === 'safeStorage') {
+      return { scheme: vault.scheme, initialized: true, locked: false };
+    }
+    return { scheme: vault.scheme, initialized: !!vault.verifier, locked: !this.passphraseKey };
+  }
+
+  /**
+   * Unlocks a passphrase vault, or sets the passphrase the first time.
+   * Throws when the passphrase doesn't match.
+   */
+  async unlock(passphrase: string): Promise<void> {
+    const vault = await this.load();
+    if (vault.scheme !== 'passphrase') return;
+    if (!passphrase) throw new Error('Passphrase required');
+
+    if (!vault.salt) vault.salt = crypto.randomBytes(16).toString('base64');
+    const key = crypto.scryptSync(passphrase, Buffer.from(vault.salt, 'base64'), 32);
+
+    if (!vault.verifier) {
+      this.passphraseKey = key;
+      vault.verifier = this.encrypt(VERIFIER_TEXT);
+      await this.save();
+      return;
+    }
+
+    try {
+      if (CredentialVault.openSealed(vault.verifier, key) !== VERIFIER_TEXT) throw new Error();
+    } catch (error) {
+      throw new Error('Incorrect passphrase');
+    }
+    this.passphraseKey = key;
+  }
+
+  lock(): void {
+    this.passphraseKey = null;
+  }
+
+  async isLocked(): Promise<boolean> {
+    return (await this.getStatus()).locked;
+  }
+
+  async addKey(provider: string, secret: string, name?: string): Promise<KeySummary> {
+    const vault = await this.load();
+    const entry = (vault.providers[provider] ||= { keys: [] });
+    const key: StoredKey = {
+      id: crypto.randomUUID(),
+      name: name?.trim() || `Key ${entry.keys.length + 1}`,
+      createdAt: Date.now(),
+      last4: secret.slice(-4),
+      secret: this.encrypt(secret)
+    };
+    entry.keys.push(key);
+    entry.activeId = key.id;
+    await this.save();
+    return this.summarize(provider, key, entry.activeId);
+  }
+
+  // Undefined when the provider has no key or the vault is locked
+  async getActiveSecret(provider: string): Promise<string | undefined> {
+    const vault = await this.load();
+    const entry = vault.providers[provider];
+    const key = entry?.keys.find(candidate => candidate.id === entry.activeId);
+    if (!key || (await this.isLocked())) return undefined;
+    return this.decrypt(key.secret);
+  }
+
+  // Every key for the provider, active one first; used to rotate past a failing key
+  async getSecrets(provider: string): Promise<string[]> {
+    const vault = await this.load();
+    const entry = vault.providers[provider];
+    if (!entry || (await this.isLocked())) return [];
+    const ordered = [...entry.keys].sort((a, b) => Number(b.id === entry.activeId) - Number(a.id === entry.activeId));
+    return ordered.map(key => this.decrypt(key.secret));
+  }
+
+  async listKeys(provider?: string): Promise<KeySummary[]> {
+    const vault = await this.load();
+    return Object.entries(vault.providers)
+      .filter(([name]) => !provider || name === provider)
+      .flatMap(([name, entry]) => entry.keys.map(key => this.summarize(name, key, entry.activeId)));
+  }
+
+  async setActiveKey(provider: string, id: string): Promise<void> {
+    const vault = await this.load();
+    const entry = vault.providers[provider];
+    if (!entry?.keys.some(key => key.id === id)) {
+      throw new Error(`No ${provider} key with id ${id}`);
+    }
+    entry.activeId = id;
+    await this.save();
+  }
+
+  // Removing the active key promotes the most recently added remaining one
+  async removeKey(provider: string, id: string): Promise<void> {
+    const vault = await this.load();
+    const entry = vault.providers[provider];
+    if (!entry) return;
+    entry.keys = entry.keys.filter(key => key.id !== id);
+    if (entry.activeId === id) {
+      entry.activeId = entry.keys[entry.keys.length - 1]?.id;
+    }
+    if (entry.keys.length === 0) delete vault.providers[provider];
+    await this.save();
+  }
+
+  async clear(): Promise<void> {
+    const vault = await this.load();
+    vault.providers = {};
+    await this.save();
+  }
+
+  private summarize(provider: string, key: StoredKey, activeId?: string): KeySummary {
+    return {
+      id: key.id,
+      provider,
+      name: key.name,
+      hint: `••••${key.last4}`,
+      active: key.id === activeId,
+      createdAt: key.createdAt
+    };
+  }
+
+  private async load(): Promise<VaultFile> {
+    if (this.vault) return this.vault;
+    // safeStorage answers isEncryptionAvailable() with false until the app is ready
+    await app.whenReady();
+    if (this.vault) return this.vault;
+    let contents: string;
+    try {
+      contents = await fs.readFile(this.vaultPath, 'utf8');
+    } catch (error) {
+      // Any other read error would have the next save replace keys we couldn't read
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      this.vault = CredentialVault.emptyVault();
+      return this.vault;
+    }
+    try {
+      this.vault = JSON.parse(contents) as VaultFile;
+    } catch (error) {
+      // Keep the damaged file for recovery rather than saving over it
+      const aside = `${this.vaultPath}.corrupt-${Date.now()}`;
+      await fs.rename(this.vaultPath, aside);
+      console.error(`Credential vault was unreadable, moved it to ${aside}:`, error);
+      this.vault = CredentialVault.emptyVault();
+    }
+    return this.vault;
+  }
+
+  private async save(): Promise<void> {
+    if (!this.vault) return;
+    await fs.writeFile(this.vaultPath, JSON.stringify(this.vault, null, 2), { mode: 0o600 });
+  }
+
+  private static emptyVault(): VaultFile {
+    return { version: 1, scheme: CredentialVault.preferredScheme(), providers: {} };
+  }
+
+  // safeStorage on Linux without a keyring "encrypts" with a fixed password, which protects nothing
+  private static preferredScheme(): VaultScheme {
+    if (!safeStorage.isEncryptionAvailable()) return 'passphrase';
+    if (process.platform === 'linux' && safeStorage.getSelectedStorageBackend() === 'basic_text') {
+      return 'passphrase';
+    }
+    return 'safeStorage';
+  }
+
+  private encrypt(plaintext: string): string {
+    if (this.vault?.scheme === 'safeStorage') {
+      return safeStorage.encryptString(plaintext).toString('base64');
+    }
+    if (!this.passphraseKey) throw new Error('Credential vault is locked');
+
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.passphraseKey, iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+    return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64');
+  }
+
+  private decrypt(sealed: string): string {
+    if (this.vault?.scheme === 'safeStorage') {
+      return safeStorage.decryptString(Buffer.from(sealed, 'base64'));
+    }
+    if (!this.passphraseKey) throw new Error('Credential vault is locked');
+    return CredentialVault.openSealed(sealed, this.passphraseKey);
+  }
+
+  private static openSealed(sealed: string, key: Buffer): string {
+    const data = Buffer.from(sealed, 'base64');
+    const decipher = crypto.createDecipheriv('aes-256-gcm', key, data.subarray(0, 12));
+    decipher.setAuthTag(data.subarray(12, 28));
+    return Buffer.concat([decipher.update(data.subarray(28)), decipher.final()]).toString('utf8');
+  }
+}
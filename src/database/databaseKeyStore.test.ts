@@ -0,0 +1,61 @@
+// First, so the store loads against the Electron stand-in
+import { fakeElectron } from '../testing/fakeElectron';
+import { test, beforeEach, afterEach } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DatabaseKeyStore } from './databaseKeyStore';
+
+let dir: string;
+let keyPath: string;
+let databasePath: string;
+
+beforeEach(async () => {
+  fakeElectron.keychainAvailable = true;
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'key-store-'));
+  keyPath = path.join(dir, 'database-key.json');
+  databasePath = path.join(dir, 'dating_assistant.db');
+});
+
+afterEach(() => fs.rm(dir, { recursive: true, force: true }));
+
+const store = () => new DatabaseKeyStore(keyPath, databasePath);
+
+test('creates a keychain key once and reads it back', async () => {
+  const key = await store().getKeychainKey();
+  assert.equal(key?.length, 32);
+  assert.deepEqual(await store().getKeychainKey(), key);
+});
+
+test('sets a passphrase where there is no keychain, then checks it', async () => {
+  fakeElectron.keychainAvailable = false;
+  const key = await store().unlockWithPassphrase('correct horse');
+  assert.deepEqual(await store().unlockWithPassphrase('correct horse'), key);
+  await assert.rejects(store().unlockWithPassphrase('wrong'), /Incorrect passphrase/);
+});
+
+test('moves an unreadable key file aside instead of replacing the key', async () => {
+  await fs.writeFile(keyPath, '{"version":1,"scheme":"keych');
+  await fs.writeFile(databasePath, Buffer.alloc(64, 7));
+
+  await assert.rejects(store().getKeychainKey(), /moved to .*database-key\.json\.corrupt-/);
+  const files = await fs.readdir(dir);
+  assert.ok(files.some(file => file.startsWith('database-key.json.corrupt-')));
+
+  // With the old key gone, a new one must not be made for the encrypted database
+  await assert.rejects(store().getKeychainKey(), /encrypted with a key that is missing/);
+  fakeElectron.keychainAvailable = false;
+  await assert.rejects(store().unlockWithPassphrase('new passphrase'), /encrypted with a key that is missing/);
+  await assert.rejects(fs.access(keyPath));
+});
+
+test('rethrows read errors other than a missing file', async () => {
+  await fs.mkdir(keyPath);
+  await assert.rejects(store().getKeychainKey(), { code: 'EISDIR' });
+});
+
+test('creates a key for a plaintext database from an older release', async () => {
+  await fs.writeFile(databasePath, Buffer.concat([Buffer.from('SQLite format 3\u0000'), Buffer.alloc(48)]));
+  assert.equal((await store().getKeychainKey())?.length, 32);
+});
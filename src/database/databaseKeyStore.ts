@@ -0,0 +1,260 @@
+import { app, safeStorage } from 'electron';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+
+export type DatabaseLockScheme = 'keychain' | 'passphrase';
+
+// A key change the caller applies to the database before commit() records it
+export interface PendingKeyChange {
+  key: Buffer;
+  // The key the database is encrypted with now, for rolling back
+  previousKey: Buffer;
+  commit: () => Promise<void>;
+}
+
+export interface AppLockStatus {
+  scheme: DatabaseLockScheme;
+  // False until a passphrase has been chosen where no keychain exists
+  initialized: boolean;
+  locked: boolean;
+  // Minutes of system idle time before the app locks itself; 0 disables it
+  idleLockMinutes: number;
+  keychainAvailable: boolean;
+}
+
+interface KeyFile {
+  version: 1;
+  scheme: DatabaseLockScheme;
+  // keychain: the random database key, sealed with safeStorage
+  sealedKey?: string;
+  // passphrase: scrypt salt and an encrypted marker to check the passphrase
+  salt?: string;
+  verifier?: string;
+  idleLockMinutes: number;
+}
+
+const VERIFIER_TEXT = 'trustdating-db';
+const KEY_BYTES = 32;
+const SQLITE_HEADER = 'SQLite format 3\u0000';
+
+/**
+ * Holds the key the conversation database is encrypted with. By default the
+ * key is random and sealed by the OS keychain, so the app opens without a
+ * prompt; once the user sets a passphrase the key is derived from it instead
+ * and the app can lock.
+ */
+export class DatabaseKeyStore {
+  private keyPath: string;
+  private databasePath: string;
+  private file: KeyFile | null = null;
+
+  constructor(
+    keyPath: string = path.join(app.getPath('userData'), 'database-key.json'),
+    databasePath: string = path.join(app.getPath('userData'), 'dating_assistant.db')
+  ) {
+    this.keyPath = keyPath;
+    this.databasePath = databasePath;
+  }
+
+  async getStatus(locked: boolean): Promise<AppLockStatus> {
+    const file = await this.load();
+    return {
+      scheme: file.scheme,
+      initialized: file.scheme === 'keychain' || !!file.verifier,
+      locked,
+      idleLockMinutes: file.idleLockMinutes,
+      keychainAvailable: DatabaseKeyStore.keychainAvailable()
+    };
+  }
+
+  async getScheme(): Promise<DatabaseLockScheme> {
+    return (await this.load()).scheme;
+  }
+
+  // The key for the keychain scheme, created on first use; null under a passphrase
+  async getKeychainKey(): Promise<Buffer | null> {
+    const file = await this.load();
+    if (file.scheme !== 'keychain') return null;
+
+    if (!file.sealedKey) {
+      await this.assertNoEncryptedDatabase();
+      const key = crypto.randomBytes(KEY_BYTES);
+      file.sealedKey = safeStorage.encryptString(key.toString('hex')).toString('base64');
+      await this.save();
+      return key;
+    }
+    return Buffer.from(safeStorage.decryptString(Buffer.from(file.sealedKey, 'base64')), 'hex');
+  }
+
+  /**
+   * Derives the database key from the passphrase, or sets the passphrase the
+   * first time on a system without a keychain. Throws when it doesn't match.
+   */
+  async unlockWithPassphrase(passphrase: string): Promise<Buffer> {
+    const file = await this.load();
+    if (file.scheme !== 'passphrase') throw new Error('No passphrase is set');
+    if (!passphrase) throw new Error('Passphrase required');
+
+    if (!file.verifier) {
+      await this.assertNoEncryptedDatabase();
+      const key = this.deriveKey(passphrase, true);
+      await this.save();
+      return key;
+    }
+    return this.checkPassphrase(passphrase);
+  }
+
+  /**
+   * Switches to (or changes) a passphrase. The caller re-encrypts the
+   * database with the new key and only then calls commit().
+   */
+  async preparePassphrase(currentPassphrase: string | undefined, nextPassphrase: string): Promise<PendingKeyChange> {
+    const previousKey = await this.currentKey(currentPassphrase);
+    const file = this.file!;
+    if (!nextPassphrase) throw new Error('Passphrase required');
+
+    const salt = crypto.randomBytes(16).toString('base64');
+    const key = crypto.scryptSync(nextPassphrase, Buffer.from(salt, 'base64'), KEY_BYTES);
+    return {
+      key,
+      previousKey,
+      commit: async () => {
+        file.scheme = 'passphrase';
+        file.salt = salt;
+        file.verifier = DatabaseKeyStore.seal(VERIFIER_TEXT, key);
+        delete file.sealedKey;
+        await this.save();
+      }
+    };
+  }
+
+  // Back to a keychain-held random key; same prepare/commit contract as preparePassphrase
+  async prepareKeychain(currentPassphrase: string): Promise<PendingKeyChange> {
+    if (!DatabaseKeyStore.keychainAvailable()) {
+      throw new Error('No OS keychain is available on this system');
+    }
+    const previousKey = await this.currentKey(currentPassphrase);
+    const file = this.file!;
+
+    const key = crypto.randomBytes(KEY_BYTES);
+    return {
+      key,
+      previousKey,
+      commit: async () => {
+        file.scheme = 'keychain';
+        file.sealedKey = safeStorage.encryptString(key.toString('hex')).toString('base64');
+        delete file.salt;
+        delete file.verifier;
+        await this.save();
+      }
+    };
+  }
+
+  async setIdleLockMinutes(minutes: number): Promise<void> {
+    const file = await this.load();
+    file.idleLockMinutes = Math.max(0, Math.round(minutes || 0));
+    await this.save();
+  }
+
+  private async currentKey(passphrase: string | undefined): Promise<Buffer> {
+    const file = await this.load();
+    if (file.scheme === 'keychain') return (await this.getKeychainKey())!;
+    return this.checkPassphrase(passphrase || '');
+  }
+
+  private checkPassphrase(passphrase: string): Buffer {
+    const key = this.deriveKey(passphrase, false);
+    try {
+      if (DatabaseKeyStore.open(this.file!.verifier!, key) !== VERIFIER_TEXT) throw new Error();
+    } catch (error) {
+      throw new Error('Incorrect passphrase');
+    }
+    return key;
+  }
+
+  private deriveKey(passphrase: string, initialize: boolean): Buffer {
+    const file = this.file!;
+    if (!file.salt) file.salt = crypto.randomBytes(16).toString('base64');
+    const key = crypto.scryptSync(passphrase, Buffer.from(file.salt, 'base64'), KEY_BYTES);
+    if (initialize) file.verifier = DatabaseKeyStore.seal(VERIFIER_TEXT, key);
+    return key;
+  }
+
+  private async load(): Promise<KeyFile> {
+    if (this.file) return this.file;
+    // safeStorage answers isEncryptionAvailable() with false until the app is ready
+    await app.whenReady();
+    if (this.file) return this.file;
+    let contents: string;
+    try {
+      contents = await fs.readFile(this.keyPath, 'utf8');
+    } catch (error) {
+      // Any other read error would have a new key replace the one we couldn't read
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      this.file = {
+        version: 1,
+        scheme: DatabaseKeyStore.keychainAvailable() ? 'keychain' : 'passphrase',
+        idleLockMinutes: 0
+      };
+      return this.file;
+    }
+    try {
+      const file = JSON.parse(contents) as KeyFile;
+      if (file?.scheme !== 'keychain' && file?.scheme !== 'passphrase') throw new Error('Unknown scheme');
+      this.file = file;
+    } catch (error) {
+      // Kept for recovery; the database can't be opened without it
+      const aside = `${this.keyPath}.corrupt-${Date.now()}`;
+      await fs.rename(this.keyPath, aside);
+      throw new Error(`The database key file was unreadable and has been moved to ${aside}`);
+    }
+    return this.file;
+  }
+
+  // A new key can't open a database encrypted under the old one, and saving
+  // it would lose the way back if the old key file turns up
+  private async assertNoEncryptedDatabase(): Promise<void> {
+    let header: string;
+    try {
+      const handle = await fs.open(this.databasePath, 'r');
+      try {
+        const buffer = Buffer.alloc(16);
+        const { bytesRead } = await handle.read(buffer, 0, 16, 0);
+        if (bytesRead === 0) return;
+        header = buffer.toString('latin1');
+      } finally {
+        await handle.close();
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+      throw error;
+    }
+    // A plaintext database from an older release is encrypted with the new key
+    if (header === SQLITE_HEADER) return;
+    throw new Error('The database is encrypted with a key that is missing. Restore database-key.json from a backup');
+  }
+
+  private async save(): Promise<void> {
+    if (!this.file) return;
+    await fs.writeFile(this.keyPath, JSON.stringify(this.file, null, 2), { mode: 0o600 });
+  }
+
+  private static keychainAvailable(): boolean {
+    return safeStorage.isEncryptionAvailable();
+  }
+
+  private static seal(plaintext: string, key: Buffer): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+    return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64');
+  }
+
+  private static open(sealed: string, key: Buffer): string {
+    const data = Buffer.from(sealed, 'base64');
+    const decipher = crypto.createDecipheriv('aes-256-gcm', key, data.subarray(0, 12));
+    decipher.setAuthTag(data.subarray(12, 28));
+    return Buffer.concat([decipher.update(data.subarray(28)), decipher.final()]).toString('utf8');
+  }
+}
@@ -1,11 +1,21 @@
-import sqlite3 from 'sqlite3';
+import sqlite3 from '@journeyapps/sqlcipher';
 import { app } from 'electron';
 import path from 'path';
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import { MIGRATIONS } from './migrations';
+import type { LearningOutcome } from '../analysis/learningEngine';
+import type { ClaimedFact } from '../safety/claimedFacts';
+import type { FinancialIdentifier, FinancialIdentifierSighting } from '../safety/financialIdentifiers';
+import type { DatePlan } from '../safety/dateCheckIn';
 
 export interface Conversation {
   id: string;
   platform: string;
+  // The name this thread shows for the person; `contact_id` is who they are
   contact: string;
+  // Resolved from (platform, contact) on save when missing
+  contact_id?: string;
   messages: Array<{
     text: string;
     timestamp: number;
@@ -39,6 +49,70 @@ export interface Conversation {
   }>;
 }
 
+export type ConversationSummary = Omit<Conversation, 'messages'> & { message_count: number };
+
+// One person, however many platforms and threads they appear in
+export interface Contact {
+  id: string;
+  display_name: string;
+  // Computed over the merged timeline, not any single thread
+  trust_score: number;
+  aliases: Array<{ platform: string; alias: string }>;
+  created_at: number;
+  updated_at: number;
+}
+
+export interface ContactSummary extends Contact {
+  conversation_count: number;
+  message_count: number;
+  last_interaction: number;
+}
+
+// Matched terms in `snippet` are wrapped in SNIPPET_START/SNIPPET_END
+export const SNIPPET_START = '\u0002';
+export const SNIPPET_END = '\u0003';
+
+export interface MessageSearchResult {
+  messageId: number;
+  conversationId: string;
+  contact: string;
+  platform: string;
+  sender: 'user' | 'contact';
+  timestamp: number;
+  text: string;
+  snippet: string;
+}
+
+export type HistoryType = 'smartReply' | 'catfish' | 'quality';
+
+// A smart reply, catfish or quality check, kept so it can be reopened later
+export interface HistoryItem {
+  id: string;
+  type: HistoryType;
+  inputText: string;
+  outputSummary: string;
+  // The full result the view showed
+  result?: unknown;
+  conversationId?: string;
+  contactId?: string;
+  timestamp: number;
+}
+
+export interface HistorySearchResult extends HistoryItem {
+  snippet: string;
+}
+
+export interface HistoryQuery {
+  type?: HistoryType;
+  conversationId?: string;
+  contactId?: string;
+  limit?: number;
+}
+
+// Short lines like "hi" appear in every conversation, so they never link or
+// match a history item to one
+const MIN_HISTORY_MATCH_LENGTH = 12;
+
 export interface UserProfile {
   id: string;
   preferences: {
@@ -84,112 +158,381 @@ export interface DatingInsight {
   effectiveness?: number;
 }
 
+// Every stored record in the shapes the app works with, independent of the
+// table layout, so a snapshot can be restored into a newer schema
+export interface DatabaseSnapshot {
+  schemaVersion: number;
+  contacts: Contact[];
+  conversations: Array<Conversation & { updated_at: number }>;
+  userProfiles: Array<UserProfile & { updated_at: number }>;
+  insights: DatingInsight[];
+  learningOutcomes: LearningOutcome[];
+  history: HistoryItem[];
+  // Kept apart from messages: retention may have blanked the text they came from
+  claimedFacts: ClaimedFact[];
+  // Which wallets and accounts each contact sent, for spotting reuse
+  financialIdentifiers: FinancialIdentifier[];
+}
+
+export type SnapshotImportMode = 'merge' | 'replace';
+
+// Records written by importSnapshot; merge skips ones that are already newer here
+export interface SnapshotImportResult {
+  conversations: number;
+  userProfiles: number;
+  insights: number;
+  learningOutcomes: number;
+  historyItems: number;
+}
+
+// Unset or 0 leaves that rule off
+export interface RetentionPolicy {
+  // Delete conversations (with their messages and insights) idle this long
+  deleteInactiveAfterDays?: number;
+  // Blank the text of older messages; counts, timing, analysis and scores stay
+  purgeMessageTextAfterDays?: number;
+}
+
+export interface RetentionResult {
+  deletedConversations: number;
+  purgedMessages: number;
+  deletedHistory: number;
+}
+
+export interface DeleteResult {
+  conversations: number;
+  messages: number;
+  insights: number;
+  learningOutcomes: number;
+  historyItems: number;
+}
+
+// Rows as stored; JSON columns are still strings and optional ones are null
+interface ConversationRow {
+  id: string;
+  platform: string;
+  contact: string;
+  contact_id: string | null;
+  profile: string | null;
+  relationship_stage: Conversation['relationship_stage'];
+  first_interaction: number;
+  last_interaction: number;
+  trust_score: number;
+  conversation_health: number;
+  advice_history: string;
+  updated_at: number;
+}
+
+interface MessageRow {
+  id: number;
+  conversation_id: string;
+  position: number;
+  sender: 'user' | 'contact';
+  timestamp: number;
+  text: string;
+  analysis: string | null;
+}
+
+interface UserProfileRow {
+  id: string;
+  preferences: string;
+  dating_goals: string;
+  conversation_patterns: string;
+  success_metrics: string;
+  learning_data: string;
+  updated_at: number;
+}
+
+interface InsightRow {
+  id: string;
+  conversation_id: string;
+  type: DatingInsight['type'];
+  message: string;
+  confidence: number;
+  timestamp: number;
+  acted_upon: number;
+  effectiveness: number | null;
+}
+
+type LearningOutcomeRow = Omit<LearningOutcome, 'factors'> & { factors: string };
+
+type ContactRow = Omit<Contact, 'aliases'>;
+
+interface ContactAliasRow {
+  contact_id: string;
+  platform: string;
+  alias: string;
+}
+
+interface HistoryRow {
+  id: string;
+  type: HistoryType;
+  input_text: string;
+  output_summary: string;
+  result: string | null;
+  conversation_id: string | null;
+  contact_id: string | null;
+  timestamp: number;
+}
+
+type ClaimedFactRow = ClaimedFact & { id: number };
+
+type DatePlanRow = Omit<DatePlan, 'conversation_id' | 'last_check_in_at' | 'trust_score'> & {
+  conversation_id: string | null;
+  last_check_in_at: number | null;
+  trust_score: number | null;
+};
+
+type FinancialIdentifierRow = Omit<FinancialIdentifier, 'validated'> & { id: number; validated: number };
+
 class DatabaseManager {
   private db: sqlite3.Database | null = null;
-  private dbPath: string;
+  // Pending while the database is locked; settles once it is unlocked and
+  // migrated, and every query waits on it
+  private ready!: Promise<void>;
+  private markReady!: () => void;
+  private transactionQueue: Promise<unknown> = Promise.resolve();
 
   constructor() {
-    this.dbPath = path.join(app.getPath('userData'), 'dating_assistant.db');
-    this.initializeDatabase();
+    this.resetReady();
   }
 
-  private initializeDatabase(): void {
-    this.db = new sqlite3.Database(this.dbPath, (err) => {
-      if (err) {
-        console.error('Error opening database:', err);
-        return;
+  // Resolved on use, so tools that run without Electron's app (the safety
+  // evaluation) can import modules that depend on this one
+  private get dbPath(): string {
+    return path.join(app.getPath('userData'), 'dating_assistant.db');
+  }
+
+  whenReady(): Promise<void> {
+    return this.ready;
+  }
+
+  isUnlocked(): boolean {
+    return this.db !== null;
+  }
+
+  /**
+   * Opens the SQLCipher database with its raw 32-byte key and runs pending
+   * migrations. A plaintext database from an older release is encrypted in
+   * place first. Throws when the key is wrong.
+   */
+  async unlock(key: Buffer): Promise<void> {
+    if (this.db) return;
+    if (await this.isPlaintextDatabase()) {
+      await this.encryptPlaintextDatabase(key);
+    }
+
+    const db = await DatabaseManager.openConnection(this.dbPath);
+    try {
+      await DatabaseManager.runOn(db, `PRAGMA key = "${DatabaseManager.rawKey(key)}"`);
+      // SQLCipher only checks the key on first read
+      await DatabaseManager.runOn(db, `SELECT count(*) FROM sqlite_master`);
+    } catch (error) {
+      db.close();
+      throw new Error('Could not decrypt the database');
+    }
+
+    this.db = db;
+    try {
+      await this.migrate();
+    } catch (error) {
+      // Stay locked so the next unlock retries rather than queries hanging
+      this.db = null;
+      db.close();
+      throw error;
+    }
+    this.markReady();
+  }
+
+  // Closes the connection and forgets the key; queries wait until the next unlock
+  async lock(): Promise<void> {
+    if (!this.db) return;
+    await this.transactionQueue;
+    const db = this.db;
+    this.db = null;
+    this.resetReady();
+    await new Promise<void>((resolve, reject) => db.close(err => (err ? reject(err) : resolve())));
+  }
+
+  // Re-encrypts every page under a new key, e.g. after a passphrase change
+  async rekey(key: Buffer): Promise<void> {
+    await this.ready;
+    await this.transactionQueue;
+    await this.run(`PRAGMA rekey = "${DatabaseManager.rawKey(key)}"`);
+  }
+
+  private resetReady(): void {
+    this.ready = new Promise<void>(resolve => {
+      this.markReady = resolve;
+    });
+  }
+
+  private async isPlaintextDatabase(): Promise<boolean> {
+    try {
+      const handle = await fs.open(this.dbPath, 'r');
+      try {
+        const header = Buffer.alloc(16);
+        await handle.read(header, 0, 16, 0);
+        return header.toString('latin1') === 'SQLite format 3\u0000';
+      } finally {
+        await handle.close();
       }
-      this.createTables();
+    } catch (error) {
+      // No database yet
+      return false;
+    }
+  }
+
+  private async encryptPlaintextDatabase(key: Buffer): Promise<void> {
+    const encryptedPath = `${this.dbPath}.encrypting`;
+    await fs.rm(encryptedPath, { force: true });
+
+    const db = await DatabaseManager.openConnection(this.dbPath);
+    try {
+      await DatabaseManager.runOn(db, `ATTACH DATABASE ? AS encrypted KEY ?`, [encryptedPath, DatabaseManager.rawKey(key)]);
+      await DatabaseManager.runOn(db, `SELECT sqlcipher_export('encrypted')`);
+      await DatabaseManager.runOn(db, `DETACH DATABASE encrypted`);
+    } finally {
+      await new Promise<void>(resolve => db.close(() => resolve()));
+    }
+
+    await fs.rename(encryptedPath, this.dbPath);
+    console.log('Encrypted the existing conversation database');
+  }
+
+  private static rawKey(key: Buffer): string {
+    return `x'${key.toString('hex')}'`;
+  }
+
+  private static openConnection(filePath: string): Promise<sqlite3.Database> {
+    return new Promise((resolve, reject) => {
+      const db = new sqlite3.Database(filePath, (err) => {
+        if (err) reject(err);
+        else resolve(db);
+      });
     });
   }
 
-  private createTables(): void {
-    if (!this.db) return;
+  // Resolves with the number of rows changed
+  private static runOn(db: sqlite3.Database, sql: string, params: unknown[] = []): Promise<number> {
+    return new Promise((resolve, reject) => {
+      db.run(sql, params, function (this: sqlite3.RunResult, err: Error | null) {
+        if (err) reject(err);
+        else resolve(this.changes);
+      });
+    });
+  }
 
-    // Create tables first
-    const createTableQueries = [
-      `CREATE TABLE IF NOT EXISTS conversations (
-        id TEXT PRIMARY KEY,
-        platform TEXT NOT NULL,
-        contact TEXT NOT NULL,
-        messages TEXT NOT NULL,
-        profile TEXT,
-        relationship_stage TEXT DEFAULT 'initial',
-        first_interaction INTEGER NOT NULL,
-        last_interaction INTEGER NOT NULL,
-        trust_score REAL DEFAULT 0.5,
-        conversation_health REAL DEFAULT 0.5,
-        advice_history TEXT DEFAULT '[]',
-        created_at INTEGER DEFAULT (strftime('%s', 'now')),
-        updated_at INTEGER DEFAULT (strftime('%s', 'now'))
-      )`,
-      
-      `CREATE TABLE IF NOT EXISTS user_profiles (
-        id TEXT PRIMARY KEY,
-        preferences TEXT NOT NULL,
-        dating_goals TEXT NOT NULL,
-        conversation_patterns TEXT NOT NULL,
-        success_metrics TEXT NOT NULL,
-        learning_data TEXT NOT NULL,
-        created_at INTEGER DEFAULT (strftime('%s', 'now')),
-        updated_at INTEGER DEFAULT (strftime('%s', 'now'))
-      )`,
-      
-      `CREATE TABLE IF NOT EXISTS dating_insights (
-        id TEXT PRIMARY KEY,
-        conversation_id TEXT NOT NULL,
-        type TEXT NOT NULL,
-        message TEXT NOT NULL,
-        confidence REAL NOT NULL,
-        timestamp INTEGER NOT NULL,
-        acted_upon BOOLEAN DEFAULT FALSE,
-        effectiveness REAL,
-        created_at INTEGER DEFAULT (strftime('%s', 'now'))
-      )`
-    ];
-
-    // Create indexes after tables
-    const createIndexQueries = [
-      `CREATE INDEX IF NOT EXISTS idx_conversations_contact ON conversations(contact)`,
-      `CREATE INDEX IF NOT EXISTS idx_conversations_platform ON conversations(platform)`,
-      `CREATE INDEX IF NOT EXISTS idx_insights_conversation ON dating_insights(conversation_id)`,
-      `CREATE INDEX IF NOT EXISTS idx_insights_type ON dating_insights(type)`
-    ];
-
-    // Execute table creation first
-    createTableQueries.forEach(sql => {
-      this.db!.run(sql, (err) => {
-        if (err) console.error('Error creating table:', err);
+  private async migrate(): Promise<void> {
+    await this.run(`CREATE TABLE IF NOT EXISTS schema_version (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at INTEGER NOT NULL
+    )`);
+    const row = await this.get<{ version: number | null }>(`SELECT MAX(version) AS version FROM schema_version`);
+    const current = row?.version || 0;
+
+    const pending = MIGRATIONS
+      .filter(migration => migration.version > current)
+      .sort((a, b) => a.version - b.version);
+
+    for (const migration of pending) {
+      await this.runInTransaction(async () => {
+        for (const sql of migration.statements) {
+          await this.run(sql);
+        }
+        await this.run(
+          `INSERT INTO schema_version (version, name, applied_at) VALUES (?, ?, ?)`,
+          [migration.version, migration.name, Date.now()]
+        );
       });
+      console.log(`Applied database migration ${migration.version} (${migration.name})`);
+    }
+  }
+
+  async getSchemaVersion(): Promise<number> {
+    await this.ready;
+    const row = await this.get<{ version: number | null }>(`SELECT MAX(version) AS version FROM schema_version`);
+    return row?.version || 0;
+  }
+
+  /**
+   * Runs `work` inside BEGIN/COMMIT, rolling back if it throws. Transactions
+   * are queued because the connection is shared: statements from two
+   * overlapping transactions would otherwise land in the same one, and
+   * `work` must not start another transaction itself.
+   */
+  async transaction<T>(work: () => Promise<T>): Promise<T> {
+    await this.ready;
+    return this.runInTransaction(work);
+  }
+
+  private runInTransaction<T>(work: () => Promise<T>): Promise<T> {
+    const result = this.transactionQueue.then(async () => {
+      await this.run('BEGIN IMMEDIATE');
+      try {
+        const value = await work();
+        await this.run('COMMIT');
+        return value;
+      } catch (error) {
+        await this.run('ROLLBACK').catch(rollbackError =>
+          console.error('Error rolling back transaction:', rollbackError)
+        );
+        throw error;
+      }
     });
+    this.transactionQueue = result.catch(() => undefined);
+    return result;
+  }
+
+  private run(sql: string, params: unknown[] = []): Promise<number> {
+    if (!this.db) return Promise.reject(new Error('Database is locked'));
+    return DatabaseManager.runOn(this.db, sql, params);
+  }
 
-    // Execute index creation after a brief delay to ensure tables exist
-    setTimeout(() => {
-      createIndexQueries.forEach(sql => {
-        this.db!.run(sql, (err) => {
-          if (err) console.error('Error creating index:', err);
-        });
+  private get<T>(sql: string, params: unknown[] = []): Promise<T | undefined> {
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('Database is locked'));
+        return;
+      }
+      this.db.get(sql, params, (err, row) => {
+        if (err) reject(err);
+        else resolve(row as T | undefined);
       });
-    }, 100);
+    });
   }
 
-  async saveConversation(conversation: Conversation): Promise<void> {
+  private all<T>(sql: string, params: unknown[] = []): Promise<T[]> {
     return new Promise((resolve, reject) => {
       if (!this.db) {
-        reject(new Error('Database not initialized'));
+        reject(new Error('Database is locked'));
         return;
       }
+      this.db.all(sql, params, (err, rows) => {
+        if (err) reject(err);
+        else resolve(rows as T[]);
+      });
+    });
+  }
 
-      const sql = `INSERT OR REPLACE INTO conversations 
-        (id, platform, contact, messages, profile, relationship_stage, 
-         first_interaction, last_interaction, trust_score, conversation_health, advice_history, updated_at)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`;
+  async saveConversation(conversation: Conversation): Promise<void> {
+    await this.transaction(() => this.writeConversation(conversation));
+  }
 
-      const params = [
+  // Must run inside a transaction
+  private async writeConversation(conversation: Conversation, updatedAt: number = Date.now()): Promise<void> {
+    conversation.contact_id = await this.ensureContactId(conversation);
+    await this.run(
+      `INSERT OR REPLACE INTO conversations
+        (id, platform, contact, contact_id, profile, relationship_stage,
+         first_interaction, last_interaction, trust_score, conversation_health, advice_history, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
         conversation.id,
         conversation.platform,
         conversation.contact,
-        JSON.stringify(conversation.messages),
+        conversation.contact_id,
         JSON.stringify(conversation.profile),
         conversation.relationship_stage,
         conversation.first_interaction,
@@ -197,89 +540,177 @@ class DatabaseManager {
         conversation.trust_score,
         conversation.conversation_health,
         JSON.stringify(conversation.advice_history),
-        Date.now()
-      ];
+        updatedAt
+      ]
+    );
 
-      this.db.run(sql, params, function(err) {
-        if (err) reject(err);
-        else resolve();
-      });
-    });
+    // Upsert by position so unchanged messages keep their rows (and their
+    // full-text index entries); a shorter history drops the tail
+    for (const [position, message] of conversation.messages.entries()) {
+      await this.run(
+        `INSERT INTO messages (conversation_id, position, sender, timestamp, text, analysis)
+          VALUES (?, ?, ?, ?, ?, ?)
+          ON CONFLICT (conversation_id, position) DO UPDATE SET
+            sender = excluded.sender,
+            timestamp = excluded.timestamp,
+            text = excluded.text,
+            analysis = excluded.analysis
+          WHERE text IS NOT excluded.text
+            OR sender IS NOT excluded.sender
+            OR timestamp IS NOT excluded.timestamp
+            OR analysis IS NOT excluded.analysis`,
+        [
+          conversation.id,
+          position,
+          message.sender,
+          message.timestamp,
+          message.text,
+          message.analysis ? JSON.stringify(message.analysis) : null
+        ]
+      );
+    }
+    await this.run(
+      `DELETE FROM messages WHERE conversation_id = ? AND position >= ?`,
+      [conversation.id, conversation.messages.length]
+    );
   }
 
   async getConversation(id: string): Promise<Conversation | null> {
-    return new Promise((resolve, reject) => {
-      if (!this.db) {
-        reject(new Error('Database not initialized'));
-        return;
-      }
+    await this.ready;
+    const row = await this.get<ConversationRow>(`SELECT * FROM conversations WHERE id = ?`, [id]);
+    if (!row) return null;
 
-      const sql = `SELECT * FROM conversations WHERE id = ?`;
-      this.db.get(sql, [id], (err, row: any) => {
-        if (err) {
-          reject(err);
-          return;
-        }
-        
-        if (!row) {
-          resolve(null);
-          return;
-        }
-
-        resolve({
-          id: row.id,
-          platform: row.platform,
-          contact: row.contact,
-          messages: JSON.parse(row.messages),
-          profile: row.profile ? JSON.parse(row.profile) : undefined,
-          relationship_stage: row.relationship_stage,
-          first_interaction: row.first_interaction,
-          last_interaction: row.last_interaction,
-          trust_score: row.trust_score,
-          conversation_health: row.conversation_health,
-          advice_history: JSON.parse(row.advice_history)
-        });
-      });
-    });
+    const messages = await this.all<MessageRow>(
+      `SELECT * FROM messages WHERE conversation_id = ? ORDER BY position`,
+      [id]
+    );
+    return this.toConversation(row, messages.map(message => this.toMessage(message)));
   }
 
   async getAllConversations(): Promise<Conversation[]> {
-    return new Promise((resolve, reject) => {
-      if (!this.db) {
-        reject(new Error('Database not initialized'));
-        return;
-      }
+    await this.ready;
+    return this.loadConversations();
+  }
 
-      const sql = `SELECT * FROM conversations ORDER BY last_interaction DESC`;
-      this.db.all(sql, [], (err, rows: any[]) => {
-        if (err) {
-          reject(err);
-          return;
-        }
+  // Conversations matching `where` (a filter on the conversations table) with their messages
+  private async loadConversations(where: string = '', params: unknown[] = []): Promise<Conversation[]> {
+    const rows = await this.all<ConversationRow>(`SELECT * FROM conversations ${where} ORDER BY last_interaction DESC`, params);
+    const messageRows = await this.all<MessageRow>(
+      `SELECT * FROM messages
+        WHERE conversation_id IN (SELECT id FROM conversations ${where})
+        ORDER BY conversation_id, position`,
+      params
+    );
 
-        const conversations = rows.map(row => ({
-          id: row.id,
-          platform: row.platform,
-          contact: row.contact,
-          messages: JSON.parse(row.messages),
-          profile: row.profile ? JSON.parse(row.profile) : undefined,
-          relationship_stage: row.relationship_stage,
-          first_interaction: row.first_interaction,
-          last_interaction: row.last_interaction,
-          trust_score: row.trust_score,
-          conversation_health: row.conversation_health,
-          advice_history: JSON.parse(row.advice_history)
-        }));
-
-        resolve(conversations);
-      });
+    const messagesByConversation = new Map<string, Conversation['messages']>();
+    for (const message of messageRows) {
+      const list = messagesByConversation.get(message.conversation_id) || [];
+      list.push(this.toMessage(message));
+      messagesByConversation.set(message.conversation_id, list);
+    }
+    return rows.map(row => this.toConversation(row, messagesByConversation.get(row.id) || []));
+  }
+
+  // Conversation metadata without loading any messages, for lists and the dashboard
+  async getConversationSummaries(): Promise<ConversationSummary[]> {
+    await this.ready;
+    const rows = await this.all<ConversationRow & { message_count: number }>(
+      `SELECT c.*, (SELECT COUNT(*) FROM messages m WHERE m.conversation_id = c.id) AS message_count
+        FROM conversations c
+        ORDER BY c.last_interaction DESC`
+    );
+    return rows.map(row => {
+      const { messages, ...conversation } = this.toConversation(row, []);
+      return { ...conversation, message_count: row.message_count };
     });
   }
 
+  /**
+   * Full-text search across every stored message, best matches first. Each
+   * word is matched as a prefix after stemming, so "boulder" also finds
+   * "bouldering".
+   */
+  async searchMessages(query: string, options: { limit?: number; conversationId?: string } = {}): Promise<MessageSearchResult[]> {
+    await this.ready;
+    const match = this.toFtsQuery(query);
+    if (!match) return [];
+
+    const params: unknown[] = [match];
+    let filter = '';
+    if (options.conversationId) {
+      filter = 'AND m.conversation_id = ?';
+      params.push(options.conversationId);
+    }
+    params.push(options.limit || 50);
+
+    const rows = await this.all<
+      Pick<MessageRow, 'id' | 'conversation_id' | 'sender' | 'timestamp' | 'text'> &
+        Pick<ConversationRow, 'contact' | 'platform'> & { snippet: string }
+    >(
+      `SELECT m.id, m.conversation_id, m.sender, m.timestamp, m.text, c.contact, c.platform,
+          snippet(messages_fts, 0, ?, ?, '…', 16) AS snippet
+        FROM messages_fts
+        JOIN messages m ON m.id = messages_fts.rowid
+        JOIN conversations c ON c.id = m.conversation_id
+        WHERE messages_fts MATCH ? ${filter}
+        ORDER BY bm25(messages_fts)
+        LIMIT ?`,
+      [SNIPPET_START, SNIPPET_END, ...params]
+    );
+
+    return rows.map(row => ({
+      messageId: row.id,
+      conversationId: row.conversation_id,
+      contact: row.contact,
+      platform: row.platform,
+      sender: row.sender,
+      timestamp: row.timestamp,
+      text: row.text,
+      snippet: row.snippet
+    }));
+  }
+
+  // User input becomes quoted prefix terms so FTS5 operators and punctuation can't break the query
+  private toFtsQuery(query: string): string {
+    return query
+      .split(/\s+/)
+      .map(term => term.replace(/"/g, ''))
+      .filter(term => term.length > 0)
+      .map(term => `"${term}"*`)
+      .join(' ');
+  }
+
+  private toMessage(row: MessageRow): Conversation['messages'][number] {
+    return {
+      text: row.text,
+      timestamp: row.timestamp,
+      sender: row.sender,
+      analysis: row.analysis ? JSON.parse(row.analysis) : undefined
+    };
+  }
+
+  private toConversation(row: ConversationRow, messages: Conversation['messages']): Conversation {
+    return {
+      id: row.id,
+      platform: row.platform,
+      contact: row.contact,
+      contact_id: row.contact_id || undefined,
+      messages,
+      profile: row.profile ? JSON.parse(row.profile) : undefined,
+      relationship_stage: row.relationship_stage,
+      first_interaction: row.first_interaction,
+      last_interaction: row.last_interaction,
+      trust_score: row.trust_score,
+      conversation_health: row.conversation_health,
+      advice_history: JSON.parse(row.advice_history)
+    };
+  }
+
   async saveUserProfile(profile: UserProfile): Promise<void> {
+    await this.ready;
     return new Promise((resolve, reject) => {
       if (!this.db) {
-        reject(new Error('Database not initialized'));
+        reject(new Error('Database is locked'));
         return;
       }
 
@@ -305,9 +736,10 @@ class DatabaseManager {
   }
 
   async getUserProfile(id: string = 'default'): Promise<UserProfile | null> {
+    await this.ready;
     return new Promise((resolve, reject) => {
       if (!this.db) {
-        reject(new Error('Database not initialized'));
+        reject(new Error('Database is locked'));
         return;
       }
 
@@ -323,22 +755,16 @@ class DatabaseManager {
           return;
         }
 
-        resolve({
-          id: row.id,
-          preferences: JSON.parse(row.preferences),
-          dating_goals: JSON.parse(row.dating_goals),
-          conversation_patterns: JSON.parse(row.conversation_patterns),
-          success_metrics: JSON.parse(row.success_metrics),
-          learning_data: JSON.parse(row.learning_data)
-        });
+        resolve(this.toUserProfile(row));
       });
     });
   }
 
   async saveDatingInsight(insight: DatingInsight): Promise<void> {
+    await this.ready;
     return new Promise((resolve, reject) => {
       if (!this.db) {
-        reject(new Error('Database not initialized'));
+        reject(new Error('Database is locked'));
         return;
       }
 
@@ -365,9 +791,10 @@ class DatabaseManager {
   }
 
   async getInsightsForConversation(conversationId: string): Promise<DatingInsight[]> {
+    await this.ready;
     return new Promise((resolve, reject) => {
       if (!this.db) {
-        reject(new Error('Database not initialized'));
+        reject(new Error('Database is locked'));
         return;
       }
 
@@ -378,22 +805,841 @@ class DatabaseManager {
           return;
         }
 
-        const insights = rows.map(row => ({
-          id: row.id,
-          conversation_id: row.conversation_id,
-          type: row.type,
-          message: row.message,
-          confidence: row.confidence,
+        resolve(rows.map(row => this.toInsight(row)));
+      });
+    });
+  }
+
+  async exportSnapshot(): Promise<DatabaseSnapshot> {
+    await this.ready;
+    const updatedAt = new Map(
+      (await this.all<Pick<ConversationRow, 'id' | 'updated_at'>>(`SELECT id, updated_at FROM conversations`)).map(
+        row => [row.id, row.updated_at]
+      )
+    );
+    const conversations = (await this.getAllConversations()).map(conversation => ({
+      ...conversation,
+      updated_at: updatedAt.get(conversation.id) || conversation.last_interaction
+    }));
+    const userProfiles = (await this.all<UserProfileRow>(`SELECT * FROM user_profiles`)).map(row => ({
+      ...this.toUserProfile(row),
+      updated_at: row.updated_at
+    }));
+    const insights = (await this.all<InsightRow>(`SELECT * FROM dating_insights ORDER BY timestamp`)).map(row =>
+      this.toInsight(row)
+    );
+
+    const aliases = await this.getAliasesByContact();
+    const contacts = (await this.all<ContactRow>(`SELECT * FROM contacts`)).map(row =>
+      this.toContact(row, aliases.get(row.id) || [])
+    );
+
+    return {
+      schemaVersion: await this.getSchemaVersion(),
+      contacts,
+      conversations,
+      userProfiles,
+      insights,
+      learningOutcomes: await this.getLearningOutcomes(),
+      history: await this.listHistory(),
+      claimedFacts: (await this.all<ClaimedFactRow>(`SELECT * FROM claimed_facts ORDER BY timestamp`)).map(row =>
+        this.toClaimedFact(row)
+      ),
+      financialIdentifiers: (await this.all<FinancialIdentifierRow>(`SELECT * FROM financial_identifiers ORDER BY timestamp`)).map(
+        row => ({
+          kind: row.kind,
+          value: row.value,
+          validated: !!row.validated,
           timestamp: row.timestamp,
-          acted_upon: row.acted_upon,
-          effectiveness: row.effectiveness
-        }));
+          conversation_id: row.conversation_id
+        })
+      )
+    };
+  }
 
-        resolve(insights);
-      });
+  /**
+   * Writes a snapshot in one transaction. Replace empties the tables first;
+   * merge keeps whichever copy of a conversation or profile was updated last
+   * and adds insights, learning outcomes, claimed facts and payment
+   * identifiers it doesn't have yet. Learned strategies are left for the
+   * LearningEngine to rebuild. Date plans aren't in snapshots and stay as
+   * they are, so a restore doesn't cancel the check-ins of a date under way.
+   */
+  async importSnapshot(snapshot: DatabaseSnapshot, mode: SnapshotImportMode): Promise<SnapshotImportResult> {
+    return this.transaction(async () => {
+      if (mode === 'replace') {
+        for (const table of [
+          'messages',
+          'conversations',
+          'contacts',
+          'contact_aliases',
+          'user_profiles',
+          'dating_insights',
+          'learning_outcomes',
+          'analysis_history',
+          'claimed_facts',
+          'financial_identifiers'
+        ]) {
+          await this.run(`DELETE FROM ${table}`);
+        }
+      }
+      const result: SnapshotImportResult = {
+        conversations: 0,
+        userProfiles: 0,
+        insights: 0,
+        learningOutcomes: 0,
+        historyItems: 0
+      };
+
+      // Contacts already here keep their name and links; conversations whose
+      // contact is missing are linked by alias when written
+      for (const contact of snapshot.contacts) {
+        await this.run(
+          `INSERT OR IGNORE INTO contacts (id, display_name, trust_score, created_at, updated_at) VALUES (?, ?, ?, ?, ?)`,
+          [contact.id, contact.display_name, contact.trust_score, contact.created_at, contact.updated_at]
+        );
+        for (const alias of contact.aliases) {
+          await this.run(
+            `INSERT OR IGNORE INTO contact_aliases (contact_id, platform, alias) VALUES (?, ?, ?)`,
+            [contact.id, alias.platform, alias.alias]
+          );
+        }
+      }
+
+      for (const conversation of snapshot.conversations) {
+        const existing = await this.get<{ updated_at: number }>(
+          `SELECT updated_at FROM conversations WHERE id = ?`,
+          [conversation.id]
+        );
+        if (existing && existing.updated_at >= conversation.updated_at) continue;
+        const { updated_at, ...record } = conversation;
+        await this.writeConversation(record, updated_at);
+        result.conversations++;
+      }
+
+      for (const profile of snapshot.userProfiles) {
+        const existing = await this.get<{ updated_at: number }>(
+          `SELECT updated_at FROM user_profiles WHERE id = ?`,
+          [profile.id]
+        );
+        if (existing && existing.updated_at >= profile.updated_at) continue;
+        await this.run(
+          `INSERT OR REPLACE INTO user_profiles
+            (id, preferences, dating_goals, conversation_patterns, success_metrics, learning_data, updated_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?)`,
+          [
+            profile.id,
+            JSON.stringify(profile.preferences),
+            JSON.stringify(profile.dating_goals),
+            JSON.stringify(profile.conversation_patterns),
+            JSON.stringify(profile.success_metrics),
+            JSON.stringify(profile.learning_data),
+            profile.updated_at
+          ]
+        );
+        result.userProfiles++;
+      }
+
+      for (const insight of snapshot.insights) {
+        const existing = await this.get(`SELECT 1 FROM dating_insights WHERE id = ?`, [insight.id]);
+        if (existing) continue;
+        await this.run(
+          `INSERT INTO dating_insights
+            (id, conversation_id, type, message, confidence, timestamp, acted_upon, effectiveness)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+          [
+            insight.id,
+            insight.conversation_id,
+            insight.type,
+            insight.message,
+            insight.confidence,
+            insight.timestamp,
+            insight.acted_upon,
+            insight.effectiveness
+          ]
+        );
+        result.insights++;
+      }
+
+      for (const outcome of snapshot.learningOutcomes) {
+        result.learningOutcomes += await this.writeLearningOutcome(outcome, 'OR IGNORE');
+      }
+      for (const item of snapshot.history) {
+        result.historyItems += await this.writeHistoryItem(item);
+      }
+      for (const fact of snapshot.claimedFacts) {
+        await this.writeClaimedFact(fact);
+      }
+      for (const identifier of snapshot.financialIdentifiers) {
+        await this.writeFinancialIdentifier(identifier);
+      }
+      // Snapshot contacts whose conversations were all older than ours
+      await this.deleteOrphanedContacts();
+      return result;
+    });
+  }
+
+  /**
+   * Removes the contact and every conversation with them on any platform,
+   * with its messages, insights, claimed facts, payment identifiers, date
+   * plans and history.
+   * History saved without a link goes too when it names them or quotes one
+   * of their messages.
+   */
+  async forgetContact(contactId: string): Promise<DeleteResult> {
+    return this.transaction(async () => {
+      const names = [
+        ...(await this.all<{ name: string }>(`SELECT display_name AS name FROM contacts WHERE id = ?`, [contactId])),
+        ...(await this.all<{ name: string }>(`SELECT alias AS name FROM contact_aliases WHERE contact_id = ?`, [contactId]))
+      ].map(row => row.name);
+      const texts = (
+        await this.all<{ text: string }>(
+          `SELECT m.text FROM messages m
+            JOIN conversations c ON c.id = m.conversation_id
+            WHERE c.contact_id = ? AND m.text <> ''`,
+          [contactId]
+        )
+      ).map(row => row.text);
+
+      const unlinked = await this.deleteHistoryMentioning(names, texts);
+      const result = await this.deleteConversationsWhere(`contact_id = ?`, [contactId]);
+      return { ...result, historyItems: result.historyItems + unlinked };
+    });
+  }
+
+  async getContacts(): Promise<ContactSummary[]> {
+    await this.ready;
+    const rows = await this.all<Omit<ContactSummary, 'aliases'>>(
+      `SELECT k.*,
+          COUNT(c.id) AS conversation_count,
+          COALESCE(MAX(c.last_interaction), k.updated_at) AS last_interaction,
+          (SELECT COUNT(*) FROM messages m
+            JOIN conversations mc ON mc.id = m.conversation_id
+            WHERE mc.contact_id = k.id) AS message_count
+        FROM contacts k
+        LEFT JOIN conversations c ON c.contact_id = k.id
+        GROUP BY k.id
+        ORDER BY last_interaction DESC`
+    );
+    const aliases = await this.getAliasesByContact();
+    return rows.map(row => ({
+      ...this.toContact(row, aliases.get(row.id) || []),
+      conversation_count: row.conversation_count,
+      message_count: row.message_count,
+      last_interaction: row.last_interaction
+    }));
+  }
+
+  async getContactConversations(contactId: string): Promise<Conversation[]> {
+    await this.ready;
+    return this.loadConversations(`WHERE contact_id = ?`, [contactId]);
+  }
+
+  /**
+   * Every message with the person across all of their conversations, oldest
+   * first, as one conversation for person-level analysis. `current` stands in
+   * for its stored copy so messages not saved yet are included.
+   */
+  async getContactTimeline(contactId: string, current?: Conversation): Promise<Conversation | null> {
+    const threads = (await this.getContactConversations(contactId)).filter(thread => thread.id !== current?.id);
+    if (current) threads.push(current);
+    if (threads.length === 0) return null;
+
+    const latest = current || threads[0];
+    return {
+      ...latest,
+      contact_id: contactId,
+      messages: threads.flatMap(thread => thread.messages).sort((a, b) => a.timestamp - b.timestamp),
+      first_interaction: Math.min(...threads.map(thread => thread.first_interaction)),
+      last_interaction: Math.max(...threads.map(thread => thread.last_interaction)),
+      advice_history: threads.flatMap(thread => thread.advice_history).sort((a, b) => a.timestamp - b.timestamp)
+    };
+  }
+
+  // The contact a (platform, name) pair belongs to, creating one for a new name
+  async resolveContactId(platform: string, alias: string): Promise<string> {
+    return this.transaction(() => this.findOrCreateContact(platform, alias));
+  }
+
+  // The score applies to the person, so every thread with them shares it
+  async setContactTrustScore(contactId: string, trustScore: number): Promise<void> {
+    await this.transaction(async () => {
+      await this.run(`UPDATE contacts SET trust_score = ?, updated_at = ? WHERE id = ?`, [trustScore, Date.now(), contactId]);
+      await this.run(`UPDATE conversations SET trust_score = ? WHERE contact_id = ?`, [trustScore, contactId]);
     });
   }
 
+  async renameContact(contactId: string, displayName: string): Promise<void> {
+    await this.ready;
+    await this.run(`UPDATE contacts SET display_name = ?, updated_at = ? WHERE id = ?`, [displayName, Date.now(), contactId]);
+  }
+
+  // How far things have gone with the person, on every one of their threads
+  async setContactStage(contactId: string, stage: Conversation['relationship_stage']): Promise<void> {
+    await this.ready;
+    await this.run(`UPDATE conversations SET relationship_stage = ? WHERE contact_id = ?`, [stage, contactId]);
+  }
+
+  // Folds the other contacts, with their conversations and aliases, into the target
+  async mergeContacts(targetId: string, sourceIds: string[]): Promise<void> {
+    const sources = sourceIds.filter(id => id !== targetId);
+    if (sources.length === 0) return;
+    const placeholders = sources.map(() => '?').join(', ');
+
+    await this.transaction(async () => {
+      if (!(await this.get(`SELECT 1 FROM contacts WHERE id = ?`, [targetId]))) {
+        throw new Error(`No contact with id ${targetId}`);
+      }
+      await this.run(`UPDATE conversations SET contact_id = ? WHERE contact_id IN (${placeholders})`, [targetId, ...sources]);
+      await this.run(`UPDATE contact_aliases SET contact_id = ? WHERE contact_id IN (${placeholders})`, [targetId, ...sources]);
+      await this.run(`DELETE FROM contacts WHERE id IN (${placeholders})`, sources);
+      await this.run(`UPDATE contacts SET updated_at = ? WHERE id = ?`, [Date.now(), targetId]);
+    });
+  }
+
+  /**
+   * Moves the given conversations to a new contact, for threads that were
+   * merged by mistake. Aliases go along unless a remaining thread still
+   * uses them. Returns the new contact's id.
+   */
+  async splitContact(contactId: string, conversationIds: string[], displayName?: string): Promise<string> {
+    return this.transaction(async () => {
+      const threads = await this.all<{ id: string; platform: string; contact: string }>(
+        `SELECT id, platform, contact FROM conversations WHERE contact_id = ?`,
+        [contactId]
+      );
+      const moving = threads.filter(thread => conversationIds.includes(thread.id));
+      const staying = threads.filter(thread => !conversationIds.includes(thread.id));
+      if (moving.length === 0) throw new Error('Choose at least one conversation to split off');
+      if (staying.length === 0) throw new Error('Leave at least one conversation with the original contact');
+
+      const id = `contact_${crypto.randomUUID()}`;
+      const now = Date.now();
+      await this.run(
+        `INSERT INTO contacts (id, display_name, trust_score, created_at, updated_at)
+          SELECT ?, ?, trust_score, ?, ? FROM contacts WHERE id = ?`,
+        [id, displayName?.trim() || moving[0].contact, now, now, contactId]
+      );
+      for (const thread of moving) {
+        await this.run(`UPDATE conversations SET contact_id = ? WHERE id = ?`, [id, thread.id]);
+        const stillUsed = staying.some(
+          other => other.platform === thread.platform && other.contact.toLowerCase() === thread.contact.toLowerCase()
+        );
+        if (!stillUsed) {
+          await this.run(
+            `UPDATE contact_aliases SET contact_id = ? WHERE platform = ? AND alias = ? AND contact_id = ?`,
+            [id, thread.platform, thread.contact, contactId]
+          );
+        }
+      }
+      return id;
+    });
+  }
+
+  // Already-known facts are skipped, so a whole thread can be passed each time
+  async saveClaimedFacts(facts: ClaimedFact[]): Promise<void> {
+    if (facts.length === 0) return;
+    await this.transaction(async () => {
+      for (const fact of facts) {
+        await this.writeClaimedFact(fact);
+      }
+    });
+  }
+
+  // Everything the person has said about themselves, on any platform, oldest first
+  async getClaimedFacts(contactId: string): Promise<ClaimedFact[]> {
+    await this.ready;
+    const rows = await this.all<ClaimedFactRow>(
+      `SELECT f.* FROM claimed_facts f
+        JOIN conversations c ON c.id = f.conversation_id
+        WHERE c.contact_id = ?
+        ORDER BY f.timestamp`,
+      [contactId]
+    );
+    return rows.map(row => this.toClaimedFact(row));
+  }
+
+  // Must run inside a transaction
+  private writeClaimedFact(fact: ClaimedFact): Promise<number> {
+    return this.run(
+      `INSERT OR IGNORE INTO claimed_facts (conversation_id, kind, value, source_text, timestamp)
+        VALUES (?, ?, ?, ?, ?)`,
+      [fact.conversation_id, fact.kind, fact.value, fact.source_text, fact.timestamp]
+    );
+  }
+
+  private toClaimedFact(row: ClaimedFactRow): ClaimedFact {
+    return {
+      kind: row.kind,
+      value: row.value,
+      source_text: row.source_text,
+      timestamp: row.timestamp,
+      conversation_id: row.conversation_id
+    };
+  }
+
+  // Already-recorded identifiers are skipped, like claimed facts
+  async saveFinancialIdentifiers(identifiers: FinancialIdentifier[]): Promise<void> {
+    if (identifiers.length === 0) return;
+    await this.transaction(async () => {
+      for (const identifier of identifiers) {
+        await this.writeFinancialIdentifier(identifier);
+      }
+    });
+  }
+
+  // Must run inside a transaction
+  private writeFinancialIdentifier(identifier: FinancialIdentifier): Promise<number> {
+    return this.run(
+      `INSERT OR IGNORE INTO financial_identifiers (conversation_id, kind, value, validated, timestamp)
+        VALUES (?, ?, ?, ?, ?)`,
+      [identifier.conversation_id, identifier.kind, identifier.value, identifier.validated ? 1 : 0, identifier.timestamp]
+    );
+  }
+
+  /**
+   * Where else these identifiers were sent, leaving out the given contact's
+   * own conversations (or just the one conversation, for a thread not linked
+   * to a contact).
+   */
+  async getFinancialIdentifierSightings(
+    identifiers: Array<Pick<FinancialIdentifier, 'kind' | 'value'>>,
+    exclude: { contactId?: string; conversationId: string }
+  ): Promise<FinancialIdentifierSighting[]> {
+    if (identifiers.length === 0) return [];
+    await this.ready;
+    const rows = await this.all<
+      Pick<FinancialIdentifierRow, 'kind' | 'value' | 'conversation_id' | 'timestamp'> &
+        Pick<ConversationRow, 'platform' | 'contact' | 'contact_id'> & { display_name: string | null }
+    >(
+      `SELECT f.kind, f.value, f.conversation_id, f.timestamp, c.platform, c.contact, c.contact_id,
+          ct.display_name
+        FROM financial_identifiers f
+        JOIN conversations c ON c.id = f.conversation_id
+        LEFT JOIN contacts ct ON ct.id = c.contact_id
+        WHERE (${identifiers.map(() => '(f.kind = ? AND f.value = ?)').join(' OR ')})
+          AND f.conversation_id <> ?
+          AND (c.contact_id IS NULL OR c.contact_id IS NOT ?)
+        ORDER BY f.timestamp`,
+      [
+        ...identifiers.flatMap(identifier => [identifier.kind, identifier.value]),
+        exclude.conversationId,
+        exclude.contactId ?? null
+      ]
+    );
+    return rows.map(row => ({
+      kind: row.kind,
+      value: row.value,
+      conversation_id: row.conversation_id,
+      platform: row.platform,
+      contact_id: row.contact_id ?? undefined,
+      contact_name: row.display_name || row.contact,
+      timestamp: row.timestamp
+    }));
+  }
+
+  async saveDatePlan(plan: DatePlan): Promise<void> {
+    await this.ready;
+    await this.run(
+      `INSERT OR REPLACE INTO date_plans
+        (id, conversation_id, who, location, starts_at, ends_at, check_in_minutes,
+         last_check_in_at, state, status, trust_score, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        plan.id,
+        plan.conversation_id ?? null,
+        plan.who,
+        plan.location,
+        plan.starts_at,
+        plan.ends_at,
+        plan.check_in_minutes,
+        plan.last_check_in_at ?? null,
+        plan.state,
+        plan.status,
+        plan.trust_score ?? null,
+        plan.created_at
+      ]
+    );
+  }
+
+  async getActiveDatePlans(): Promise<DatePlan[]> {
+    await this.ready;
+    const rows = await this.all<DatePlanRow>(`SELECT * FROM date_plans WHERE status = 'active' ORDER BY starts_at`);
+    return rows.map(row => ({
+      id: row.id,
+      conversation_id: row.conversation_id || undefined,
+      who: row.who,
+      location: row.location,
+      starts_at: row.starts_at,
+      ends_at: row.ends_at,
+      check_in_minutes: row.check_in_minutes,
+      last_check_in_at: row.last_check_in_at ?? undefined,
+      state: row.state,
+      status: row.status,
+      trust_score: row.trust_score ?? undefined,
+      created_at: row.created_at
+    }));
+  }
+
+  // Must run inside a transaction
+  private async ensureContactId(conversation: Conversation): Promise<string> {
+    if (conversation.contact_id && (await this.get(`SELECT 1 FROM contacts WHERE id = ?`, [conversation.contact_id]))) {
+      return conversation.contact_id;
+    }
+    return this.findOrCreateContact(conversation.platform, conversation.contact, conversation.first_interaction);
+  }
+
+  // Must run inside a transaction
+  private async findOrCreateContact(platform: string, alias: string, createdAt: number = Date.now()): Promise<string> {
+    const row = await this.get<{ contact_id: string }>(
+      `SELECT contact_id FROM contact_aliases WHERE platform = ? AND alias = ?`,
+      [platform, alias]
+    );
+    if (row) return row.contact_id;
+
+    const id = `contact_${crypto.randomUUID()}`;
+    await this.run(
+      `INSERT INTO contacts (id, display_name, created_at, updated_at) VALUES (?, ?, ?, ?)`,
+      [id, alias, createdAt, createdAt]
+    );
+    await this.run(`INSERT INTO contact_aliases (contact_id, platform, alias) VALUES (?, ?, ?)`, [id, platform, alias]);
+    return id;
+  }
+
+  private async getAliasesByContact(): Promise<Map<string, Contact['aliases']>> {
+    const aliases = new Map<string, Contact['aliases']>();
+    for (const row of await this.all<ContactAliasRow>(`SELECT * FROM contact_aliases ORDER BY platform, alias`)) {
+      const list = aliases.get(row.contact_id) || [];
+      list.push({ platform: row.platform, alias: row.alias });
+      aliases.set(row.contact_id, list);
+    }
+    return aliases;
+  }
+
+  private toContact(row: ContactRow, aliases: Contact['aliases']): Contact {
+    return {
+      id: row.id,
+      display_name: row.display_name,
+      trust_score: row.trust_score,
+      aliases,
+      created_at: row.created_at,
+      updated_at: row.updated_at
+    };
+  }
+
+  async applyRetentionPolicy(policy: RetentionPolicy, now: number = Date.now()): Promise<RetentionResult> {
+    const dayMs = 24 * 60 * 60 * 1000;
+    return this.transaction(async () => {
+      const result: RetentionResult = { deletedConversations: 0, purgedMessages: 0, deletedHistory: 0 };
+      if (policy.deleteInactiveAfterDays && policy.deleteInactiveAfterDays > 0) {
+        const deleted = await this.deleteConversationsWhere(
+          `last_interaction < ?`,
+          [now - policy.deleteInactiveAfterDays * dayMs]
+        );
+        result.deletedConversations = deleted.conversations;
+        await this.run(`DELETE FROM date_plans WHERE status = 'ended' AND ends_at < ?`, [
+          now - policy.deleteInactiveAfterDays * dayMs
+        ]);
+      }
+      if (policy.purgeMessageTextAfterDays && policy.purgeMessageTextAfterDays > 0) {
+        // The update trigger drops the purged text from the search index too
+        result.purgedMessages = await this.run(
+          `UPDATE messages SET text = '' WHERE timestamp < ? AND text <> ''`,
+          [now - policy.purgeMessageTextAfterDays * dayMs]
+        );
+        // The claims themselves stay, so contradictions are still caught
+        await this.run(`UPDATE claimed_facts SET source_text = '' WHERE timestamp < ?`, [
+          now - policy.purgeMessageTextAfterDays * dayMs
+        ]);
+      }
+
+      // History holds pasted message text, so the shortest rule applies to it as a whole
+      const days = [policy.deleteInactiveAfterDays, policy.purgeMessageTextAfterDays].filter(
+        (value): value is number => !!value && value > 0
+      );
+      if (days.length > 0) {
+        result.deletedHistory += await this.run(`DELETE FROM analysis_history WHERE timestamp < ?`, [
+          now - Math.min(...days) * dayMs
+        ]);
+      }
+      return result;
+    });
+  }
+
+  // Must run inside a transaction; `where` filters the conversations table
+  private async deleteConversationsWhere(where: string, params: unknown[]): Promise<DeleteResult> {
+    const ids = `SELECT id FROM conversations WHERE ${where}`;
+    const messages = await this.run(`DELETE FROM messages WHERE conversation_id IN (${ids})`, params);
+    const insights = await this.run(`DELETE FROM dating_insights WHERE conversation_id IN (${ids})`, params);
+    const learningOutcomes = await this.run(`DELETE FROM learning_outcomes WHERE conversation_id IN (${ids})`, params);
+    let historyItems = await this.run(`DELETE FROM analysis_history WHERE conversation_id IN (${ids})`, params);
+    await this.run(`DELETE FROM claimed_facts WHERE conversation_id IN (${ids})`, params);
+    await this.run(`DELETE FROM financial_identifiers WHERE conversation_id IN (${ids})`, params);
+    await this.run(`DELETE FROM date_plans WHERE conversation_id IN (${ids})`, params);
+    const conversations = await this.run(`DELETE FROM conversations WHERE ${where}`, params);
+
+    await this.deleteOrphanedContacts();
+    historyItems += await this.run(
+      `DELETE FROM analysis_history WHERE contact_id IS NOT NULL AND contact_id NOT IN (SELECT id FROM contacts)`
+    );
+    return { conversations, messages, insights, learningOutcomes, historyItems };
+  }
+
+  // People with no conversations left. Must run inside a transaction.
+  private async deleteOrphanedContacts(): Promise<void> {
+    const linked = `SELECT contact_id FROM conversations WHERE contact_id IS NOT NULL`;
+    await this.run(`DELETE FROM contact_aliases WHERE contact_id NOT IN (${linked})`);
+    await this.run(`DELETE FROM contacts WHERE id NOT IN (${linked})`);
+  }
+
+  /**
+   * Stores a history item. Without a conversation, it is linked to the one
+   * holding the input's last message, so pasted chats find their contact.
+   */
+  async saveHistoryItem(item: HistoryItem): Promise<HistoryItem> {
+    return this.transaction(async () => {
+      const saved: HistoryItem = { ...item };
+      if (!saved.conversationId) {
+        Object.assign(saved, await this.findHistoryLink(saved.inputText));
+      } else if (!saved.contactId) {
+        const row = await this.get<{ contact_id: string }>(`SELECT contact_id FROM conversations WHERE id = ?`, [
+          saved.conversationId
+        ]);
+        saved.contactId = row?.contact_id || undefined;
+      }
+      await this.writeHistoryItem(saved);
+      return saved;
+    });
+  }
+
+  // Newest first
+  async listHistory(query: HistoryQuery = {}): Promise<HistoryItem[]> {
+    await this.ready;
+    const { where, params } = this.historyFilter(query);
+    const rows = await this.all<HistoryRow>(
+      `SELECT * FROM analysis_history ${where ? `WHERE ${where}` : ''} ORDER BY timestamp DESC LIMIT ?`,
+      [...params, query.limit || -1]
+    );
+    return rows.map(row => this.toHistoryItem(row));
+  }
+
+  async searchHistory(text: string, query: HistoryQuery = {}): Promise<HistorySearchResult[]> {
+    await this.ready;
+    const match = this.toFtsQuery(text);
+    if (!match) return [];
+
+    const { where, params } = this.historyFilter(query);
+    const rows = await this.all<HistoryRow & { snippet: string }>(
+      `SELECT h.*, snippet(analysis_history_fts, -1, ?, ?, '…', 16) AS snippet
+        FROM analysis_history_fts
+        JOIN analysis_history h ON h.seq = analysis_history_fts.rowid
+        WHERE analysis_history_fts MATCH ? ${where ? `AND ${where}` : ''}
+        ORDER BY bm25(analysis_history_fts)
+        LIMIT ?`,
+      [SNIPPET_START, SNIPPET_END, match, ...params, query.limit || 50]
+    );
+    return rows.map(row => ({ ...this.toHistoryItem(row), snippet: row.snippet }));
+  }
+
+  // For history kept elsewhere before it moved here; items already stored are skipped
+  async importHistory(items: unknown[]): Promise<number> {
+    const valid = items.filter(
+      (item): item is HistoryItem =>
+        !!item &&
+        typeof (item as HistoryItem).id === 'string' &&
+        typeof (item as HistoryItem).type === 'string' &&
+        typeof (item as HistoryItem).inputText === 'string' &&
+        typeof (item as HistoryItem).timestamp === 'number'
+    );
+    return this.transaction(async () => {
+      let imported = 0;
+      for (const item of valid) {
+        imported += await this.writeHistoryItem({ ...item, outputSummary: item.outputSummary || '' });
+      }
+      return imported;
+    });
+  }
+
+  async clearHistory(): Promise<number> {
+    await this.ready;
+    return this.run(`DELETE FROM analysis_history`);
+  }
+
+  // Must run inside a transaction. Never replaces: REPLACE would skip the FTS delete trigger.
+  private async writeHistoryItem(item: HistoryItem): Promise<number> {
+    return this.run(
+      `INSERT OR IGNORE INTO analysis_history
+        (id, type, input_text, output_summary, result, conversation_id, contact_id, timestamp)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        item.id,
+        item.type,
+        item.inputText,
+        item.outputSummary,
+        item.result === undefined ? null : JSON.stringify(item.result),
+        item.conversationId || null,
+        item.contactId || null,
+        item.timestamp
+      ]
+    );
+  }
+
+  // The conversation whose stored message is the input's last line, with or without a "Name: " prefix
+  private async findHistoryLink(inputText: string): Promise<Pick<HistoryItem, 'conversationId' | 'contactId'>> {
+    const lastLine = inputText
+      .split('\n')
+      .map(line => line.trim())
+      .filter(line => line.length > 0)
+      .pop();
+    if (!lastLine) return {};
+
+    const candidates = [lastLine, lastLine.replace(/^[^:]{1,40}:\s+/, '')];
+    for (const candidate of candidates) {
+      const match = this.toFtsQuery(candidate);
+      if (candidate.length < MIN_HISTORY_MATCH_LENGTH || !match) continue;
+      const row = await this.get<{ conversation_id: string; contact_id: string | null }>(
+        `SELECT m.conversation_id, c.contact_id
+          FROM messages_fts
+          JOIN messages m ON m.id = messages_fts.rowid
+          JOIN conversations c ON c.id = m.conversation_id
+          WHERE messages_fts MATCH ? AND m.text = ? COLLATE NOCASE
+          ORDER BY m.timestamp DESC
+          LIMIT 1`,
+        [match, candidate]
+      );
+      if (row) return { conversationId: row.conversation_id, contactId: row.contact_id || undefined };
+    }
+    return {};
+  }
+
+  // Unlinked items that name someone or quote one of their messages. Must run inside a transaction.
+  private async deleteHistoryMentioning(names: string[], texts: string[]): Promise<number> {
+    const lowerNames = names.map(name => name.trim().toLowerCase()).filter(name => name.length > 0);
+    const lowerTexts = texts.map(text => text.trim().toLowerCase()).filter(text => text.length > 0);
+    const mentions = (value: string) => {
+      const lower = value.toLowerCase();
+      return (
+        lowerNames.some(name => lower.includes(name)) ||
+        lowerTexts.some(
+          text => lower.trim() === text || (text.length >= MIN_HISTORY_MATCH_LENGTH && lower.includes(text))
+        )
+      );
+    };
+
+    const rows = await this.all<{ id: string; input_text: string; output_summary: string }>(
+      `SELECT id, input_text, output_summary FROM analysis_history WHERE contact_id IS NULL`
+    );
+    let deleted = 0;
+    for (const row of rows.filter(row => mentions(row.input_text) || mentions(row.output_summary))) {
+      deleted += await this.run(`DELETE FROM analysis_history WHERE id = ?`, [row.id]);
+    }
+    return deleted;
+  }
+
+  private historyFilter(query: HistoryQuery): { where: string; params: unknown[] } {
+    const clauses: string[] = [];
+    const params: unknown[] = [];
+    if (query.type) {
+      clauses.push('type = ?');
+      params.push(query.type);
+    }
+    if (query.conversationId) {
+      clauses.push('conversation_id = ?');
+      params.push(query.conversationId);
+    }
+    if (query.contactId) {
+      clauses.push('contact_id = ?');
+      params.push(query.contactId);
+    }
+    return { where: clauses.join(' AND '), params };
+  }
+
+  private toHistoryItem(row: HistoryRow): HistoryItem {
+    return {
+      id: row.id,
+      type: row.type,
+      inputText: row.input_text,
+      outputSummary: row.output_summary,
+      result: row.result ? JSON.parse(row.result) : undefined,
+      conversationId: row.conversation_id || undefined,
+      contactId: row.contact_id || undefined,
+      timestamp: row.timestamp
+    };
+  }
+
+  async saveLearningOutcome(outcome: LearningOutcome): Promise<void> {
+    await this.ready;
+    await this.writeLearningOutcome(outcome, 'OR REPLACE');
+  }
+
+  // Oldest first, the order strategies are rebuilt in
+  async getLearningOutcomes(userId?: string): Promise<LearningOutcome[]> {
+    await this.ready;
+    const rows = userId
+      ? await this.all<LearningOutcomeRow>(`SELECT * FROM learning_outcomes WHERE user_id = ? ORDER BY timestamp`, [userId])
+      : await this.all<LearningOutcomeRow>(`SELECT * FROM learning_outcomes ORDER BY timestamp`);
+    return rows.map(row => ({
+      advice_id: row.advice_id,
+      user_id: row.user_id,
+      conversation_id: row.conversation_id,
+      advice_type: row.advice_type,
+      advice_message: row.advice_message,
+      effectiveness: row.effectiveness,
+      context: row.context,
+      timestamp: row.timestamp,
+      factors: JSON.parse(row.factors)
+    }));
+  }
+
+  // Forgets every outcome, and with them the strategy replayed from them
+  async clearLearning(userId: string): Promise<void> {
+    await this.ready;
+    await this.run(`DELETE FROM learning_outcomes WHERE user_id = ?`, [userId]);
+  }
+
+  private writeLearningOutcome(outcome: LearningOutcome, conflict: 'OR REPLACE' | 'OR IGNORE'): Promise<number> {
+    return this.run(
+      `INSERT ${conflict} INTO learning_outcomes
+        (advice_id, user_id, conversation_id, advice_type, advice_message, effectiveness, context, factors, timestamp)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        outcome.advice_id,
+        outcome.user_id,
+        outcome.conversation_id,
+        outcome.advice_type,
+        outcome.advice_message,
+        outcome.effectiveness,
+        outcome.context,
+        JSON.stringify(outcome.factors),
+        outcome.timestamp
+      ]
+    );
+  }
+
+  private toUserProfile(row: UserProfileRow): UserProfile {
+    return {
+      id: row.id,
+      preferences: JSON.parse(row.preferences),
+      dating_goals: JSON.parse(row.dating_goals),
+      conversation_patterns: JSON.parse(row.conversation_patterns),
+      success_metrics: JSON.parse(row.success_metrics),
+      learning_data: JSON.parse(row.learning_data)
+    };
+  }
+
+  private toInsight(row: InsightRow): DatingInsight {
+    return {
+      id: row.id,
+      conversation_id: row.conversation_id,
+      type: row.type,
+      message: row.message,
+      confidence: row.confidence,
+      timestamp: row.timestamp,
+      acted_upon: !!row.acted_upon,
+      effectiveness: row.effectiveness ?? undefined
+    };
+  }
+
   close(): void {
     if (this.db) {
       this.db.close();
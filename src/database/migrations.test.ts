@@ -0,0 +1,49 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { MIGRATIONS } from './migrations';
+
+test('versions run 1, 2, 3... with no gaps or repeats', () => {
+  assert.deepEqual(
+    MIGRATIONS.map(migration => migration.version),
+    MIGRATIONS.map((_, index) => index + 1)
+  );
+});
+
+test('every migration is named and does something', () => {
+  const names = MIGRATIONS.map(migration => migration.name);
+  assert.equal(new Set(names).size, names.length);
+  for (const migration of MIGRATIONS) {
+    assert.match(migration.name, /^[a-z][a-z0-9_]*$/);
+    assert.ok(migration.statements.length > 0, migration.name);
+    for (const statement of migration.statements) assert.ok(statement.trim(), migration.name);
+  }
+});
+
+test('the tables left after every migration are the ones DatabaseManager uses', () => {
+  const tables = new Set<string>();
+  for (const migration of MIGRATIONS) {
+    for (const statement of migration.statements) {
+      const created = statement.match(/^\s*CREATE TABLE (?:IF NOT EXISTS )?(\w+)/i)?.[1];
+      const dropped = statement.match(/^\s*DROP TABLE (?:IF EXISTS )?(\w+)/i)?.[1];
+      if (created) {
+        // Only the first migration may find its tables already there
+        assert.ok(migration.version === 1 || !tables.has(created), `${created} created twice`);
+        tables.add(created);
+      }
+      if (dropped) tables.delete(dropped);
+    }
+  }
+  assert.deepEqual([...tables].sort(), [
+    'analysis_history',
+    'claimed_facts',
+    'contact_aliases',
+    'contacts',
+    'conversations',
+    'date_plans',
+    'dating_insights',
+    'financial_identifiers',
+    'learning_outcomes',
+    'messages',
+    'user_profiles'
+  ]);
+});
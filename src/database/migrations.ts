@@ -0,0 +1,272 @@
+export interface Migration {
+  // Applied in ascending order; never renumber or edit one that has shipped
+  version: number;
+  name: string;
+  statements: string[];
+}
+
+/**
+ * Ordered schema changes. Each migration runs in its own transaction and is
+ * recorded in schema_version, so a failure leaves the database at the last
+ * version that applied cleanly. Add new changes as a new entry at the end.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    // Matches the tables created before versioning existed, so databases from
+    // older releases pass through unchanged
+    version: 1,
+    name: 'initial_schema',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS conversations (
+        id TEXT PRIMARY KEY,
+        platform TEXT NOT NULL,
+        contact TEXT NOT NULL,
+        messages TEXT NOT NULL,
+        profile TEXT,
+        relationship_stage TEXT DEFAULT 'initial',
+        first_interaction INTEGER NOT NULL,
+        last_interaction INTEGER NOT NULL,
+        trust_score REAL DEFAULT 0.5,
+        conversation_health REAL DEFAULT 0.5,
+        advice_history TEXT DEFAULT '[]',
+        created_at INTEGER DEFAULT (strftime('%s', 'now')),
+        updated_at INTEGER DEFAULT (strftime('%s', 'now'))
+      )`,
+      `CREATE TABLE IF NOT EXISTS user_profiles (
+        id TEXT PRIMARY KEY,
+        preferences TEXT NOT NULL,
+        dating_goals TEXT NOT NULL,
+        conversation_patterns TEXT NOT NULL,
+        success_metrics TEXT NOT NULL,
+        learning_data TEXT NOT NULL,
+        created_at INTEGER DEFAULT (strftime('%s', 'now')),
+        updated_at INTEGER DEFAULT (strftime('%s', 'now'))
+      )`,
+      `CREATE TABLE IF NOT EXISTS dating_insights (
+        id TEXT PRIMARY KEY,
+        conversation_id TEXT NOT NULL,
+        type TEXT NOT NULL,
+        message TEXT NOT NULL,
+        confidence REAL NOT NULL,
+        timestamp INTEGER NOT NULL,
+        acted_upon BOOLEAN DEFAULT FALSE,
+        effectiveness REAL,
+        created_at INTEGER DEFAULT (strftime('%s', 'now'))
+      )`,
+      `CREATE INDEX IF NOT EXISTS idx_conversations_contact ON conversations(contact)`,
+      `CREATE INDEX IF NOT EXISTS idx_conversations_platform ON conversations(platform)`,
+      `CREATE INDEX IF NOT EXISTS idx_insights_conversation ON dating_insights(conversation_id)`,
+      `CREATE INDEX IF NOT EXISTS idx_insights_type ON dating_insights(type)`
+    ]
+  },
+  {
+    // One row per message instead of a JSON blob per conversation, with an
+    // external-content FTS5 index kept in sync by triggers
+    version: 2,
+    name: 'messages_table_fts',
+    statements: [
+      `CREATE TABLE messages (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        conversation_id TEXT NOT NULL,
+        position INTEGER NOT NULL,
+        sender TEXT NOT NULL,
+        timestamp INTEGER NOT NULL,
+        text TEXT NOT NULL,
+        analysis TEXT,
+        UNIQUE (conversation_id, position)
+      )`,
+      `CREATE INDEX idx_messages_timestamp ON messages(timestamp)`,
+      `CREATE VIRTUAL TABLE messages_fts USING fts5(
+        text,
+        content = 'messages',
+        content_rowid = 'id',
+        tokenize = 'porter unicode61'
+      )`,
+      `CREATE TRIGGER messages_ai AFTER INSERT ON messages BEGIN
+        INSERT INTO messages_fts (rowid, text) VALUES (new.id, new.text);
+      END`,
+      `CREATE TRIGGER messages_ad AFTER DELETE ON messages BEGIN
+        INSERT INTO messages_fts (messages_fts, rowid, text) VALUES ('delete', old.id, old.text);
+      END`,
+      `CREATE TRIGGER messages_au AFTER UPDATE OF text ON messages BEGIN
+        INSERT INTO messages_fts (messages_fts, rowid, text) VALUES ('delete', old.id, old.text);
+        INSERT INTO messages_fts (rowid, text) VALUES (new.id, new.text);
+      END`,
+      `INSERT INTO messages (conversation_id, position, sender, timestamp, text, analysis)
+        SELECT
+          c.id,
+          CAST(m.key AS INTEGER),
+          COALESCE(json_extract(m.value, '$.sender'), 'contact'),
+          COALESCE(json_extract(m.value, '$.timestamp'), c.first_interaction),
+          COALESCE(json_extract(m.value, '$.text'), ''),
+          json_extract(m.value, '$.analysis')
+        FROM conversations c, json_each(c.messages) m
+        WHERE json_valid(c.messages)`,
+      `ALTER TABLE conversations DROP COLUMN messages`
+    ]
+  },
+  {
+    // Feedback on advice, so LearningEngine strategies can be rebuilt after a
+    // restart; personalized_strategies holds the latest rebuild
+    version: 3,
+    name: 'learning_tables',
+    statements: [
+      `CREATE TABLE learning_outcomes (
+        advice_id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        conversation_id TEXT NOT NULL,
+        advice_type TEXT NOT NULL,
+        advice_message TEXT NOT NULL,
+        effectiveness REAL NOT NULL,
+        context TEXT NOT NULL,
+        factors TEXT NOT NULL,
+        timestamp INTEGER NOT NULL
+      )`,
+      `CREATE INDEX idx_learning_outcomes_user ON learning_outcomes(user_id, timestamp)`,
+      `CREATE INDEX idx_learning_outcomes_conversation ON learning_outcomes(conversation_id)`,
+      `CREATE TABLE personalized_strategies (
+        user_id TEXT PRIMARY KEY,
+        strategy TEXT NOT NULL,
+        updated_at INTEGER NOT NULL
+      )`
+    ]
+  },
+  {
+    // A person across platforms: conversations link to a contact, and each
+    // (platform, name) alias resolves to one. Existing threads start as one
+    // contact per alias; the user merges the same person by hand.
+    version: 4,
+    name: 'contacts',
+    statements: [
+      `CREATE TABLE contacts (
+        id TEXT PRIMARY KEY,
+        display_name TEXT NOT NULL,
+        trust_score REAL DEFAULT 0.5,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      )`,
+      `CREATE TABLE contact_aliases (
+        contact_id TEXT NOT NULL,
+        platform TEXT NOT NULL,
+        alias TEXT NOT NULL COLLATE NOCASE,
+        PRIMARY KEY (platform, alias)
+      )`,
+      `CREATE INDEX idx_contact_aliases_contact ON contact_aliases(contact_id)`,
+      `ALTER TABLE conversations ADD COLUMN contact_id TEXT`,
+      `CREATE INDEX idx_conversations_contact_id ON conversations(contact_id)`,
+      `INSERT INTO contacts (id, display_name, trust_score, created_at, updated_at)
+        SELECT 'contact_' || id, contact, trust_score, first_interaction, last_interaction FROM conversations`,
+      `INSERT OR IGNORE INTO contact_aliases (contact_id, platform, alias)
+        SELECT 'contact_' || id, platform, contact FROM conversations ORDER BY first_interaction`,
+      `UPDATE conversations SET contact_id = (
+        SELECT a.contact_id FROM contact_aliases a
+        WHERE a.platform = conversations.platform AND a.alias = conversations.contact
+      )`,
+      `DELETE FROM contacts WHERE id NOT IN (SELECT contact_id FROM conversations)`
+    ]
+  },
+  {
+    // Smart reply, catfish and quality results, previously kept by the
+    // renderer in localStorage. `seq` gives the FTS index a stable rowid.
+    version: 5,
+    name: 'analysis_history',
+    statements: [
+      `CREATE TABLE analysis_history (
+        seq INTEGER PRIMARY KEY AUTOINCREMENT,
+        id TEXT NOT NULL UNIQUE,
+        type TEXT NOT NULL,
+        input_text TEXT NOT NULL,
+        output_summary TEXT NOT NULL,
+        result TEXT,
+        conversation_id TEXT,
+        contact_id TEXT,
+        timestamp INTEGER NOT NULL
+      )`,
+      `CREATE INDEX idx_analysis_history_timestamp ON analysis_history(type, timestamp)`,
+      `CREATE INDEX idx_analysis_history_conversation ON analysis_history(conversation_id)`,
+      `CREATE INDEX idx_analysis_history_contact ON analysis_history(contact_id)`,
+      `CREATE VIRTUAL TABLE analysis_history_fts USING fts5(
+        input_text,
+        output_summary,
+        content = 'analysis_history',
+        content_rowid = 'seq',
+        tokenize = 'porter unicode61'
+      )`,
+      `CREATE TRIGGER analysis_history_ai AFTER INSERT ON analysis_history BEGIN
+        INSERT INTO analysis_history_fts (rowid, input_text, output_summary)
+          VALUES (new.seq, new.input_text, new.output_summary);
+      END`,
+      `CREATE TRIGGER analysis_history_ad AFTER DELETE ON analysis_history BEGIN
+        INSERT INTO analysis_history_fts (analysis_history_fts, rowid, input_text, output_summary)
+          VALUES ('delete', old.seq, old.input_text, old.output_summary);
+      END`
+    ]
+  },
+  {
+    // What matches said about themselves, for catching contradictions. Kept
+    // by conversation, so facts follow threads through merge and split.
+    version: 6,
+    name: 'claimed_facts',
+    statements: [
+      `CREATE TABLE claimed_facts (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        conversation_id TEXT NOT NULL,
+        kind TEXT NOT NULL,
+        value TEXT NOT NULL,
+        source_text TEXT NOT NULL,
+        timestamp INTEGER NOT NULL,
+        UNIQUE (conversation_id, kind, value, timestamp)
+      )`,
+      `CREATE INDEX idx_claimed_facts_conversation ON claimed_facts(conversation_id)`
+    ]
+  },
+  {
+    // Dates with check-ins, so one in progress survives a restart
+    version: 7,
+    name: 'date_plans',
+    statements: [
+      `CREATE TABLE date_plans (
+        id TEXT PRIMARY KEY,
+        conversation_id TEXT,
+        who TEXT NOT NULL,
+        location TEXT NOT NULL,
+        starts_at INTEGER NOT NULL,
+        ends_at INTEGER NOT NULL,
+        check_in_minutes INTEGER NOT NULL,
+        last_check_in_at INTEGER,
+        state TEXT NOT NULL,
+        status TEXT NOT NULL,
+        trust_score REAL,
+        created_at INTEGER NOT NULL
+      )`,
+      `CREATE INDEX idx_date_plans_status ON date_plans(status)`,
+      `CREATE INDEX idx_date_plans_conversation ON date_plans(conversation_id)`
+    ]
+  },
+  {
+    // Wallets, bank accounts and payment handles matches sent, so one that
+    // turns up again with someone else is recognized
+    version: 8,
+    name: 'financial_identifiers',
+    statements: [
+      `CREATE TABLE financial_identifiers (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        conversation_id TEXT NOT NULL,
+        kind TEXT NOT NULL,
+        value TEXT NOT NULL,
+        validated INTEGER NOT NULL,
+        timestamp INTEGER NOT NULL,
+        UNIQUE (conversation_id, kind, value)
+      )`,
+      `CREATE INDEX idx_financial_identifiers_value ON financial_identifiers(kind, value)`,
+      `CREATE INDEX idx_financial_identifiers_conversation ON financial_identifiers(conversation_id)`
+    ]
+  },
+  {
+    // Strategies are always replayed from learning_outcomes, so the saved
+    // copies were never read
+    version: 9,
+    name: 'drop_personalized_strategies',
+    statements: [`DROP TABLE IF EXISTS personalized_strategies`]
+  }
+];
@@ -0,0 +1,117 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { ChatImporter } from './chatImporter';
+
+const importer = new ChatImporter();
+
+function senders(result: ReturnType<ChatImporter['importContent']>) {
+  return result.conversations[0].messages.map(message => [message.sender, message.text]);
+}
+
+test('reads an Android WhatsApp export with the match named in the file', () => {
+  const result = importer.importContent(
+    [
+      '12/03/24, 3:45 PM - Messages and calls are end-to-end encrypted.',
+      '12/03/24, 3:45 PM - Alex: hi there',
+      '12/03/24, 3:46 PM - Sam: hey!',
+      'how was your day?',
+      '12/03/24, 3:47 PM - Alex: <Media omitted>'
+    ].join('\n'),
+    'WhatsApp Chat with Alex.txt'
+  );
+  assert.equal(result.format, 'whatsapp');
+  assert.equal(result.conversations[0].contact, 'Alex');
+  assert.equal(result.conversations[0].platform, 'WhatsApp');
+  assert.deepEqual(senders(result), [
+    ['contact', 'hi there'],
+    ['user', 'hey!\nhow was your day?']
+  ]);
+  assert.equal(result.skippedMessages, 1);
+});
+
+test('reads an iOS WhatsApp export with day-first dates', () => {
+  const result = importer.importContent(
+    '‎[25/03/2024, 21:05:12] Alex: hi\n[25/03/2024, 21:06:00] Me: hello',
+    'chat.txt',
+    { selfName: 'me' }
+  );
+  const [first, second] = result.conversations[0].messages;
+  assert.equal(new Date(first.timestamp).getMonth(), 2);
+  assert.equal(new Date(first.timestamp).getDate(), 25);
+  assert.deepEqual([first.sender, second.sender], ['contact', 'user']);
+});
+
+test('reads a single Telegram chat', () => {
+  const result = importer.importContent(
+    JSON.stringify({
+      name: 'Alex',
+      type: 'personal_chat',
+      messages: [
+        { type: 'service', action: 'phone_call' },
+        { type: 'message', from: 'Alex', date_unixtime: '1710000000', text: 'hi' },
+        { type: 'message', from: 'Sam', date_unixtime: '1710000060', text: [{ type: 'bold', text: 'hey' }, ' you'] },
+        { type: 'message', from: 'Alex', date_unixtime: '1710000120', text: '' }
+      ]
+    }),
+    'result.json'
+  );
+  assert.equal(result.format, 'telegram');
+  assert.deepEqual(senders(result), [
+    ['contact', 'hi'],
+    ['user', 'hey you']
+  ]);
+  assert.equal(result.skippedMessages, 1);
+});
+
+test('reads the user’s side of Tinder and Hinge exports', () => {
+  const tinder = importer.importContent(
+    JSON.stringify({
+      Messages: [{ match_id: 'Match 1', messages: [{ message: 'Tom &amp; Jerry?', sent_date: '2024-03-12T10:00:00Z' }] }]
+    }),
+    'data.json'
+  );
+  assert.equal(tinder.format, 'tinder');
+  assert.deepEqual(senders(tinder), [['user', 'Tom & Jerry?']]);
+
+  const hinge = importer.importContent(
+    JSON.stringify([{ match: [{}], chats: [{ body: 'hi', timestamp: '2024-03-12 10:00:00' }] }]),
+    'matches.json'
+  );
+  assert.equal(hinge.format, 'hinge');
+  assert.equal(hinge.conversations[0].messages[0].timestamp, Date.UTC(2024, 2, 12, 10));
+});
+
+test('reads a Bumble export', () => {
+  const result = importer.importContent(
+    JSON.stringify({
+      conversations: [
+        {
+          name: 'Alex',
+          messages: [
+            { text: 'hi', timestamp: 1710000000, from: 'Alex' },
+            { text: 'hello', timestamp: 1710000060000, is_sender: true }
+          ]
+        }
+      ]
+    }),
+    'bumble.json'
+  );
+  assert.equal(result.format, 'bumble');
+  assert.deepEqual(senders(result), [
+    ['contact', 'hi'],
+    ['user', 'hello']
+  ]);
+});
+
+test('the same export imported twice gets the same conversation id', () => {
+  const content = '12/03/24, 3:45 PM - Alex: hi\n12/03/24, 3:46 PM - Sam: hey';
+  assert.equal(
+    importer.importContent(content, 'WhatsApp Chat with Alex.txt').conversations[0].id,
+    importer.importContent(content, 'WhatsApp Chat with Alex.txt').conversations[0].id
+  );
+});
+
+test('rejects what it can’t read', () => {
+  assert.throws(() => importer.importContent('just some notes', 'notes.txt'), /Unrecognized chat export/);
+  assert.throws(() => importer.importContent('{"foo": 1}', 'export.json'), /does not match/);
+});
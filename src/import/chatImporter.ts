@@ -0,0 +1,378 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { Conversation } from '../database';
+import { parseChatTimestamp } from '../analysis/transcriptParser';
+
+export type ChatArchiveFormat = 'whatsapp' | 'telegram' | 'tinder' | 'hinge' | 'bumble';
+
+export interface ChatImportOptions {
+  // Skip auto-detection when the caller already knows the format
+  format?: ChatArchiveFormat;
+  // How the user appears in the export; needed when the archive doesn't say
+  selfName?: string;
+}
+
+export interface ChatImportResult {
+  format: ChatArchiveFormat;
+  conversations: Conversation[];
+  skippedMessages: number;
+}
+
+type ImportedMessage = Conversation['messages'][number];
+
+interface ParsedChat {
+  contact: string;
+  messages: ImportedMessage[];
+}
+
+const PLATFORM_NAMES: Record<ChatArchiveFormat, string> = {
+  whatsapp: 'WhatsApp',
+  telegram: 'Telegram',
+  tinder: 'Tinder',
+  hinge: 'Hinge',
+  bumble: 'Bumble',
+};
+
+// "12/03/24, 3:45 PM - Alex: hi" (Android) and "[12/03/24, 3:45:12 PM] Alex: hi" (iOS)
+const WHATSAPP_LINE = /^\[?(\d{1,4}[\/.-]\d{1,2}[\/.-]\d{1,4}),?\s+(\d{1,2}[:.]\d{2}(?:[:.]\d{2})?(?:\s*[ap]\.?\s?m\.?)?)\]?\s*(?:[-–]\s*)?(.*)$/i;
+const WHATSAPP_MEDIA = /^<?(media omitted|image omitted|video omitted|audio omitted|sticker omitted|gif omitted|attached: .*)>?$/i;
+
+export class ChatImporter {
+  async importFile(filePath: string, options: ChatImportOptions = {}): Promise<ChatImportResult> {
+    const content = await fs.promises.readFile(filePath, 'utf8');
+    return this.importContent(content, path.basename(filePath), options);
+  }
+
+  importContent(content: string, fileName: string, options: ChatImportOptions = {}): ChatImportResult {
+    const text = content.replace(/^\uFEFF/, '');
+    const json = /\.json$/i.test(fileName) || /^\s*[\[{]/.test(text) ? this.tryParseJson(text) : undefined;
+    const format = options.format || this.detectFormat(fileName, text, json);
+
+    let chats: ParsedChat[];
+    let skippedMessages = 0;
+    switch (format) {
+      case 'whatsapp':
+        ({ chats, skippedMessages } = this.parseWhatsApp(text, fileName, options.selfName));
+        break;
+      case 'telegram':
+        ({ chats, skippedMessages } = this.parseTelegram(this.requireJson(json, format), options.selfName));
+        break;
+      case 'tinder':
+        ({ chats, skippedMessages } = this.parseTinder(this.requireJson(json, format)));
+        break;
+      case 'hinge':
+        ({ chats, skippedMessages } = this.parseHinge(this.requireJson(json, format)));
+        break;
+      case 'bumble':
+        ({ chats, skippedMessages } = this.parseBumble(this.requireJson(json, format), options.selfName));
+        break;
+      default:
+        throw new Error(`Unsupported chat export format: ${format}`);
+    }
+
+    const conversations = chats
+      .filter(chat => chat.messages.length > 0)
+      .map(chat => this.toConversation(format, chat));
+
+    return { format, conversations, skippedMessages };
+  }
+
+  detectFormat(fileName: string, text: string, json?: any): ChatArchiveFormat {
+    if (json === undefined) {
+      const firstLines = text.split('\n').slice(0, 20);
+      if (firstLines.some(line => WHATSAPP_LINE.test(this.cleanWhatsAppLine(line)))) {
+        return 'whatsapp';
+      }
+      throw new Error('Unrecognized chat export: expected a WhatsApp .txt or a JSON data export');
+    }
+
+    if (json?.chats?.list || (Array.isArray(json?.messages) && typeof json?.type === 'string' && 'name' in json)) {
+      return 'telegram';
+    }
+    if (Array.isArray(json?.Messages)) {
+      return 'tinder';
+    }
+    if (Array.isArray(json) && json.some((item: any) => Array.isArray(item?.chats) || Array.isArray(item?.match))) {
+      return 'hinge';
+    }
+    if (Array.isArray(json?.conversations) || Array.isArray(json?.matches) || /bumble/i.test(fileName)) {
+      return 'bumble';
+    }
+    throw new Error('Unrecognized chat export: JSON does not match Telegram, Tinder, Hinge or Bumble');
+  }
+
+  /**
+   * WhatsApp exports are plain text with one stamped line per message and
+   * unstamped continuation lines. The export never says which participant is
+   * the phone's owner, so we use selfName, then the "WhatsApp Chat with X"
+   * file name, then assume the first person to write is the match.
+   */
+  private parseWhatsApp(text: string, fileName: string, selfName?: string): { chats: ParsedChat[]; skippedMessages: number } {
+    const lines = text.replace(/\r\n?/g, '\n').split('\n').map(line => this.cleanWhatsAppLine(line));
+    const dayFirst = this.detectDayFirst(lines);
+    const raw: Array<{ name: string; text: string; timestamp: number }> = [];
+    let skippedMessages = 0;
+    let current: { name: string; text: string; timestamp: number } | null = null;
+
+    for (const line of lines) {
+      const match = line.match(WHATSAPP_LINE);
+      if (!match) {
+        // Continuation of a multi-line message
+        if (current && line.trim()) current.text += `\n${line}`;
+        continue;
+      }
+
+      const body = match[3];
+      const separator = body.indexOf(': ');
+      if (separator <= 0) {
+        // System notice such as "Messages and calls are end-to-end encrypted"
+        current = null;
+        continue;
+      }
+
+      const date = parseChatTimestamp(`${match[1]} ${match[2]}`, new Date(), dayFirst);
+      if (!date) {
+        skippedMessages++;
+        current = null;
+        continue;
+      }
+
+      current = { name: body.slice(0, separator).trim(), text: body.slice(separator + 2), timestamp: date.getTime() };
+      raw.push(current);
+    }
+
+    const names = Array.from(new Set(raw.map(message => message.name)));
+    const fileContact = fileName.match(/WhatsApp Chat (?:with|-)\s*(.+?)(?:\.txt)?$/i)?.[1]?.trim();
+
+    let isUser: (name: string) => boolean;
+    if (selfName) {
+      isUser = name => name.toLowerCase() === selfName.toLowerCase();
+    } else if (fileContact && names.some(name => name === fileContact)) {
+      isUser = name => name !== fileContact;
+    } else {
+      isUser = name => names.length > 1 && name === names[1];
+    }
+
+    const messages: ImportedMessage[] = [];
+    for (const message of raw) {
+      const body = message.text.trim();
+      if (!body || WHATSAPP_MEDIA.test(body)) {
+        skippedMessages++;
+        continue;
+      }
+      messages.push({ text: body, timestamp: message.timestamp, sender: isUser(message.name) ? 'user' : 'contact' });
+    }
+
+    const contact = fileContact || names.filter(name => !isUser(name)).join(', ') || 'WhatsApp contact';
+    return { chats: [{ contact, messages }], skippedMessages };
+  }
+
+  /**
+   * Telegram Desktop writes either a single chat (result.json of one chat)
+   * or a full export with personal_information and chats.list. Only
+   * one-to-one chats are imported from a full export.
+   */
+  private parseTelegram(json: any, selfName?: string): { chats: ParsedChat[]; skippedMessages: number } {
+    const selfId = json?.personal_information?.user_id ? `user${json.personal_information.user_id}` : undefined;
+    const chatList: any[] = json?.chats?.list
+      ? json.chats.list.filter((chat: any) => chat?.type === 'personal_chat')
+      : [json];
+
+    let skippedMessages = 0;
+    const chats: ParsedChat[] = [];
+
+    for (const chat of chatList) {
+      const contact = chat?.name || 'Telegram contact';
+      const messages: ImportedMessage[] = [];
+
+      for (const message of chat?.messages || []) {
+        if (message?.type !== 'message') continue;
+
+        const text = this.flattenTelegramText(message.text);
+        const timestamp = message.date_unixtime
+          ? parseInt(message.date_unixtime, 10) * 1000
+          : Date.parse(message.date);
+        if (!text || isNaN(timestamp)) {
+          skippedMessages++;
+          continue;
+        }
+
+        let fromUser: boolean;
+        if (selfId && message.from_id) {
+          fromUser = message.from_id === selfId;
+        } else if (selfName) {
+          fromUser = (message.from || '').toLowerCase() === selfName.toLowerCase();
+        } else {
+          // In a personal chat the chat is named after the other person
+          fromUser = message.from !== chat?.name;
+        }
+
+        messages.push({ text, timestamp, sender: fromUser ? 'user' : 'contact' });
+      }
+
+      chats.push({ contact, messages });
+    }
+
+    return { chats, skippedMessages };
+  }
+
+  /**
+   * Tinder's data download (data.json) only contains messages the user sent,
+   * grouped by an anonymous match id.
+   */
+  private parseTinder(json: any): { chats: ParsedChat[]; skippedMessages: number } {
+    let skippedMessages = 0;
+    const chats: ParsedChat[] = (json.Messages as any[]).map((match, index) => {
+      const messages: ImportedMessage[] = [];
+      for (const message of match?.messages || []) {
+        const timestamp = Date.parse(message?.sent_date);
+        const text = typeof message?.message === 'string' ? this.decodeEntities(message.message).trim() : '';
+        if (!text || isNaN(timestamp)) {
+          skippedMessages++;
+          continue;
+        }
+        messages.push({ text, timestamp, sender: 'user' });
+      }
+      return { contact: match?.match_id || `Tinder match ${index + 1}`, messages };
+    });
+
+    return { chats, skippedMessages };
+  }
+
+  /**
+   * Hinge's matches.json is a list of matches with the user's own chat
+   * messages; timestamps are UTC without a zone suffix.
+   */
+  private parseHinge(json: any[]): { chats: ParsedChat[]; skippedMessages: number } {
+    let skippedMessages = 0;
+    const chats: ParsedChat[] = json.map((match, index) => {
+      const messages: ImportedMessage[] = [];
+      for (const message of match?.chats || []) {
+        const text = typeof message?.body === 'string' ? message.body.trim() : '';
+        const timestamp = this.parseUtc(message?.timestamp);
+        if (!text || isNaN(timestamp)) {
+          skippedMessages++;
+          continue;
+        }
+        messages.push({ text, timestamp, sender: 'user' });
+      }
+      return { contact: `Hinge match ${index + 1}`, messages };
+    });
+
+    return { chats, skippedMessages };
+  }
+
+  /**
+   * Bumble's data download has no published schema, so we read the common
+   * conversation/message field names it has used.
+   */
+  private parseBumble(json: any, selfName?: string): { chats: ParsedChat[]; skippedMessages: number } {
+    const list: any[] = json?.conversations || json?.matches || (Array.isArray(json) ? json : []);
+    let skippedMessages = 0;
+
+    const chats: ParsedChat[] = list.map((conversation, index) => {
+      const messages: ImportedMessage[] = [];
+      for (const message of conversation?.messages || []) {
+        const rawText = message?.message ?? message?.text ?? message?.body ?? message?.content;
+        const text = typeof rawText === 'string' ? rawText.trim() : '';
+        const rawTime = message?.timestamp ?? message?.created_at ?? message?.sent_at ?? message?.date;
+        const timestamp = typeof rawTime === 'number'
+          ? (rawTime < 1e12 ? rawTime * 1000 : rawTime)
+          : this.parseUtc(rawTime);
+        if (!text || isNaN(timestamp)) {
+          skippedMessages++;
+          continue;
+        }
+
+        const from = String(message?.sender ?? message?.from ?? '').toLowerCase();
+        const fromUser = message?.is_sender === true ||
+          message?.from_me === true ||
+          from === 'me' ||
+          from === 'you' ||
+          (!!selfName && from === selfName.toLowerCase());
+        messages.push({ text, timestamp, sender: fromUser ? 'user' : 'contact' });
+      }
+
+      const contact = conversation?.name || conversation?.match_name || conversation?.with || `Bumble match ${index + 1}`;
+      return { contact, messages };
+    });
+
+    return { chats, skippedMessages };
+  }
+
+  private toConversation(format: ChatArchiveFormat, chat: ParsedChat): Conversation {
+    const platform = PLATFORM_NAMES[format];
+    const messages = [...chat.messages].sort((a, b) => a.timestamp - b.timestamp);
+    // Stable per platform + contact so importing the same export again replaces the row
+    const hash = crypto.createHash('sha1').update(`${platform}|${chat.contact}`).digest('hex').slice(0, 12);
+
+    return {
+      id: `import_${format}_${hash}`,
+      platform,
+      contact: chat.contact,
+      messages,
+      relationship_stage: 'initial',
+      first_interaction: messages[0].timestamp,
+      last_interaction: messages[messages.length - 1].timestamp,
+      trust_score: 0.5,
+      conversation_health: 0.5,
+      advice_history: [],
+    };
+  }
+
+  private detectDayFirst(lines: string[]): boolean {
+    for (const line of lines) {
+      const match = line.match(WHATSAPP_LINE);
+      if (!match) continue;
+      const [first, second] = match[1].split(/[\/.-]/).map(part => parseInt(part, 10));
+      if (match[1].split(/[\/.-]/)[0].length === 4) return false;
+      if (first > 12) return true;
+      if (second > 12) return false;
+    }
+    return false;
+  }
+
+  private cleanWhatsAppLine(line: string): string {
+    // iOS exports add direction marks and narrow no-break spaces around times
+    return line.replace(/[\u200E\u200F]/g, '').replace(/[\u202F\u00A0]/g, ' ').trimEnd();
+  }
+
+  private flattenTelegramText(text: any): string {
+    if (typeof text === 'string') return text.trim();
+    if (Array.isArray(text)) {
+      return text.map(part => (typeof part === 'string' ? part : part?.text || '')).join('').trim();
+    }
+    return '';
+  }
+
+  private parseUtc(value: any): number {
+    if (typeof value !== 'string') return NaN;
+    const normalized = value.trim().replace(' ', 'T');
+    return Date.parse(/[zZ]|[+-]\d{2}:?\d{2}$/.test(normalized) ? normalized : `${normalized}Z`);
+  }
+
+  private decodeEntities(text: string): string {
+    return text
+      .replace(/&amp;/g, '&')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&#39;|&apos;/g, "'");
+  }
+
+  private tryParseJson(text: string): any {
+    try {
+      return JSON.parse(text);
+    } catch {
+      return undefined;
+    }
+  }
+
+  private requireJson(json: any, format: ChatArchiveFormat): any {
+    if (json === undefined) {
+      throw new Error(`${PLATFORM_NAMES[format]} exports must be JSON`);
+    }
+    return json;
+  }
+}
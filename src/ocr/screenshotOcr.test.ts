@@ -0,0 +1,36 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import type { Line } from 'tesseract.js';
+import { ScreenshotOcr } from './screenshotOcr';
+
+// Lines as Tesseract lays them out on a 1000px-wide screenshot
+function line(text: string, x0: number, x1: number, y0: number): Line {
+  return { text, bbox: { x0, x1, y0, y1: y0 + 20 } } as unknown as Line;
+}
+
+function transcribe(lines: Line[]): string {
+  return new ScreenshotOcr('/tmp')['buildTranscript'](lines);
+}
+
+test('labels bubbles by side and keeps stamp lines bare', () => {
+  const transcript = transcribe([
+    line('Today 9:41 AM', 400, 600, 0),
+    line('hey, how was your day?', 0, 500, 60),
+    line('Reading on the couch', 500, 1000, 120),
+    line('Sent 9:45 AM', 800, 1000, 160)
+  ]);
+  assert.equal(
+    transcript,
+    'Today 9:41 AM\nThem: hey, how was your day?\nMe: Reading on the couch\nSent 9:45 AM'
+  );
+});
+
+test('one-word bubbles that start like a stamp word stay messages', () => {
+  const transcript = transcribe([
+    line('Sentimental', 0, 300, 0),
+    line('Yesterdays', 700, 1000, 60),
+    line('Thursday 8:00', 400, 600, 120),
+    line('Readers', 0, 300, 180)
+  ]);
+  assert.equal(transcript, 'Them: Sentimental\nMe: Yesterdays\nThursday 8:00\nThem: Readers');
+});
@@ -0,0 +1,162 @@
+import { createWorker, OEM } from 'tesseract.js';
+import type { Worker, Page, Line, Bbox } from 'tesseract.js';
+import { ConversationTurn, parseTranscript } from '../analysis/transcriptParser';
+const engData = require('@tesseract.js-data/eng');
+
+export interface OcrRegion {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export interface ScreenshotTranscript {
+  rawText: string;
+  // "Me: ..." / "Them: ..." lines, readable by every analyzer's parser
+  transcript: string;
+  turns: ConversationTurn[];
+  confidence: number;
+}
+
+type LineRole = 'user' | 'other' | 'stamp';
+
+interface Bubble {
+  role: LineRole;
+  text: string;
+  bottom: number;
+  lineHeight: number;
+}
+
+const MIN_LINE_CONFIDENCE = 40;
+const STAMP_LINE = /^(?:(?:sent|delivered|read|seen|today|yesterday|(?:mon|tue(?:s)?|wed(?:nes)?|thu(?:rs)?|fri|sat(?:ur)?|sun)(?:day)?)\b[\s,]*)*(?:(?:at\s+)?\d{1,2}[:.]\d{2}\s*(?:[ap]\.?m\.?)?)?$/i;
+
+/**
+ * Offline OCR for chat screenshots. Tesseract runs in a worker thread with
+ * the English model that ships in node_modules, so nothing is downloaded at
+ * runtime. Speakers are inferred from bubble alignment: the user's bubbles
+ * sit on the right, the match's on the left.
+ */
+export class ScreenshotOcr {
+  private worker: Promise<Worker> | null = null;
+  private cachePath: string;
+
+  constructor(cachePath: string) {
+    this.cachePath = cachePath;
+  }
+
+  async recognize(image: Buffer, region?: OcrRegion): Promise<ScreenshotTranscript> {
+    const worker = await this.getWorker();
+    const { data } = await worker.recognize(
+      image,
+      region ? { rectangle: this.roundRegion(region) } : {},
+      { text: true, blocks: true }
+    );
+
+    const lines = this.collectLines(data);
+    const transcript = this.buildTranscript(lines);
+
+    return {
+      rawText: data.text.trim(),
+      transcript,
+      turns: parseTranscript(transcript),
+      confidence: Math.round(data.confidence) / 100,
+    };
+  }
+
+  async terminate(): Promise<void> {
+    if (!this.worker) return;
+    const worker = await this.worker.catch(() => null);
+    this.worker = null;
+    if (worker) await worker.terminate();
+  }
+
+  private getWorker(): Promise<Worker> {
+    if (!this.worker) {
+      this.worker = createWorker(engData.code, OEM.LSTM_ONLY, {
+        // Packaged builds keep the model outside the asar so the worker can read it
+        langPath: engData.langPath.replace('app.asar', 'app.asar.unpacked'),
+        gzip: engData.gzip,
+        cachePath: this.cachePath,
+      }).catch(error => {
+        this.worker = null;
+        throw error;
+      });
+    }
+    return this.worker;
+  }
+
+  private collectLines(page: Page): Line[] {
+    const lines: Line[] = [];
+    for (const block of page.blocks || []) {
+      for (const paragraph of block.paragraphs) {
+        for (const line of paragraph.lines) {
+          if (line.text.trim() && line.confidence >= MIN_LINE_CONFIDENCE) {
+            lines.push(line);
+          }
+        }
+      }
+    }
+    return lines.sort((a, b) => a.bbox.y0 - b.bbox.y0);
+  }
+
+  /**
+   * Groups OCR lines into chat bubbles and labels each one. Lines that span
+   * the full width (long bubbles) take the speaker of the bubble they continue.
+   */
+  private buildTranscript(lines: Line[]): string {
+    if (lines.length === 0) return '';
+
+    const minX = Math.min(...lines.map(line => line.bbox.x0));
+    const maxX = Math.max(...lines.map(line => line.bbox.x1));
+    const span = Math.max(maxX - minX, 1);
+    const bubbles: Bubble[] = [];
+
+    for (const line of lines) {
+      const text = line.text.replace(/\s+/g, ' ').trim();
+      const lineHeight = line.bbox.y1 - line.bbox.y0;
+      const previous = bubbles[bubbles.length - 1];
+      let role = this.classifyLine(text, line.bbox, minX, maxX, span);
+
+      if (!role) {
+        role = previous && previous.role !== 'stamp' ? previous.role : 'other';
+      }
+
+      const gap = previous ? line.bbox.y0 - previous.bottom : Infinity;
+      if (previous && role !== 'stamp' && previous.role === role && gap < previous.lineHeight * 0.9) {
+        previous.text += ` ${text}`;
+        previous.bottom = line.bbox.y1;
+      } else {
+        bubbles.push({ role, text, bottom: line.bbox.y1, lineHeight });
+      }
+    }
+
+    return bubbles
+      .map(bubble => {
+        if (bubble.role === 'stamp') return bubble.text;
+        return `${bubble.role === 'user' ? 'Me' : 'Them'}: ${bubble.text}`;
+      })
+      .join('\n');
+  }
+
+  private classifyLine(text: string, bbox: Bbox, minX: number, maxX: number, span: number): LineRole | null {
+    const leftGap = (bbox.x0 - minX) / span;
+    const rightGap = (maxX - bbox.x1) / span;
+
+    // Centered short lines are date/time separators or read receipts
+    if (STAMP_LINE.test(text) && /\d|sent|delivered|read|seen|today|yesterday/i.test(text)) {
+      return 'stamp';
+    }
+    if (leftGap > 0.15 && leftGap > rightGap * 2) return 'user';
+    if (rightGap > 0.15 && rightGap > leftGap * 2) return 'other';
+    return null;
+  }
+
+  private roundRegion(region: OcrRegion): OcrRegion {
+    return {
+      left: Math.max(0, Math.round(region.left)),
+      top: Math.max(0, Math.round(region.top)),
+      width: Math.max(1, Math.round(region.width)),
+      height: Math.max(1, Math.round(region.height)),
+    };
+  }
+}
@@ -1,4 +1,6 @@
 import { UniversalAI } from '../ai/universalAI';
+import { StructuredOutputError } from '../ai/structuredOutput';
+import { SAFETY_ANALYSIS_TASK } from '../ai/structuredTasks';
 import { PrivacySafetyEngine, SafetyAlert, SafetyCheck } from './privacySafetyEngine';
 
 export interface AiSafetyAnalysis {
@@ -103,41 +105,15 @@ Consider:
 - Timeline of the conversation and escalation speed
 - Overall authenticity of the conversation
 
-Respond in JSON format:
-{
-  "overallRisk": <number 0-1>,
-  "concerns": ["specific concern 1", "specific concern 2"],
-  "recommendations": ["recommendation 1", "recommendation 2"],
-  "redFlags": ["red flag 1", "red flag 2"],
-  "positiveSignals": ["positive aspect 1", "positive aspect 2"],
-  "trustScore": <number 0-100>
-}`;
-
-    const result = await this.aiClient.generateContent(prompt);
-    const text = result.text;
-
-    // Clean and parse JSON response
-    const cleanedText = text
-      .replace(/```json\n?/g, "")
-      .replace(/```\n?/g, "")
-      .replace(/^[^{]*/, "")
-      .replace(/[^}]*$/, "")
-      .trim();
+overallRisk is 0-1 and trustScore is 0-100. Keep each list item to one specific sentence.`;
 
     try {
-      const analysis = JSON.parse(cleanedText);
-      
-      return {
-        overallRisk: Math.max(0, Math.min(1, analysis.overallRisk || 0)),
-        concerns: Array.isArray(analysis.concerns) ? analysis.concerns : [],
-        recommendations: Array.isArray(analysis.recommendations) ? analysis.recommendations : [],
-        redFlags: Array.isArray(analysis.redFlags) ? analysis.redFlags : [],
-        positiveSignals: Array.isArray(analysis.positiveSignals) ? analysis.positiveSignals : [],
-        trustScore: Math.max(0, Math.min(100, analysis.trustScore || 50))
-      };
-    } catch (parseError) {
-      console.error('Failed to parse AI safety analysis:', parseError);
-      
+      const result = await this.aiClient.generateStructured<AiSafetyAnalysis>(prompt, SAFETY_ANALYSIS_TASK);
+      return result.data;
+    } catch (error) {
+      if (!(error instanceof StructuredOutputError)) throw error;
+      console.error('AI safety analysis failed validation:', error.issues);
+
       // Fallback analysis based on keywords
       return this.generateFallbackAnalysis(conversationText);
     }
@@ -0,0 +1,80 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { extractClaimedFacts, findFactContradictions } from './claimedFacts';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function factsFrom(...texts: string[]) {
+  return extractClaimedFacts({
+    id: 'conversation',
+    messages: texts.map((text, index) => ({
+      sender: 'contact' as const,
+      text,
+      timestamp: index * DAY_MS
+    }))
+  });
+}
+
+function contradictions(...texts: string[]) {
+  return findFactContradictions(factsFrom(...texts));
+}
+
+test('extracts what the contact says about themselves', () => {
+  assert.deepEqual(
+    factsFrom("I'm 29 and I work as a nurse", 'I live in London now', 'my two kids are at school').map(fact => [
+      fact.kind,
+      fact.value
+    ]),
+    [
+      ['age', '29'],
+      ['job', 'nurse'],
+      ['city', 'london'],
+      ['kids', '2']
+    ]
+  );
+});
+
+test('ignores the user’s own messages', () => {
+  const facts = extractClaimedFacts({
+    id: 'conversation',
+    messages: [{ sender: 'user', text: "I'm 34", timestamp: 0 }]
+  });
+  assert.deepEqual(facts, []);
+});
+
+test('flags a story that changes', () => {
+  assert.equal(contradictions("I'm 29", "I'm 41").length, 1);
+  assert.equal(contradictions('I have no kids', 'my two kids are at school').length, 1);
+  assert.equal(contradictions("I'm a nurse", "I'm an engineer").length, 1);
+  assert.equal(contradictions('I live in Denver', 'I live in Miami').length, 1);
+  assert.equal(contradictions("I'm flying to Lagos", "I'm flying to Accra").length, 1);
+});
+
+test('errands are not travel plans', () => {
+  assert.deepEqual(contradictions("I'm heading to the gym", "I'm heading to the store"), []);
+  assert.deepEqual(contradictions("I'm off to lunch", "I'm off to the shops"), []);
+  assert.deepEqual(factsFrom("I'm heading to the gym"), []);
+});
+
+test('the same place named two ways is consistent', () => {
+  assert.deepEqual(contradictions('I live in NYC', 'I live in New York'), []);
+  assert.deepEqual(contradictions('I live in LA', 'I live in Los Angeles'), []);
+  assert.deepEqual(contradictions("I'm from Ohio", "I'm from Columbus, Ohio"), []);
+  assert.deepEqual(contradictions('I live in New York City', 'I live in New York'), []);
+});
+
+test('a qualified job fits the plain one', () => {
+  assert.deepEqual(contradictions("I'm a nurse", "I'm a student nurse"), []);
+  assert.deepEqual(contradictions("I'm a software engineer", "I'm an engineer"), []);
+});
+
+test('"50/50" is not an age', () => {
+  assert.deepEqual(factsFrom("I'm 50/50 on that"), []);
+  assert.deepEqual(contradictions("I'm 29", "I'm 50/50 on that"), []);
+});
+
+test('an age may grow by a birthday but not shrink', () => {
+  const facts = factsFrom("I'm 29", "I'm 30");
+  assert.deepEqual(findFactContradictions(facts), []);
+  assert.equal(contradictions("I'm 30", "I'm 29").length, 1);
+});
@@ -0,0 +1,307 @@
+import type { Conversation } from '../database';
+
+export type ClaimedFactKind = 'age' | 'job' | 'city' | 'kids' | 'hometown' | 'travel';
+
+/**
+ * Something a match said about themselves, kept per contact so a later
+ * message that doesn't square with it can be caught, even on another app.
+ */
+export interface ClaimedFact {
+  kind: ClaimedFactKind;
+  // Normalized for comparison, e.g. '29', 'nurse', 'new york'; kids is a
+  // count, 'none', or 'yes' when only mentioned
+  value: string;
+  // The message it came from; emptied when retention purges message text
+  source_text: string;
+  timestamp: number;
+  conversation_id: string;
+}
+
+export interface FactContradiction {
+  kind: ClaimedFactKind;
+  earlier: ClaimedFact;
+  later: ClaimedFact;
+  // Readable, for alert evidence
+  description: string;
+}
+
+const KIND_LABELS: Record<ClaimedFactKind, string> = {
+  age: 'Age',
+  job: 'Job',
+  city: 'Where they live',
+  kids: 'Kids',
+  hometown: 'Where they grew up',
+  travel: 'Travel plans'
+};
+
+const OCCUPATIONS = [
+  'police officer',
+  'oil rig worker',
+  'army officer',
+  'software engineer',
+  'nurse',
+  'doctor',
+  'surgeon',
+  'engineer',
+  'teacher',
+  'lawyer',
+  'pilot',
+  'soldier',
+  'contractor',
+  'accountant',
+  'architect',
+  'dentist',
+  'pharmacist',
+  'chef',
+  'student',
+  'firefighter',
+  'paramedic',
+  'developer',
+  'programmer',
+  'designer',
+  'consultant',
+  'trader',
+  'banker',
+  'sailor',
+  'marine',
+  'realtor',
+  'mechanic',
+  'electrician',
+  'plumber',
+  'photographer',
+  'musician',
+  'writer',
+  'barista',
+  'bartender',
+  'therapist',
+  'veterinarian',
+  'scientist',
+  'professor',
+  'manager',
+  'entrepreneur',
+  'investor',
+  'model',
+  'actor',
+  'actress',
+  'geologist'
+];
+
+const NUMBER_WORDS: Record<string, number> = { a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6 };
+
+// Up to three words after "live in", "from" and the like, "columbus, ohio" included
+const PLACE = "([a-z][a-z.'-]*(?:,?\\s+[a-z][a-z.'-]*){0,2})";
+
+// Short names people use for the same place
+const PLACE_ABBREVIATIONS: Record<string, string> = {
+  nyc: 'new york',
+  ny: 'new york',
+  la: 'los angeles',
+  sf: 'san francisco',
+  dc: 'washington dc',
+  philly: 'philadelphia',
+  nola: 'new orleans',
+  uk: 'united kingdom',
+  us: 'united states',
+  usa: 'united states',
+  uae: 'united arab emirates'
+};
+
+// Where a captured place or job stops: "london now", "nurse at st mary's"
+const BREAK_WORDS = new Set([
+  'and', 'but', 'with', 'for', 'now', 'since', 'so', 'because', 'right', 'at', 'near', 'on', 'in', 'next', 'this',
+  'tomorrow', 'today', 'tonight', 'soon', 'last', 'until', 'when', 'where', 'which', 'who', 'to', 'too', 'though',
+  'lol', 'haha', 'anyway', 'area', 'currently', 'actually', 'originally', 'hbu', 'wbu', 'you', 'u', 'what', 'how',
+  'about', 'ago', 'by', 'of', 'is', 'was', 'im', "i'm", 'i', 'these', 'days', 'got', 'gets', 'has', 'had', 'will',
+  'leaves', 'left', 'btw'
+]);
+
+// Captures that aren't places at all: "i live in the moment", "from work"
+const NOT_PLACES = new Set([
+  'moment', 'middle', 'a', 'an', 'my', 'your', 'his', 'her', 'their', 'our', 'this', 'that', 'same', 'it', 'here', 'there', 'town',
+  'city', 'bed', 'work', 'school', 'home', 'love', 'trouble', 'debt', 'shock', 'pain', 'fact', 'general', 'public',
+  'private', 'hope', 'fear', 'peace', 'hiding', 'different', 'another', 'all', 'everywhere', 'nowhere', 'somewhere'
+]);
+
+function trimWords(captured: string, maxWords: number): string | null {
+  const words: string[] = [];
+  for (const word of captured.trim().split(/\s+/)) {
+    const clean = word.replace(/[.,'-]+$/, '');
+    if (!clean || BREAK_WORDS.has(clean) || words.length === maxWords) break;
+    words.push(clean);
+  }
+  return words.length ? words.join(' ') : null;
+}
+
+// "the uk" and "uk" are the same place, and so are "nyc" and "new york"
+function place(captured: string): string | null {
+  const value = trimWords(captured.replace(/^the\s+/, ''), 3);
+  if (!value || NOT_PLACES.has(value.split(' ')[0])) return null;
+  return PLACE_ABBREVIATIONS[value.replace(/\./g, '')] || value;
+}
+
+interface FactExtractor {
+  kind: ClaimedFactKind;
+  pattern: RegExp;
+  value(match: RegExpExecArray): string | null;
+}
+
+// Matched against lowercased text with curly apostrophes straightened
+const EXTRACTORS: FactExtractor[] = [
+  {
+    kind: 'age',
+    // Not "i'm 10 minutes away" or "i'm 20k in debt"
+    pattern:
+      /\b(?:i'?m|i am|i just turned|i turned)\s+(\d{2})(?:\s*(?:years?|yrs?)\s*old|\s*yo\b|\s*y\/o)?(?!\s*(?:min|minute|hour|hr|mile|km|k\b|%|percent|am\b|pm\b|mins?\b|\d|,\d|\.\d|\/))/,
+    value: match => (Number(match[1]) >= 18 && Number(match[1]) <= 99 ? String(Number(match[1])) : null)
+  },
+  {
+    kind: 'job',
+    pattern: /\b(?:i work as|my job as|i'm working as|i am working as)\s+(?:an?\s+)?([a-z]+(?:\s+[a-z]+)?)/,
+    value: match => trimWords(match[1], 2)
+  },
+  {
+    kind: 'job',
+    // Qualifiers stay, so "student nurse" fits an earlier "nurse"
+    pattern: new RegExp(`\\b(?:i'?m|i am)\\s+(?:an?\\s+)((?:[a-z]+\\s+){0,2}(?:${OCCUPATIONS.join('|')}))\\b`),
+    value: match => match[1]
+  },
+  {
+    kind: 'kids',
+    pattern:
+      /\b(?:i (?:don'?t|do not) have (?:any )?(?:kids|children)|i have no (?:kids|children)|no kids of my own|i'?m childless|i never had (?:kids|children))\b/,
+    value: () => 'none'
+  },
+  {
+    kind: 'kids',
+    // "i have two kids", "my two kids are at school"
+    pattern: /\b(?:i (?:have|got)|my) (one|two|three|four|five|six|\d) (?:(?:little|young|grown|beautiful|wonderful|amazing) )?(?:kids|children|child|kid)\b/,
+    value: match => String(NUMBER_WORDS[match[1]] || Number(match[1]))
+  },
+  {
+    kind: 'kids',
+    pattern: /\b(?:i have an? (?:son|daughter|little boy|little girl)|my (?:son|daughter|kids|children)\b)/,
+    value: () => 'yes'
+  },
+  {
+    kind: 'city',
+    pattern: new RegExp(`\\b(?:i live|i currently live|i'?m living|i am living|i'?m based|i am based)\\s+in\\s+${PLACE}`),
+    value: match => place(match[1])
+  },
+  {
+    kind: 'hometown',
+    pattern: new RegExp(`\\b(?:i grew up|i was born|i was raised|born and raised)\\s+in\\s+${PLACE}`),
+    value: match => place(match[1])
+  },
+  {
+    kind: 'hometown',
+    pattern: new RegExp(`\\b(?:i'?m|i am)\\s+(?:originally\\s+)?from\\s+${PLACE}`),
+    value: match => place(match[1])
+  },
+  {
+    kind: 'travel',
+    pattern: new RegExp(
+      // Trips only; "heading to the gym" and "off to lunch" are errands
+      `\\b(?:(?:i'?m|i am|i'?ll be|i will be)\\s+(?:flying|travell?ing|moving)\\s+to|my (?:flight|trip) to)\\s+${PLACE}`
+    ),
+    value: match => place(match[1])
+  }
+];
+
+/**
+ * What the contact said about themselves in this conversation, one fact per
+ * kind and value per message. Only their messages count.
+ */
+export function extractClaimedFacts(conversation: Pick<Conversation, 'id' | 'messages'>): ClaimedFact[] {
+  const facts: ClaimedFact[] = [];
+  for (const message of conversation.messages) {
+    if (message.sender !== 'contact' || !message.text) continue;
+    const text = message.text.toLowerCase().replace(/[‘’]/g, "'");
+    const seen = new Set<string>();
+    for (const extractor of EXTRACTORS) {
+      const match = extractor.pattern.exec(text);
+      const value = match && extractor.value(match);
+      if (!value || seen.has(`${extractor.kind}:${value}`)) continue;
+      seen.add(`${extractor.kind}:${value}`);
+      facts.push({
+        kind: extractor.kind,
+        value,
+        source_text: message.text,
+        timestamp: message.timestamp,
+        conversation_id: conversation.id
+      });
+    }
+  }
+  return facts;
+}
+
+// "new york" and "new york city", "engineer" and "software engineer"
+function sameWords(a: string, b: string): boolean {
+  return ` ${a} `.includes(` ${b} `) || ` ${b} `.includes(` ${a} `);
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const YEAR_MS = 365 * DAY_MS;
+// Plans for two different trips this close together are one story changing
+const TRAVEL_WINDOW_MS = 7 * DAY_MS;
+
+function contradicts(earlier: ClaimedFact, later: ClaimedFact): boolean {
+  switch (earlier.kind) {
+    case 'age': {
+      // Birthdays happen, but ages don't go down
+      const grown = Number(later.value) - Number(earlier.value);
+      return grown < 0 || grown > 1 + Math.floor((later.timestamp - earlier.timestamp) / YEAR_MS);
+    }
+    case 'kids':
+      if (earlier.value === 'yes' || later.value === 'yes') {
+        return (earlier.value === 'none') !== (later.value === 'none');
+      }
+      return earlier.value !== later.value;
+    case 'travel':
+      return later.timestamp - earlier.timestamp <= TRAVEL_WINDOW_MS && !sameWords(earlier.value, later.value);
+    default:
+      return !sameWords(earlier.value, later.value);
+  }
+}
+
+function excerpt(fact: ClaimedFact): string {
+  if (!fact.source_text) return fact.value;
+  return fact.source_text.length > 80 ? `${fact.source_text.slice(0, 77)}...` : fact.source_text;
+}
+
+function describe(earlier: ClaimedFact, later: ClaimedFact): string {
+  const date = (timestamp: number) => new Date(timestamp).toLocaleDateString();
+  return `${KIND_LABELS[earlier.kind]}: "${excerpt(earlier)}" (${date(earlier.timestamp)}), then "${excerpt(later)}" (${date(later.timestamp)})`;
+}
+
+/**
+ * Later claims that don't fit earlier ones of the same kind, each pair of
+ * values reported once however often they were repeated.
+ */
+export function findFactContradictions(facts: ClaimedFact[]): FactContradiction[] {
+  const sorted = [...facts].sort((a, b) => a.timestamp - b.timestamp);
+  const contradictions: FactContradiction[] = [];
+  const reported = new Set<string>();
+
+  sorted.forEach((later, index) => {
+    for (const earlier of sorted.slice(0, index)) {
+      if (earlier.kind !== later.kind || !contradicts(earlier, later)) continue;
+      const key = `${later.kind}:${[earlier.value, later.value].sort().join('|')}`;
+      if (reported.has(key)) continue;
+      reported.add(key);
+      contradictions.push({ kind: later.kind, earlier, later, description: describe(earlier, later) });
+    }
+  });
+  return contradictions;
+}
+
+// Stored and fresh facts together, without counting the same claim twice
+export function mergeClaimedFacts(...lists: ClaimedFact[][]): ClaimedFact[] {
+  const merged = new Map<string, ClaimedFact>();
+  for (const fact of lists.flat()) {
+    const key = `${fact.kind}:${fact.value}:${fact.timestamp}`;
+    const existing = merged.get(key);
+    // Keep the copy that still has its message
+    if (!existing || (!existing.source_text && fact.source_text)) merged.set(key, fact);
+  }
+  return [...merged.values()];
+}
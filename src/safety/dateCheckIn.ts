@@ -0,0 +1,409 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import type { Conversation } from '../database';
+
+// Where a missed check-in is reported. Every channel stays on the user's
+// machine or network unless they point it elsewhere.
+export type EscalationChannel =
+  | { type: 'webhook'; url: string }
+  | { type: 'mailto'; to: string }
+  | { type: 'file'; directory: string };
+
+export interface DateSafetySettings {
+  channel?: EscalationChannel;
+  // Named in the escalation message, e.g. 'Sam'
+  trustedContactName?: string;
+}
+
+// waiting → due (prompt) → overdue (louder prompts) → escalated
+export type CheckInState = 'waiting' | 'due' | 'overdue' | 'escalated';
+
+export interface DatePlan {
+  id: string;
+  // The thread with the match, so the escalation can describe them
+  conversation_id?: string;
+  who: string;
+  location: string;
+  starts_at: number;
+  ends_at: number;
+  check_in_minutes: number;
+  last_check_in_at?: number;
+  state: CheckInState;
+  status: 'active' | 'ended';
+  // When the plan was made, for escalating while the database is locked
+  trust_score?: number;
+  created_at: number;
+}
+
+export interface EscalationPayload {
+  kind: 'missed_check_in' | 'all_clear' | 'test';
+  message: string;
+  sent_at: number;
+  trusted_contact_name?: string;
+  date: {
+    who: string;
+    location: string;
+    starts_at: number;
+    ends_at: number;
+    last_check_in_at?: number;
+    missed_check_in_due_at?: number;
+    // Stands in for `match` when the database was locked at send time
+    trust_score_when_planned?: number;
+  };
+  match?: {
+    name: string;
+    platform: string;
+    conversation_id: string;
+    contact_id?: string;
+    trust_score: number;
+    relationship_stage: Conversation['relationship_stage'];
+    first_interaction: number;
+    last_interaction: number;
+    message_count: number;
+    profile?: Conversation['profile'];
+  };
+}
+
+// Time to answer a prompt before it gets louder, then before escalating
+export const CHECK_IN_GRACE_MINUTES = 10;
+export const CHECK_IN_LOUD_MINUTES = 10;
+
+const MINUTE_MS = 60 * 1000;
+const TICK_MS = 15 * 1000;
+const LOUD_REPEAT_MS = MINUTE_MS;
+// Failed escalations are retried after this, doubling up to the cap
+const ESCALATION_RETRY_MS = 30 * 1000;
+const ESCALATION_RETRY_MAX_MS = 15 * MINUTE_MS;
+// A plan found this long after its end, e.g. when the app was closed for
+// the whole date, is ended rather than escalated
+const STALE_PLAN_MS = 12 * 60 * MINUTE_MS;
+const WEBHOOK_TIMEOUT_MS = 10 * 1000;
+
+// Every interval from the start, with a last check-in at the end
+export function nextCheckInDue(plan: DatePlan): number {
+  const from = plan.last_check_in_at ?? plan.starts_at;
+  return Math.min(from + plan.check_in_minutes * MINUTE_MS, plan.ends_at);
+}
+
+export function checkInStateAt(plan: DatePlan, now: number): CheckInState {
+  const due = nextCheckInDue(plan);
+  if (now < due) return 'waiting';
+  if (now < due + CHECK_IN_GRACE_MINUTES * MINUTE_MS) return 'due';
+  if (now < due + (CHECK_IN_GRACE_MINUTES + CHECK_IN_LOUD_MINUTES) * MINUTE_MS) return 'overdue';
+  return 'escalated';
+}
+
+// Why a channel can't be used, or null when it's valid
+export function validateEscalationChannel(channel: Partial<EscalationChannel> | undefined): string | null {
+  if (!channel) return 'Choose how to reach your trusted contact';
+  switch (channel.type) {
+    case 'webhook': {
+      try {
+        const url = new URL(channel.url || '');
+        return url.protocol === 'http:' || url.protocol === 'https:' ? null : 'Webhook must be an http(s) URL';
+      } catch {
+        return 'Webhook must be an http(s) URL';
+      }
+    }
+    case 'mailto':
+      return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(channel.to || '') ? null : 'Enter an email address';
+    case 'file':
+      return channel.directory && path.isAbsolute(channel.directory) ? null : 'Choose a folder';
+    default:
+      return 'Unknown escalation channel';
+  }
+}
+
+/**
+ * What the trusted contact receives. `conversation` is the thread the plan
+ * links to, read at send time so its trust score is the latest.
+ */
+export function buildEscalationPayload(
+  plan: DatePlan,
+  kind: EscalationPayload['kind'],
+  conversation: Conversation | null,
+  settings: DateSafetySettings,
+  now: number = Date.now()
+): EscalationPayload {
+  const time = (timestamp: number) => new Date(timestamp).toLocaleString();
+  const greeting = settings.trustedContactName ? `Hi ${settings.trustedContactName}. ` : '';
+  const message =
+    greeting +
+    (kind === 'all_clear'
+      ? `All clear: I checked in after missing one, on my date with ${plan.who} at ${plan.location}.`
+      : kind === 'test'
+      ? 'This is a test of my date check-in alerts. No action needed.'
+      : `I missed a safety check-in on a date with ${plan.who} at ${plan.location} ` +
+        `(${time(plan.starts_at)} to ${time(plan.ends_at)}). Please try to reach me.`);
+
+  return {
+    kind,
+    message,
+    sent_at: now,
+    trusted_contact_name: settings.trustedContactName,
+    date: {
+      who: plan.who,
+      location: plan.location,
+      starts_at: plan.starts_at,
+      ends_at: plan.ends_at,
+      last_check_in_at: plan.last_check_in_at,
+      missed_check_in_due_at: kind === 'missed_check_in' ? nextCheckInDue(plan) : undefined,
+      trust_score_when_planned: conversation ? undefined : plan.trust_score
+    },
+    match: conversation
+      ? {
+          name: conversation.contact,
+          platform: conversation.platform,
+          conversation_id: conversation.id,
+          contact_id: conversation.contact_id,
+          trust_score: conversation.trust_score,
+          relationship_stage: conversation.relationship_stage,
+          first_interaction: conversation.first_interaction,
+          last_interaction: conversation.last_interaction,
+          message_count: conversation.messages.length,
+          profile: conversation.profile
+        }
+      : undefined
+  };
+}
+
+// Readable text for the email draft and dropped file
+export function formatEscalationText(payload: EscalationPayload): string {
+  const time = (timestamp: number) => new Date(timestamp).toLocaleString();
+  const lines = [
+    payload.message,
+    '',
+    `Who: ${payload.date.who}`,
+    `Where: ${payload.date.location}`,
+    `When: ${time(payload.date.starts_at)} to ${time(payload.date.ends_at)}`
+  ];
+  if (payload.date.last_check_in_at) lines.push(`Last check-in: ${time(payload.date.last_check_in_at)}`);
+  if (payload.match) {
+    lines.push(
+      '',
+      `Match: ${payload.match.name} on ${payload.match.platform}`,
+      `Trust score: ${Math.round(payload.match.trust_score * 100)}%`
+    );
+    if (payload.match.profile?.age) lines.push(`Age: ${payload.match.profile.age}`);
+    if (payload.match.profile?.location) lines.push(`Location: ${payload.match.profile.location}`);
+  } else if (payload.date.trust_score_when_planned !== undefined) {
+    lines.push('', `Trust score when planned: ${Math.round(payload.date.trust_score_when_planned * 100)}%`);
+  }
+  lines.push('', `Sent ${time(payload.sent_at)}`);
+  return lines.join('\n');
+}
+
+export function buildMailtoUrl(to: string, payload: EscalationPayload): string {
+  const subject = payload.kind === 'missed_check_in' ? 'Missed date check-in' : 'Date check-in';
+  return `mailto:${encodeURI(to)}?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(
+    formatEscalationText(payload)
+  )}`;
+}
+
+/**
+ * Delivers the payload and says where it went. A webhook gets it as JSON; a
+ * mailto channel opens a draft for the user's mail app to send; a file drop
+ * writes JSON and text side by side. Throws when delivery fails.
+ */
+export async function sendEscalation(
+  channel: EscalationChannel,
+  payload: EscalationPayload,
+  openExternal: (url: string) => Promise<void>
+): Promise<string> {
+  const invalid = validateEscalationChannel(channel);
+  if (invalid) throw new Error(invalid);
+
+  switch (channel.type) {
+    case 'webhook': {
+      const controller = new AbortController();
+      const timeout = setTimeout(() => controller.abort(), WEBHOOK_TIMEOUT_MS);
+      try {
+        const response = await fetch(channel.url, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(payload),
+          signal: controller.signal
+        });
+        if (!response.ok) throw new Error(`Webhook answered ${response.status}`);
+      } finally {
+        clearTimeout(timeout);
+      }
+      return `Sent to ${channel.url}`;
+    }
+    case 'mailto':
+      await openExternal(buildMailtoUrl(channel.to, payload));
+      return `Opened an email to ${channel.to}`;
+    case 'file': {
+      await fs.mkdir(channel.directory, { recursive: true });
+      const base = path.join(channel.directory, `date-check-in-${payload.kind}-${payload.sent_at}`);
+      await fs.writeFile(`${base}.json`, JSON.stringify(payload, null, 2));
+      await fs.writeFile(`${base}.txt`, formatEscalationText(payload));
+      return `Saved to ${base}.json`;
+    }
+  }
+}
+
+export interface DateCheckInHandlers {
+  // A check-in is due; `loud` once it's overdue, repeated every minute
+  onPrompt(plan: DatePlan, loud: boolean): void;
+  // False when no channel is set; that and throwing leave the plan overdue,
+  // with loud prompts carrying on until a later attempt goes through
+  onEscalate(plan: DatePlan): Promise<boolean>;
+  // Checked in after an escalation went out
+  onAllClear(plan: DatePlan): Promise<void>;
+  // Any change worth saving or showing
+  onChange(plan: DatePlan): void;
+}
+
+/**
+ * Runs check-ins for dates in progress. Works from the clock on every tick
+ * rather than one timer per prompt, so sleep, restarts and a locked app
+ * can't skip a step.
+ */
+export class DateCheckInScheduler {
+  private plans = new Map<string, DatePlan>();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private lastLoudPrompt = new Map<string, number>();
+  private escalating = new Set<string>();
+  private escalationRetries = new Map<string, { failures: number; at: number }>();
+
+  constructor(private readonly handlers: DateCheckInHandlers) {}
+
+  list(): DatePlan[] {
+    return [...this.plans.values()].sort((a, b) => a.starts_at - b.starts_at);
+  }
+
+  get(id: string): DatePlan | undefined {
+    return this.plans.get(id);
+  }
+
+  start(plan: DatePlan): DatePlan {
+    this.plans.set(plan.id, plan);
+    this.handlers.onChange(plan);
+    this.ensureTimer();
+    this.tick();
+    return plan;
+  }
+
+  // Stored plans after an unlock; ones already running here are newer
+  restore(plans: DatePlan[], now: number = Date.now()): void {
+    for (const plan of plans) {
+      if (this.plans.has(plan.id) || plan.status !== 'active') continue;
+      if (now > plan.ends_at + STALE_PLAN_MS && plan.state !== 'escalated') {
+        this.handlers.onChange({ ...plan, status: 'ended' });
+        continue;
+      }
+      this.plans.set(plan.id, plan);
+    }
+    this.ensureTimer();
+  }
+
+  // The last check-in, at or after the planned end, finishes the date
+  async checkIn(id: string, now: number = Date.now()): Promise<DatePlan> {
+    const plan = this.requirePlan(id);
+    const wasEscalated = plan.state === 'escalated';
+    plan.last_check_in_at = now;
+    plan.state = 'waiting';
+    if (now >= plan.ends_at) plan.status = 'ended';
+    this.lastLoudPrompt.delete(id);
+    this.escalationRetries.delete(id);
+    this.finishIfEnded(plan);
+    this.handlers.onChange(plan);
+    if (wasEscalated) await this.handlers.onAllClear(plan);
+    return plan;
+  }
+
+  end(id: string): DatePlan {
+    const plan = this.requirePlan(id);
+    plan.status = 'ended';
+    this.finishIfEnded(plan);
+    this.handlers.onChange(plan);
+    return plan;
+  }
+
+  tick(now: number = Date.now()): void {
+    for (const plan of this.plans.values()) {
+      if (now < plan.starts_at) continue;
+      const state = checkInStateAt(plan, now);
+      // Escalated stays escalated until they check in
+      if (plan.state === 'escalated') continue;
+
+      if (state === 'escalated') {
+        if (!this.escalate(plan, now)) {
+          this.promptLoudly(plan, now);
+          this.setState(plan, 'overdue');
+        }
+      } else if (state === 'overdue') {
+        this.promptLoudly(plan, now);
+        this.setState(plan, state);
+      } else if (state !== plan.state) {
+        if (state === 'due') this.handlers.onPrompt(plan, false);
+        this.setState(plan, state);
+      }
+    }
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  private promptLoudly(plan: DatePlan, now: number): void {
+    const last = this.lastLoudPrompt.get(plan.id) || 0;
+    if (now - last < LOUD_REPEAT_MS) return;
+    this.lastLoudPrompt.set(plan.id, now);
+    this.handlers.onPrompt(plan, true);
+  }
+
+  // False while waiting to retry, so the caller keeps prompting here instead
+  private escalate(plan: DatePlan, now: number): boolean {
+    if (this.escalating.has(plan.id)) return true;
+    const retry = this.escalationRetries.get(plan.id);
+    if (retry && now < retry.at) return false;
+    this.escalating.add(plan.id);
+    this.handlers
+      .onEscalate(plan)
+      .then(sent => {
+        if (sent) {
+          this.escalationRetries.delete(plan.id);
+          this.setState(plan, 'escalated');
+        } else {
+          // Nowhere to send it yet; look again in case a channel gets set
+          this.escalationRetries.set(plan.id, { failures: 0, at: Date.now() + LOUD_REPEAT_MS });
+        }
+      })
+      .catch(error => {
+        const failures = (retry?.failures || 0) + 1;
+        const delay = Math.min(ESCALATION_RETRY_MS * 2 ** (failures - 1), ESCALATION_RETRY_MAX_MS);
+        console.error(`Date check-in escalation failed, retrying in ${Math.round(delay / 1000)}s:`, error);
+        this.escalationRetries.set(plan.id, { failures, at: Date.now() + delay });
+      })
+      .finally(() => this.escalating.delete(plan.id));
+    return true;
+  }
+
+  private setState(plan: DatePlan, state: CheckInState): void {
+    if (plan.state === state) return;
+    plan.state = state;
+    this.handlers.onChange(plan);
+  }
+
+  private finishIfEnded(plan: DatePlan): void {
+    if (plan.status !== 'ended') return;
+    this.plans.delete(plan.id);
+    this.lastLoudPrompt.delete(plan.id);
+    this.escalationRetries.delete(plan.id);
+    if (this.plans.size === 0) this.stop();
+  }
+
+  private requirePlan(id: string): DatePlan {
+    const plan = this.plans.get(id);
+    if (!plan) throw new Error('That date has already ended');
+    return plan;
+  }
+
+  private ensureTimer(): void {
+    if (this.timer || this.plans.size === 0) return;
+    this.timer = setInterval(() => this.tick(), TICK_MS);
+  }
+}
@@ -0,0 +1,41 @@
+import * as http from 'http';
+import { formatEscalationText, EscalationPayload } from './dateCheckIn';
+
+/**
+ * A local stand-in for a trusted contact's webhook: prints every date
+ * check-in alert it receives. Point the webhook channel in Settings at the
+ * address it shows and use "Send test".
+ *
+ *   --port <n>     port to listen on (default 8787)
+ *   --status <n>   answer with this status, to try failed deliveries
+ *
+ * Run with `npm run escalation-stand-in`.
+ */
+function readOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+const args = process.argv.slice(2);
+const port = Number(readOption(args, '--port') || 8787);
+const status = Number(readOption(args, '--status') || 200);
+
+const server = http.createServer((request, response) => {
+  let body = '';
+  request.on('data', chunk => (body += chunk));
+  request.on('end', () => {
+    console.log(`\n${new Date().toLocaleTimeString()} ${request.method} ${request.url} -> ${status}`);
+    try {
+      console.log(formatEscalationText(JSON.parse(body) as EscalationPayload));
+    } catch {
+      console.log(body || '(empty body)');
+    }
+    response.writeHead(status, { 'Content-Type': 'application/json' });
+    response.end(JSON.stringify({ received: status < 400 }));
+  });
+});
+
+// Loopback only, so nothing else on the network can post to it
+server.listen(port, '127.0.0.1', () => {
+  console.log(`Escalation stand-in listening on http://127.0.0.1:${port}/ (Ctrl+C to stop)`);
+});
@@ -0,0 +1,397 @@
+export type EvaluationLabel = 'romance_scam' | 'sextortion' | 'investment_scam' | 'genuine';
+
+export const EVALUATION_LABELS: EvaluationLabel[] = ['romance_scam', 'sextortion', 'investment_scam', 'genuine'];
+
+export interface LabeledConversation {
+  id: string;
+  label: EvaluationLabel;
+  // What the example is there to test
+  note: string;
+  messages: Array<{ sender: 'user' | 'contact'; text: string }>;
+}
+
+// Bump when conversations are added, removed or relabeled, so reports from
+// different corpora aren't compared as if they were the same
+export const CORPUS_VERSION = '1.0.0';
+
+/**
+ * Synthetic conversations, written to resemble what users paste in. The
+ * genuine ones deliberately use words the scam rules look for (hospital
+ * shifts, a deployed brother, a crypto job) so false alarms show up.
+ */
+export const EVALUATION_CORPUS: LabeledConversation[] = [
+  // Romance scams
+  {
+    id: 'romance-oil-rig-customs',
+    label: 'romance_scam',
+    note: 'Offshore worker, customs fees, gift cards',
+    messages: [
+      { sender: 'contact', text: 'Hello beautiful, your smile is the most gorgeous thing I have seen today' },
+      { sender: 'user', text: 'Haha thanks! What do you do?' },
+      { sender: 'contact', text: 'I am an engineer on an oil rig in the North Sea, contract ends in two months' },
+      { sender: 'contact', text: 'I feel like God brought us together, I never felt this way before' },
+      { sender: 'user', text: 'That is sweet, we only started talking yesterday though' },
+      { sender: 'contact', text: 'My package with my gold is stuck in customs and they want clearance fees' },
+      { sender: 'contact', text: 'Can you send money with gift cards? I will pay you back when I land, I promise honey' }
+    ]
+  },
+  {
+    id: 'romance-military-leave',
+    label: 'romance_scam',
+    note: 'Deployed soldier asking for leave money',
+    messages: [
+      { sender: 'contact', text: 'Hi dear, I am a US army sergeant on military deployment in Syria' },
+      { sender: 'user', text: 'Wow, stay safe. How long are you there?' },
+      { sender: 'contact', text: 'Six more months. I lost my wife three years ago and I am lonely' },
+      { sender: 'contact', text: 'You are my soulmate, I knew it from your first message' },
+      { sender: 'contact', text: 'I want to come see you but I need to pay for a leave request' },
+      { sender: 'contact', text: 'Please it is urgent, can you help with a Western Union transfer of $900?' }
+    ]
+  },
+  {
+    id: 'romance-stranded-hospital',
+    label: 'romance_scam',
+    note: 'Stranded abroad after an accident',
+    messages: [
+      { sender: 'contact', text: 'Good morning my love, did you sleep well?' },
+      { sender: 'user', text: 'Morning! Yes, how is the trip going?' },
+      { sender: 'contact', text: 'Something terrible happened, I had an accident and I am in hospital in Lagos' },
+      { sender: 'contact', text: 'They took my wallet and the hospital will not release me until the bill is paid' },
+      { sender: 'contact', text: 'It is an emergency, I need you to send money today. If you really loved me you would help' },
+      { sender: 'user', text: 'Can we video call first?' },
+      { sender: 'contact', text: 'My camera broken, the connection here is bad' }
+    ]
+  },
+  {
+    id: 'romance-inheritance-lawyer',
+    label: 'romance_scam',
+    note: 'Inheritance held by a lawyer, legal fees',
+    messages: [
+      { sender: 'contact', text: 'Hello sweetie, I am a widower and a doctor abroad with the UN' },
+      { sender: 'contact', text: 'My late father left me an inheritance but the lawyer needs taxes paid first' },
+      { sender: 'user', text: 'That sounds stressful' },
+      { sender: 'contact', text: 'Once it is released we can be together forever, it is destiny' },
+      { sender: 'contact', text: 'Could you lend me $2,000 for the legal documents? Bitcoin is easiest' }
+    ]
+  },
+  {
+    id: 'romance-visa-ticket',
+    label: 'romance_scam',
+    note: 'Needs a flight ticket and visa to visit',
+    messages: [
+      { sender: 'contact', text: 'Hi babe, you are perfect, I think we are meant to be' },
+      { sender: 'user', text: 'That is a lot to say after a day!' },
+      { sender: 'contact', text: 'I want to come to you but my visa and flight ticket cost more than I have' },
+      { sender: 'contact', text: 'Let us move to WhatsApp, this app is not good. Text me on whatsapp' },
+      { sender: 'contact', text: 'Can you help with the money for the flight? I will pay you back' }
+    ]
+  },
+  {
+    id: 'romance-delete-app',
+    label: 'romance_scam',
+    note: 'Isolation and pressure before a money ask',
+    messages: [
+      { sender: 'contact', text: 'Darling I love you, I know we just met but I have never felt this way' },
+      { sender: 'contact', text: 'Please delete the app, I only want you to talk to me' },
+      { sender: 'user', text: 'I am not ready for that yet' },
+      { sender: 'contact', text: 'Don\'t you trust me? I thought you were different' },
+      { sender: 'contact', text: 'My business trip went wrong and my account is frozen, can you send money for my hotel?' }
+    ]
+  },
+  {
+    id: 'romance-steam-cards',
+    label: 'romance_scam',
+    note: 'Gift card request after love bombing',
+    messages: [
+      { sender: 'contact', text: 'You are so beautiful, fate brought us together' },
+      { sender: 'user', text: 'Thanks, where are you from?' },
+      { sender: 'contact', text: 'I am working overseas on a contract in Dubai' },
+      { sender: 'contact', text: 'My phone broken so I can only chat here, no video sorry' },
+      { sender: 'contact', text: 'Can you buy me some iTunes gift cards? I cannot buy them here' }
+    ]
+  },
+  {
+    id: 'romance-slow-burn',
+    label: 'romance_scam',
+    note: 'Long build-up, then a hospital bill',
+    messages: [
+      { sender: 'contact', text: 'How was work today?' },
+      { sender: 'user', text: 'Busy, but good. Yours?' },
+      { sender: 'contact', text: 'Long day on the rig. I miss you honey' },
+      { sender: 'contact', text: 'My daughter is sick and in hospital, the bill is $3,000' },
+      { sender: 'contact', text: 'I hate to ask but I need financial help, can you wire transfer it? I have nobody else' }
+    ]
+  },
+
+  // Sextortion
+  {
+    id: 'sextortion-recorded-call',
+    label: 'sextortion',
+    note: 'Recorded video call, threat to send to friends',
+    messages: [
+      { sender: 'contact', text: 'Hey sexy, want to have a video call on Skype tonight?' },
+      { sender: 'user', text: 'Maybe, what did you have in mind?' },
+      { sender: 'contact', text: 'Something private and intimate, just us' },
+      { sender: 'contact', text: 'I have the recording of you naked. Pay $500 or I send it to your friends and family' },
+      { sender: 'contact', text: 'You have 24 hours. Pay and I delete it' }
+    ]
+  },
+  {
+    id: 'sextortion-nude-exchange',
+    label: 'sextortion',
+    note: 'Asks for nudes then blackmails',
+    messages: [
+      { sender: 'contact', text: 'Send me nude pics, I will send mine too' },
+      { sender: 'user', text: 'I don\'t really do that' },
+      { sender: 'contact', text: 'Come on, don\'t you trust me? Just one' },
+      { sender: 'contact', text: 'Now I have your photos. I will expose you on social media unless you pay' },
+      { sender: 'contact', text: 'Bitcoin only. Send it now' }
+    ]
+  },
+  {
+    id: 'sextortion-cam-show',
+    label: 'sextortion',
+    note: 'Cam show invite moving to WhatsApp video',
+    messages: [
+      { sender: 'contact', text: 'Hi handsome, I do a private cam show for special people' },
+      { sender: 'contact', text: 'Add me on WhatsApp video, we can be naughty' },
+      { sender: 'user', text: 'Who is this?' },
+      { sender: 'contact', text: 'I recorded everything. Send $300 with a gift card or I share it with your contacts' }
+    ]
+  },
+  {
+    id: 'sextortion-webcam-threat',
+    label: 'sextortion',
+    note: 'Webcam recording and deadline',
+    messages: [
+      { sender: 'contact', text: 'Let us turn on the webcam, I want to see you' },
+      { sender: 'user', text: 'Okay, for a bit' },
+      { sender: 'contact', text: 'I have a recording now. If you do not pay I will send to friends' },
+      { sender: 'contact', text: 'It is urgent, pay now and I delete everything' }
+    ]
+  },
+  {
+    id: 'sextortion-sugar',
+    label: 'sextortion',
+    note: 'Sugar-baby offer leading to intimate photos',
+    messages: [
+      { sender: 'contact', text: 'I am a sugar daddy looking for a sugar baby, $1000 a week' },
+      { sender: 'contact', text: 'First send me some sexy private pictures to prove you are real' },
+      { sender: 'user', text: 'Why do you need those?' },
+      { sender: 'contact', text: 'Send them or I will expose the ones you sent before to social media' }
+    ]
+  },
+  {
+    id: 'sextortion-hotel',
+    label: 'sextortion',
+    note: 'Pushes a hotel room meet and explicit pics',
+    messages: [
+      { sender: 'contact', text: 'Meet tonight at my hotel room? Come over now' },
+      { sender: 'user', text: 'I would rather meet for coffee first' },
+      { sender: 'contact', text: 'Then send me naked photos so I know you are serious' },
+      { sender: 'contact', text: 'If you don\'t, I\'ll share our chat with your friends' }
+    ]
+  },
+  {
+    id: 'sextortion-video-then-pay',
+    label: 'sextortion',
+    note: 'Intimate video then payment demand',
+    messages: [
+      { sender: 'contact', text: 'You are gorgeous, let us have a video call now' },
+      { sender: 'contact', text: 'Show me something intimate, nobody will see' },
+      { sender: 'contact', text: 'I saved it. Pay money to keep it silent or it goes to social media' }
+    ]
+  },
+  {
+    id: 'sextortion-adult-content',
+    label: 'sextortion',
+    note: 'Adult content site and threat',
+    messages: [
+      { sender: 'contact', text: 'Do you want some adult content? Click my link www.private-cams.tk' },
+      { sender: 'user', text: 'No thanks' },
+      { sender: 'contact', text: 'I already have your photos. Pay with bitcoin or I send them to your contacts' }
+    ]
+  },
+
+  // Investment scams
+  {
+    id: 'investment-crypto-platform',
+    label: 'investment_scam',
+    note: 'Pig-butchering crypto platform',
+    messages: [
+      { sender: 'contact', text: 'Hi! I am a financial analyst, I trade crypto in my free time' },
+      { sender: 'user', text: 'Oh cool, is that going well?' },
+      { sender: 'contact', text: 'My uncle gives me insider information, guaranteed profit every week' },
+      { sender: 'contact', text: 'Let me show you, make a deposit on this trading account, minimum investment is $500' },
+      { sender: 'contact', text: 'You can withdraw your profits any time, it is risk-free' }
+    ]
+  },
+  {
+    id: 'investment-forex-mentor',
+    label: 'investment_scam',
+    note: 'Forex mentor and commission',
+    messages: [
+      { sender: 'contact', text: 'I made $40k last month with forex and binary options' },
+      { sender: 'contact', text: 'I can teach you, it is a business opportunity for us both' },
+      { sender: 'user', text: 'I don\'t know much about trading' },
+      { sender: 'contact', text: 'Just fund your account with $1000 and I take a small commission on the returns' }
+    ]
+  },
+  {
+    id: 'investment-limited-time',
+    label: 'investment_scam',
+    note: 'Limited-time crypto offer with urgency',
+    messages: [
+      { sender: 'contact', text: 'There is a limited time offer on a new cryptocurrency, you need to hurry' },
+      { sender: 'user', text: 'What is it?' },
+      { sender: 'contact', text: 'Send USDT to this wallet and your earnings double in a week' },
+      { sender: 'contact', text: 'Do it now, the window closes tonight' }
+    ]
+  },
+  {
+    id: 'investment-stock-tips',
+    label: 'investment_scam',
+    note: 'Stock tips from a new match',
+    messages: [
+      { sender: 'contact', text: 'My aunt works at a hedge fund and gives me stock tips' },
+      { sender: 'contact', text: 'Guaranteed profit, you just deposit through my app' },
+      { sender: 'user', text: 'Which app?' },
+      { sender: 'contact', text: 'Visit www.gold-trade.ml and open a trading account, I will guide you' }
+    ]
+  },
+  {
+    id: 'investment-future-together',
+    label: 'investment_scam',
+    note: 'Romance framing around an investment',
+    messages: [
+      { sender: 'contact', text: 'I want to build our future together, darling' },
+      { sender: 'contact', text: 'If we both invest in bitcoin now we can buy a house next year' },
+      { sender: 'user', text: 'That seems fast' },
+      { sender: 'contact', text: 'Trust me, the returns are risk-free. Just make the first deposit' }
+    ]
+  },
+  {
+    id: 'investment-withdraw-fee',
+    label: 'investment_scam',
+    note: 'Withdrawal blocked by a fee',
+    messages: [
+      { sender: 'contact', text: 'Your trading account shows great earnings!' },
+      { sender: 'user', text: 'I tried to withdraw but it asks for a tax payment' },
+      { sender: 'contact', text: 'That is normal, pay the taxes and fees and the profits are released' },
+      { sender: 'contact', text: 'Use a bank transfer, it is urgent before the account freezes' }
+    ]
+  },
+  {
+    id: 'investment-gold',
+    label: 'investment_scam',
+    note: 'Gold trading pitch',
+    messages: [
+      { sender: 'contact', text: 'Do you know about gold trading? My family has done it for years' },
+      { sender: 'contact', text: 'It is a guaranteed profit with insider information from my uncle' },
+      { sender: 'user', text: 'I am not really into that' },
+      { sender: 'contact', text: 'You should try, minimum investment is small and you withdraw anytime' }
+    ]
+  },
+  {
+    id: 'investment-app-download',
+    label: 'investment_scam',
+    note: 'Trading app link and WhatsApp move',
+    messages: [
+      { sender: 'contact', text: 'Let\'s move to WhatsApp, I can show you my trading results' },
+      { sender: 'contact', text: 'Download this app https://coin-yield.io and make a deposit' },
+      { sender: 'user', text: 'Is it safe?' },
+      { sender: 'contact', text: 'Completely risk-free, I earn commission for you every day' }
+    ]
+  },
+
+  // Genuine
+  {
+    id: 'genuine-coffee-date',
+    label: 'genuine',
+    note: 'Ordinary small talk leading to a public date',
+    messages: [
+      { sender: 'contact', text: 'Hey! I saw you like hiking, what is your favourite trail?' },
+      { sender: 'user', text: 'The ridge loop near the lake, you?' },
+      { sender: 'contact', text: 'Same actually! Would you like to grab coffee on Saturday at the cafe by the station?' },
+      { sender: 'user', text: 'Sounds good, 11?' },
+      { sender: 'contact', text: 'Perfect, see you there' }
+    ]
+  },
+  {
+    id: 'genuine-nurse',
+    label: 'genuine',
+    note: 'Works night shifts at a hospital',
+    messages: [
+      { sender: 'contact', text: 'Sorry for the slow reply, I just finished a night shift at the hospital' },
+      { sender: 'user', text: 'Oh you are a nurse? That must be tiring' },
+      { sender: 'contact', text: 'It is, but I love it. The ER gets busy on weekends' },
+      { sender: 'contact', text: 'Want to get brunch next week when I am off?' }
+    ]
+  },
+  {
+    id: 'genuine-deployed-brother',
+    label: 'genuine',
+    note: 'Mentions a deployed family member',
+    messages: [
+      { sender: 'contact', text: 'My brother is deployed overseas with the navy, so I have his dog for a while' },
+      { sender: 'user', text: 'Aw what kind of dog?' },
+      { sender: 'contact', text: 'A very spoiled beagle. He steals socks' },
+      { sender: 'contact', text: 'We could walk him in the park sometime if you like dogs' }
+    ]
+  },
+  {
+    id: 'genuine-crypto-job',
+    label: 'genuine',
+    note: 'Works in software at a crypto company',
+    messages: [
+      { sender: 'user', text: 'What do you do for work?' },
+      { sender: 'contact', text: 'I am a backend developer, currently at a cryptocurrency exchange, mostly boring database stuff' },
+      { sender: 'contact', text: 'Honestly I don\'t even own any crypto haha' },
+      { sender: 'user', text: 'Ha, fair enough' },
+      { sender: 'contact', text: 'What about you?' }
+    ]
+  },
+  {
+    id: 'genuine-video-call',
+    label: 'genuine',
+    note: 'Suggests a video call before meeting',
+    messages: [
+      { sender: 'contact', text: 'Before we meet, would you be up for a quick video call this week?' },
+      { sender: 'user', text: 'Sure, Thursday evening?' },
+      { sender: 'contact', text: 'Thursday works. Then maybe dinner somewhere public on the weekend' }
+    ]
+  },
+  {
+    id: 'genuine-travel-job',
+    label: 'genuine',
+    note: 'Travels for work but proposes a date',
+    messages: [
+      { sender: 'contact', text: 'I am traveling for work until Wednesday, but back after that' },
+      { sender: 'user', text: 'Where to?' },
+      { sender: 'contact', text: 'Chicago, a conference. Not very exciting' },
+      { sender: 'contact', text: 'Are you free Friday? There is a food market downtown' }
+    ]
+  },
+  {
+    id: 'genuine-split-bill',
+    label: 'genuine',
+    note: 'Talks about paying for a date',
+    messages: [
+      { sender: 'contact', text: 'I had a great time last night!' },
+      { sender: 'user', text: 'Me too, let me pay next time' },
+      { sender: 'contact', text: 'Deal, or we split it. I will send you the Venmo for the tickets though, no rush' },
+      { sender: 'contact', text: 'Same time next week?' }
+    ]
+  },
+  {
+    id: 'genuine-shy',
+    label: 'genuine',
+    note: 'Nervous about meeting but engaged',
+    messages: [
+      { sender: 'contact', text: 'I am a bit nervous about first dates honestly' },
+      { sender: 'user', text: 'Totally fine, we can take it slow' },
+      { sender: 'contact', text: 'Thanks. I teach 4th grade, and today a kid asked if I was a vampire' },
+      { sender: 'contact', text: 'Maybe a walk in the botanical garden Sunday? It is always busy there' }
+    ]
+  }
+];
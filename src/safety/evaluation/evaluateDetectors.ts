@@ -0,0 +1,236 @@
+import type { Conversation } from '../../database';
+import { SafetyEngine } from '../safetyEngine';
+import { PrivacySafetyEngine } from '../privacySafetyEngine';
+import { CatfishDetector } from '../../../renderer/lib/catfishDetector';
+import { safetyRules } from '../rules';
+import { CORPUS_VERSION, EVALUATION_LABELS, EvaluationLabel, LabeledConversation } from './corpus';
+
+export interface SafetyDetector {
+  name: string;
+  // True when the detector would warn the user about the conversation
+  flags(conversation: LabeledConversation): Promise<boolean>;
+}
+
+export interface ConfusionMatrix {
+  truePositives: number;
+  falsePositives: number;
+  trueNegatives: number;
+  falseNegatives: number;
+}
+
+// One scam category scored against the genuine conversations; precision is
+// null when nothing was flagged
+export interface CategoryScore {
+  label: EvaluationLabel | 'all_scams';
+  matrix: ConfusionMatrix;
+  precision: number | null;
+  recall: number;
+}
+
+export interface DetectorReport {
+  detector: string;
+  // How many conversations of each label were flagged, out of how many
+  flaggedByLabel: Record<EvaluationLabel, { flagged: number; total: number }>;
+  categories: CategoryScore[];
+  overall: CategoryScore;
+  // Genuine conversations that were flagged
+  falseAlarms: string[];
+  // Scam conversations that weren't
+  misses: string[];
+}
+
+export interface EvaluationReport {
+  corpusVersion: string;
+  rulePacks: Array<{ id: string; version: string }>;
+  generatedAt: number;
+  detectors: DetectorReport[];
+}
+
+const MESSAGE_INTERVAL_MS = 5 * 60 * 1000;
+
+// Fixed timestamps, so results don't depend on when the evaluation runs
+function toConversation(item: LabeledConversation): Conversation {
+  const start = Date.UTC(2024, 0, 1);
+  return {
+    id: item.id,
+    platform: 'evaluation',
+    contact: item.id,
+    messages: item.messages.map((message, index) => ({
+      ...message,
+      timestamp: start + index * MESSAGE_INTERVAL_MS
+    })),
+    relationship_stage: 'initial',
+    first_interaction: start,
+    last_interaction: start + item.messages.length * MESSAGE_INTERVAL_MS,
+    trust_score: 0.5,
+    conversation_health: 0.5,
+    advice_history: []
+  };
+}
+
+function toTranscript(item: LabeledConversation): string {
+  return item.messages.map(message => `${message.sender === 'user' ? 'Me' : 'Them'}: ${message.text}`).join('\n');
+}
+
+/**
+ * The detectors as the app uses them, without an AI client: each counts as
+ * flagging a conversation when it would show the user a serious warning.
+ */
+export function createDefaultDetectors(): SafetyDetector[] {
+  const safetyEngine = new SafetyEngine();
+  const privacyEngine = new PrivacySafetyEngine();
+  const catfishDetector = new CatfishDetector();
+
+  return [
+    {
+      name: 'SafetyEngine',
+      flags: async item => {
+        const alerts = await safetyEngine.generateSafetyAlerts(toConversation(item));
+        return alerts.some(alert => alert.severity === 'high' || alert.severity === 'critical');
+      }
+    },
+    {
+      name: 'PrivacySafetyEngine',
+      flags: async item => {
+        const check = await privacyEngine.analyzeConversationSafety(toConversation(item).messages);
+        return !check.isSafe;
+      }
+    },
+    {
+      name: 'CatfishDetector',
+      // Its realness score is a blend of five checks and seldom falls below
+      // Medium, so Medium counts as a warning here
+      flags: async item => {
+        const { riskLevel } = catfishDetector.analyzeConversation(toTranscript(item));
+        return riskLevel === 'Medium' || riskLevel === 'High' || riskLevel === 'Very High';
+      }
+    }
+  ];
+}
+
+function score(label: CategoryScore['label'], positives: boolean[], negatives: boolean[]): CategoryScore {
+  const truePositives = positives.filter(Boolean).length;
+  const falsePositives = negatives.filter(Boolean).length;
+  const matrix: ConfusionMatrix = {
+    truePositives,
+    falsePositives,
+    trueNegatives: negatives.length - falsePositives,
+    falseNegatives: positives.length - truePositives
+  };
+  const flagged = truePositives + falsePositives;
+  return {
+    label,
+    matrix,
+    precision: flagged === 0 ? null : truePositives / flagged,
+    recall: positives.length === 0 ? 0 : truePositives / positives.length
+  };
+}
+
+export async function evaluateDetectors(
+  corpus: LabeledConversation[],
+  detectors: SafetyDetector[] = createDefaultDetectors()
+): Promise<EvaluationReport> {
+  const reports: DetectorReport[] = [];
+
+  for (const detector of detectors) {
+    const results: Array<{ item: LabeledConversation; flagged: boolean }> = [];
+    for (const item of corpus) {
+      results.push({ item, flagged: await detector.flags(item) });
+    }
+
+    const flaggedFor = (label: EvaluationLabel) =>
+      results.filter(result => result.item.label === label).map(result => result.flagged);
+    const genuine = flaggedFor('genuine');
+    const scamLabels = EVALUATION_LABELS.filter(label => label !== 'genuine');
+
+    const flaggedByLabel = {} as DetectorReport['flaggedByLabel'];
+    for (const label of EVALUATION_LABELS) {
+      const flags = flaggedFor(label);
+      flaggedByLabel[label] = { flagged: flags.filter(Boolean).length, total: flags.length };
+    }
+
+    reports.push({
+      detector: detector.name,
+      flaggedByLabel,
+      categories: scamLabels.map(label => score(label, flaggedFor(label), genuine)),
+      overall: score(
+        'all_scams',
+        results.filter(result => result.item.label !== 'genuine').map(result => result.flagged),
+        genuine
+      ),
+      falseAlarms: results.filter(result => result.item.label === 'genuine' && result.flagged).map(result => result.item.id),
+      misses: results.filter(result => result.item.label !== 'genuine' && !result.flagged).map(result => result.item.id)
+    });
+  }
+
+  return {
+    corpusVersion: CORPUS_VERSION,
+    rulePacks: safetyRules.getPacks().map(pack => ({ id: pack.id, version: pack.version })),
+    generatedAt: Date.now(),
+    detectors: reports
+  };
+}
+
+const percent = (value: number | null) => (value === null ? '   -' : `${Math.round(value * 100)}%`.padStart(4));
+
+export function formatReport(report: EvaluationReport): string {
+  const lines = [
+    `Safety detector evaluation (corpus ${report.corpusVersion}; rules ${report.rulePacks
+      .map(pack => `${pack.id} ${pack.version}`)
+      .join(', ')})`
+  ];
+
+  for (const detector of report.detectors) {
+    lines.push('', detector.detector);
+    lines.push('  Flagged per label:');
+    for (const label of EVALUATION_LABELS) {
+      const { flagged, total } = detector.flaggedByLabel[label];
+      lines.push(`    ${label.padEnd(16)} ${flagged}/${total}`);
+    }
+    lines.push('  Against genuine:   precision recall   TP  FP  TN  FN');
+    for (const category of [...detector.categories, detector.overall]) {
+      const { truePositives, falsePositives, trueNegatives, falseNegatives } = category.matrix;
+      lines.push(
+        `    ${category.label.padEnd(16)} ${percent(category.precision).padStart(9)} ${percent(category.recall).padStart(6)}` +
+          [truePositives, falsePositives, trueNegatives, falseNegatives].map(count => String(count).padStart(4)).join('')
+      );
+    }
+    if (detector.falseAlarms.length) lines.push(`  False alarms: ${detector.falseAlarms.join(', ')}`);
+    if (detector.misses.length) lines.push(`  Missed: ${detector.misses.join(', ')}`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Where `current` scores worse than `baseline` by more than `tolerance` on
+ * any detector and category, as readable lines; empty means no regression.
+ */
+export function findRegressions(baseline: EvaluationReport, current: EvaluationReport, tolerance = 0): string[] {
+  const regressions: string[] = [];
+  if (baseline.corpusVersion !== current.corpusVersion) {
+    regressions.push(`Baseline is for corpus ${baseline.corpusVersion}, not ${current.corpusVersion}; regenerate it`);
+    return regressions;
+  }
+
+  for (const detector of current.detectors) {
+    const previous = baseline.detectors.find(other => other.detector === detector.detector);
+    if (!previous) continue;
+    for (const category of [...detector.categories, detector.overall]) {
+      const before = [...previous.categories, previous.overall].find(other => other.label === category.label);
+      if (!before) continue;
+      if (category.recall < before.recall - tolerance) {
+        regressions.push(
+          `${detector.detector} ${category.label}: recall ${percent(before.recall).trim()} -> ${percent(category.recall).trim()}`
+        );
+      }
+      if (before.precision !== null && (category.precision ?? 0) < before.precision - tolerance) {
+        regressions.push(
+          `${detector.detector} ${category.label}: precision ${percent(before.precision).trim()} -> ${percent(category.precision).trim()}`
+        );
+      }
+    }
+  }
+
+  return regressions;
+}
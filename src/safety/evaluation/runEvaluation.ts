@@ -0,0 +1,50 @@
+import { promises as fs } from 'fs';
+import { EVALUATION_CORPUS } from './corpus';
+import { evaluateDetectors, EvaluationReport, findRegressions, formatReport } from './evaluateDetectors';
+
+/**
+ * Scores the safety detectors on the labeled corpus and prints the results.
+ *
+ *   --json <file>       also write the full report as JSON
+ *   --baseline <file>   exit 1 when anything scores worse than this report
+ *   --tolerance <0-1>   how much worse counts as a regression (default 0)
+ *
+ * Run with `npm run evaluate-safety`, which builds first and runs under
+ * Electron as plain Node, so native modules load without opening a window.
+ */
+function readOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+async function main(args: string[]): Promise<number> {
+  const jsonPath = readOption(args, '--json');
+  const baselinePath = readOption(args, '--baseline');
+  const tolerance = Number(readOption(args, '--tolerance') || 0);
+
+  const report = await evaluateDetectors(EVALUATION_CORPUS);
+  console.log(formatReport(report));
+
+  if (jsonPath) {
+    await fs.writeFile(jsonPath, JSON.stringify(report, null, 2));
+    console.log(`\nReport written to ${jsonPath}`);
+  }
+
+  if (!baselinePath) return 0;
+  const baseline: EvaluationReport = JSON.parse(await fs.readFile(baselinePath, 'utf8'));
+  const regressions = findRegressions(baseline, report, tolerance);
+  if (regressions.length === 0) {
+    console.log(`\nNo regressions against ${baselinePath}`);
+    return 0;
+  }
+  console.error(`\nRegressions against ${baselinePath}:`);
+  regressions.forEach(line => console.error(`  ${line}`));
+  return 1;
+}
+
+main(process.argv.slice(2))
+  .then(code => process.exit(code))
+  .catch(error => {
+    console.error('Safety evaluation failed:', error);
+    process.exit(1);
+  });
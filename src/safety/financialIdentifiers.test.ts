@@ -0,0 +1,87 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { extractFinancialIdentifiers, findFinancialIdentifiers, shortenIdentifier } from './financialIdentifiers';
+
+function found(text: string) {
+  return findFinancialIdentifiers(text).map(match => [match.kind, match.value, match.validated]);
+}
+
+// Swaps one character for another from the same alphabet
+function corrupt(value: string, index: number, replacement: string): string {
+  assert.notEqual(value[index], replacement);
+  return value.slice(0, index) + replacement + value.slice(index + 1);
+}
+
+test('base58check Bitcoin and Tron addresses', () => {
+  const genesis = '1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa';
+  const p2sh = '3J98t1WpEZ73CNmQviecrnyiWrnqRhWNLy';
+  const tron = 'TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t';
+  assert.deepEqual(found(`send it to ${genesis}`), [['bitcoin', genesis, true]]);
+  assert.deepEqual(found(p2sh), [['bitcoin', p2sh, true]]);
+  assert.deepEqual(found(`USDT (TRC-20): ${tron}`), [['tron', tron, true]]);
+
+  assert.deepEqual(found(corrupt(genesis, 10, 'X')), []);
+  assert.deepEqual(found(corrupt(tron, 20, 'a')), []);
+});
+
+test('bech32 segwit addresses', () => {
+  const address = 'bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4';
+  assert.deepEqual(found(address), [['bitcoin', address, true]]);
+  assert.deepEqual(found(address.toUpperCase()), [['bitcoin', address, true]]);
+
+  assert.deepEqual(found(corrupt(address, 20, 'q')), []);
+  // Mixed case isn't bech32
+  assert.deepEqual(found(corrupt(address, 4, 'W')), []);
+});
+
+test('EIP-55 Ethereum addresses', () => {
+  const address = '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed';
+  assert.deepEqual(found(address), [['ethereum', address.toLowerCase(), true]]);
+  // Without mixed case there is no checksum to check
+  assert.deepEqual(found(address.toLowerCase()), [['ethereum', address.toLowerCase(), false]]);
+
+  // One letter's case flipped
+  assert.deepEqual(found(corrupt(address, 3, 'A')), []);
+});
+
+test('IBANs, with or without spaces', () => {
+  assert.deepEqual(found('GB82WEST12345698765432'), [['iban', 'GB82WEST12345698765432', true]]);
+  assert.deepEqual(found('wire it to GB82 WEST 1234 5698 7654 32 please'), [['iban', 'GB82WEST12345698765432', true]]);
+
+  assert.deepEqual(found('GB82WEST12345698765433'), []);
+  assert.deepEqual(found('GB28WEST12345698765432'), []);
+});
+
+test('codes and handles only count with the right words around them', () => {
+  assert.deepEqual(found('buy a steam card and send me AB12C-DE34F-GH56J'), [['gift_card', 'AB12CDE34FGH56J', false]]);
+  assert.deepEqual(found('my order was AB12C-DE34F-GH56J'), []);
+  assert.deepEqual(found('cash app me at $Lucky_Star'), [['cashapp', '$lucky_star', false]]);
+  assert.deepEqual(found('it cost $20'), []);
+  assert.deepEqual(found('my venmo is @alex-smith'), [['venmo', '@alex-smith', false]]);
+  assert.deepEqual(found('paypal.me/AlexS'), [['paypal', 'paypal.me/alexs', false]]);
+});
+
+test('keeps what the contact sent, once, from the first time', () => {
+  const identifiers = extractFinancialIdentifiers({
+    id: 'conv-1',
+    messages: [
+      { sender: 'user', text: 'my iban is GB82WEST12345698765432', timestamp: 1 },
+      { sender: 'contact', text: 'use 1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa', timestamp: 2 },
+      { sender: 'contact', text: 'again: 1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa', timestamp: 3 }
+    ]
+  });
+  assert.deepEqual(identifiers, [
+    {
+      kind: 'bitcoin',
+      value: '1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa',
+      validated: true,
+      timestamp: 2,
+      conversation_id: 'conv-1'
+    }
+  ]);
+});
+
+test('shortens long identifiers for display', () => {
+  assert.equal(shortenIdentifier('1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa'), '1A1zP1eP...DivfNa');
+  assert.equal(shortenIdentifier('$lucky_star'), '$lucky_star');
+});
@@ -0,0 +1,390 @@
+import { createHash } from 'crypto';
+import type { Conversation } from '../database';
+
+export type FinancialIdentifierKind =
+  | 'bitcoin'
+  | 'ethereum'
+  | 'tron'
+  | 'iban'
+  | 'gift_card'
+  | 'cashapp'
+  | 'venmo'
+  | 'paypal';
+
+export const FINANCIAL_IDENTIFIER_LABELS: Record<FinancialIdentifierKind, string> = {
+  bitcoin: 'Bitcoin address',
+  ethereum: 'Ethereum (or ERC-20 USDT) address',
+  tron: 'Tron (TRC-20 USDT) address',
+  iban: 'IBAN bank account',
+  gift_card: 'Gift card code',
+  cashapp: 'Cash App $Cashtag',
+  venmo: 'Venmo handle',
+  paypal: 'PayPal account'
+};
+
+// One identifier as it appears in a message
+export interface FinancialIdentifierMatch {
+  kind: FinancialIdentifierKind;
+  // Normalized so the same wallet or account compares equal however it was
+  // written: IBANs without spaces, codes without dashes, handles and hex
+  // lowercased
+  value: string;
+  // As written
+  text: string;
+  // A checksum was checked and passed. Kinds without one (handles, codes,
+  // all-lowercase Ethereum addresses) are never validated; identifiers that
+  // fail theirs aren't reported at all.
+  validated: boolean;
+}
+
+/**
+ * A payment identifier a contact sent, kept so the same wallet or account
+ * turning up with someone else can be recognized.
+ */
+export interface FinancialIdentifier {
+  kind: FinancialIdentifierKind;
+  value: string;
+  validated: boolean;
+  // When it was first sent in the conversation
+  timestamp: number;
+  conversation_id: string;
+}
+
+// Another conversation the same identifier was sent in
+export interface FinancialIdentifierSighting {
+  kind: FinancialIdentifierKind;
+  value: string;
+  conversation_id: string;
+  platform: string;
+  contact_id?: string;
+  // The contact's name, or the thread's handle when it isn't linked to one
+  contact_name: string;
+  timestamp: number;
+}
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+function sha256(data: Buffer): Buffer {
+  return createHash('sha256').update(data).digest();
+}
+
+// The payload's version byte and body, or null when the checksum is wrong
+function decodeBase58Check(text: string): Buffer | null {
+  let value = BigInt(0);
+  for (const char of text) {
+    const digit = BASE58_ALPHABET.indexOf(char);
+    if (digit < 0) return null;
+    value = value * BigInt(58) + BigInt(digit);
+  }
+  const hex = value.toString(16);
+  const body = Buffer.from(hex.length % 2 ? `0${hex}` : hex, 'hex');
+  const leadingZeros = text.length - text.replace(/^1+/, '').length;
+  const bytes = Buffer.concat([Buffer.alloc(leadingZeros), body]);
+  if (bytes.length < 5) return null;
+
+  const payload = bytes.subarray(0, -4);
+  const checksum = sha256(sha256(payload)).subarray(0, 4);
+  return checksum.equals(bytes.subarray(-4)) ? payload : null;
+}
+
+const BECH32_CHARSET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+const BECH32_GENERATORS = [0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3];
+// Segwit v0 addresses use bech32, v1 (taproot) and later bech32m
+const BECH32_CONSTANT = 1;
+const BECH32M_CONSTANT = 0x2bc830a3;
+
+function bech32Polymod(values: number[]): number {
+  let checksum = 1;
+  for (const value of values) {
+    const top = checksum >>> 25;
+    checksum = ((checksum & 0x1ffffff) << 5) ^ value;
+    BECH32_GENERATORS.forEach((generator, index) => {
+      if ((top >>> index) & 1) checksum ^= generator;
+    });
+  }
+  return checksum >>> 0;
+}
+
+function isValidSegwitAddress(address: string): boolean {
+  const separator = address.lastIndexOf('1');
+  const hrp = address.slice(0, separator);
+  const data = address
+    .slice(separator + 1)
+    .split('')
+    .map(char => BECH32_CHARSET.indexOf(char));
+  if (hrp !== 'bc' || data.length < 7 || data.some(value => value < 0)) return false;
+
+  const expanded = [...hrp].map(char => char.charCodeAt(0) >> 5);
+  expanded.push(0, ...[...hrp].map(char => char.charCodeAt(0) & 31));
+  const checksum = bech32Polymod([...expanded, ...data]);
+  return checksum === (data[0] === 0 ? BECH32_CONSTANT : BECH32M_CONSTANT);
+}
+
+// Keccak-256 as Ethereum uses it (not the later SHA3-256), for EIP-55
+const KECCAK_RATE = 136;
+const LANE_MASK = (BigInt(1) << BigInt(64)) - BigInt(1);
+const KECCAK_ROUND_CONSTANTS: bigint[] = [];
+const KECCAK_ROTATIONS: number[] = [];
+const KECCAK_LANE_ORDER: number[] = [];
+
+for (let round = 0, lfsr = 1, x = 1, y = 0; round < 24; round++) {
+  [x, y] = [y, (2 * x + 3 * y) % 5];
+  KECCAK_LANE_ORDER.push(x + 5 * y);
+  KECCAK_ROTATIONS.push((((round + 1) * (round + 2)) / 2) % 64);
+  let constant = BigInt(0);
+  for (let bit = 0; bit < 7; bit++) {
+    lfsr = ((lfsr << 1) ^ ((lfsr >> 7) * 0x71)) % 256;
+    if (lfsr & 2) constant ^= BigInt(1) << BigInt((1 << bit) - 1);
+  }
+  KECCAK_ROUND_CONSTANTS.push(constant);
+}
+
+function rotateLane(lane: bigint, shift: number): bigint {
+  if (shift === 0) return lane;
+  return ((lane << BigInt(shift)) | (lane >> BigInt(64 - shift))) & LANE_MASK;
+}
+
+function keccakPermute(state: bigint[]): void {
+  for (const roundConstant of KECCAK_ROUND_CONSTANTS) {
+    const columns = [0, 1, 2, 3, 4].map(x => state[x] ^ state[x + 5] ^ state[x + 10] ^ state[x + 15] ^ state[x + 20]);
+    for (let x = 0; x < 5; x++) {
+      const mix = columns[(x + 4) % 5] ^ rotateLane(columns[(x + 1) % 5], 1);
+      for (let y = 0; y < 25; y += 5) state[x + y] ^= mix;
+    }
+
+    let carried = state[1];
+    KECCAK_LANE_ORDER.forEach((lane, index) => {
+      const next = state[lane];
+      state[lane] = rotateLane(carried, KECCAK_ROTATIONS[index]);
+      carried = next;
+    });
+
+    for (let y = 0; y < 25; y += 5) {
+      const row = state.slice(y, y + 5);
+      for (let x = 0; x < 5; x++) {
+        state[y + x] = row[x] ^ (~row[(x + 1) % 5] & LANE_MASK & row[(x + 2) % 5]);
+      }
+    }
+    state[0] ^= roundConstant;
+  }
+}
+
+function keccak256(input: Buffer): Buffer {
+  const padded = Buffer.alloc((Math.floor(input.length / KECCAK_RATE) + 1) * KECCAK_RATE);
+  input.copy(padded);
+  padded[input.length] ^= 0x01;
+  padded[padded.length - 1] ^= 0x80;
+
+  const state: bigint[] = new Array(25).fill(BigInt(0));
+  for (let offset = 0; offset < padded.length; offset += KECCAK_RATE) {
+    for (let lane = 0; lane < KECCAK_RATE / 8; lane++) {
+      state[lane] ^= padded.readBigUInt64LE(offset + lane * 8);
+    }
+    keccakPermute(state);
+  }
+  const digest = Buffer.alloc(32);
+  for (let lane = 0; lane < 4; lane++) digest.writeBigUInt64LE(state[lane], lane * 8);
+  return digest;
+}
+
+// EIP-55: the case of each letter is a checksum. Single-case addresses
+// carry none, so they can't be checked.
+function ethereumChecksum(address: string): 'valid' | 'invalid' | 'none' {
+  const hex = address.slice(2);
+  if (hex === hex.toLowerCase() || hex === hex.toUpperCase()) return 'none';
+  const hash = keccak256(Buffer.from(hex.toLowerCase(), 'ascii')).toString('hex');
+  for (let i = 0; i < hex.length; i++) {
+    if (!/[a-f]/i.test(hex[i])) continue;
+    const upper = parseInt(hash[i], 16) >= 8;
+    if (upper !== (hex[i] === hex[i].toUpperCase())) return 'invalid';
+  }
+  return 'valid';
+}
+
+// Lengths for the countries scam payment requests mostly name; others are
+// still accepted when the check digits work out
+const IBAN_LENGTHS: Record<string, number> = {
+  AD: 24, AE: 23, AT: 20, BE: 16, BG: 22, CH: 21, CY: 28, CZ: 24, DE: 22, DK: 18, EE: 20, ES: 24, FI: 18,
+  FR: 27, GB: 22, GR: 27, HR: 21, HU: 28, IE: 22, IS: 26, IT: 27, LT: 20, LU: 20, LV: 21, MT: 31, NL: 18,
+  NO: 15, PL: 28, PT: 25, RO: 24, SA: 24, SE: 24, SI: 19, SK: 24, TR: 26
+};
+
+function isValidIban(iban: string): boolean {
+  const expected = IBAN_LENGTHS[iban.slice(0, 2)];
+  if (expected !== undefined && iban.length !== expected) return false;
+  const rearranged = `${iban.slice(4)}${iban.slice(0, 4)}`;
+  let remainder = 0;
+  for (const char of rearranged) {
+    const digits = /[A-Z]/.test(char) ? String(char.charCodeAt(0) - 55) : char;
+    for (const digit of digits) remainder = (remainder * 10 + Number(digit)) % 97;
+  }
+  return remainder === 1;
+}
+
+// Said alongside a code that is a gift card rather than, say, an order number
+const GIFT_CARD_CONTEXT =
+  /\b(?:gift\s*cards?|steam|itunes|apple\s*card|google\s*play|amazon|razer\s*gold|ebay|sephora|vanilla|walmart|target|redeem|voucher)\b/i;
+
+// Steam's 5-5-5, Amazon's 4-6-4, Google Play's 4x5 and plain 16 to 20
+// character codes like Apple's
+const GIFT_CARD_CODE =
+  /\b(?:[A-Z0-9]{4,6}(?:-[A-Z0-9]{4,6}){2,4}|X[A-Z0-9]{15}|[A-Z0-9]{16,20})\b/gi;
+
+const CASHAPP_CONTEXT = /\b(?:cash\s*app|cashapp|cashtag)\b/i;
+const VENMO_CONTEXT = /\bvenmo\b/i;
+const PAYPAL_CONTEXT = /\bpay\s*pal\b/i;
+
+interface IdentifierPattern {
+  kind: FinancialIdentifierKind;
+  pattern: RegExp;
+  // Only looked for when the message also matches this
+  context?: RegExp;
+  read(match: RegExpExecArray): Omit<FinancialIdentifierMatch, 'kind' | 'text'> | null;
+}
+
+const PATTERNS: IdentifierPattern[] = [
+  {
+    kind: 'bitcoin',
+    pattern: /\b[13][1-9A-HJ-NP-Za-km-z]{25,34}\b/g,
+    read: match => {
+      const payload = decodeBase58Check(match[0]);
+      return payload && payload.length === 21 && (payload[0] === 0x00 || payload[0] === 0x05)
+        ? { value: match[0], validated: true }
+        : null;
+    }
+  },
+  {
+    kind: 'bitcoin',
+    pattern: /\bbc1[02-9ac-hj-np-z]{11,71}\b/gi,
+    read: match => {
+      // Mixed case isn't allowed in bech32
+      if (match[0] !== match[0].toLowerCase() && match[0] !== match[0].toUpperCase()) return null;
+      const address = match[0].toLowerCase();
+      return isValidSegwitAddress(address) ? { value: address, validated: true } : null;
+    }
+  },
+  {
+    kind: 'ethereum',
+    pattern: /\b0x[0-9a-fA-F]{40}\b/g,
+    read: match => {
+      const checksum = ethereumChecksum(match[0]);
+      return checksum === 'invalid' ? null : { value: match[0].toLowerCase(), validated: checksum === 'valid' };
+    }
+  },
+  {
+    kind: 'tron',
+    pattern: /\bT[1-9A-HJ-NP-Za-km-z]{33}\b/g,
+    read: match => {
+      const payload = decodeBase58Check(match[0]);
+      return payload && payload.length === 21 && payload[0] === 0x41 ? { value: match[0], validated: true } : null;
+    }
+  },
+  {
+    kind: 'iban',
+    pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\b/gi,
+    read: match => {
+      const iban = match[0].replace(/ /g, '').toUpperCase();
+      return isValidIban(iban) ? { value: iban, validated: true } : null;
+    }
+  },
+  {
+    kind: 'gift_card',
+    pattern: GIFT_CARD_CODE,
+    context: GIFT_CARD_CONTEXT,
+    read: match => {
+      const code = match[0].replace(/-/g, '').toUpperCase();
+      // Codes mix letters and digits; all-digit runs are card or phone numbers
+      return /[A-Z]/.test(code) && /\d/.test(code) ? { value: code, validated: false } : null;
+    }
+  },
+  {
+    kind: 'cashapp',
+    pattern: /(?:^|[^\w$\/])\$([a-z][a-z0-9_-]{0,19})\b/gi,
+    context: CASHAPP_CONTEXT,
+    read: match => ({ value: `$${match[1].toLowerCase()}`, validated: false })
+  },
+  {
+    kind: 'cashapp',
+    pattern: /\bcash\.app\/\$([a-z][a-z0-9_-]{0,19})\b/gi,
+    read: match => ({ value: `$${match[1].toLowerCase()}`, validated: false })
+  },
+  {
+    kind: 'venmo',
+    pattern: /\bvenmo\.com\/(?:u\/)?([a-z0-9_-]{5,30})\b/gi,
+    read: match => ({ value: `@${match[1].toLowerCase()}`, validated: false })
+  },
+  {
+    kind: 'venmo',
+    pattern: /(?:^|[^\w@.])@([a-z0-9_-]{5,30})\b/gi,
+    context: VENMO_CONTEXT,
+    read: match => ({ value: `@${match[1].toLowerCase()}`, validated: false })
+  },
+  {
+    kind: 'paypal',
+    pattern: /\bpaypal\.me\/([a-z0-9]{1,20})\b/gi,
+    read: match => ({ value: `paypal.me/${match[1].toLowerCase()}`, validated: false })
+  },
+  {
+    kind: 'paypal',
+    pattern: /\b[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}\b/gi,
+    context: PAYPAL_CONTEXT,
+    read: match => ({ value: match[0].toLowerCase(), validated: false })
+  }
+];
+
+/**
+ * Wallet addresses, bank accounts, gift card codes and payment handles in a
+ * message. Addresses and IBANs are only reported when their checksum holds,
+ * so a random string that happens to look like one isn't.
+ */
+export function findFinancialIdentifiers(text: string): FinancialIdentifierMatch[] {
+  const found = new Map<string, FinancialIdentifierMatch>();
+  // Spans already claimed, so a spaced-out IBAN isn't also a gift card code
+  const claimed: Array<[number, number]> = [];
+  for (const { kind, pattern, context, read } of PATTERNS) {
+    if (context && !context.test(text)) continue;
+    pattern.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text))) {
+      const start = match.index;
+      const end = start + match[0].length;
+      if (claimed.some(([from, to]) => start < to && end > from)) continue;
+      const identifier = read(match);
+      if (!identifier) continue;
+      claimed.push([start, end]);
+      const key = `${kind}:${identifier.value}`;
+      if (!found.has(key)) found.set(key, { kind, text: match[0].trim(), ...identifier });
+    }
+  }
+  return [...found.values()];
+}
+
+/**
+ * Every identifier the contact sent in this conversation, once each, with
+ * when they first sent it.
+ */
+export function extractFinancialIdentifiers(
+  conversation: Pick<Conversation, 'id' | 'messages'>
+): FinancialIdentifier[] {
+  const identifiers = new Map<string, FinancialIdentifier>();
+  for (const message of conversation.messages) {
+    if (message.sender !== 'contact' || !message.text) continue;
+    for (const match of findFinancialIdentifiers(message.text)) {
+      const key = `${match.kind}:${match.value}`;
+      if (identifiers.has(key)) continue;
+      identifiers.set(key, {
+        kind: match.kind,
+        value: match.value,
+        validated: match.validated,
+        timestamp: message.timestamp,
+        conversation_id: conversation.id
+      });
+    }
+  }
+  return [...identifiers.values()];
+}
+
+// "1A1zP1...vfNa", so evidence stays readable
+export function shortenIdentifier(value: string): string {
+  return value.length > 20 ? `${value.slice(0, 8)}...${value.slice(-6)}` : value;
+}
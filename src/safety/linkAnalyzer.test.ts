@@ -0,0 +1,69 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { analyzeLink, analyzeLinks, findLinks } from './linkAnalyzer';
+
+function signals(url: string, context?: string) {
+  return analyzeLink(url, context)?.reasons.map(reason => reason.signal);
+}
+
+test('finds links with and without a scheme, but not emails or typos', () => {
+  assert.deepEqual(
+    findLinks('see (https://example.com/a), www.site.org and paypal.me/alex. mail me at a@b.com, fine.thanks'),
+    ['https://example.com/a', 'www.site.org', 'paypal.me/alex']
+  );
+  assert.deepEqual(findLinks('go to 192.168.0.1:8080/admin'), ['192.168.0.1:8080/admin']);
+});
+
+test('a brand’s own site is trusted', () => {
+  const verdict = analyzeLink('https://www.tinder.com/app');
+  assert.equal(verdict?.grade, 'trusted');
+  assert.equal(verdict?.brand, 'Tinder');
+});
+
+test('lookalikes of a brand are dangerous', () => {
+  for (const url of ['https://paypa1.com/login', 'https://xn--pypal-4ve.com/signin', 'https://tinder.verify-account.tk']) {
+    const verdict = analyzeLink(url);
+    assert.equal(verdict?.grade, 'dangerous', url);
+  }
+  assert.equal(analyzeLink('https://xn--pypal-4ve.com')?.host, 'pаypal.com');
+  assert.equal(analyzeLink('https://rnatch.com')?.brand, 'Match');
+});
+
+test('one letter off a brand is only a hint on its own', () => {
+  for (const url of ['https://bumblr.com', 'https://finder.com']) {
+    const verdict = analyzeLink(url);
+    assert.equal(verdict?.grade, 'neutral', url);
+    assert.deepEqual(verdict?.reasons.map(reason => reason.signal), ['lookalike'], url);
+  }
+});
+
+test('everyday words that are also brands only count when exact', () => {
+  assert.deepEqual(signals('https://matchmakingtips.com'), []);
+  assert.deepEqual(signals('https://applepie-recipes.com'), []);
+});
+
+test('hidden destinations and downloads are flagged', () => {
+  assert.ok(signals('https://paypal.com@evil.example/')?.includes('userinfo'));
+  assert.ok(signals('https://paypal.secure-login.com')?.includes('brand_elsewhere'));
+  assert.ok(signals('https://bit.ly/3abc')?.includes('shortener'));
+  assert.ok(signals('http://203.0.113.9/files/setup.apk')?.includes('download'));
+  assert.ok(signals('http://203.0.113.9/')?.includes('ip_host'));
+});
+
+test('the message can make a link an investment pitch', () => {
+  const [verdict] = analyzeLinks('deposit $500 here and watch the profits grow: https://quick-profit-trade.xyz');
+  assert.equal(verdict.grade, 'dangerous');
+  assert.ok(verdict.reasons.some(reason => reason.signal === 'investment_pitch'));
+  assert.ok(verdict.reasons.some(reason => reason.signal === 'crypto_landing'));
+});
+
+test('an ordinary link stays neutral', () => {
+  const verdict = analyzeLink('https://www.nytimes.com/2024/03/12/travel/lisbon.html');
+  assert.equal(verdict?.grade, 'neutral');
+  assert.deepEqual(verdict?.reasons, []);
+});
+
+test('only web links are graded', () => {
+  assert.equal(analyzeLink('javascript:alert(1)'), null);
+  assert.equal(analyzeLink('ftp://files.example.com'), null);
+});
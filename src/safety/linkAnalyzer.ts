@@ -0,0 +1,460 @@
+import { domainToUnicode } from 'url';
+
+export type LinkGrade = 'trusted' | 'neutral' | 'suspicious' | 'dangerous';
+
+export type LinkSignal =
+  | 'official_site'
+  | 'lookalike'
+  | 'brand_elsewhere'
+  | 'foreign_letters'
+  | 'userinfo'
+  | 'ip_host'
+  | 'shortener'
+  | 'risky_tld'
+  | 'credential_path'
+  | 'download'
+  | 'crypto_landing'
+  | 'investment_pitch'
+  | 'unusual_port'
+  | 'not_encrypted'
+  | 'hyphenated';
+
+export interface LinkReason {
+  signal: LinkSignal;
+  // One sentence, shown to the user as is
+  detail: string;
+  weight: number;
+}
+
+/**
+ * What the analyzer makes of one link. Works offline from the address alone,
+ * so a clean verdict means no known trick was found, not that the site is safe.
+ */
+export interface LinkVerdict {
+  // As written in the message
+  url: string;
+  // Where it really goes, in the form shown in a browser's address bar
+  host: string;
+  grade: LinkGrade;
+  // 0-1, the sum of the reasons' weights
+  score: number;
+  reasons: LinkReason[];
+  explanation: string;
+  // The brand it is, or pretends to be
+  brand?: string;
+}
+
+interface Brand {
+  name: string;
+  // Names a lookalike would imitate, as they appear in the domain
+  keys: string[];
+  domains: string[];
+  // Everyday words ("match", "apple") only count when used exactly, so a
+  // matchmaking blog isn't taken for Match
+  common?: boolean;
+}
+
+// Dating apps first: they're what a match would pretend to send
+const BRANDS: Brand[] = [
+  { name: 'Tinder', keys: ['tinder'], domains: ['tinder.com', 'gotinder.com'] },
+  { name: 'Bumble', keys: ['bumble'], domains: ['bumble.com'] },
+  { name: 'Hinge', keys: ['hinge'], domains: ['hinge.co'], common: true },
+  { name: 'Match', keys: ['match'], domains: ['match.com'], common: true },
+  { name: 'OkCupid', keys: ['okcupid'], domains: ['okcupid.com'] },
+  { name: 'Plenty of Fish', keys: ['plentyoffish', 'pof'], domains: ['pof.com', 'plentyoffish.com'] },
+  { name: 'Grindr', keys: ['grindr'], domains: ['grindr.com'] },
+  { name: 'Feeld', keys: ['feeld'], domains: ['feeld.co'] },
+  { name: 'Happn', keys: ['happn'], domains: ['happn.com'] },
+  { name: 'Badoo', keys: ['badoo'], domains: ['badoo.com'] },
+  { name: 'eHarmony', keys: ['eharmony'], domains: ['eharmony.com', 'eharmony.co.uk'] },
+  { name: 'Zoosk', keys: ['zoosk'], domains: ['zoosk.com'] },
+  { name: 'Coffee Meets Bagel', keys: ['coffeemeetsbagel'], domains: ['coffeemeetsbagel.com'] },
+  { name: 'PayPal', keys: ['paypal'], domains: ['paypal.com', 'paypal.me'] },
+  { name: 'Venmo', keys: ['venmo'], domains: ['venmo.com'] },
+  { name: 'Cash App', keys: ['cashapp'], domains: ['cash.app'] },
+  { name: 'Zelle', keys: ['zelle', 'zellepay'], domains: ['zellepay.com'] },
+  { name: 'Coinbase', keys: ['coinbase'], domains: ['coinbase.com'] },
+  { name: 'Binance', keys: ['binance'], domains: ['binance.com'] },
+  { name: 'Chase', keys: ['chase'], domains: ['chase.com'], common: true },
+  { name: 'Bank of America', keys: ['bankofamerica'], domains: ['bankofamerica.com'] },
+  { name: 'Wells Fargo', keys: ['wellsfargo'], domains: ['wellsfargo.com'] },
+  { name: 'Apple', keys: ['apple', 'icloud'], domains: ['apple.com', 'icloud.com'], common: true },
+  { name: 'Google', keys: ['google', 'gmail'], domains: ['google.com', 'gmail.com', 'goo.gl'] },
+  { name: 'YouTube', keys: ['youtube'], domains: ['youtube.com', 'youtu.be'] },
+  { name: 'Microsoft', keys: ['microsoft', 'outlook'], domains: ['microsoft.com', 'live.com', 'outlook.com', 'office.com'] },
+  { name: 'Amazon', keys: ['amazon'], domains: ['amazon.com', 'amazon.co.uk', 'amzn.to'] },
+  { name: 'Facebook', keys: ['facebook'], domains: ['facebook.com', 'fb.com', 'fb.me'] },
+  { name: 'Instagram', keys: ['instagram'], domains: ['instagram.com'] },
+  { name: 'WhatsApp', keys: ['whatsapp'], domains: ['whatsapp.com', 'wa.me'] },
+  { name: 'Telegram', keys: ['telegram'], domains: ['telegram.org', 't.me'] },
+  { name: 'Snapchat', keys: ['snapchat'], domains: ['snapchat.com'] },
+  { name: 'TikTok', keys: ['tiktok'], domains: ['tiktok.com'] },
+  { name: 'X', keys: ['twitter'], domains: ['twitter.com', 'x.com'] },
+  { name: 'LinkedIn', keys: ['linkedin'], domains: ['linkedin.com', 'lnkd.in'] },
+  { name: 'Netflix', keys: ['netflix'], domains: ['netflix.com'] },
+  { name: 'Spotify', keys: ['spotify'], domains: ['spotify.com', 'spotify.link'] }
+];
+
+const SHORTENERS = new Set([
+  'bit.ly', 'bitly.com', 'tinyurl.com', 't.co', 'ow.ly', 'is.gd', 'v.gd', 'buff.ly', 'cutt.ly', 'rebrand.ly',
+  'shorturl.at', 'tiny.cc', 'rb.gy', 'bit.do', 's.id', 't.ly', 'shorte.st', 'adf.ly', 'tr.im', 'soo.gd', 'qrco.de'
+]);
+
+// Free or nearly free to register, and where most throwaway scam sites live
+const RISKY_TLDS = new Set([
+  'tk', 'ml', 'ga', 'cf', 'gq', 'xyz', 'top', 'click', 'link', 'work', 'loan', 'men', 'date', 'win', 'bid', 'zip',
+  'mov', 'icu', 'buzz', 'rest', 'cam', 'sbs', 'cfd', 'quest', 'monster', 'cyou', 'stream', 'download', 'racing',
+  'review', 'party', 'trade', 'kim', 'country', 'lol'
+]);
+
+// A word followed by a dot is only taken for a link without "http" or "www"
+// when it ends in one of these, so "fine.thanks" stays a typo
+const BARE_LINK_TLDS = new Set([
+  'com', 'net', 'org', 'edu', 'gov', 'io', 'co', 'me', 'ly', 'app', 'dev', 'ai', 'info', 'biz', 'us', 'uk', 'ca',
+  'au', 'de', 'fr', 'es', 'it', 'nl', 'eu', 'in', 'jp', 'ru', 'cn', 'br', 'mx', 'nz', 'za', 'ie', 'ch', 'se', 'no',
+  'dk', 'fi', 'pl', 'be', 'at', 'tv', 'gg', 'to', 'cc', 'site', 'online', 'store', 'shop', 'club', 'live', 'pro',
+  'vip', 'finance', 'money', 'exchange', 'investments', 'capital', 'global', 'world', 'cash'
+]);
+
+// Second-level suffixes where the registrable name is one label further in
+const MULTI_PART_SUFFIXES = new Set([
+  'co.uk', 'org.uk', 'ac.uk', 'gov.uk', 'com.au', 'net.au', 'co.nz', 'co.za', 'co.jp', 'co.in', 'co.kr', 'com.br',
+  'com.mx', 'com.sg', 'com.tr', 'com.cn'
+]);
+
+// Letters from other alphabets that render like Latin ones
+const CONFUSABLES: Record<string, string> = {
+  // Cyrillic
+  '\u0430': 'a', '\u0435': 'e', '\u043e': 'o', '\u0440': 'p', '\u0441': 'c', '\u0443': 'y', '\u0445': 'x',
+  '\u0456': 'i', '\u0458': 'j', '\u0455': 's', '\u0501': 'd', '\u04bb': 'h', '\u043a': 'k', '\u043c': 'm',
+  '\u0442': 't', '\u0432': 'b', '\u043d': 'h', '\u04cf': 'l',
+  // Greek
+  '\u03bf': 'o', '\u03b1': 'a', '\u03bd': 'v', '\u03c1': 'p', '\u03b9': 'i', '\u03ba': 'k', '\u03c4': 't',
+  '\u03c5': 'u',
+  // Latin letters from outside ASCII
+  '\u0261': 'g', '\u0131': 'i', '\u0251': 'a'
+};
+
+// Digits that pass for letters at a glance
+const LOOKALIKE_DIGITS: Record<string, string> = { '0': 'o', '1': 'l', '3': 'e', '4': 'a', '5': 's', '7': 't' };
+
+// Path segments a phishing page is built around, e.g. /secure/login or
+// /account-verify
+const CREDENTIAL_PATH =
+  /(?:^|[\/._?&=-])(?:log-?in|sign-?in|signon|verify|verification|validate|confirm|accounts?|update|secure|webscr|password|passwd|reset|unlock|suspended|billing|auth|wallet-?connect|recover|kyc)(?=$|[\/._?&=-])/;
+
+const CRYPTO_WORDS =
+  /(?:crypto|bitcoin|btc|usdt|ethereum|coin|wallet|defi|mining|invest|trade|trading|forex|profit|yield|airdrop|staking|nft|dividend)/;
+
+const INVESTMENT_PITCH =
+  /\b(?:deposit|invest(?:ing|ment)?|profits?|trading|guaranteed|returns?|withdraw(?:al)?|crypto|bitcoin|usdt|mentor|signals|commission|earn(?:ings)?)\b/i;
+
+const DOWNLOAD_EXTENSIONS = /\.(apk|exe|msi|dmg|pkg|scr|bat|cmd|jar|vbs|ps1|ipa|zip|rar)$/i;
+
+const IPV4 = /^\d{1,3}(?:\.\d{1,3}){3}$/;
+
+const DANGEROUS_SCORE = 0.7;
+const SUSPICIOUS_SCORE = 0.35;
+
+/**
+ * The links in a message: anything with a scheme or "www.", and bare domains
+ * with a familiar ending. Email addresses aren't links.
+ */
+export function findLinks(text: string): string[] {
+  const links: string[] = [];
+  for (const token of text.split(/\s+/)) {
+    const candidate = token.replace(/^[(<\[{"'`]+/, '').replace(/[.,;:!?)>\]}"'`]+$/, '');
+    if (!candidate) continue;
+    if (/^(?:https?:\/\/|www\.)\S+/i.test(candidate)) {
+      links.push(candidate);
+      continue;
+    }
+    if (/^[^\/?#]*@/.test(candidate)) continue;
+    const bare = /^((?:[^\s.\/:?#@]+\.)+([^\s.\/:?#@]+))(?::\d+)?(?:[\/?#]\S*)?$/.exec(candidate);
+    if (!bare) continue;
+    const tld = bare[2].toLowerCase();
+    const isIp = IPV4.test(bare[1]) && candidate.length > bare[1].length;
+    if (isIp || BARE_LINK_TLDS.has(tld) || RISKY_TLDS.has(tld) || tld.startsWith('xn--')) {
+      links.push(candidate);
+    }
+  }
+  return links;
+}
+
+function registrableDomain(host: string): string {
+  const labels = host.split('.');
+  const size = MULTI_PART_SUFFIXES.has(labels.slice(-2).join('.')) ? 3 : 2;
+  return labels.slice(-size).join('.');
+}
+
+// What a name looks like to someone skimming it: "pаypa1" and "paypal" are
+// the same skeleton, as are "rnatch" and "match"
+function skeleton(label: string): string {
+  const plain = label.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+  let mapped = '';
+  for (const char of plain) mapped += CONFUSABLES[char] || LOOKALIKE_DIGITS[char] || char;
+  return mapped.replace(/rn/g, 'm').replace(/vv/g, 'w').replace(/cl/g, 'd').replace(/i/g, 'l').replace(/-/g, '');
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function isOfficial(host: string, brand: Brand): boolean {
+  return brand.domains.some(domain => host === domain || host.endsWith(`.${domain}`));
+}
+
+// The strongest sign the link is dressed up as a brand it doesn't belong to
+function findImpersonation(host: string, displayHost: string): { brand: Brand; reason: LinkReason } | null {
+  const registrable = registrableDomain(host);
+  const name = skeleton(domainToUnicode(registrable.split('.')[0]) || registrable.split('.')[0]);
+  const subdomains = host
+    .slice(0, -registrable.length)
+    .split('.')
+    .filter(Boolean)
+    .map(label => skeleton(domainToUnicode(label) || label));
+  const foreign = displayHost !== host;
+
+  for (const brand of BRANDS) {
+    for (const key of brand.keys.map(skeleton)) {
+      if (name === key) {
+        const official = brand.domains[0];
+        return {
+          brand,
+          reason: {
+            signal: 'lookalike',
+            weight: 0.8,
+            detail: foreign
+              ? `"${displayHost}" uses letters from another alphabet to pass for ${brand.name} (${official}).`
+              : registrable.split('.')[0] === brand.keys[0]
+              ? `It uses ${brand.name}'s name, but ${registrable} isn't ${brand.name}'s site (${official}).`
+              : `"${displayHost}" swaps look-alike characters to pass for ${brand.name} (${official}).`
+          }
+        };
+      }
+      // One letter off is often just another word ("finder", "tender"), so
+      // this only tips the grade along with other signs
+      if (!brand.common && key.length >= 6 && Math.abs(name.length - key.length) <= 1 && editDistance(name, key) === 1) {
+        return {
+          brand,
+          reason: {
+            signal: 'lookalike',
+            weight: 0.3,
+            detail: `"${displayHost}" is one letter off ${brand.name} (${brand.domains[0]}), a common trick.`
+          }
+        };
+      }
+    }
+  }
+
+  for (const brand of BRANDS) {
+    for (const key of brand.keys.map(skeleton)) {
+      const inName = !brand.common && key.length >= 5 && name.includes(key);
+      const inSubdomain = subdomains.some(label => label === key || (!brand.common && key.length >= 5 && label.includes(key)));
+      if (inName || inSubdomain) {
+        return {
+          brand,
+          reason: {
+            signal: 'brand_elsewhere',
+            weight: 0.55,
+            detail: inSubdomain
+              ? `It starts with ${brand.name}'s name, but the site it opens is ${registrable}.`
+              : `It puts ${brand.name}'s name in ${registrable}, which isn't ${brand.name}'s site.`
+          }
+        };
+      }
+    }
+  }
+  return null;
+}
+
+function gradeFor(score: number): LinkGrade {
+  if (score >= DANGEROUS_SCORE) return 'dangerous';
+  if (score >= SUSPICIOUS_SCORE) return 'suspicious';
+  return 'neutral';
+}
+
+function explain(grade: LinkGrade, host: string, reasons: LinkReason[]): string {
+  if (reasons.length === 0) {
+    return `Nothing about ${host} matches a known trick. That doesn't make it safe, so only open it if you expected it.`;
+  }
+  const lead =
+    grade === 'dangerous'
+      ? 'This link is very likely a scam.'
+      : grade === 'suspicious'
+      ? 'Be careful with this link.'
+      : `Nothing about ${host} is a strong warning sign, but:`;
+  return [lead, ...reasons.map(reason => reason.detail)].join(' ');
+}
+
+/**
+ * Grades one link on its address alone: who it imitates, where it really
+ * goes and what it asks for. `context` is the message around it, which can
+ * turn an unremarkable domain into an investment pitch.
+ */
+export function analyzeLink(url: string, context = ''): LinkVerdict | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(url) ? url : `http://${url}`);
+  } catch {
+    return null;
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return null;
+
+  const host = parsed.hostname.toLowerCase().replace(/\.$/, '');
+  const displayHost = domainToUnicode(host) || host;
+  const isIp = IPV4.test(host) || host.startsWith('[');
+
+  const official = isIp ? undefined : BRANDS.find(brand => isOfficial(host, brand));
+  if (official && !parsed.username) {
+    return {
+      url,
+      host: displayHost,
+      grade: 'trusted',
+      score: 0,
+      reasons: [{ signal: 'official_site', weight: 0, detail: `${host} is ${official.name}'s own site.` }],
+      explanation: `${host} is ${official.name}'s own site.`,
+      brand: official.name
+    };
+  }
+
+  const reasons: LinkReason[] = [];
+  let brand: string | undefined;
+  const registrable = isIp ? host : registrableDomain(host);
+  const tld = host.split('.').pop() || '';
+  const path = `${parsed.pathname}${parsed.search}`.toLowerCase();
+
+  if (parsed.username) {
+    reasons.push({
+      signal: 'userinfo',
+      weight: 0.5,
+      detail: `Everything before the "@" is ignored, so this goes to ${displayHost}, not ${decodeURIComponent(parsed.username)}.`
+    });
+  }
+
+  if (isIp) {
+    const written = /^(?:[a-z][a-z0-9+.-]*:\/\/)?(?:[^@\/?#]*@)?([^\/:?#]+)/i.exec(url);
+    reasons.push({
+      signal: 'ip_host',
+      weight: 0.45,
+      detail:
+        written && written[1] !== host && !written[1].startsWith('[')
+          ? `It goes to a bare IP address (${host}), written in a disguised form.`
+          : `It goes to a bare IP address (${host}) instead of a named site.`
+    });
+  } else {
+    const impersonation = findImpersonation(host, displayHost);
+    if (impersonation) {
+      brand = impersonation.brand.name;
+      reasons.push(impersonation.reason);
+    } else if (displayHost !== host) {
+      reasons.push({
+        signal: 'foreign_letters',
+        weight: 0.2,
+        detail: `The address uses letters beyond plain a-z (${displayHost}), which can be used to imitate other sites.`
+      });
+    }
+
+    if (SHORTENERS.has(registrable) || SHORTENERS.has(host)) {
+      reasons.push({
+        signal: 'shortener',
+        weight: 0.35,
+        detail: `${host} is a link shortener, which hides where the link really goes.`
+      });
+    }
+    if (RISKY_TLDS.has(tld)) {
+      reasons.push({
+        signal: 'risky_tld',
+        weight: 0.3,
+        detail: `.${tld} addresses are cheap or free to register and mostly used for throwaway sites.`
+      });
+    }
+    const name = registrable.split('.')[0];
+    if (((domainToUnicode(name) || name).match(/-/g) || []).length >= 2) {
+      reasons.push({
+        signal: 'hyphenated',
+        weight: 0.15,
+        detail: `Long hyphenated names like ${registrable} are typical of sites set up for one campaign.`
+      });
+    }
+  }
+
+  if (CREDENTIAL_PATH.test(path)) {
+    reasons.push({
+      signal: 'credential_path',
+      weight: 0.25,
+      detail: brand
+        ? `It points to a sign-in or account page, the usual shape of a fake ${brand} login.`
+        : 'It points to a sign-in or account page, where phishing sites collect passwords.'
+    });
+  }
+
+  const download = DOWNLOAD_EXTENSIONS.exec(parsed.pathname);
+  if (download) {
+    reasons.push({
+      signal: 'download',
+      weight: 0.45,
+      detail: `It downloads a .${download[1].toLowerCase()} file straight away instead of opening a page.`
+    });
+  }
+
+  const cryptoLanding = !isIp && CRYPTO_WORDS.test(`${host}${parsed.pathname.toLowerCase()}`);
+  if (cryptoLanding) {
+    reasons.push({
+      signal: 'crypto_landing',
+      weight: 0.3,
+      detail: `${displayHost} reads like a crypto or trading site, the kind investment scams send people to.`
+    });
+  }
+  const pitch = INVESTMENT_PITCH.exec(context);
+  if (pitch) {
+    reasons.push({
+      signal: 'investment_pitch',
+      weight: 0.2,
+      detail: `The message around it talks about money ("${pitch[0]}"), as investment scams do when they send a link.`
+    });
+  }
+
+  if (parsed.port && parsed.port !== '80' && parsed.port !== '443') {
+    reasons.push({
+      signal: 'unusual_port',
+      weight: 0.15,
+      detail: `It uses port ${parsed.port}, which ordinary websites don't.`
+    });
+  }
+  if (parsed.protocol === 'http:' && /^http:\/\//i.test(url)) {
+    reasons.push({
+      signal: 'not_encrypted',
+      weight: 0.1,
+      detail: "It doesn't use an encrypted (https) connection."
+    });
+  }
+
+  reasons.sort((a, b) => b.weight - a.weight);
+  const score = Math.min(1, Math.round(reasons.reduce((sum, reason) => sum + reason.weight, 0) * 100) / 100);
+  const grade = gradeFor(score);
+  return {
+    url,
+    host: displayHost,
+    grade,
+    score,
+    reasons,
+    explanation: explain(grade, displayHost, reasons),
+    brand
+  };
+}
+
+// Every link in a message, graded with the message as context
+export function analyzeLinks(text: string): LinkVerdict[] {
+  return findLinks(text)
+    .map(link => analyzeLink(link, text))
+    .filter((verdict): verdict is LinkVerdict => verdict !== null);
+}
@@ -0,0 +1,60 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { PrivacySafetyEngine } from './privacySafetyEngine';
+
+const engine = new PrivacySafetyEngine();
+
+function check(draft: string) {
+  return engine.checkOutgoingDraft(draft, { stage: 'initial' });
+}
+
+function found(draft: string): Record<string, string> {
+  return Object.fromEntries(check(draft).disclosures.map(disclosure => [disclosure.id, disclosure.excerpt]));
+}
+
+test('numbers and streets in passing are not addresses', () => {
+  assert.deepEqual(found('I ran 5 miles down the road this morning'), {});
+  assert.deepEqual(found('we waited 2 hours in the court'), {});
+});
+
+test('a venue address alone is low and fine to send', () => {
+  const result = check("let's meet at Blue Bottle Coffee, 66 Mint St");
+  assert.deepEqual(
+    result.disclosures.map(disclosure => [disclosure.id, disclosure.severity]),
+    [['disclosure.street_address', 'low']]
+  );
+  assert.equal(result.safeToSend, true);
+});
+
+test('a street address given as home is critical', () => {
+  for (const draft of ['come over, my place is 12 Oak Street', 'I live at 40 Elm Road', 'My address is 9 High St']) {
+    const result = check(draft);
+    assert.equal(result.safeToSend, false, draft);
+    assert.equal(result.disclosures[0].id, 'disclosure.address', draft);
+    assert.equal(result.disclosures[0].severity, 'critical', draft);
+  }
+});
+
+test('a named employer is flagged, working at home or a hospital is not', () => {
+  assert.equal(found('I work at Google and love it')['disclosure.employer'], 'I work at Google');
+  assert.equal(found('I work for Goldman Sachs in London')['disclosure.employer'], 'I work for Goldman Sachs');
+  assert.deepEqual(found('I work at home most days'), {});
+  assert.deepEqual(found('I work at a hospital downtown'), {});
+  assert.deepEqual(found('I work for myself'), {});
+});
+
+test('the whole account number is the excerpt', () => {
+  assert.equal(found('my account number is 12345678')['disclosure.financial'], 'account number is 12345678');
+});
+
+test('a plate is flagged with or without the phrase', () => {
+  assert.ok(found('my plate is ABC 1234')['disclosure.license_plate']);
+  assert.ok(found('my license plate got scratched')['disclosure.license_plate']);
+  assert.deepEqual(found('I ate a plate of 20 tacos'), {});
+});
+
+test('details become normal to share further along', () => {
+  const result = engine.checkOutgoingDraft('I work at Google', { stage: 'dating' });
+  assert.equal(result.disclosures[0].severity, 'low');
+  assert.equal(result.safeToSend, true);
+});
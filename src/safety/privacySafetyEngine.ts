@@ -1,3 +1,9 @@
+import type { Conversation } from '../database';
+import type { PhotoMetadata } from '../utils/safeImageProcessor';
+import { matchRule, safetyRules, SafetyRuleCategory } from './rules';
+import { analyzeLinks, LinkGrade } from './linkAnalyzer';
+import { findFinancialIdentifiers, FINANCIAL_IDENTIFIER_LABELS, shortenIdentifier } from './financialIdentifiers';
+
 export interface SafetyAlert {
   id: string;
   type: 'privacy' | 'safety' | 'scam' | 'manipulation';
@@ -17,138 +23,86 @@ export interface SafetyCheck {
   safeTips: string[];
 }
 
-export class PrivacySafetyEngine {
-  private riskPatterns: Array<{
-    pattern: RegExp;
-    type: SafetyAlert['type'];
-    severity: SafetyAlert['severity'];
-    title: string;
-    description: string;
-    recommendation: string;
-    confidence: number;
-  }> = [
-    // Phone number sharing patterns
-    {
-      pattern: /(?:my\s+(?:number|phone)\s+is\s*:?\s*)?(?:\+?1[-.\s]?)?\(?([0-9]{3})\)?[-.\s]?([0-9]{3})[-.\s]?([0-9]{4})/i,
-      type: 'privacy',
-      severity: 'high',
-      title: 'Phone Number Sharing Risk',
-      description: 'Phone number detected in conversation',
-      recommendation: 'Avoid sharing phone numbers until you meet in person and feel comfortable',
-      confidence: 0.9
-    },
-    
-    // Personal info sharing
-    {
-      pattern: /(?:i\s+(?:live|work)\s+(?:at|in|on)\s+|my\s+address\s+is\s+|home\s+address|work\s+address).{1,50}/i,
-      type: 'privacy',
-      severity: 'critical',
-      title: 'Personal Address Sharing',
-      description: 'Home or work address information detected',
-      recommendation: 'Never share your home or work address with someone you haven\'t met',
-      confidence: 0.85
-    },
-
-    // Social media requests
-    {
-      pattern: /(?:add\s+me\s+on\s+|follow\s+me\s+on\s+|find\s+me\s+on\s+)(?:instagram|facebook|snapchat|tiktok|twitter)/i,
-      type: 'privacy',
-      severity: 'medium',
-      title: 'Social Media Request',
-      description: 'Request to connect on social media platforms',
-      recommendation: 'Be cautious about connecting on social media before meeting in person',
-      confidence: 0.8
-    },
-
-    // Platform migration (WhatsApp, Telegram, etc.)
-    {
-      pattern: /(?:let\'s\s+(?:move|switch|talk)\s+(?:to|on)\s+|message\s+me\s+on\s+|text\s+me\s+on\s+)(?:whatsapp|telegram|signal|kik|wickr|discord)/i,
-      type: 'safety',
-      severity: 'high',
-      title: 'Platform Migration Request',
-      description: 'Request to move conversation to another messaging platform',
-      recommendation: 'Stay on the dating app until you\'ve built trust and met in person',
-      confidence: 0.9
-    },
-
-    // Suspicious links
-    {
-      pattern: /(?:check\s+out\s+|visit\s+|click\s+|go\s+to\s+)?(?:https?:\/\/|www\.|[a-zA-Z0-9-]+\.(?:com|net|org|co|io|me|ly|tk|ml|ga))/i,
-      type: 'scam',
-      severity: 'high',
-      title: 'Suspicious Link Detected',
-      description: 'External link shared in conversation',
-      recommendation: 'Never click links from people you don\'t know well. Scammers often use malicious links',
-      confidence: 0.85
-    },
-
-    // Money/financial requests
-    {
-      pattern: /(?:send\s+me\s+|need\s+|borrow\s+|lend\s+|transfer\s+|money\s+for\s+|cash\s+for\s+|pay\s+for\s+|emergency\s+fund|financial\s+help|paypal|venmo|cashapp|bitcoin|crypto)/i,
-      type: 'scam',
-      severity: 'critical',
-      title: 'Financial Request',
-      description: 'Request for money or financial assistance',
-      recommendation: 'NEVER send money to someone you met online. This is a major red flag for scams',
-      confidence: 0.95
-    },
-
-    // Love bombing/manipulation
-    {
-      pattern: /(?:love\s+you|soul\s*mate|perfect\s+match|meant\s+to\s+be|destiny|fate\s+brought\s+us).*(?:first\s+(?:day|week|time)|just\s+met|barely\s+know)/i,
-      type: 'manipulation',
-      severity: 'high',
-      title: 'Love Bombing Detected',
-      description: 'Excessive romantic language very early in conversation',
-      recommendation: 'Be wary of people who express intense feelings too quickly. This can be manipulation',
-      confidence: 0.8
-    },
-
-    // Personal questions too early
-    {
-      pattern: /(?:where\s+do\s+you\s+(?:live|work)|what\'s\s+your\s+(?:address|workplace)|where\s+is\s+your\s+(?:house|apartment)|work\s+schedule|when\s+are\s+you\s+home\s+alone)/i,
-      type: 'safety',
-      severity: 'medium',
-      title: 'Invasive Personal Questions',
-      description: 'Questions about your location, schedule, or living situation',
-      recommendation: 'Avoid sharing specific details about where you live or work until you\'ve met and built trust',
-      confidence: 0.75
-    },
-
-    // Verification/photo requests
-    {
-      pattern: /(?:send\s+me\s+a\s+(?:photo|pic|picture|selfie)|prove\s+you\'re\s+real|verification\s+(?:photo|pic)|show\s+me\s+(?:your\s+face|yourself))/i,
-      type: 'privacy',
-      severity: 'medium',
-      title: 'Photo Verification Request',
-      description: 'Request for additional photos or verification pictures',
-      recommendation: 'Be cautious about sending additional photos. Use the app\'s built-in verification features instead',
-      confidence: 0.7
-    },
-
-    // Urgency/pressure tactics
-    {
-      pattern: /(?:right\s+now|immediately|urgent|emergency|time\s+sensitive|hurry|quick|fast|asap|can\'t\s+wait)/i,
-      type: 'manipulation',
-      severity: 'medium',
-      title: 'Pressure/Urgency Tactics',
-      description: 'Language creating false urgency or pressure',
-      recommendation: 'Legitimate connections don\'t require urgent responses. Take your time to think',
-      confidence: 0.6
-    },
-
-    // Travel/visit requests
-    {
-      pattern: /(?:come\s+visit\s+me|i\'ll\s+visit\s+you|meet\s+tonight|come\s+over|your\s+place\s+or\s+mine)/i,
-      type: 'safety',
-      severity: 'high',
-      title: 'Immediate Meeting Request',
-      description: 'Request to meet immediately or at private location',
-      recommendation: 'Always meet in public places for first dates. Take time to get to know someone first',
-      confidence: 0.8
-    }
-  ];
+export type RelationshipStage = Conversation['relationship_stage'];
+
+// Who the draft is for, as far as the user has told us
+export interface DraftContext {
+  stage: RelationshipStage;
+  // Since the first message with this person, when known
+  daysKnown?: number;
+}
+
+export interface DraftDisclosure {
+  id: string;
+  title: string;
+  severity: SafetyAlert['severity'];
+  // The part of the draft (or photo) that gives it away
+  excerpt: string;
+  guidance: string;
+}
 
+export interface DraftCheck {
+  safeToSend: boolean;
+  stage: RelationshipStage;
+  disclosures: DraftDisclosure[];
+}
+
+export const RELATIONSHIP_STAGES: RelationshipStage[] = ['initial', 'getting_to_know', 'interested', 'dating', 'serious'];
+
+const STAGE_DESCRIPTIONS: Record<RelationshipStage, string> = {
+  initial: 'just matched',
+  getting_to_know: 'getting to know each other',
+  interested: 'planning to meet',
+  dating: 'meeting in person',
+  serious: 'in a relationship'
+};
+
+// The stage from which sharing each detail is a normal step. Before it the
+// rule's own severity applies; details not listed (bank and card numbers,
+// custom rules) are never downgraded.
+const SHARE_FROM_STAGE: Record<string, RelationshipStage> = {
+  'disclosure.phone_number': 'dating',
+  'disclosure.employer': 'dating',
+  'disclosure.address': 'serious',
+  'disclosure.license_plate': 'serious',
+  'photo.location': 'serious'
+};
+
+// Which rule categories this engine checks, and the alert type each raises
+const ALERT_TYPES: Partial<Record<SafetyRuleCategory, SafetyAlert['type']>> = {
+  contact_sharing: 'privacy',
+  personal_info: 'privacy',
+  photo_request: 'privacy',
+  unsafe_meeting: 'safety',
+  platform_switch: 'safety',
+  suspicious_link: 'scam',
+  financial_request: 'scam',
+  love_bombing: 'manipulation',
+  pressure: 'manipulation'
+};
+
+const RISK_CATEGORIES = Object.keys(ALERT_TYPES) as SafetyRuleCategory[];
+
+// How each link grade is raised; trusted links and clean neutral ones aren't
+const LINK_ALERTS: Record<Exclude<LinkGrade, 'trusted'>, Pick<SafetyAlert, 'severity' | 'title' | 'recommendation'>> = {
+  dangerous: {
+    severity: 'high',
+    title: 'Dangerous Link',
+    recommendation: 'Don\'t open this link or sign in through it. If it claims to be from a company, go to their app or site yourself'
+  },
+  suspicious: {
+    severity: 'medium',
+    title: 'Suspicious Link',
+    recommendation: 'Ask what the link is before opening it, and never enter passwords or payment details on a page a match sent'
+  },
+  neutral: {
+    severity: 'low',
+    title: 'Link Shared',
+    recommendation: 'Only open links you expected, and never sign in through one'
+  }
+};
+
+export class PrivacySafetyEngine {
   private earlyRedFlags = [
     'asks for money',
     'shares phone number immediately',
@@ -211,22 +165,56 @@ export class PrivacySafetyEngine {
   private checkMessageForRisks(message: string, timestamp: number): SafetyAlert[] {
     const alerts: SafetyAlert[] = [];
 
-    for (const riskPattern of this.riskPatterns) {
-      if (riskPattern.pattern.test(message)) {
+    for (const rule of safetyRules.select(RISK_CATEGORIES)) {
+      const match = matchRule(rule, message);
+      if (match) {
         alerts.push({
           id: `alert_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-          type: riskPattern.type,
-          severity: riskPattern.severity,
-          title: riskPattern.title,
-          description: riskPattern.description,
-          recommendation: riskPattern.recommendation,
-          confidence: riskPattern.confidence,
+          type: ALERT_TYPES[rule.category]!,
+          severity: rule.severity,
+          title: rule.title,
+          description: rule.description || rule.title,
+          recommendation: rule.recommendation,
+          confidence: rule.confidence,
           timestamp,
-          pattern: message.match(riskPattern.pattern)?.[0] || 'pattern match'
+          pattern: match
         });
       }
     }
 
+    for (const identifier of findFinancialIdentifiers(message)) {
+      const label = FINANCIAL_IDENTIFIER_LABELS[identifier.kind];
+      alerts.push({
+        id: `alert_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        type: 'scam',
+        severity: 'critical',
+        title: `Payment Details: ${label}`,
+        description: `They sent payment details: ${label} ${shortenIdentifier(identifier.value)}${
+          identifier.validated ? ' (its checksum is valid, so it is a real account)' : ''
+        }`,
+        recommendation: 'Never send money, crypto or gift card codes to someone you met online, however good the reason',
+        confidence: identifier.validated ? 0.95 : 0.85,
+        timestamp,
+        pattern: identifier.text
+      });
+    }
+
+    for (const verdict of analyzeLinks(message)) {
+      if (verdict.grade === 'trusted' || (verdict.grade === 'neutral' && verdict.score === 0)) continue;
+      const linkAlert = LINK_ALERTS[verdict.grade];
+      alerts.push({
+        id: `alert_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        type: 'scam',
+        ...linkAlert,
+        // Impersonating a brand on a sign-in page, say
+        severity: verdict.grade === 'dangerous' && verdict.score >= 1 ? 'critical' : linkAlert.severity,
+        description: verdict.explanation,
+        confidence: verdict.grade === 'neutral' ? 0.5 : verdict.score,
+        timestamp,
+        pattern: verdict.url
+      });
+    }
+
     return alerts;
   }
 
@@ -364,18 +352,93 @@ export class PrivacySafetyEngine {
     severity?: string;
     recommendation?: string;
   }> {
-    for (const pattern of this.riskPatterns) {
-      if (pattern.pattern.test(message)) {
-        return {
-          hasRisk: true,
-          riskType: pattern.type,
-          severity: pattern.severity,
-          recommendation: pattern.recommendation
-        };
+    // The most severe, so a dangerous link isn't hidden behind a milder rule
+    const [alert] = this.checkMessageForRisks(message, Date.now()).sort(
+      (a, b) => this.getSeverityWeight(b.severity) - this.getSeverityWeight(a.severity)
+    );
+    if (!alert) return { hasRisk: false };
+
+    return {
+      hasRisk: true,
+      riskType: alert.type,
+      severity: alert.severity,
+      recommendation: alert.recommendation
+    };
+  }
+
+  /**
+   * Checks something the user is about to send for details that identify or
+   * locate them. What counts as too soon depends on how far along they are:
+   * a phone number after a few dates is fine, on day one it isn't.
+   */
+  checkOutgoingDraft(draft: string, context: DraftContext, photo?: PhotoMetadata): DraftCheck {
+    const found: Array<Omit<DraftDisclosure, 'guidance'> & { recommendation: string }> = [];
+
+    for (const rule of safetyRules.select(['self_disclosure'])) {
+      const match = matchRule(rule, draft);
+      if (match) {
+        found.push({
+          id: rule.id,
+          title: rule.title,
+          severity: rule.severity,
+          excerpt: match.trim(),
+          recommendation: rule.recommendation
+        });
       }
     }
 
-    return { hasRisk: false };
+    if (photo?.latitude !== undefined && photo.longitude !== undefined) {
+      found.push({
+        id: 'photo.location',
+        title: 'Photo Location',
+        severity: 'high',
+        excerpt: `${photo.latitude.toFixed(4)}, ${photo.longitude.toFixed(4)}`,
+        recommendation: 'This photo records where it was taken. Send a screenshot of it instead, which leaves the location out'
+      });
+    }
+    if (photo?.camera || photo?.takenAt) {
+      found.push({
+        id: 'photo.details',
+        title: 'Photo Details',
+        severity: 'low',
+        excerpt: [photo.camera, photo.takenAt].filter(Boolean).join(', '),
+        recommendation: 'The photo also says what phone took it and when. Most apps strip this, but not all'
+      });
+    }
+
+    const disclosures = found.map(({ recommendation, ...disclosure }) =>
+      this.applyStage({ ...disclosure, guidance: recommendation }, context)
+    );
+
+    return {
+      safeToSend: disclosures.every(disclosure => disclosure.severity === 'low'),
+      stage: context.stage,
+      disclosures: disclosures.sort((a, b) => this.getSeverityWeight(b.severity) - this.getSeverityWeight(a.severity))
+    };
+  }
+
+  private applyStage(disclosure: DraftDisclosure, context: DraftContext): DraftDisclosure {
+    const shareFrom = SHARE_FROM_STAGE[disclosure.id];
+    const reached =
+      shareFrom !== undefined && RELATIONSHIP_STAGES.indexOf(context.stage) >= RELATIONSHIP_STAGES.indexOf(shareFrom);
+
+    if (reached) {
+      return {
+        ...disclosure,
+        severity: 'low',
+        guidance: `You're ${STAGE_DESCRIPTIONS[context.stage]}, so this is a normal thing to share if you're comfortable.`
+      };
+    }
+    if (context.daysKnown !== undefined && context.daysKnown < 1) {
+      return { ...disclosure, guidance: `You only started talking today. ${disclosure.guidance}` };
+    }
+    if (shareFrom) {
+      return {
+        ...disclosure,
+        guidance: `${disclosure.guidance}. Most people wait until they're ${STAGE_DESCRIPTIONS[shareFrom]}.`
+      };
+    }
+    return disclosure;
   }
 
   // Get general safety tips for users
@@ -0,0 +1,579 @@
+import type { SafetyRulePack } from './index';
+
+// "12 Oak Street", "66 Mint St"; not "5 miles down the road" or "2 hours in the court"
+const STREET_ADDRESS =
+  '\\b\\d{1,5}\\s+(?:(?!(?:the|a|an|in|on|at|to|down|up|along|of|my|miles?|hours?|minutes?|mins?|blocks?|km|times?|days?|weeks?|years?)\\b)[a-z\']+\\s+){1,3}' +
+  '(?:street|st|avenue|ave|road|rd|lane|ln|drive|dr|boulevard|blvd|court|ct|way|place|pl|terrace)\\b';
+
+/**
+ * The bundled English rules, merged from the lists SafetyEngine,
+ * PrivacySafetyEngine, BehavioralAnalysisEngine and CatfishDetector used to
+ * keep separately. Ids are stable so a user's enable/disable choices survive
+ * pack updates.
+ */
+export const CORE_RULE_PACK: SafetyRulePack = {
+  id: 'core',
+  name: 'Core safety rules',
+  version: '1.3.0',
+  locale: 'en',
+  rules: [
+    // Money
+    {
+      id: 'financial.money_request',
+      title: 'Financial Request',
+      description: 'Request for money or financial assistance',
+      category: 'financial_request',
+      severity: 'critical',
+      confidence: 0.95,
+      recommendation: 'NEVER send money to someone you met online. This is a major red flag for scams',
+      locale: 'en',
+      pattern:
+        'send.{0,10}money|need.{0,10}help.{0,10}financial|emergency.{0,10}(cash|fund)|financial\\s+help|(money|cash)\\s+for\\s+|borrow\\s+|lend\\s+me|pay\\s+for\\s+my'
+    },
+    {
+      id: 'financial.payment_methods',
+      title: 'Untraceable Payment Method',
+      description: 'Mentions a payment method scammers favour',
+      category: 'financial_request',
+      severity: 'critical',
+      confidence: 0.9,
+      recommendation: 'Never pay anyone you met online by wire, gift card or payment app',
+      locale: 'en',
+      pattern:
+        '\\b(western union|moneygram|wire.{0,10}transfer|bank transfer|money transfer|paypal|venmo|cash ?app|gift ?cards?|itunes|steam card)\\b'
+    },
+    {
+      id: 'financial.crypto',
+      title: 'Cryptocurrency Mentioned',
+      description: 'Talk of bitcoin or other cryptocurrency',
+      category: 'financial_request',
+      severity: 'high',
+      confidence: 0.85,
+      recommendation: 'Romance scams often move on to crypto. Never buy or send crypto for a match',
+      locale: 'en',
+      pattern: '\\b(bitcoin|cryptocurrency|crypto|usdt)\\b'
+    },
+
+    // Romance scam stories
+    {
+      id: 'romance.abroad_story',
+      title: 'Working Abroad Story',
+      description: 'Claims a job that keeps them overseas',
+      category: 'romance_scam',
+      severity: 'high',
+      confidence: 0.8,
+      recommendation: 'Be extremely cautious. This may be a romance scammer.',
+      locale: 'en',
+      pattern:
+        '\\b(deployed|military deployment|overseas contract|overseas|military|oil rig|engineer abroad|UN peacekeeping|doctor abroad)\\b'
+    },
+    {
+      id: 'romance.widowed',
+      title: 'Widowed Backstory',
+      description: 'A lost spouse, a common romance-scam backstory',
+      category: 'romance_scam',
+      severity: 'medium',
+      confidence: 0.6,
+      recommendation: 'Be extremely cautious. This may be a romance scammer.',
+      locale: 'en',
+      pattern: '\\b(deceased (wife|husband)|widow(ed|er)?|lost my (wife|husband))\\b'
+    },
+    {
+      id: 'romance.windfall',
+      title: 'Windfall Story',
+      description: 'Inheritance, gold or valuables waiting to be released',
+      category: 'romance_scam',
+      severity: 'high',
+      confidence: 0.8,
+      recommendation: 'Be extremely cautious. This may be a romance scammer.',
+      locale: 'en',
+      pattern: '\\b(trust fund|inheritance|gold bars|gold|diamonds|diplomatic bag|contract|business trip)\\b'
+    },
+    {
+      id: 'romance.release_fees',
+      title: 'Fees and Paperwork',
+      description: 'Customs, taxes or legal fees blocking their plans',
+      category: 'romance_scam',
+      severity: 'medium',
+      confidence: 0.6,
+      recommendation: 'Nobody you date should need you to cover fees or paperwork',
+      locale: 'en',
+      pattern: '\\b(customs|custom clearance|clearance|fees|taxes|legal documents|lawyer)\\b'
+    },
+    {
+      id: 'romance.crisis',
+      title: 'Sudden Crisis',
+      description: 'An emergency, illness or stranded traveller',
+      category: 'romance_scam',
+      severity: 'medium',
+      confidence: 0.6,
+      recommendation: 'A crisis early on is a classic lead-in to a money request',
+      locale: 'en',
+      pattern: '\\b(emergency|urgent|hospital|sick|accident|stranded)\\b'
+    },
+    {
+      id: 'romance.travel_costs',
+      title: 'Travel Costs',
+      description: 'Needs a ticket, visa or transfer to come and meet',
+      category: 'romance_scam',
+      severity: 'high',
+      confidence: 0.8,
+      recommendation: 'Never pay for a match to travel to you',
+      locale: 'en',
+      pattern: '\\b(flight ticket|visa|money transfer|bank transfer)\\b'
+    },
+
+    // Investment scams
+    {
+      id: 'investment.guaranteed_returns',
+      title: 'Guaranteed Returns',
+      description: 'Promises of risk-free or insider profits',
+      category: 'investment_scam',
+      severity: 'high',
+      confidence: 0.85,
+      recommendation: 'Nobody can guarantee profits. Do not invest on a match\'s advice',
+      locale: 'en',
+      pattern: '\\b(guaranteed profit|risk-free|insider information|limited time)\\b'
+    },
+    {
+      id: 'investment.trading',
+      title: 'Trading Pitch',
+      description: 'Pushes crypto, forex or another investment',
+      category: 'investment_scam',
+      severity: 'high',
+      confidence: 0.8,
+      recommendation: 'Do not invest on a match\'s advice or through a platform they suggest',
+      locale: 'en',
+      pattern: '\\b(cryptocurrency|forex|binary options|stock tips)\\b|(investment|business).{0,10}opportunity'
+    },
+    {
+      id: 'investment.deposit',
+      title: 'Deposit Request',
+      description: 'Asks for a deposit or funding of a trading account',
+      category: 'investment_scam',
+      severity: 'medium',
+      confidence: 0.7,
+      recommendation: 'Do not deposit money anywhere a match points you to',
+      locale: 'en',
+      pattern: '\\b(minimum investment|deposit|funding|trading account)\\b'
+    },
+    {
+      id: 'investment.payouts',
+      title: 'Profit Talk',
+      description: 'Talk of withdrawals, returns or commission',
+      category: 'investment_scam',
+      severity: 'low',
+      confidence: 0.5,
+      recommendation: 'Be wary of matches who keep steering talk to money they have made',
+      locale: 'en',
+      pattern: '\\b(withdraw|profits|earnings|returns|commission)\\b'
+    },
+
+    // Sextortion
+    {
+      id: 'sextortion.video',
+      title: 'Private Video Call',
+      description: 'Pushes for a webcam or video call',
+      category: 'sextortion',
+      severity: 'low',
+      confidence: 0.4,
+      recommendation: 'Keep video calls clothed and assume they may be recorded',
+      locale: 'en',
+      pattern: '\\b(video call|cam|webcam|Skype|WhatsApp video)\\b'
+    },
+    {
+      id: 'sextortion.intimate',
+      title: 'Intimate Content',
+      description: 'Talk of nude or intimate images or recordings',
+      category: 'sextortion',
+      severity: 'medium',
+      confidence: 0.6,
+      recommendation: 'Never send intimate images to someone you have not met',
+      locale: 'en',
+      pattern: '\\b(naked|nude|intimate|private|sexy|recording)\\b'
+    },
+    {
+      id: 'sextortion.exposure',
+      title: 'Exposure Threat',
+      description: 'Threatens to share something with friends or online',
+      category: 'sextortion',
+      severity: 'medium',
+      confidence: 0.6,
+      recommendation: 'If you are threatened, stop replying, keep the evidence and report it',
+      locale: 'en',
+      pattern: '\\b(blackmail|expose|share|send to friends|social media)\\b'
+    },
+    {
+      id: 'sextortion.payment',
+      title: 'Payment for Silence',
+      description: 'Talk of paying to keep something deleted',
+      category: 'sextortion',
+      severity: 'low',
+      confidence: 0.5,
+      recommendation: 'Never pay a blackmailer. Report them to the platform and police',
+      locale: 'en',
+      pattern: '\\b(pay|money|silence|delete)\\b'
+    },
+
+    // Sexual content
+    {
+      id: 'sexual.explicit_request',
+      title: 'Explicit Request',
+      description: 'Asks for nude pictures or adult content',
+      category: 'sexual_content',
+      severity: 'high',
+      confidence: 0.85,
+      recommendation: 'You never owe anyone explicit content. Block and report pushy requests',
+      locale: 'en',
+      pattern: 'nude|naked|sex.{0,10}pics|adult.{0,10}content|cam.{0,10}show'
+    },
+    {
+      id: 'sexual.transactional',
+      title: 'Transactional Arrangement',
+      description: 'Sugar dating or escort language',
+      category: 'sexual_content',
+      severity: 'high',
+      confidence: 0.85,
+      recommendation: 'Sugar-dating offers are a common scam. Do not share details or pay fees',
+      locale: 'en',
+      pattern: 'sugar.{0,10}daddy|sugar.{0,10}baby|escort|prostitut'
+    },
+
+    // Meeting
+    {
+      id: 'meeting.immediate_private',
+      title: 'Immediate Meeting Request',
+      description: 'Request to meet immediately or at private location',
+      category: 'unsafe_meeting',
+      severity: 'high',
+      confidence: 0.8,
+      recommendation: 'Always meet in public places for first dates. Take time to get to know someone first',
+      locale: 'en',
+      pattern:
+        'meet.{0,10}tonight|come.{0,10}over|hotel.{0,10}room|my.{0,10}place.{0,10}alone|your\\s+place\\s+or\\s+mine|come\\s+visit\\s+me|i\'ll\\s+visit\\s+you'
+    },
+
+    // Personal information
+    {
+      id: 'personal.address_shared',
+      title: 'Personal Address Sharing',
+      description: 'Home or work address information detected',
+      category: 'personal_info',
+      severity: 'critical',
+      confidence: 0.85,
+      recommendation: 'Never share your home or work address with someone you haven\'t met',
+      locale: 'en',
+      pattern: '(?:i\\s+(?:live|work)\\s+(?:at|in|on)\\s+|my\\s+address\\s+is\\s+|home\\s+address|work\\s+address).{1,50}'
+    },
+    {
+      id: 'personal.invasive_questions',
+      title: 'Invasive Personal Questions',
+      description: 'Questions about your location, schedule, or living situation',
+      category: 'personal_info',
+      severity: 'medium',
+      confidence: 0.75,
+      recommendation:
+        'Avoid sharing specific details about where you live or work until you\'ve met and built trust',
+      locale: 'en',
+      pattern:
+        '(?:where\\s+do\\s+you\\s+(?:live|work)|what\'s\\s+your\\s+(?:address|workplace)|where\\s+is\\s+your\\s+(?:house|apartment)|work\\s+schedule|when\\s+are\\s+you\\s+home\\s+alone|personal\\s+info)'
+    },
+    {
+      id: 'personal.financial_details',
+      title: 'Financial Details Requested',
+      description: 'Asks about bank, card or identity numbers',
+      category: 'personal_info',
+      severity: 'critical',
+      confidence: 0.9,
+      recommendation: 'Never share bank, card, passport or social security details with a match',
+      locale: 'en',
+      pattern: 'bank.{0,10}account|social.{0,10}security|passport.{0,10}number|credit.{0,10}card'
+    },
+
+    // Contact details
+    {
+      id: 'contact.phone_number',
+      title: 'Phone Number Sharing Risk',
+      description: 'Phone number detected in conversation',
+      category: 'contact_sharing',
+      severity: 'high',
+      confidence: 0.9,
+      recommendation: 'Avoid sharing phone numbers until you meet in person and feel comfortable',
+      locale: 'en',
+      pattern:
+        '(?:my\\s+(?:number|phone)\\s+is\\s*:?\\s*)?(?:\\+?1[-.\\s]?)?\\(?([0-9]{3})\\)?[-.\\s]?([0-9]{3})[-.\\s]?([0-9]{4})'
+    },
+    {
+      id: 'contact.social_media',
+      title: 'Social Media Request',
+      description: 'Request to connect on social media platforms',
+      category: 'contact_sharing',
+      severity: 'medium',
+      confidence: 0.8,
+      recommendation: 'Be cautious about connecting on social media before meeting in person',
+      locale: 'en',
+      pattern: '(?:add\\s+me\\s+on\\s+|follow\\s+me\\s+on\\s+|find\\s+me\\s+on\\s+)(?:instagram|facebook|snapchat|tiktok|twitter)'
+    },
+    {
+      id: 'contact.number_request',
+      title: 'Number Exchange',
+      description: 'Asks for or offers a phone number',
+      category: 'contact_sharing',
+      severity: 'low',
+      confidence: 0.5,
+      recommendation: 'Swap numbers once you are comfortable, not because you were asked to',
+      locale: 'en',
+      keywords: ['what\'s your number', 'here\'s my number']
+    },
+
+    // Leaving the app
+    {
+      id: 'platform.move_off_app',
+      title: 'Platform Migration Request',
+      description: 'Request to move conversation to another messaging platform',
+      category: 'platform_switch',
+      severity: 'high',
+      confidence: 0.9,
+      recommendation: 'Stay on the dating app until you\'ve built trust and met in person',
+      locale: 'en',
+      pattern:
+        '(?:let\'s\\s+(?:move|switch|talk)\\s+(?:to|on)\\s+|message\\s+me\\s+on\\s+|text\\s+me\\s+on\\s+)(?:whatsapp|telegram|signal|kik|wickr|discord)'
+    },
+
+    // Photos
+    {
+      id: 'photo.verification_request',
+      title: 'Photo Verification Request',
+      description: 'Request for additional photos or verification pictures',
+      category: 'photo_request',
+      severity: 'medium',
+      confidence: 0.7,
+      recommendation:
+        'Be cautious about sending additional photos. Use the app\'s built-in verification features instead',
+      locale: 'en',
+      pattern:
+        '(?:send\\s+me\\s+a\\s+(?:photo|pic|picture|selfie)|prove\\s+you\'re\\s+real|verification\\s+(?:photo|pic)|show\\s+me\\s+(?:your\\s+face|yourself))'
+    },
+
+    // Love bombing
+    {
+      id: 'love_bombing.early_declaration',
+      title: 'Love Bombing Detected',
+      description: 'Excessive romantic language very early in conversation',
+      category: 'love_bombing',
+      severity: 'high',
+      confidence: 0.8,
+      recommendation: 'Be wary of people who express intense feelings too quickly. This can be manipulation',
+      locale: 'en',
+      pattern:
+        '(?:love\\s+you|soul\\s*mate|perfect\\s+match|meant\\s+to\\s+be|destiny|fate\\s+brought\\s+us).*(?:first\\s+(?:day|week|time)|just\\s+met|barely\\s+know)'
+    },
+    {
+      id: 'love_bombing.destiny',
+      title: 'Fate and Soulmates',
+      description: 'Talks about destiny or being meant for each other',
+      category: 'love_bombing',
+      severity: 'medium',
+      confidence: 0.6,
+      recommendation: 'Intense feelings before you have met are a common manipulation tactic',
+      locale: 'en',
+      pattern: '\\b(God brought us together|destiny|fate|meant to be|soul ?mate|never felt this way|love you)\\b'
+    },
+
+    // Pressure
+    {
+      id: 'pressure.prove_love',
+      title: 'Guilt and Proof of Love',
+      description: 'Asks you to prove your feelings or trust',
+      category: 'pressure',
+      severity: 'high',
+      confidence: 0.85,
+      recommendation: 'Be very cautious. This person is trying to manipulate you.',
+      locale: 'en',
+      keywords: [
+        'if you really loved me',
+        'if you really love me',
+        'prove your love',
+        'prove you care',
+        'don\'t you trust me',
+        'i thought you were different'
+      ]
+    },
+    {
+      id: 'pressure.isolation',
+      title: 'Isolation',
+      description: 'Asks you to leave the app or stop talking to others',
+      category: 'pressure',
+      severity: 'high',
+      confidence: 0.85,
+      recommendation: 'Someone who wants you to cut off other people is a red flag',
+      locale: 'en',
+      keywords: ['delete the app', 'delete this app', 'don\'t talk to others', 'only message me']
+    },
+    {
+      id: 'pressure.urgency',
+      title: 'Pressure/Urgency Tactics',
+      description: 'Language creating false urgency or pressure',
+      category: 'pressure',
+      severity: 'medium',
+      confidence: 0.6,
+      recommendation: 'Legitimate connections don\'t require urgent responses. Take your time to think',
+      locale: 'en',
+      pattern: '(?:right\\s+now|immediately|urgent|emergency|time\\s+sensitive|hurry|quick|fast|asap|can\'t\\s+wait)'
+    },
+
+    // Early escalation signals for catfish scoring
+    {
+      id: 'escalation.endearments',
+      title: 'Early Pet Names',
+      description: 'Pet names and heavy compliments from the start',
+      category: 'escalation',
+      severity: 'low',
+      confidence: 0.4,
+      recommendation: 'Pet names this early can be a script. See if they know anything specific about you',
+      locale: 'en',
+      keywords: ['honey', 'babe', 'darling', 'sweetie', 'beautiful', 'gorgeous', 'perfect']
+    },
+    {
+      id: 'escalation.off_app',
+      title: 'Other Messengers',
+      description: 'Brings up WhatsApp, Telegram or texting',
+      category: 'escalation',
+      severity: 'low',
+      confidence: 0.5,
+      recommendation: 'Stay on the dating app until you have met',
+      locale: 'en',
+      keywords: ['text me', 'whatsapp', 'telegram', 'help me']
+    },
+
+    // Catfish evasion
+    {
+      id: 'catfish.cant_meet',
+      title: 'Never Available',
+      description: 'Always busy or travelling when meeting comes up',
+      category: 'catfish_evasion',
+      severity: 'medium',
+      confidence: 0.6,
+      recommendation: 'Suggest a short video call. Real matches make time',
+      locale: 'en',
+      pattern: '\\b(can\'t meet|always busy|traveling|work commitments)\\b'
+    },
+    {
+      id: 'catfish.no_video',
+      title: 'No Video',
+      description: 'Broken camera or bad connection whenever video comes up',
+      category: 'catfish_evasion',
+      severity: 'medium',
+      confidence: 0.7,
+      recommendation: 'Request a video call or real-time photo before meeting.',
+      locale: 'en',
+      pattern: '\\b(camera broken|phone broken|no video|bad connection)\\b'
+    },
+    {
+      id: 'catfish.stalling',
+      title: 'Stalling',
+      description: 'Not ready, shy or needs more time',
+      category: 'catfish_evasion',
+      severity: 'low',
+      confidence: 0.4,
+      recommendation: 'Give it time, but notice if meeting never gets closer',
+      locale: 'en',
+      pattern: '\\b(shy|nervous|not ready|give me time)\\b'
+    },
+    {
+      id: 'catfish.trust_issues',
+      title: 'Trust Issues',
+      description: 'Past hurt used as a reason to hold back',
+      category: 'catfish_evasion',
+      severity: 'low',
+      confidence: 0.4,
+      recommendation: 'Notice whether the openness only goes one way',
+      locale: 'en',
+      pattern: '\\b(trust issues|bad relationship|need to know you better)\\b'
+    },
+
+    // The user's own drafts
+    {
+      id: 'disclosure.phone_number',
+      title: 'Your Phone Number',
+      description: 'The draft contains a phone number',
+      category: 'self_disclosure',
+      severity: 'high',
+      confidence: 0.85,
+      recommendation: 'A number links to your real name and accounts. Keep chatting in the app until you have met',
+      locale: '*',
+      pattern: '(?:\\+?\\d{1,3}[-.\\s]?)?\\(?\\d{3}\\)?[-.\\s]?\\d{3}[-.\\s]?\\d{4}\\b'
+    },
+    {
+      id: 'disclosure.address',
+      title: 'Your Address',
+      description: 'The draft says where you live',
+      category: 'self_disclosure',
+      severity: 'critical',
+      confidence: 0.8,
+      recommendation: 'Meet somewhere public instead of sharing where you live',
+      locale: 'en',
+      pattern:
+        '\\bi\\s+live\\s+(?:at|on)\\s+\\w+|\\bmy\\s+(?:home\\s+)?address\\s+is\\b|\\bmy\\s+apartment\\s+(?:is\\s+)?(?:on|at)\\b|' +
+        // A street address after a sign that it's home: "come over, i'm at 12 oak st"
+        "\\b(?:i\\s+live|my\\s+(?:place|apartment|flat|house|home)|come\\s+(?:over|round|by))\\b[^.!?\\n]{0,40}?" +
+        STREET_ADDRESS
+    },
+    {
+      id: 'disclosure.street_address',
+      title: 'A Street Address',
+      description: 'The draft gives a street address, which may be a place to meet',
+      category: 'self_disclosure',
+      severity: 'low',
+      confidence: 0.5,
+      recommendation: "Fine for somewhere public to meet. If it's your home, keep it to yourself for now",
+      locale: 'en',
+      pattern: STREET_ADDRESS
+    },
+    {
+      id: 'disclosure.employer',
+      title: 'Your Workplace',
+      description: 'The draft names where you work',
+      category: 'self_disclosure',
+      severity: 'medium',
+      confidence: 0.7,
+      recommendation: 'Say what you do rather than where. A workplace tells someone where to find you every day',
+      locale: 'en',
+      pattern:
+        '\\bi(?:\\s+work|\\s+am\\s+working|\'m\\s+working|\\s+intern)\\s+(?:at|for)\\s+' +
+        // A named employer, not "at home", "for myself" or "at a hospital downtown"
+        '(?!(?:home|remote(?:ly)?|a|an|the|my|our|his|her|their|this|that|some|any|one|two|several|myself|yourself|free|night|nights|weekends?|least|it|all|' +
+        'hospitals?|schools?|offices?|restaurants?|compan(?:y|ies)|bars?|stores?|shops?|cafes?|banks?|hotels?|startups?|firms?|factor(?:y|ies)|' +
+        'warehouses?|clinics?|gyms?|universit(?:y|ies)|colleges?|agenc(?:y|ies)|church|labs?|malls?|airports?|nonprofits?|charit(?:y|ies)|local|big|small)\\b)' +
+        "[\\w&'.-]+(?:\\s+(?!(?:and|but|so|as|in|on|at|for|with|now|since|because|every|all|downtown|today|tonight|lol|haha|too|though|right|the|a|an|to|of|is|was|it|which|where|who|if|until|part|full)\\b)[\\w&'.-]+){0,2}" +
+        '|\\bmy\\s+(?:office|company|employer|workplace)\\s+is\\b'
+    },
+    {
+      id: 'disclosure.license_plate',
+      title: 'Your License Plate',
+      description: 'The draft mentions your number plate',
+      category: 'self_disclosure',
+      severity: 'high',
+      confidence: 0.75,
+      recommendation: 'A plate can be traced to your address. Describe your car without it, if at all',
+      locale: 'en',
+      pattern:
+        '\\b(?:licen[cs]e|number|reg(?:istration)?)\\s+plate\\b|\\bplate\\s+number\\b|\\bregistration\\s+(?:is|number)\\b|' +
+        // A plate itself after "plate" or "reg": ABC 1234, 7ABC123, AB12 CDE
+        '\\b(?:plate|reg)(?:\\s+(?:number|no\\.?|#))?\\s*(?:is|\'s|:)?\\s*(?!(?:of|is|in|on|at|to|for|and|was|the|my|has|had)\\b)' +
+        '(?:[a-z]{1,3}[-\\s]?\\d{2,4}(?:[-\\s]?[a-z]{1,3})?|\\d[a-z]{2,3}[-\\s]?\\d{2,3})\\b'
+    },
+    {
+      id: 'disclosure.financial',
+      title: 'Your Financial Details',
+      description: 'The draft contains a card, account or social security number',
+      category: 'self_disclosure',
+      severity: 'critical',
+      confidence: 0.9,
+      recommendation: 'Never send bank, card or identity numbers to a match, however far along you are',
+      locale: '*',
+      pattern:
+        '\\b(?:\\d{4}[-\\s]?){3}\\d{1,4}\\b|\\b\\d{3}-\\d{2}-\\d{4}\\b|\\b[a-z]{2}\\d{2}(?:\\s?[a-z0-9]{4}){3,7}\\b|\\b(?:account|routing|sort\\s+code|iban|card|ssn)\\s*(?:number|no\\.?|#)?\\s*(?:is)?\\s*:?\\s*\\d(?:[\\d\\s-]*\\d)?'
+    }
+  ]
+};
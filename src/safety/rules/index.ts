@@ -0,0 +1,181 @@
+import { CORE_RULE_PACK } from './corePack';
+
+export type SafetyRuleSeverity = 'low' | 'medium' | 'high' | 'critical';
+
+export type SafetyRuleCategory =
+  | 'financial_request'
+  | 'romance_scam'
+  | 'investment_scam'
+  | 'sextortion'
+  | 'sexual_content'
+  | 'unsafe_meeting'
+  | 'personal_info'
+  | 'contact_sharing'
+  | 'platform_switch'
+  | 'suspicious_link'
+  | 'photo_request'
+  | 'love_bombing'
+  | 'pressure'
+  | 'escalation'
+  | 'catfish_evasion'
+  // Details in the user's own drafts, checked before they send them
+  | 'self_disclosure';
+
+export const SAFETY_RULE_CATEGORIES: SafetyRuleCategory[] = [
+  'financial_request',
+  'romance_scam',
+  'investment_scam',
+  'sextortion',
+  'sexual_content',
+  'unsafe_meeting',
+  'personal_info',
+  'contact_sharing',
+  'platform_switch',
+  'suspicious_link',
+  'photo_request',
+  'love_bombing',
+  'pressure',
+  'escalation',
+  'catfish_evasion',
+  'self_disclosure'
+];
+
+export const SAFETY_RULE_SEVERITIES: SafetyRuleSeverity[] = ['low', 'medium', 'high', 'critical'];
+
+/**
+ * One thing to look for in a message. A rule matches on `pattern` (a
+ * case-insensitive regular expression) or on any of `keywords` (plain
+ * case-insensitive phrases); engines decide what a match means by category.
+ */
+export interface SafetyRule {
+  // Dotted and stable, e.g. 'financial.money_request'; custom rules start with 'custom.'
+  id: string;
+  title: string;
+  description?: string;
+  category: SafetyRuleCategory;
+  severity: SafetyRuleSeverity;
+  // 0-1
+  confidence: number;
+  recommendation: string;
+  // Language the rule is written for, e.g. 'en'; '*' applies to every language
+  locale: string;
+  pattern?: string;
+  keywords?: string[];
+}
+
+export interface SafetyRulePack {
+  id: string;
+  name: string;
+  // Bumped whenever a rule is added, changed or removed
+  version: string;
+  locale: string;
+  rules: SafetyRule[];
+}
+
+// What the user has changed, kept under `safetyRules` in settings.json
+export interface SafetyRuleSettings {
+  disabledRuleIds?: string[];
+  customRules?: SafetyRule[];
+}
+
+export type ListedSafetyRule = SafetyRule & {
+  source: 'pack' | 'custom';
+  enabled: boolean;
+};
+
+const compiledPatterns = new Map<string, RegExp | null>();
+
+function compile(pattern: string): RegExp | null {
+  if (!compiledPatterns.has(pattern)) {
+    try {
+      compiledPatterns.set(pattern, new RegExp(pattern, 'i'));
+    } catch (error) {
+      compiledPatterns.set(pattern, null);
+    }
+  }
+  return compiledPatterns.get(pattern)!;
+}
+
+// The text that matched, or null
+export function matchRule(rule: SafetyRule, text: string): string | null {
+  if (rule.pattern) {
+    const match = compile(rule.pattern)?.exec(text);
+    if (match) return match[0];
+  }
+  if (rule.keywords) {
+    const lower = text.toLowerCase();
+    const keyword = rule.keywords.find(candidate => candidate && lower.includes(candidate.toLowerCase()));
+    if (keyword) return keyword;
+  }
+  return null;
+}
+
+// Why a rule can't be used, or null when it's valid
+export function validateRule(rule: Partial<SafetyRule>): string | null {
+  if (!rule || typeof rule.id !== 'string' || !rule.id) return 'Rule id required';
+  if (typeof rule.title !== 'string' || !rule.title.trim()) return 'Rule title required';
+  if (!SAFETY_RULE_CATEGORIES.includes(rule.category as SafetyRuleCategory)) return 'Unknown category';
+  if (!SAFETY_RULE_SEVERITIES.includes(rule.severity as SafetyRuleSeverity)) return 'Unknown severity';
+  if (typeof rule.confidence !== 'number' || rule.confidence < 0 || rule.confidence > 1) {
+    return 'Confidence must be between 0 and 1';
+  }
+  const keywords = Array.isArray(rule.keywords) ? rule.keywords.filter(keyword => keyword.trim()) : [];
+  if (!rule.pattern && keywords.length === 0) return 'Give a pattern or at least one keyword';
+  if (rule.pattern && !compile(rule.pattern)) return 'The pattern is not a valid regular expression';
+  return null;
+}
+
+/**
+ * The rules every safety engine reads: the bundled packs plus the user's own
+ * rules, minus the ones switched off in Settings. Engines select by category
+ * on each analysis, so changes apply without restarting them.
+ */
+export class SafetyRuleRegistry {
+  private packs: SafetyRulePack[];
+  private customRules: SafetyRule[] = [];
+  private disabledRuleIds = new Set<string>();
+  private locales = ['en'];
+
+  constructor(packs: SafetyRulePack[]) {
+    this.packs = packs;
+  }
+
+  configure(settings: SafetyRuleSettings): void {
+    this.customRules = (settings.customRules || []).filter(rule => validateRule(rule) === null);
+    this.disabledRuleIds = new Set(settings.disabledRuleIds || []);
+  }
+
+  // Languages whose rules apply, e.g. the app language and English
+  setLocales(locales: string[]): void {
+    this.locales = locales.map(locale => locale.toLowerCase().split(/[-_]/)[0]);
+  }
+
+  getPacks(): Array<Omit<SafetyRulePack, 'rules'> & { ruleCount: number }> {
+    return this.packs.map(({ rules, ...pack }) => ({ ...pack, ruleCount: rules.length }));
+  }
+
+  // Every rule, enabled or not, for Settings
+  listRules(): ListedSafetyRule[] {
+    return [
+      ...this.packRules().map(rule => ({ ...rule, source: 'pack' as const })),
+      ...this.customRules.map(rule => ({ ...rule, source: 'custom' as const }))
+    ].map(rule => ({ ...rule, enabled: !this.disabledRuleIds.has(rule.id) }));
+  }
+
+  // Enabled rules for the current languages in the given categories
+  select(categories: SafetyRuleCategory[]): SafetyRule[] {
+    return [...this.packRules(), ...this.customRules].filter(
+      rule =>
+        categories.includes(rule.category) &&
+        !this.disabledRuleIds.has(rule.id) &&
+        (rule.locale === '*' || this.locales.includes(rule.locale))
+    );
+  }
+
+  // The renderer's TypeScript target has no Array.prototype.flatMap
+  private packRules(): SafetyRule[] {
+    return this.packs.reduce<SafetyRule[]>((rules, pack) => rules.concat(pack.rules), []);
+  }
+}
+
+export const safetyRules = new SafetyRuleRegistry([CORE_RULE_PACK]);
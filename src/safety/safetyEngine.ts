@@ -1,5 +1,8 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import { Conversation, DatingInsight, databaseManager } from '../database';
+import { UniversalAI } from '../ai/universalAI';
+import { matchRule, safetyRules, SafetyRuleCategory } from './rules';
+import { extractClaimedFacts, FactContradiction, findFactContradictions, mergeClaimedFacts } from './claimedFacts';
+import { extractFinancialIdentifiers, FINANCIAL_IDENTIFIER_LABELS, shortenIdentifier } from './financialIdentifiers';
 
 export interface SafetyAlert {
   id: string;
@@ -51,51 +54,26 @@ export interface ConversationSafety {
   };
 }
 
-class SafetyEngine {
-  private genAI: GoogleGenerativeAI;
-  private dangerousPatterns: RegExp[];
-  private scammerKeywords: string[];
-  private pressureTactics: string[];
-
-  constructor(apiKey: string) {
-    this.genAI = new GoogleGenerativeAI(apiKey);
-    this.initializeSafetyPatterns();
-  }
+// Rule categories reported as inappropriate requests
+const INAPPROPRIATE_REQUEST_CATEGORIES: SafetyRuleCategory[] = [
+  'financial_request',
+  'sexual_content',
+  'unsafe_meeting',
+  'personal_info',
+  'contact_sharing'
+];
 
-  private initializeSafetyPatterns(): void {
-    this.dangerousPatterns = [
-      /send.{0,10}money/i,
-      /need.{0,10}help.{0,10}financial/i,
-      /emergency.{0,10}cash/i,
-      /bitcoin|cryptocurrency|crypto/i,
-      /investment.{0,10}opportunity/i,
-      /wire.{0,10}transfer/i,
-      /bank.{0,10}account/i,
-      /social.{0,10}security/i,
-      /passport.{0,10}number/i,
-      /credit.{0,10}card/i,
-      /nude|naked|sex.{0,10}pics/i,
-      /adult.{0,10}content/i,
-      /cam.{0,10}show/i,
-      /sugar.{0,10}daddy|sugar.{0,10}baby/i,
-      /escort|prostitut/i,
-      /meet.{0,10}tonight/i,
-      /come.{0,10}over.{0,10}now/i,
-      /hotel.{0,10}room/i,
-      /my.{0,10}place.{0,10}alone/i
-    ];
+class SafetyEngine {
+  private aiClient?: UniversalAI;
 
-    this.scammerKeywords = [
-      'military deployment', 'overseas contract', 'oil rig', 'UN peacekeeping',
-      'widow', 'inheritance', 'gold bars', 'custom clearance', 'diplomatic bag',
-      'love you' // when said too early
-    ];
+  // Without a client only the pattern checks run, as in the safety evaluation
+  constructor(aiClient?: UniversalAI) {
+    this.aiClient = aiClient;
+  }
 
-    this.pressureTactics = [
-      'if you really loved me', 'prove your love', 'don\'t you trust me',
-      'we should meet tonight', 'send me money', 'i need help urgently',
-      'delete the app', 'don\'t talk to others', 'only message me'
-    ];
+  // Attached once a provider is configured, or removed along with its key
+  setAIClient(aiClient?: UniversalAI): void {
+    this.aiClient = aiClient;
   }
 
   async analyzeSafety(conversation: Conversation): Promise<ConversationSafety> {
@@ -108,8 +86,14 @@ class SafetyEngine {
     // Check for inappropriate requests
     const inappropriateRequests = this.detectInappropriateRequests(contactMessages);
     
-    // Analyze consistency
+    // Analyze consistency, including claims that contradict what they've
+    // said before
     const consistencyCheck = await this.analyzeConsistency(contactMessages);
+    const contradictions = await this.findClaimedFactContradictions(conversation);
+    consistencyCheck.fact_contradictions = [
+      ...(consistencyCheck.fact_contradictions || []),
+      ...contradictions.map(contradiction => contradiction.description)
+    ];
     
     // Calculate overall safety score
     let safetyScore = 1.0;
@@ -117,6 +101,7 @@ class SafetyEngine {
     safetyScore -= inappropriateRequests.filter(r => r.severity === 'high').length * 0.3;
     safetyScore -= inappropriateRequests.filter(r => r.severity === 'medium').length * 0.15;
     safetyScore -= consistencyCheck.story_changes.length * 0.1;
+    safetyScore -= consistencyCheck.fact_contradictions.length * 0.15;
     safetyScore = Math.max(0, safetyScore);
 
     return {
@@ -186,6 +171,26 @@ class SafetyEngine {
       });
     }
 
+    if (safety.consistency_check.fact_contradictions.length > 0) {
+      alerts.push({
+        id: `safety_contradiction_${Date.now()}`,
+        conversation_id: conversation.id,
+        severity: safety.consistency_check.fact_contradictions.length > 1 ? 'high' : 'medium',
+        type: 'fake_profile',
+        description: 'What they have told you about themselves contradicts itself',
+        evidence: safety.consistency_check.fact_contradictions,
+        recommended_action: 'Ask them about it directly. A genuine person can usually explain; a story that keeps shifting is a warning sign.',
+        confidence: 0.75,
+        timestamp: Date.now()
+      });
+    }
+
+    // Wallets, bank accounts and payment handles they sent
+    const paymentAlert = await this.detectPaymentIdentifiers(conversation);
+    if (paymentAlert) {
+      alerts.push(paymentAlert);
+    }
+
     // Scammer detection
     const scammerAlert = await this.detectScammer(conversation);
     if (scammerAlert) {
@@ -286,10 +291,10 @@ class SafetyEngine {
       const text = message.text.toLowerCase();
       
       // Check for pressure phrases
-      for (const tactic of this.pressureTactics) {
-        if (text.includes(tactic.toLowerCase())) {
+      for (const rule of safetyRules.select(['pressure'])) {
+        if (matchRule(rule, message.text)) {
           tactics.push({
-            type: tactic,
+            type: rule.title,
             message: message.text,
             timestamp: message.timestamp
           });
@@ -313,36 +318,15 @@ class SafetyEngine {
     const requests: Array<{request: string, severity: 'low' | 'medium' | 'high', timestamp: number}> = [];
     
     for (const message of messages) {
-      const text = message.text.toLowerCase();
-      
-      // High severity
-      for (const pattern of this.dangerousPatterns) {
-        if (pattern.test(text)) {
+      for (const rule of safetyRules.select(INAPPROPRIATE_REQUEST_CATEGORIES)) {
+        if (matchRule(rule, message.text)) {
           requests.push({
             request: message.text,
-            severity: 'high',
+            severity: rule.severity === 'critical' ? 'high' : rule.severity,
             timestamp: message.timestamp
           });
         }
       }
-      
-      // Medium severity
-      if (text.includes('personal info') || text.includes('home address') || text.includes('where do you live')) {
-        requests.push({
-          request: message.text,
-          severity: 'medium',
-          timestamp: message.timestamp
-        });
-      }
-      
-      // Low severity
-      if (text.includes('what\'s your number') && message.timestamp < Date.now() - (24 * 60 * 60 * 1000)) {
-        requests.push({
-          request: message.text,
-          severity: 'low',
-          timestamp: message.timestamp
-        });
-      }
     }
     
     return requests;
@@ -353,6 +337,10 @@ class SafetyEngine {
     timeline_inconsistencies: string[];
     fact_contradictions: string[];
   }> {
+    if (!this.aiClient) {
+      return { story_changes: [], timeline_inconsistencies: [], fact_contradictions: [] };
+    }
+
     // Use AI to detect inconsistencies
     const conversationText = messages.map(m => m.text).join('\n');
     
@@ -373,9 +361,8 @@ class SafetyEngine {
     }`;
 
     try {
-      const model = this.genAI.getGenerativeModel({ model: "gemini-1.5-flash" });
-      const response = await model.generateContent(consistencyPrompt);
-      const result = JSON.parse(response.response.text());
+      const response = await this.aiClient.generateContent(consistencyPrompt);
+      const result = JSON.parse(response.text);
       return result;
     } catch (error) {
       console.error('Error analyzing consistency:', error);
@@ -387,6 +374,62 @@ class SafetyEngine {
     }
   }
 
+  // Checked against everything stored for the person, so a claim made on
+  // another app, or in a message since purged, still counts
+  private async findClaimedFactContradictions(conversation: Conversation): Promise<FactContradiction[]> {
+    const stored =
+      conversation.contact_id && databaseManager.isUnlocked()
+        ? await databaseManager.getClaimedFacts(conversation.contact_id)
+        : [];
+    return findFactContradictions(mergeClaimedFacts(stored, extractClaimedFacts(conversation)));
+  }
+
+  // Payment details are where every money scam ends up, and the same wallet
+  // coming from two different people is a scam ring, not a coincidence
+  private async detectPaymentIdentifiers(conversation: Conversation): Promise<SafetyAlert | null> {
+    const identifiers = extractFinancialIdentifiers(conversation);
+    if (identifiers.length === 0) return null;
+
+    const sightings = databaseManager.isUnlocked()
+      ? await databaseManager.getFinancialIdentifierSightings(identifiers, {
+          contactId: conversation.contact_id,
+          conversationId: conversation.id
+        })
+      : [];
+    const kinds = Array.from(new Set(identifiers.map(identifier => FINANCIAL_IDENTIFIER_LABELS[identifier.kind])));
+
+    return {
+      id: `safety_payment_${Date.now()}`,
+      conversation_id: conversation.id,
+      severity: 'critical',
+      type: 'scammer',
+      description:
+        sightings.length > 0
+          ? `They sent payment details (${kinds.join(', ')}) that someone else has sent you too`
+          : `They sent payment details: ${kinds.join(', ')}`,
+      evidence: [
+        ...identifiers.map(
+          identifier =>
+            `${FINANCIAL_IDENTIFIER_LABELS[identifier.kind]}: ${shortenIdentifier(identifier.value)}${
+              identifier.validated ? ' (checksum valid)' : ''
+            }`
+        ),
+        ...sightings.map(
+          sighting =>
+            `The same ${FINANCIAL_IDENTIFIER_LABELS[sighting.kind]} (${shortenIdentifier(sighting.value)}) was sent by ${
+              sighting.contact_name
+            } on ${sighting.platform}, ${new Date(sighting.timestamp).toLocaleDateString()}`
+        )
+      ],
+      recommended_action:
+        sightings.length > 0
+          ? 'Do not pay. The same account is being used on more than one person, so report both profiles to the apps.'
+          : 'Do not send money, crypto or gift card codes to someone you have not met. Report the profile if they keep asking.',
+      confidence: sightings.length > 0 || identifiers.some(identifier => identifier.validated) ? 0.95 : 0.85,
+      timestamp: Date.now()
+    };
+  }
+
   private extractVerifiedInfo(messages: any[]): string[] {
     const verified: string[] = [];
     
@@ -410,20 +453,21 @@ class SafetyEngine {
 
   private async detectScammer(conversation: Conversation): Promise<SafetyAlert | null> {
     const contactMessages = conversation.messages.filter(m => m.sender === 'contact');
-    const conversationText = contactMessages.map(m => m.text).join(' ').toLowerCase();
+    const conversationText = contactMessages.map(m => m.text).join(' ');
     
-    // Check for common scammer keywords
-    for (const keyword of this.scammerKeywords) {
-      if (conversationText.includes(keyword.toLowerCase())) {
+    // Check for common scammer stories
+    for (const rule of safetyRules.select(['romance_scam', 'investment_scam'])) {
+      const match = matchRule(rule, conversationText);
+      if (match) {
         return {
           id: `scammer_${Date.now()}`,
           conversation_id: conversation.id,
           severity: 'high',
           type: 'scammer',
-          description: `Potential scammer detected - mentions "${keyword}"`,
-          evidence: [`Uses scammer keyword: ${keyword}`],
-          recommended_action: 'Be extremely cautious. This may be a romance scammer.',
-          confidence: 0.8,
+          description: `Potential scammer detected - mentions "${match}"`,
+          evidence: [`${rule.title}: ${match}`],
+          recommended_action: rule.recommendation,
+          confidence: rule.confidence,
           timestamp: Date.now()
         };
       }
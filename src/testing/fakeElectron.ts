@@ -0,0 +1,28 @@
+import * as os from 'os';
+
+/**
+ * Stands in for Electron's main-process API so modules that import it run
+ * under plain Node. Import it before the module under test; tests flip
+ * `keychainAvailable` to try both lock schemes.
+ */
+export const fakeElectron = {
+  keychainAvailable: true,
+  app: {
+    whenReady: () => Promise.resolve(),
+    getPath: () => os.tmpdir()
+  },
+  safeStorage: {
+    isEncryptionAvailable: () => fakeElectron.keychainAvailable,
+    getSelectedStorageBackend: () => 'gnome_libsecret',
+    encryptString: (text: string) => Buffer.from(`sealed:${text}`),
+    decryptString: (sealed: Buffer) => sealed.toString().replace(/^sealed:/, '')
+  }
+};
+
+const electronPath = require.resolve('electron');
+require.cache[electronPath] = {
+  id: electronPath,
+  filename: electronPath,
+  loaded: true,
+  exports: fakeElectron
+} as unknown as NodeJS.Module;
@@ -1,3 +1,24 @@
+// What a photo's EXIF block gives away about where, when and with what it
+// was taken; fields are missing when the photo doesn't record them
+export interface PhotoMetadata {
+  latitude?: number;
+  longitude?: number;
+  takenAt?: string;
+  camera?: string;
+}
+
+const EXIF_TAGS = {
+  make: 0x010f,
+  model: 0x0110,
+  exifIfd: 0x8769,
+  gpsIfd: 0x8825,
+  dateTimeOriginal: 0x9003,
+  gpsLatitudeRef: 0x0001,
+  gpsLatitude: 0x0002,
+  gpsLongitudeRef: 0x0003,
+  gpsLongitude: 0x0004
+};
+
 // Safe image processing without Sharp dependency
 export class SafeImageProcessor {
   static async processImageSafely(imageBuffer: Buffer): Promise<{ width: number, height: number, format: string }> {
@@ -53,6 +74,96 @@ export class SafeImageProcessor {
     };
   }
   
+  /**
+   * Reads location, time and camera from a JPEG's EXIF block. Anything
+   * unreadable (other formats, truncated or odd EXIF) gives an empty result
+   * rather than an error.
+   */
+  static readPhotoMetadata(buffer: Buffer): PhotoMetadata {
+    try {
+      if (buffer.length < 4 || buffer[0] !== 0xFF || buffer[1] !== 0xD8) return {};
+
+      // Walk the JPEG segments up to the image data, looking for APP1 "Exif"
+      let offset = 2;
+      while (offset + 4 <= buffer.length && buffer[offset] === 0xFF) {
+        const marker = buffer[offset + 1];
+        if (marker === 0xDA || marker === 0xD9) break;
+        const size = buffer.readUInt16BE(offset + 2);
+        if (marker === 0xE1 && buffer.toString('latin1', offset + 4, offset + 10) === 'Exif\0\0') {
+          return this.readExif(buffer.subarray(offset + 10, offset + 2 + size));
+        }
+        offset += 2 + size;
+      }
+      return {};
+    } catch (error) {
+      console.warn('Could not read photo metadata:', error);
+      return {};
+    }
+  }
+
+  private static readExif(tiff: Buffer): PhotoMetadata {
+    const littleEndian = tiff.toString('latin1', 0, 2) === 'II';
+    const u16 = (at: number) => (littleEndian ? tiff.readUInt16LE(at) : tiff.readUInt16BE(at));
+    const u32 = (at: number) => (littleEndian ? tiff.readUInt32LE(at) : tiff.readUInt32BE(at));
+
+    // Tag -> position of its 12-byte directory entry
+    const readIfd = (at: number): Map<number, number> => {
+      const entries = new Map<number, number>();
+      const count = u16(at);
+      for (let i = 0; i < count; i++) {
+        const entry = at + 2 + i * 12;
+        entries.set(u16(entry), entry);
+      }
+      return entries;
+    };
+    const ascii = (entry?: number): string | undefined => {
+      if (entry === undefined) return undefined;
+      const length = u32(entry + 4);
+      const start = length <= 4 ? entry + 8 : u32(entry + 8);
+      return tiff.toString('latin1', start, start + length).replace(/\0+$/, '').trim() || undefined;
+    };
+    const rationals = (entry?: number): number[] => {
+      if (entry === undefined) return [];
+      const start = u32(entry + 8);
+      const values: number[] = [];
+      for (let i = 0; i < u32(entry + 4); i++) {
+        const denominator = u32(start + i * 8 + 4);
+        values.push(denominator ? u32(start + i * 8) / denominator : 0);
+      }
+      return values;
+    };
+    const degrees = (parts: number[], ref?: string): number | undefined => {
+      if (parts.length < 3) return undefined;
+      const value = parts[0] + parts[1] / 60 + parts[2] / 3600;
+      return ref === 'S' || ref === 'W' ? -value : value;
+    };
+
+    const metadata: PhotoMetadata = {};
+    const ifd0 = readIfd(u32(4));
+
+    const camera = [ascii(ifd0.get(EXIF_TAGS.make)), ascii(ifd0.get(EXIF_TAGS.model))].filter(Boolean).join(' ');
+    if (camera) metadata.camera = camera;
+
+    const exifIfd = ifd0.get(EXIF_TAGS.exifIfd);
+    if (exifIfd !== undefined) {
+      const takenAt = ascii(readIfd(u32(exifIfd + 8)).get(EXIF_TAGS.dateTimeOriginal));
+      if (takenAt) metadata.takenAt = takenAt;
+    }
+
+    const gpsIfd = ifd0.get(EXIF_TAGS.gpsIfd);
+    if (gpsIfd !== undefined) {
+      const gps = readIfd(u32(gpsIfd + 8));
+      const latitude = degrees(rationals(gps.get(EXIF_TAGS.gpsLatitude)), ascii(gps.get(EXIF_TAGS.gpsLatitudeRef)));
+      const longitude = degrees(rationals(gps.get(EXIF_TAGS.gpsLongitude)), ascii(gps.get(EXIF_TAGS.gpsLongitudeRef)));
+      if (latitude !== undefined && longitude !== undefined) {
+        metadata.latitude = latitude;
+        metadata.longitude = longitude;
+      }
+    }
+
+    return metadata;
+  }
+
   static async isImageValid(imageBuffer: Buffer): Promise<boolean> {
     try {
       const info = await this.processImageSafely(imageBuffer);
@@ -1,5 +1,6 @@
 import * as fs from 'fs';
 import * as path from 'path';
+import { matchRule, safetyRules, SafetyRuleCategory } from '../safety/rules';
 
 export interface BehavioralPattern {
   pattern_type: 'scammer' | 'catfish' | 'player' | 'genuine' | 'bot' | 'time_waster';
@@ -52,54 +53,22 @@ export interface ScammerProfile {
   countermeasures: string[];
 }
 
+// The rule categories behind each scammer type
+const SCAMMER_RULE_CATEGORIES: Record<string, SafetyRuleCategory[]> = {
+  romance_scammer: ['romance_scam', 'love_bombing', 'financial_request'],
+  investment_scammer: ['investment_scam'],
+  sextortion: ['sextortion'],
+  catfish: ['catfish_evasion']
+};
+
 class BehavioralAnalysisEngine {
-  private scammerPatterns: Map<string, RegExp[]> = new Map();
   private timingPatterns: Map<string, number[]> = new Map();
   private languagePatterns: Map<string, string[]> = new Map();
 
   constructor() {
-    this.loadScammerPatterns();
     this.loadLanguagePatterns();
   }
 
-  private loadScammerPatterns(): void {
-    // Romance Scammer Patterns
-    this.scammerPatterns.set('romance_scammer', [
-      /\b(deployed|overseas|military|oil rig|engineer abroad|UN peacekeeping|doctor abroad)\b/i,
-      /\b(deceased (wife|husband)|widowed|lost my (wife|husband))\b/i,
-      /\b(trust fund|inheritance|gold|diamonds|contract|business trip)\b/i,
-      /\b(customs|clearance|fees|taxes|legal documents|lawyer)\b/i,
-      /\b(God brought us together|destiny|fate|meant to be|soul mate)\b/i,
-      /\b(Western Union|MoneyGram|gift cards|iTunes|Steam|crypto|bitcoin)\b/i,
-      /\b(emergency|urgent|hospital|sick|accident|stranded)\b/i,
-      /\b(flight ticket|visa|money transfer|bank transfer)\b/i
-    ]);
-
-    // Investment Scammer Patterns
-    this.scammerPatterns.set('investment_scammer', [
-      /\b(guaranteed profit|risk-free|insider information|limited time)\b/i,
-      /\b(cryptocurrency|forex|binary options|stock tips)\b/i,
-      /\b(minimum investment|deposit|funding|trading account)\b/i,
-      /\b(withdraw|profits|earnings|returns|commission)\b/i
-    ]);
-
-    // Sextortion Patterns
-    this.scammerPatterns.set('sextortion', [
-      /\b(video call|cam|webcam|Skype|WhatsApp video)\b/i,
-      /\b(naked|nude|intimate|private|sexy|recording)\b/i,
-      /\b(blackmail|expose|share|send to friends|social media)\b/i,
-      /\b(pay|money|silence|delete)\b/i
-    ]);
-
-    // Catfish Patterns
-    this.scammerPatterns.set('catfish', [
-      /\b(can't meet|always busy|traveling|work commitments)\b/i,
-      /\b(camera broken|phone broken|no video|bad connection)\b/i,
-      /\b(shy|nervous|not ready|give me time)\b/i,
-      /\b(trust issues|bad relationship|need to know you better)\b/i
-    ]);
-  }
-
   private loadLanguagePatterns(): void {
     // Common non-native English patterns
     this.languagePatterns.set('non_native_indicators', [
@@ -336,19 +305,20 @@ class BehavioralAnalysisEngine {
     const allText = matchMessages.join(' ').toLowerCase();
 
     // Check each scammer pattern type
-    for (const [scammerType, patterns] of this.scammerPatterns.entries()) {
+    for (const [scammerType, categories] of Object.entries(SCAMMER_RULE_CATEGORIES)) {
+      const rules = safetyRules.select(categories);
       let matchCount = 0;
       const detectedPatterns: string[] = [];
 
-      for (const pattern of patterns) {
-        if (pattern.test(allText)) {
+      for (const rule of rules) {
+        if (matchRule(rule, allText)) {
           matchCount++;
-          detectedPatterns.push(pattern.source);
+          detectedPatterns.push(rule.title);
         }
       }
 
       if (matchCount > 0) {
-        const confidence = Math.min(95, (matchCount / patterns.length) * 100 + 20);
+        const confidence = Math.min(95, (matchCount / rules.length) * 100 + 20);
         
         analysis.behavioral_red_flags.push({
           pattern_type: scammerType as any,
@@ -0,0 +1,503 @@
+import { promises as fs } from 'fs';
+import * as crypto from 'crypto';
+import * as path from 'path';
+import {
+  BehavioralAnalysisEngine,
+  BehavioralPattern,
+  ConversationAnalysis,
+  ScammerProfile
+} from './behavioralAnalysisEngine';
+import { SafetyEngine, ProfileVerification } from '../safety/safetyEngine';
+import type { UniversalAI } from '../ai/universalAI';
+import { SafeImageProcessor } from '../utils/safeImageProcessor';
+
+export type VerificationRiskLevel = 'very_low' | 'low' | 'medium' | 'high' | 'critical';
+
+export interface VerificationMessage {
+  sender: 'user' | 'match';
+  content: string;
+  timestamp: Date | string | number;
+  read_receipt?: boolean;
+}
+
+export interface VerificationRequest {
+  photos?: string[];
+  profile_urls?: string[];
+  conversation_messages?: VerificationMessage[];
+  profile_data?: {
+    name?: string;
+    age?: number;
+    location?: string;
+    profession?: string;
+    bio?: string;
+  };
+  additional_context?: {
+    platform: string;
+    match_duration_days: number;
+    video_call_attempted: boolean;
+    phone_call_attempted: boolean;
+    meeting_attempted: boolean;
+  };
+}
+
+export interface PhotoAnalysis {
+  catfish_risk: number; // 0-100
+  face_consistency: number; // 0-100
+  deepfake_probability: number; // 0-100
+  professional_likelihood: number; // 0-100
+  reverse_search_hits: number;
+  photos_readable: number;
+  red_flags: string[];
+  recommendation: string;
+}
+
+export interface AdvancedConversationAnalysis {
+  authenticity_score: number;
+  scammer_probability: number;
+  bot_probability: number;
+  emotional_manipulation: boolean;
+  language_authenticity: number;
+  scammer_type: string | null;
+  red_flags: BehavioralPattern[];
+  immediate_threats: string[];
+  safety_recommendations: string[];
+  next_likely_moves: string[];
+  countermeasures: string[];
+}
+
+export interface ComprehensiveVerificationResult {
+  overall_trust_score: number; // 0-100
+  risk_level: VerificationRiskLevel;
+  facial_verification: {
+    consistency_across_photos: number;
+    deepfake_probability: number;
+    professional_model_likelihood: number;
+    age_progression_natural: boolean;
+  };
+  digital_footprint: {
+    social_media_authenticity: number;
+    web_presence_depth: number;
+    cross_platform_consistency: number;
+    friend_network_quality: number;
+  };
+  conversation_intelligence: {
+    response_pattern_human: number;
+    language_authenticity: number;
+    emotional_manipulation_detected: boolean;
+    scam_pattern_matches: string[];
+  };
+  likelihood_assessments: {
+    catfish_probability: number;
+    scammer_probability: number;
+    bot_probability: number;
+    genuine_person_probability: number;
+  };
+  profile_verification: ProfileVerification;
+  critical_warnings: string[];
+  immediate_threats: string[];
+  safety_recommendations: string[];
+  verification_steps: string[];
+  conversation_recommendations: string[];
+  protection_measures: string[];
+  generated_at: number;
+}
+
+export interface RealtimeSafetyResult {
+  is_safe: boolean;
+  trust_score: number;
+  risk_level: VerificationRiskLevel;
+  critical_warnings: string[];
+  immediate_threats: string[];
+  verification_needed: string[];
+  protection_measures: string[];
+  should_continue: boolean;
+  emergency_stop: boolean;
+}
+
+// Known social platforms we can at least recognise from a pasted link
+const SOCIAL_DOMAINS = [
+  'instagram.com', 'facebook.com', 'linkedin.com', 'twitter.com', 'x.com',
+  'tiktok.com', 'snapchat.com', 'github.com', 'youtube.com', 'spotify.com'
+];
+
+const EDITING_SOFTWARE_MARKERS = ['Photoshop', 'Lightroom', 'FaceApp', 'Facetune', 'GIMP'];
+const PRO_CAMERA_MARKERS = ['Canon', 'NIKON', 'SONY', 'FUJIFILM', 'Hasselblad', 'Leica'];
+
+class VerificationPipeline {
+  private behavioralEngine: BehavioralAnalysisEngine;
+  private safetyEngine: SafetyEngine;
+
+  constructor(safetyEngine: SafetyEngine) {
+    this.behavioralEngine = new BehavioralAnalysisEngine();
+    this.safetyEngine = safetyEngine;
+  }
+
+  // Every check runs offline; a client adds the AI consistency check
+  setAIClient(aiClient?: UniversalAI): void {
+    this.safetyEngine.setAIClient(aiClient);
+  }
+
+  async verifyProfileComprehensive(request: VerificationRequest): Promise<ComprehensiveVerificationResult> {
+    const messages = this.normalizeMessages(request.conversation_messages || []);
+    const photos = request.photos || [];
+    const profileUrls = (request.profile_urls || []).filter(url => url.trim().length > 0);
+    const context = request.additional_context;
+
+    const photoAnalysis = photos.length > 0 ? await this.analyzePhotos(photos) : null;
+    const conversation = messages.length > 0 ? await this.analyzeConversation(messages) : null;
+
+    const profileVerification = await this.safetyEngine.verifyProfile({
+      platform: context?.platform,
+      name: request.profile_data?.name,
+      age: request.profile_data?.age ? String(request.profile_data.age) : undefined,
+      location: request.profile_data?.location,
+      bio: request.profile_data?.bio,
+      occupation: request.profile_data?.profession,
+      photos
+    });
+
+    const digitalFootprint = this.assessDigitalFootprint(profileUrls, request.profile_data?.name);
+
+    const criticalWarnings: string[] = [];
+    const immediateThreats: string[] = [...(conversation?.immediate_threats || [])];
+
+    if (photoAnalysis) {
+      criticalWarnings.push(...photoAnalysis.red_flags);
+    }
+    criticalWarnings.push(...profileVerification.red_flags);
+
+    // Avoidance of any real-time contact after a long match is a classic catfish signal
+    if (context && context.match_duration_days >= 14 &&
+        !context.video_call_attempted && !context.phone_call_attempted && !context.meeting_attempted) {
+      criticalWarnings.push(`No call, video or meeting after ${context.match_duration_days} days of matching`);
+    }
+
+    const likelihood = this.assessLikelihoods(photoAnalysis, conversation, profileVerification, context);
+    const overallTrustScore = this.calculateOverallTrust(likelihood, profileVerification, digitalFootprint);
+    const riskLevel = this.toRiskLevel(overallTrustScore, immediateThreats.length > 0);
+
+    return {
+      overall_trust_score: overallTrustScore,
+      risk_level: riskLevel,
+      facial_verification: {
+        consistency_across_photos: photoAnalysis?.face_consistency ?? 50,
+        deepfake_probability: photoAnalysis?.deepfake_probability ?? 0,
+        professional_model_likelihood: photoAnalysis?.professional_likelihood ?? 0,
+        age_progression_natural: true
+      },
+      digital_footprint: digitalFootprint,
+      conversation_intelligence: {
+        response_pattern_human: conversation ? 100 - conversation.bot_probability : 50,
+        language_authenticity: conversation?.language_authenticity ?? 50,
+        emotional_manipulation_detected: conversation?.emotional_manipulation ?? false,
+        scam_pattern_matches: conversation
+          ? conversation.red_flags.map(flag => `${flag.pattern_type} (${Math.round(flag.confidence)}%)`)
+          : []
+      },
+      likelihood_assessments: likelihood,
+      profile_verification: profileVerification,
+      critical_warnings: Array.from(new Set(criticalWarnings)),
+      immediate_threats: Array.from(new Set(immediateThreats)),
+      safety_recommendations: this.buildSafetyRecommendations(riskLevel, conversation),
+      verification_steps: this.buildVerificationSteps(context, photoAnalysis, profileUrls.length),
+      conversation_recommendations: conversation?.countermeasures.length
+        ? conversation.countermeasures
+        : ['Ask specific questions about details they have shared', 'Suggest a short video call'],
+      protection_measures: [
+        'Never send money, gift cards or crypto to someone you have not met',
+        'Keep conversations on the dating platform until identity is verified',
+        'Meet in a public place and tell a friend your plans'
+      ],
+      generated_at: Date.now()
+    };
+  }
+
+  async analyzePhotos(photoPaths: string[]): Promise<PhotoAnalysis> {
+    const redFlags: string[] = [];
+    const hashes = new Map<string, string>();
+    let readable = 0;
+    let edited = 0;
+    let professional = 0;
+    let missingMetadata = 0;
+
+    for (const photoPath of photoPaths) {
+      let buffer: Buffer;
+      try {
+        buffer = await fs.readFile(photoPath);
+      } catch {
+        redFlags.push(`Could not read photo: ${path.basename(photoPath)}`);
+        continue;
+      }
+
+      if (!(await SafeImageProcessor.isImageValid(buffer))) {
+        redFlags.push(`Unrecognised image format: ${path.basename(photoPath)}`);
+        continue;
+      }
+      readable++;
+
+      const digest = crypto.createHash('sha256').update(buffer).digest('hex');
+      const duplicateOf = hashes.get(digest);
+      if (duplicateOf) {
+        redFlags.push(`${path.basename(photoPath)} is an exact copy of ${duplicateOf}`);
+      } else {
+        hashes.set(digest, path.basename(photoPath));
+      }
+
+      // Only the first 64KB holds EXIF/XMP headers, which is all we inspect
+      const header = buffer.subarray(0, 64 * 1024).toString('latin1');
+      if (EDITING_SOFTWARE_MARKERS.some(marker => header.includes(marker))) edited++;
+      if (PRO_CAMERA_MARKERS.some(marker => header.includes(marker))) professional++;
+      if (!header.includes('Exif')) missingMetadata++;
+    }
+
+    if (edited > 0) {
+      redFlags.push(`${edited} photo(s) show signs of editing or face filters`);
+    }
+    if (readable > 1 && missingMetadata === readable) {
+      redFlags.push('All photos have stripped metadata - common for images saved from the web');
+    }
+
+    const professionalLikelihood = readable > 0 ? Math.round((professional / readable) * 100) : 0;
+    const editedRatio = readable > 0 ? edited / readable : 0;
+    const strippedRatio = readable > 0 ? missingMetadata / readable : 0;
+    const duplicates = readable - hashes.size;
+
+    const catfishRisk = Math.min(100, Math.round(
+      professionalLikelihood * 0.35 + editedRatio * 30 + strippedRatio * 20 + duplicates * 10
+    ));
+
+    return {
+      catfish_risk: catfishRisk,
+      // Without a face model we can only say whether the set looks like one coherent camera roll
+      face_consistency: readable > 0 ? Math.round(100 - strippedRatio * 30 - editedRatio * 30) : 50,
+      deepfake_probability: Math.round(editedRatio * 40),
+      professional_likelihood: professionalLikelihood,
+      reverse_search_hits: 0,
+      photos_readable: readable,
+      red_flags: redFlags,
+      recommendation: catfishRisk >= 60
+        ? 'High photo risk - run a reverse image search and ask for a live video call'
+        : catfishRisk >= 30
+          ? 'Some photo concerns - ask for a casual, recent photo or a quick video call'
+          : 'No obvious photo concerns found offline - a reverse image search is still recommended'
+    };
+  }
+
+  async analyzeConversation(messages: VerificationMessage[]): Promise<AdvancedConversationAnalysis> {
+    const normalized = this.normalizeMessages(messages);
+    const analysis: ConversationAnalysis = await this.behavioralEngine.analyzeConversation(normalized);
+    const scammerProfile: ScammerProfile | null = await this.behavioralEngine.detectScammerType(normalized);
+
+    const timing = analysis.message_patterns.response_time_analysis;
+    const language = analysis.message_patterns.language_analysis;
+    const emotional = analysis.message_patterns.emotional_patterns;
+
+    const scammerFlags = analysis.behavioral_red_flags.filter(flag => flag.pattern_type !== 'catfish');
+    const scammerProbability = Math.round(Math.max(
+      scammerProfile?.confidence_level || 0,
+      ...scammerFlags.map(flag => flag.confidence),
+      100 - analysis.authenticity_score - 20,
+      0
+    ));
+
+    const botProbability = Math.round(Math.min(100,
+      (timing.suspicious_timing ? 30 : 0) +
+      language.copy_paste_likelihood * 0.4 +
+      language.script_following_probability * 0.3
+    ));
+
+    const immediateThreats = analysis.behavioral_red_flags
+      .filter(flag => flag.severity === 'critical')
+      .reduce((threats: string[], flag) => threats.concat(flag.indicators.slice(0, 2)), []);
+
+    return {
+      authenticity_score: Math.round(analysis.authenticity_score),
+      scammer_probability: Math.min(100, scammerProbability),
+      bot_probability: botProbability,
+      emotional_manipulation: emotional.love_bombing_detected || emotional.emotional_manipulation_score >= 30,
+      language_authenticity: Math.round((language.native_speaker_probability + (100 - language.copy_paste_likelihood)) / 2),
+      scammer_type: scammerProfile?.scammer_type || null,
+      red_flags: analysis.behavioral_red_flags,
+      immediate_threats: immediateThreats,
+      safety_recommendations: this.buildSafetyRecommendations(
+        this.fromBehavioralRisk(analysis.risk_assessment),
+        null
+      ),
+      next_likely_moves: scammerProfile?.next_likely_moves || [],
+      countermeasures: scammerProfile?.countermeasures || []
+    };
+  }
+
+  async safetyCheckRealtime(data: {
+    profile?: any;
+    social_links?: string[];
+    photos?: string[];
+    context?: any;
+  }): Promise<RealtimeSafetyResult> {
+    const result = await this.verifyProfileComprehensive({
+      photos: data.photos,
+      profile_urls: data.social_links,
+      profile_data: data.profile,
+      conversation_messages: data.context?.messages,
+      additional_context: data.context?.platform ? data.context : undefined
+    });
+
+    const emergencyStop = result.risk_level === 'critical' && result.immediate_threats.length > 0;
+
+    return {
+      is_safe: result.risk_level === 'very_low' || result.risk_level === 'low',
+      trust_score: result.overall_trust_score,
+      risk_level: result.risk_level,
+      critical_warnings: result.critical_warnings,
+      immediate_threats: result.immediate_threats,
+      verification_needed: result.verification_steps,
+      protection_measures: result.protection_measures,
+      should_continue: result.risk_level !== 'high' && result.risk_level !== 'critical',
+      emergency_stop: emergencyStop
+    };
+  }
+
+  private normalizeMessages(messages: VerificationMessage[]): Array<{
+    sender: 'user' | 'match';
+    content: string;
+    timestamp: Date;
+    read_receipt?: boolean;
+  }> {
+    return messages
+      .filter(message => message && typeof message.content === 'string' && message.content.trim().length > 0)
+      .map(message => {
+        const timestamp = message.timestamp instanceof Date ? message.timestamp : new Date(message.timestamp);
+        return {
+          sender: message.sender === 'user' ? 'user' as const : 'match' as const,
+          content: message.content,
+          timestamp: isNaN(timestamp.getTime()) ? new Date() : timestamp,
+          read_receipt: message.read_receipt
+        };
+      });
+  }
+
+  private assessDigitalFootprint(urls: string[], name?: string): ComprehensiveVerificationResult['digital_footprint'] {
+    const hosts = urls
+      .map(url => {
+        try {
+          return new URL(url.startsWith('http') ? url : `https://${url}`).hostname.replace(/^www\./, '');
+        } catch {
+          return null;
+        }
+      })
+      .filter((host): host is string => !!host);
+
+    const socialHosts = new Set(hosts.filter(host => SOCIAL_DOMAINS.some(domain => host.endsWith(domain))));
+    const handles = urls
+      .map(url => url.replace(/\/+$/, '').split('/').pop()?.toLowerCase() || '')
+      .filter(handle => handle.length > 2);
+    const uniqueHandles = new Set(handles);
+    const nameToken = name?.split(/\s+/)[0]?.toLowerCase();
+
+    const crossPlatformConsistency = handles.length > 1
+      ? Math.round((1 - (uniqueHandles.size - 1) / handles.length) * 100)
+      : handles.length === 1 ? 60 : 0;
+
+    return {
+      social_media_authenticity: socialHosts.size === 0 ? 0 : Math.min(100, 40 + socialHosts.size * 20),
+      web_presence_depth: Math.min(100, hosts.length * 25),
+      cross_platform_consistency: nameToken && handles.some(handle => handle.includes(nameToken))
+        ? Math.max(crossPlatformConsistency, 75)
+        : crossPlatformConsistency,
+      // Friend networks cannot be inspected offline
+      friend_network_quality: 0
+    };
+  }
+
+  private assessLikelihoods(
+    photos: PhotoAnalysis | null,
+    conversation: AdvancedConversationAnalysis | null,
+    profile: ProfileVerification,
+    context?: VerificationRequest['additional_context']
+  ): ComprehensiveVerificationResult['likelihood_assessments'] {
+    let catfish = photos ? photos.catfish_risk : 30;
+    catfish += (1 - profile.verification_score) * 20;
+    if (conversation?.red_flags.some(flag => flag.pattern_type === 'catfish')) catfish += 20;
+    if (context && !context.video_call_attempted && context.match_duration_days >= 14) catfish += 15;
+
+    const scammer = conversation ? conversation.scammer_probability : 20;
+    const bot = conversation ? conversation.bot_probability : 10;
+    const clampedCatfish = Math.min(100, Math.round(catfish));
+
+    return {
+      catfish_probability: clampedCatfish,
+      scammer_probability: scammer,
+      bot_probability: bot,
+      genuine_person_probability: Math.max(0, 100 - Math.max(clampedCatfish, scammer, bot))
+    };
+  }
+
+  private calculateOverallTrust(
+    likelihood: ComprehensiveVerificationResult['likelihood_assessments'],
+    profile: ProfileVerification,
+    footprint: ComprehensiveVerificationResult['digital_footprint']
+  ): number {
+    const score =
+      likelihood.genuine_person_probability * 0.6 +
+      profile.verification_score * 100 * 0.25 +
+      footprint.social_media_authenticity * 0.15;
+    return Math.max(0, Math.min(100, Math.round(score)));
+  }
+
+  private toRiskLevel(trustScore: number, hasImmediateThreats: boolean): VerificationRiskLevel {
+    if (hasImmediateThreats || trustScore < 20) return 'critical';
+    if (trustScore < 40) return 'high';
+    if (trustScore < 60) return 'medium';
+    if (trustScore < 80) return 'low';
+    return 'very_low';
+  }
+
+  private fromBehavioralRisk(risk: ConversationAnalysis['risk_assessment']): VerificationRiskLevel {
+    return risk === 'very_high' ? 'critical' : risk;
+  }
+
+  private buildSafetyRecommendations(
+    riskLevel: VerificationRiskLevel,
+    conversation: AdvancedConversationAnalysis | null
+  ): string[] {
+    const recommendations: string[] = [];
+
+    switch (riskLevel) {
+      case 'critical':
+        recommendations.push('Stop engaging and report this profile to the platform');
+        recommendations.push('Do not send money, codes, photos or personal documents');
+        break;
+      case 'high':
+        recommendations.push('Insist on a live video call before continuing');
+        recommendations.push('Do not share your address, workplace or financial details');
+        break;
+      case 'medium':
+        recommendations.push('Proceed with caution and verify their identity');
+        break;
+      default:
+        recommendations.push('No major concerns - keep following standard dating safety practices');
+    }
+
+    if (conversation?.emotional_manipulation) {
+      recommendations.push('Their messages escalate emotionally very fast - slow things down');
+    }
+
+    return recommendations;
+  }
+
+  private buildVerificationSteps(
+    context: VerificationRequest['additional_context'] | undefined,
+    photos: PhotoAnalysis | null,
+    linkCount: number
+  ): string[] {
+    const steps: string[] = [];
+    if (!context?.video_call_attempted) steps.push('Request a short live video call');
+    if (photos) steps.push('Run a reverse image search on each profile photo');
+    else steps.push('Add their profile photos to check for edits or duplicates');
+    if (linkCount === 0) steps.push('Ask for a social media profile to cross-check their name and photos');
+    if (!context?.phone_call_attempted) steps.push('Have a phone call before meeting');
+    return steps;
+  }
+}
+
+export { VerificationPipeline };
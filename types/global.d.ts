@@ -133,10 +133,32 @@ interface ElectronAPI {
     }>;
   }>;
   
+  importChatArchive: (
+    filePath?: string,
+    options?: { format?: 'whatsapp' | 'telegram' | 'tinder' | 'hinge' | 'bumble'; selfName?: string }
+  ) => Promise<{
+    success: boolean;
+    format?: 'whatsapp' | 'telegram' | 'tinder' | 'hinge' | 'bumble';
+    imported?: Array<{ id: string; contact: string; platform: string; message_count: number }>;
+    skipped_messages?: number;
+    message: string;
+  }>;
+  
   updateUserPreferences: (preferences: any) => Promise<{ success: boolean; error?: string }>;
   
   // Desktop-specific features
-  captureScreen: () => Promise<{ success: boolean; data?: any; error?: string }>;
+  captureScreen: () => Promise<{ success: boolean; data?: any; width?: number; height?: number; error?: string }>;
+  ocrScreenshot: (options?: {
+    region?: { left: number; top: number; width: number; height: number };
+    imagePath?: string;
+  }) => Promise<{
+    success: boolean;
+    rawText?: string;
+    transcript?: string;
+    turns?: Array<{ speaker: 'user' | 'other'; message: string; timestamp?: Date; speakerName?: string }>;
+    confidence?: number;
+    error?: string;
+  }>;
   toggleAutoLaunch: (enabled: boolean) => Promise<{ success: boolean; enabled?: boolean; error?: string }>;
   saveVerificationReport: (reportData: any) => Promise<{ success: boolean; filePath?: string; cancelled?: boolean; error?: string }>;
   setAppOpacity: (opacity: number) => Promise<{ success: boolean }>;
@@ -146,6 +168,7 @@ interface ElectronAPI {
   onUrlDetected: (callback: (url: string) => void) => void;
   onImageDetected: (callback: (filePath: string) => void) => void;
   onShowSettings: (callback: () => void) => void;
+  onScreenshotCaptured: (callback: (capture: { data: string; width: number; height: number }) => void) => () => void;
 }
 
 declare global {